@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { api, type Endpoint } from '../src/api/contract.ts';
+
+// Writes src/api/client.ts: one typed function per endpoint in the contract, named after it. JSON endpoints return
+// the checked response; downloads and event streams get a function building their URL instead.
+
+export const CLIENT_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'src', 'api', 'client.ts');
+
+const pathParams = (endpoint: Endpoint) => [...endpoint.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+function renderFunction(name: string, endpoint: Endpoint) {
+  const params = pathParams(endpoint);
+  const args = params.map(param => `${param}: PathParam`);
+  const options: string[] = [];
+  if (endpoint.upload) {
+    args.push('body: Blob');
+    options.push('body');
+  } else if (endpoint.body) {
+    args.push(`body: RequestBody<Api['${name}']>`);
+    options.push('body');
+  }
+  if (endpoint.query) {
+    args.push(`query: RequestQuery<Api['${name}']> = {}`);
+    options.push('query');
+  }
+
+  const paramObject = params.length ? `{ ${params.join(', ')} }` : '{}';
+  if (typeof endpoint.response === 'string') {
+    const query = endpoint.query ? ', query' : '';
+    return `export const ${name}Url = (${args.join(', ')}) => endpointUrl(api.${name}, ${paramObject}${query});`;
+  }
+  const rest = options.length ? `, { ${options.join(', ')} }` : '';
+  const call = params.length || options.length ? `request(api.${name}, ${paramObject}${rest})` : `request(api.${name})`;
+  return `export const ${name} = (${args.join(', ')}) => ${call};`;
+}
+
+export function renderApiClient() {
+  return [
+    '// Generated from src/api/contract.ts by scripts/generate-api-client.ts. Do not edit by hand;',
+    '// run `npm run generate:api` after changing the contract.',
+    '',
+    "import { api, type Api, type RequestBody, type RequestQuery } from './contract';",
+    "import { endpointUrl, request, type PathParam } from './request';",
+    '',
+    "export { ApiError, errorMessage } from './request';",
+    '',
+    ...Object.entries(api).map(([name, endpoint]) => renderFunction(name, endpoint)),
+    '',
+  ].join('\n');
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  fs.writeFileSync(CLIENT_PATH, renderApiClient());
+  console.log(`Wrote ${path.relative(process.cwd(), CLIENT_PATH)}`);
+}
@@ -0,0 +1,86 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAccommodations, AccommodationsError } from './accommodations.ts';
+import { startTestServer, registerExaminer, saveAnswers, type TestClient } from './testing.ts';
+
+const MINUTE = 60 * 1000;
+
+const exam = {
+  id: 'ACCOM1',
+  title: 'Accommodated Quiz',
+  durationMinutes: 30,
+  questions: [{ id: 'q1', text: 'Boiling point of water in Celsius?', options: ['90', '100'] }],
+  solutionKey: { q1: 1 },
+  proctoring: { events: ['blur', 'fullscreen_exit', 'copy_paste'], maxViolations: 0, gracePeriodSeconds: 0 },
+};
+
+test('parseAccommodations defaults to standard conditions and checks each setting', () => {
+  assert.deepEqual(parseAccommodations(undefined), { timeMultiplier: 1, breakMinutes: 0, proctoringExempt: false });
+  assert.throws(() => parseAccommodations({ timeMultiplier: 0.5, breakMinutes: 0, proctoringExempt: false }), /time multiplier/);
+  assert.throws(() => parseAccommodations({ timeMultiplier: 1, breakMinutes: 2.5, proctoringExempt: false }), AccommodationsError);
+  assert.throws(() => parseAccommodations({ timeMultiplier: 1, breakMinutes: 0, proctoringExempt: 'yes' }), /exemption/);
+});
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+// Enrols one student with the given accommodations and starts their attempt
+async function startAccommodated(accommodations: Record<string, unknown>) {
+  const [student] = (await client.request(`/api/exams/${exam.id}/roster`, { method: 'POST', cookie, body: { csv: 'S001,Ada Lovelace,12A' } })).body;
+  const updated = await client.request(`/api/roster/${student.id}/accommodations`, { method: 'PUT', cookie, body: { accommodations } });
+  assert.equal(updated.status, 200);
+  const started = await client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, accessCode: student.accessCode } });
+  assert.equal(started.status, 201);
+  return started.body;
+}
+
+test('a time multiplier lengthens the attempt and an exemption stops focus loss counting', async () => {
+  const session = await startAccommodated({ timeMultiplier: 1.5, breakMinutes: 0, proctoringExempt: true });
+  assert.equal(session.deadline - session.startedAt, 45 * MINUTE);
+  assert.deepEqual(session.exam.proctoring.events, ['copy_paste']);
+
+  const events = [
+    { id: 'e1', type: 'blur', occurredAt: Date.now() },
+    { id: 'e2', type: 'fullscreen_exit', occurredAt: Date.now() },
+  ];
+  const logged = await client.request(`/api/attempts/${session.attemptId}/events`, { method: 'POST', body: { events } });
+  assert.deepEqual([logged.body.violationCount, logged.body.terminated], [0, false]);
+
+  const copied = await client.request(`/api/attempts/${session.attemptId}/events`, { method: 'POST', body: { events: [{ id: 'e3', type: 'copy_paste', occurredAt: Date.now() }] } });
+  assert.equal(copied.body.terminated, true);
+});
+
+test('breaks stop the clock up to the allowance and lock the answers meanwhile', async () => {
+  const session = await startAccommodated({ timeMultiplier: 1, breakMinutes: 2, proctoringExempt: false });
+  assert.equal(session.breakRemainingMs, 2 * MINUTE);
+
+  const paused = await client.request(`/api/attempts/${session.attemptId}/break`, { method: 'POST' });
+  assert.ok(paused.body.breakStartedAt);
+  assert.equal((await saveAnswers(client, session.attemptId, { q1: 1 })).status, 409);
+
+  // A five-minute break only earns the two minutes allowed
+  client.db.prepare('UPDATE attempts SET break_started_at = ? WHERE id = ?').run(Date.now() - 5 * MINUTE, session.attemptId);
+  const resumed = await client.request(`/api/attempts/${session.attemptId}/resume`, { method: 'POST' });
+  assert.equal(resumed.body.deadline, session.deadline + 2 * MINUTE);
+  assert.deepEqual([resumed.body.breakStartedAt, resumed.body.breakRemainingMs], [null, 0]);
+
+  assert.equal((await saveAnswers(client, session.attemptId, { q1: 1 })).status, 200);
+  assert.equal((await client.request(`/api/attempts/${session.attemptId}/break`, { method: 'POST' })).status, 409);
+});
+
+test('students without accommodations cannot take breaks', async () => {
+  const session = await startAccommodated({ timeMultiplier: 1, breakMinutes: 0, proctoringExempt: false });
+  assert.equal(session.deadline - session.startedAt, 30 * MINUTE);
+  const paused = await client.request(`/api/attempts/${session.attemptId}/break`, { method: 'POST' });
+  assert.equal(paused.status, 409);
+  assert.match(paused.body.error, /no break time/);
+});
@@ -0,0 +1,75 @@
+import type { DB } from './db.ts';
+import { toStudentExam, type ExamRow } from './exams.ts';
+import type { AttemptRow } from './attempts.ts';
+import type { Accommodations, ProctoringEvent, ProctoringPolicy } from '../src/types.ts';
+
+export class AccommodationsError extends Error {}
+export class BreakError extends Error {}
+
+export const NO_ACCOMMODATIONS: Accommodations = { timeMultiplier: 1, breakMinutes: 0, proctoringExempt: false };
+
+const MAX_TIME_MULTIPLIER = 3;
+const MAX_BREAK_MINUTES = 120;
+
+// What an exempt student may do without it counting; the other events still count for everyone
+const EXEMPT_EVENTS: ProctoringEvent[] = ['blur', 'hidden', 'fullscreen_exit'];
+
+export function parseAccommodations(input: any): Accommodations {
+  if (input === undefined || input === null) return NO_ACCOMMODATIONS;
+  const { timeMultiplier, breakMinutes, proctoringExempt } = input;
+  if (typeof timeMultiplier !== 'number' || !(timeMultiplier >= 1 && timeMultiplier <= MAX_TIME_MULTIPLIER)) {
+    throw new AccommodationsError(`The time multiplier must be between 1 and ${MAX_TIME_MULTIPLIER}`);
+  }
+  if (!Number.isInteger(breakMinutes) || breakMinutes < 0 || breakMinutes > MAX_BREAK_MINUTES) {
+    throw new AccommodationsError(`Break time must be between 0 and ${MAX_BREAK_MINUTES} minutes`);
+  }
+  if (typeof proctoringExempt !== 'boolean') throw new AccommodationsError('The proctoring exemption must be on or off');
+  return { timeMultiplier, breakMinutes, proctoringExempt };
+}
+
+export function getAccommodations(attempt: AttemptRow): Accommodations {
+  return attempt.accommodations ? JSON.parse(attempt.accommodations) : NO_ACCOMMODATIONS;
+}
+
+// The extra share of the exam's duration; it is granted on top of the closing time like any other extension
+export function accommodatedExtraMs(exam: ExamRow, accommodations: Accommodations) {
+  return Math.round(exam.duration_minutes * 60 * 1000 * (accommodations.timeMultiplier - 1));
+}
+
+// The policy as it applies to this attempt, which is also what the student's page enforces
+export function attemptProctoringPolicy(attempt: AttemptRow, exam: ExamRow): ProctoringPolicy {
+  const policy = toStudentExam(exam).proctoring!;
+  if (!getAccommodations(attempt).proctoringExempt) return policy;
+  return { ...policy, events: policy.events.filter(e => !EXEMPT_EVENTS.includes(e)) };
+}
+
+export function breakRemainingMs(attempt: AttemptRow, now = Date.now()) {
+  const allowance = getAccommodations(attempt).breakMinutes * 60 * 1000;
+  const current = attempt.break_started_at === null ? 0 : now - attempt.break_started_at;
+  return Math.max(0, allowance - attempt.break_used_ms - current);
+}
+
+export function startBreak(db: DB, attempt: AttemptRow, now = Date.now()): AttemptRow {
+  if (attempt.break_started_at !== null) throw new BreakError('You are already on a break');
+  if (breakRemainingMs(attempt, now) === 0) throw new BreakError('You have no break time left');
+  if (now > attempt.deadline) throw new BreakError('Time is up for this attempt');
+  db.prepare('UPDATE attempts SET break_started_at = ? WHERE id = ?').run(now, attempt.id);
+  return { ...attempt, break_started_at: now };
+}
+
+// The clock moves on by however long the break took, up to what was left of the allowance; overrunning it costs exam time
+export function endBreak(db: DB, attempt: AttemptRow, now = Date.now()): AttemptRow {
+  if (attempt.break_started_at === null) throw new BreakError('You are not on a break');
+  const allowance = getAccommodations(attempt).breakMinutes * 60 * 1000 - attempt.break_used_ms;
+  const credited = Math.max(0, Math.min(now - attempt.break_started_at, allowance));
+  const updated = {
+    ...attempt,
+    break_started_at: null,
+    break_used_ms: attempt.break_used_ms + credited,
+    extended_ms: attempt.extended_ms + credited,
+    deadline: attempt.deadline + credited,
+  };
+  db.prepare('UPDATE attempts SET break_started_at = NULL, break_used_ms = ?, extended_ms = ?, deadline = ? WHERE id = ?')
+    .run(updated.break_used_ms, updated.extended_ms, updated.deadline, attempt.id);
+  return updated;
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeResponses } from './analysis.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers } from './testing.ts';
+
+const questions = [
+  { id: 'q1', text: 'One', options: ['A', 'B'] },
+  { id: 'q2', text: 'Two', options: ['A', 'B', 'C'] },
+  { id: 'q3', text: 'Three', options: ['A', 'B'] },
+];
+const solutionKey = { q1: 0, q2: 1, q3: 0 };
+const sheets = [
+  { q1: 0, q2: 1, q3: 0 },
+  { q1: 0, q2: 1, q3: 1 },
+  { q1: 0, q2: 0 },
+  { q1: 1, q2: 2, q3: 1 },
+];
+
+test('item statistics: difficulty, discrimination, distractors and KR-20', () => {
+  const analysis = analyzeResponses(questions, solutionKey, sheets);
+  assert.equal(analysis.attemptCount, 4);
+  assert.equal(analysis.meanScore, 1.5);
+  assert.equal(analysis.kr20, 0.75);
+  assert.deepEqual(
+    analysis.items.map(i => [i.difficulty, i.discrimination, i.optionCounts, i.omitted]),
+    [[0.75, 1, [3, 1], 0], [0.5, 1, [1, 2, 1], 0], [0.25, 1, [1, 2], 1]],
+  );
+  assert.deepEqual(analysis.items[0].flags, []);
+});
+
+test('a mis-keyed question is flagged', () => {
+  const { items } = analyzeResponses(questions, { ...solutionKey, q1: 1 }, sheets);
+  assert.deepEqual(items[0].flags, [
+    'Does not separate stronger from weaker students',
+    'Top scorers preferred option A over the key',
+  ]);
+});
+
+test('statistics that need more attempts are left empty rather than guessed', () => {
+  const analysis = analyzeResponses(questions, solutionKey, [sheets[0]]);
+  assert.equal(analysis.kr20, null);
+  assert.equal(analysis.items[0].discrimination, null);
+});
+
+test('GET /api/exams/:id/analysis aggregates submitted results for the owner', async () => {
+  const client = await startTestServer();
+  try {
+    const cookie = await registerExaminer(client);
+    await client.request('/api/exams', { method: 'POST', cookie, body: { id: 'ITEM01', title: 'Items', durationMinutes: 5, questions, solutionKey } });
+    await client.request('/api/exams/ITEM01/publish', { method: 'POST', cookie });
+    for (const sheet of sheets) {
+      const attemptId = await startAttempt(client, 'ITEM01');
+      await saveAnswers(client, attemptId, sheet);
+      await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+    }
+
+    const res = await client.request('/api/exams/ITEM01/analysis', { cookie });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.kr20, 0.75);
+    assert.equal((await client.request('/api/exams/ITEM01/analysis')).status, 401);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,126 @@
+import type { DB } from './db.ts';
+import { getBlueprint, getExamPaper, scoredQuestions, type ExamRow } from './exams.ts';
+import { getExamResponses, getResultPaper, type ResultRow } from './results.ts';
+import { isAnswerCorrect, isChoiceQuestion, isSingleAnswerQuestion, questionType } from '../src/lib/questions.ts';
+import type { Answer, ExamAnalysis, ItemAnalysis, Question, Responses, SolutionKey } from '../src/types.ts';
+
+// Classic upper/lower group split for the discrimination index
+const GROUP_FRACTION = 0.27;
+
+const TOO_HARD_P = 0.2;
+const TOO_EASY_P = 0.95;
+const POOR_DISCRIMINATION = 0.2;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function populationVariance(values: number[]) {
+  const m = mean(values);
+  return mean(values.map(v => (v - m) ** 2));
+}
+
+function itemFlags(item: Omit<ItemAnalysis, 'flags'>, keyed: boolean, upperChoices: number[]): string[] {
+  const flags: string[] = [];
+  if (!keyed) return ['No correct answer is keyed'];
+  if (item.difficulty < TOO_HARD_P) flags.push('Very few students answered correctly');
+  if (item.difficulty > TOO_EASY_P) flags.push('Almost every student answered correctly');
+  if (item.discrimination !== null) {
+    if (item.discrimination < 0) flags.push('Weaker students outscored stronger ones; check the key');
+    else if (item.discrimination < POOR_DISCRIMINATION) flags.push('Does not separate stronger from weaker students');
+  }
+  // Top scorers agreeing on a different answer is the usual sign of a mis-keyed question
+  if (item.correctOption === null) return flags;
+  const keyedCount = upperChoices[item.correctOption];
+  const rival = upperChoices.findIndex((count, option) => option !== item.correctOption && count > keyedCount);
+  if (rival !== -1) flags.push(`Top scorers preferred option ${String.fromCharCode(65 + rival)} over the key`);
+  return flags;
+}
+
+// A multiple-select answer counts towards every option it picked
+const picks = (answer: Answer | undefined, option: number) => (Array.isArray(answer) ? answer.includes(option) : answer === option);
+
+// Pure so it can be run on any set of graded response sheets; scores follow the current key, not the stored score.
+// Hand-marked short answers are left out: the statistics below assume right-or-wrong items.
+// When sheets come from different papers, `presented` lists each sheet's question ids and every item is judged
+// only by the students who saw it.
+export function analyzeResponses(allQuestions: Question[], solutionKey: SolutionKey, sheets: Responses[], presented?: Set<string>[]): ExamAnalysis {
+  const questions = allQuestions.filter(q => questionType(q) !== 'short_answer');
+  const n = sheets.length;
+  const saw = (i: number, q: Question) => !presented || presented[i].has(q.id);
+  const correct = sheets.map((sheet, i) => questions.map(q => (saw(i, q) && sheet[q.id] !== undefined && isAnswerCorrect(q, solutionKey[q.id], sheet[q.id]) ? 1 : 0)));
+  const totals = correct.map(row => row.reduce<number>((sum, v) => sum + v, 0));
+
+  const ranked = totals.map((total, i) => ({ total, i })).sort((a, b) => b.total - a.total);
+  const groupSize = Math.floor(n * GROUP_FRACTION);
+  const upper = ranked.slice(0, groupSize).map(r => r.i);
+  const lower = ranked.slice(n - groupSize).map(r => r.i);
+
+  const pValues: number[] = [];
+  const items = questions.map((q, qIdx): ItemAnalysis => {
+    const takers = sheets.map((_, i) => i).filter(i => saw(i, q));
+    const options = isChoiceQuestion(q) ? q.options : [];
+    const optionCounts = options.map((_, option) => takers.filter(i => picks(sheets[i][q.id], option)).length);
+    const omitted = takers.filter(i => sheets[i][q.id] === undefined).length;
+    const key = solutionKey[q.id];
+    const correctOption = isSingleAnswerQuestion(q) && typeof key === 'number' ? key : null;
+    const correctOptions = isChoiceQuestion(q) ? (Array.isArray(key) ? key : typeof key === 'number' ? [key] : []) : [];
+    const pOf = (group: number[]) => {
+      const seen = group.filter(i => saw(i, q));
+      return seen.length ? mean(seen.map(i => correct[i][qIdx])) : 0;
+    };
+    pValues.push(pOf(takers));
+
+    const item = {
+      questionId: q.id,
+      type: questionType(q),
+      text: q.text,
+      options,
+      correctOption,
+      correctOptions,
+      difficulty: round(pValues[qIdx]),
+      discrimination: groupSize > 0 ? round(pOf(upper) - pOf(lower)) : null,
+      optionCounts,
+      omitted,
+    };
+    const upperChoices = options.map((_, option) => upper.filter(i => picks(sheets[i][q.id], option)).length);
+    return { ...item, flags: takers.length ? itemFlags(item, key !== undefined, upperChoices) : [] };
+  });
+
+  // KR-20 assumes everyone sat the same items, so it is withheld when papers differ
+  const paperLengths = sheets.map((_, i) => questions.filter(q => saw(i, q)).length);
+  const k = presented ? Math.max(0, ...paperLengths) : questions.length;
+  const samePaper = !presented || presented.every(ids => ids.size === presented[0].size && [...ids].every(id => presented[0].has(id)));
+  const variance = n ? populationVariance(totals) : 0;
+  const pq = pValues.reduce((sum, p) => sum + p * (1 - p), 0);
+  const kr20 = samePaper && k > 1 && n > 1 && variance > 0 ? round((k / (k - 1)) * (1 - pq / variance)) : null;
+
+  return {
+    attemptCount: n,
+    meanScore: n ? round(mean(totals)) : 0,
+    totalMarks: k,
+    kr20,
+    items,
+  };
+}
+
+// Terminated attempts are left out: their unanswered tail says nothing about the questions.
+// Blueprint exams are analysed over every question drawn for anyone.
+export function analyzeExam(db: DB, exam: ExamRow, rows: ResultRow[]): ExamAnalysis {
+  const kept = rows.filter(r => !r.terminated);
+  const responses = getExamResponses(db, exam.id);
+  const sheets = kept.map(r => responses.get(r.id) ?? {});
+  if (!getBlueprint(exam)) {
+    const paper = getExamPaper(exam);
+    return analyzeResponses(scoredQuestions(paper), paper.solutionKey, sheets);
+  }
+
+  const questions = new Map<string, Question>();
+  const solutionKey: SolutionKey = {};
+  const presented = kept.map(row => {
+    const paper = getResultPaper(db, row, exam);
+    scoredQuestions(paper).forEach(q => questions.set(q.id, q));
+    Object.assign(solutionKey, paper.solutionKey);
+    return new Set(scoredQuestions(paper).map(q => q.id));
+  });
+  return analyzeResponses([...questions.values()], solutionKey, sheets, presented);
+}
@@ -0,0 +1,167 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'PHYS01',
+  title: 'Physics Midterm',
+  durationMinutes: 30,
+  questions: [
+    { id: 'q1', text: 'Unit of force?', options: ['Joule', 'Newton', 'Watt'] },
+    { id: 'q2', text: 'Speed of light?', options: ['3e8 m/s', '3e6 m/s'] },
+  ],
+  solutionKey: { q1: 1, q2: 0 },
+};
+
+
+// Walks any JSON payload looking for answer-key fields, however deeply nested
+function findAnswerKeyFields(value: unknown, path = '$'): string[] {
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, child]) => [
+    ...(['solutionKey', 'solution_key', 'partialCredit', 'partial_credit'].includes(key) ? [`${path}.${key}`] : []),
+    ...findAnswerKeyFields(child, `${path}.${key}`),
+  ]);
+}
+
+let client: TestClient;
+let examinerCookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  examinerCookie = await registerExaminer(client);
+});
+
+afterEach(() => client.close());
+
+async function saveDraft(overrides: Record<string, unknown> = {}) {
+  const res = await client.request('/api/exams', {
+    method: 'POST',
+    cookie: examinerCookie,
+    body: { ...exam, ...overrides },
+  });
+  assert.equal(res.status, 200);
+}
+
+async function publish(overrides: Record<string, unknown> = {}) {
+  await saveDraft(overrides);
+  const res = await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie: examinerCookie });
+  assert.equal(res.status, 200);
+}
+
+async function submitAttempt() {
+  const attemptId = await startAttempt(client, exam.id);
+  await saveAnswers(client, attemptId, { q1: 1, q2: 1 });
+  return client.request('/api/submit', { method: 'POST', body: { attemptId } });
+}
+
+test('exam and attempt payloads never serialize the solution key', async () => {
+  await publish({ answerRelease: 'immediate' });
+  const res = await client.request(`/api/exams/${exam.id}`);
+  assert.equal(res.status, 200);
+  assert.deepEqual(findAnswerKeyFields(res.body), []);
+  assert.deepEqual(res.body.questions, exam.questions);
+
+  const started = await client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, studentName: 'Ada', studentClass: '12A' } });
+  assert.equal(started.status, 201);
+  assert.deepEqual(findAnswerKeyFields(started.body), []);
+  const resumed = await client.request(`/api/attempts/${started.body.attemptId}`);
+  assert.deepEqual(findAnswerKeyFields(resumed.body), []);
+});
+
+test('draft exams are invisible to students until published', async () => {
+  await saveDraft();
+  assert.equal((await client.request(`/api/exams/${exam.id}`)).status, 404);
+  const attempt = await client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, studentName: 'Ada', studentClass: '12A' } });
+  assert.equal(attempt.status, 404);
+
+  const manage = await client.request(`/api/exams/${exam.id}/manage`, { cookie: examinerCookie });
+  assert.equal(manage.status, 200);
+  assert.equal(manage.body.status, 'draft');
+  assert.deepEqual(manage.body.solutionKey, exam.solutionKey);
+});
+
+test('publishing rejects drafts with unanswerable questions', async () => {
+  await saveDraft({ solutionKey: { q1: 1 } });
+  const res = await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie: examinerCookie });
+  assert.equal(res.status, 422);
+  assert.deepEqual(res.body.details, ['Question 2 has no correct answer selected']);
+});
+
+test('published exams can no longer be overwritten', async () => {
+  await publish();
+  const res = await client.request('/api/exams', { method: 'POST', cookie: examinerCookie, body: { ...exam, title: 'Changed' } });
+  assert.equal(res.status, 409);
+});
+
+test('POST /api/submit withholds answers when the policy is "never"', async () => {
+  await publish({ answerRelease: 'never' });
+  const res = await submitAttempt();
+  assert.equal(res.status, 200);
+  assert.equal(res.body.score, 1);
+  assert.deepEqual(findAnswerKeyFields(res.body), []);
+});
+
+test('POST /api/submit withholds answers until an "after_close" exam has closed', async () => {
+  const closesAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  await publish({ answerRelease: 'after_close', closesAt });
+  const res = await submitAttempt();
+  assert.deepEqual(findAnswerKeyFields(res.body), []);
+  assert.equal(res.body.answersAvailableAt, closesAt);
+
+  const answers = await client.request(`/api/exams/${exam.id}/answers`);
+  assert.equal(answers.status, 403);
+  assert.deepEqual(findAnswerKeyFields(answers.body), []);
+});
+
+test('answers are released once an "after_close" exam has closed', async () => {
+  await publish({ answerRelease: 'after_close', closesAt: new Date(Date.now() - 1000).toISOString() });
+  const answers = await client.request(`/api/exams/${exam.id}/answers`);
+  assert.equal(answers.status, 200);
+  assert.deepEqual(answers.body.solutionKey, exam.solutionKey);
+});
+
+test('POST /api/submit returns answers when the policy is "immediate"', async () => {
+  await publish({ answerRelease: 'immediate' });
+  const res = await submitAttempt();
+  assert.deepEqual(res.body.solutionKey, exam.solutionKey);
+});
+
+test('an "immediate" exam releases answers only for a submitted attempt', async () => {
+  await publish({ answerRelease: 'immediate' });
+  const anonymous = await client.request(`/api/exams/${exam.id}/answers`);
+  assert.equal(anonymous.status, 403);
+  assert.deepEqual(findAnswerKeyFields(anonymous.body), []);
+
+  const attemptId = await startAttempt(client, exam.id);
+  const during = await client.request(`/api/exams/${exam.id}/answers?attemptId=${attemptId}`);
+  assert.equal(during.status, 403);
+  assert.deepEqual(findAnswerKeyFields(during.body), []);
+
+  await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  const after = await client.request(`/api/exams/${exam.id}/answers?attemptId=${attemptId}`);
+  assert.equal(after.status, 200);
+  assert.deepEqual(after.body.solutionKey, exam.solutionKey);
+});
+
+test('the owning examiner can always read the answer key', async () => {
+  await publish({ answerRelease: 'never' });
+  const res = await client.request(`/api/exams/${exam.id}/answers`, { cookie: examinerCookie });
+  assert.equal(res.status, 200);
+
+  const otherCookie = await registerExaminer(client, 'other@school.edu');
+  const other = await client.request(`/api/exams/${exam.id}/answers`, { cookie: otherCookie });
+  assert.equal(other.status, 403);
+});
+
+test('the manage view of a shuffled exam keeps every question while the student lookup withholds them', async () => {
+  await saveDraft({ shuffle: { questions: true, options: true } });
+  const draft = await client.request(`/api/exams/${exam.id}/manage`, { cookie: examinerCookie });
+  assert.deepEqual(draft.body.questions, exam.questions);
+
+  await publish({ shuffle: { questions: true, options: true } });
+  const managed = await client.request(`/api/exams/${exam.id}/manage`, { cookie: examinerCookie });
+  assert.deepEqual(managed.body.questions, exam.questions);
+  const student = await client.request(`/api/exams/${exam.id}`);
+  assert.deepEqual(student.body.questions, []);
+  assert.equal(student.body.questionCount, exam.questions.length);
+});
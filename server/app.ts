@@ -0,0 +1,41 @@
+import express from 'express';
+import type { DB } from './db.ts';
+import { loadExaminer } from './auth.ts';
+import { authRoutes } from './routes/auth.ts';
+import { examRoutes } from './routes/exams.ts';
+import { submissionRoutes } from './routes/submissions.ts';
+import { attemptRoutes } from './routes/attempts.ts';
+import { bankRoutes } from './routes/bank.ts';
+import { rosterRoutes } from './routes/roster.ts';
+import { notificationRoutes } from './routes/notifications.ts';
+import { reportRoutes } from './routes/reports.ts';
+import { apiErrors, apiNotFound } from './validation.ts';
+import { createMonitor } from './monitor.ts';
+import type { QuestionExtractor } from './extraction.ts';
+
+export interface AppOptions {
+  extractor?: QuestionExtractor | null;
+  checkResponses?: boolean; // hold every JSON response to the API contract; for tests and development
+}
+
+export function createApp(db: DB, { extractor = null, checkResponses = false }: AppOptions = {}) {
+  const app = express();
+  app.set('checkResponses', checkResponses);
+  app.use(express.json());
+  app.use(loadExaminer(db));
+  const monitor = createMonitor(db);
+
+  // API Routes
+  app.use('/api/auth', authRoutes(db));
+  app.use('/api/exams', examRoutes(db, extractor, monitor));
+  app.use('/api/attempts', attemptRoutes(db, monitor));
+  app.use('/api/bank', bankRoutes(db));
+  app.use('/api/roster', rosterRoutes(db));
+  app.use('/api/notifications', notificationRoutes(db));
+  app.use('/api/reports', reportRoutes(db));
+  app.use('/api', submissionRoutes(db, monitor));
+  app.use('/api', apiNotFound);
+  app.use(apiErrors);
+
+  return app;
+}
@@ -0,0 +1,97 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+import { SUBMISSION_GRACE_MS } from './attempts.ts';
+
+let client: TestClient;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  const cookie = await registerExaminer(client);
+  await client.request('/api/exams', {
+    method: 'POST',
+    cookie,
+    body: {
+      id: 'TIMED1',
+      title: 'Timed Quiz',
+      durationMinutes: 10,
+      questions: [{ id: 'q1', text: '2 + 2?', options: ['3', '4'] }],
+      solutionKey: { q1: 1 },
+    },
+  });
+  await client.request('/api/exams/TIMED1/publish', { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+test('starting an attempt fixes a server-side deadline from the exam duration', async () => {
+  const before = Date.now();
+  const res = await client.request('/api/attempts', { method: 'POST', body: { examId: 'timed1', studentName: 'Ada', studentClass: '12A' } });
+  assert.equal(res.status, 201);
+  assert.equal(res.body.exam.id, 'TIMED1');
+  assert.equal(res.body.deadline - res.body.startedAt, 10 * 60 * 1000);
+  assert.ok(res.body.startedAt >= before);
+  assert.equal(res.body.status, 'active');
+});
+
+test('resuming an attempt returns the original deadline', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  const first = await client.request(`/api/attempts/${attemptId}`);
+  const second = await client.request(`/api/attempts/${attemptId}`);
+  assert.equal(first.body.deadline, second.body.deadline);
+  assert.ok(second.body.serverNow >= first.body.serverNow);
+});
+
+test('an attempt can only be submitted once', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  const body = { attemptId, responses: { q1: 1 } };
+  assert.equal((await client.request('/api/submit', { method: 'POST', body })).status, 200);
+  assert.equal((await client.request('/api/submit', { method: 'POST', body })).status, 409);
+  assert.equal((await client.request(`/api/attempts/${attemptId}`)).body.status, 'submitted');
+});
+
+test('submissions after the deadline and grace period are flagged late', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  client.db.prepare('UPDATE attempts SET deadline = ? WHERE id = ?').run(Date.now() - SUBMISSION_GRACE_MS - 1000, attemptId);
+
+  const res = await client.request('/api/submit', { method: 'POST', body: { attemptId, responses: { q1: 1 } } });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.late, true);
+  const row = client.db.prepare('SELECT late FROM results WHERE attempt_id = ?').get(attemptId) as { late: number };
+  assert.equal(row.late, 1);
+});
+
+test('submissions without a started attempt are rejected', async () => {
+  const res = await client.request('/api/submit', { method: 'POST', body: { examId: 'TIMED1', responses: {} } });
+  assert.equal(res.status, 400);
+  assert.deepEqual(res.body.details, ['attemptId must be text']);
+  assert.equal((await client.request('/api/submit', { method: 'POST', body: { attemptId: 'no-such-attempt' } })).status, 404);
+});
+
+test('autosaved answers and position are restored when an attempt is resumed', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  assert.equal((await saveAnswers(client, attemptId, { q1: 0 }, 0)).status, 200);
+  assert.equal((await saveAnswers(client, attemptId, { q1: 1 })).status, 200);
+
+  const resumed = await client.request(`/api/attempts/${attemptId}`);
+  assert.deepEqual(resumed.body.responses, { q1: 1 });
+  assert.equal(resumed.body.currentQuestionIdx, 0);
+
+  await saveAnswers(client, attemptId, { q1: null });
+  assert.deepEqual((await client.request(`/api/attempts/${attemptId}`)).body.responses, {});
+});
+
+test('autosave rejects unknown questions and out-of-range options', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  assert.equal((await saveAnswers(client, attemptId, { q9: 0 })).status, 400);
+  assert.equal((await saveAnswers(client, attemptId, { q1: 2 })).status, 400);
+});
+
+test('submission grades the server-side answers, not the request payload', async () => {
+  const attemptId = await startAttempt(client, 'TIMED1');
+  await saveAnswers(client, attemptId, { q1: 0 });
+
+  const res = await client.request('/api/submit', { method: 'POST', body: { attemptId, responses: { q1: 1 } } });
+  assert.equal(res.body.score, 0);
+  assert.equal((await saveAnswers(client, attemptId, { q1: 1 })).status, 409);
+});
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import type { DB } from './db.ts';
+import { applyKeyCorrections, getBlueprint, getExamPaper, getKeyCorrections, getShufflePolicy, toStudentExam, type ExamRow, type Paper } from './exams.ts';
+import { drawPaper } from './bank.ts';
+import { attemptDeadline } from './schedule.ts';
+import { getAttemptLayout, newSeed, toCanonicalAnswer, toDisplayedQuestions, toDisplayedResponses, type AttemptLayout } from './shuffle.ts';
+import { isChoiceQuestion, questionType } from '../src/lib/questions.ts';
+import { accommodatedExtraMs, attemptProctoringPolicy, breakRemainingMs, getAccommodations, NO_ACCOMMODATIONS } from './accommodations.ts';
+import type { Answer, AnswerUpdate, AttemptSession, Question, Responses, Student } from '../src/types.ts';
+
+// Covers the round trip of an auto-submit fired by the client as its countdown reaches zero
+export const SUBMISSION_GRACE_MS = 30 * 1000;
+
+export interface AttemptRow {
+  id: string;
+  exam_id: string;
+  student_name: string;
+  student_class: string;
+  started_at: number;
+  deadline: number;
+  submitted_at: number | null;
+  current_question_idx: number;
+  paper: string | null; // this attempt's own draw for blueprint exams
+  seed: number | null; // fixes this attempt's question and option order; null on attempts from before shuffling
+  student_id: number | null; // the roster record, for students who joined with an access code
+  extended_ms: number; // time beyond the exam's window: accommodated extra time, breaks taken and monitor extensions
+  accommodations: string | null; // copied from the roster when the attempt starts
+  break_started_at: number | null;
+  break_used_ms: number;
+}
+
+export function createAttempt(
+  db: DB, exam: ExamRow, studentName: string, studentClass: string, student: Pick<Student, 'id' | 'accommodations'> | null = null, now = Date.now(),
+): AttemptRow {
+  const accommodations = student?.accommodations ?? NO_ACCOMMODATIONS;
+  const extendedMs = accommodatedExtraMs(exam, accommodations);
+  const attempt: AttemptRow = {
+    id: crypto.randomUUID(),
+    exam_id: exam.id,
+    student_name: studentName,
+    student_class: studentClass,
+    started_at: now,
+    deadline: attemptDeadline(exam, now) + extendedMs,
+    submitted_at: null,
+    current_question_idx: 0,
+    paper: null,
+    seed: newSeed(),
+    student_id: student?.id ?? null,
+    extended_ms: extendedMs,
+    accommodations: student ? JSON.stringify(accommodations) : null,
+    break_started_at: null,
+    break_used_ms: 0,
+  };
+  const blueprint = getBlueprint(exam);
+  if (blueprint) attempt.paper = JSON.stringify(drawPaper(db, exam, blueprint));
+  db.prepare(`
+    INSERT INTO attempts (id, exam_id, student_name, student_class, started_at, deadline, paper, seed, student_id, extended_ms, accommodations)
+    VALUES (@id, @exam_id, @student_name, @student_class, @started_at, @deadline, @paper, @seed, @student_id, @extended_ms, @accommodations)
+  `).run(attempt);
+  return attempt;
+}
+
+export function getAttemptPaper(attempt: AttemptRow, exam: ExamRow): Paper {
+  return attempt.paper ? applyKeyCorrections(JSON.parse(attempt.paper), getKeyCorrections(exam)) : getExamPaper(exam);
+}
+
+// The order this student sees. Answers are stored against the canonical order, so grading never needs the layout.
+export function getLayout(attempt: AttemptRow, exam: ExamRow, paper = getAttemptPaper(attempt, exam)): AttemptLayout {
+  return getAttemptLayout(attempt.seed, paper.questions, getShufflePolicy(exam));
+}
+
+export function getAttempt(db: DB, id: string) {
+  return db.prepare('SELECT * FROM attempts WHERE id = ?').get(id) as AttemptRow | undefined;
+}
+
+export function isLate(attempt: AttemptRow, now = Date.now()) {
+  return now > attempt.deadline + SUBMISSION_GRACE_MS;
+}
+
+export class AnswerValidationError extends Error {}
+
+// Long enough for a paragraph-length short answer, short enough that a runaway client cannot bloat the database
+const MAX_TEXT_ANSWER_LENGTH = 5000;
+
+export function getAttemptResponses(db: DB, attemptId: string): Responses {
+  const rows = db.prepare('SELECT question_id, answer FROM attempt_answers WHERE attempt_id = ?')
+    .all(attemptId) as { question_id: string; answer: string }[];
+  return Object.fromEntries(rows.map(r => [r.question_id, JSON.parse(r.answer)]));
+}
+
+function isValidAnswer(question: Question, answer: unknown): answer is Answer {
+  const isOption = (value: unknown) => isChoiceQuestion(question) && Number.isInteger(value) && (value as number) >= 0 && (value as number) < question.options.length;
+  switch (questionType(question)) {
+    case 'multiple_choice':
+      return Array.isArray(answer) && answer.length > 0 && answer.every(isOption) && new Set(answer).size === answer.length;
+    case 'numeric':
+      return typeof answer === 'number' && Number.isFinite(answer);
+    case 'fill_blank':
+    case 'short_answer':
+      return typeof answer === 'string' && answer.trim().length > 0 && answer.length <= MAX_TEXT_ANSWER_LENGTH;
+    default:
+      return isOption(answer);
+  }
+}
+
+// Upserts each changed answer on its own row, so a batch flushed from an offline queue only touches what changed
+// Answers arrive as the option positions the student saw and are stored as canonical option indexes.
+export function saveAnswers(db: DB, attempt: AttemptRow, exam: ExamRow, update: AnswerUpdate, now = Date.now()) {
+  const paper = getAttemptPaper(attempt, exam);
+  const layout = getLayout(attempt, exam, paper);
+  const questions = new Map(paper.questions.map(q => [q.id, q]));
+  const entries = Object.entries(update.answers ?? {});
+
+  for (const [questionId, answer] of entries) {
+    const question = questions.get(questionId);
+    if (!question) throw new AnswerValidationError(`Unknown question "${questionId}"`);
+    if (answer !== null && !isValidAnswer(question, answer)) {
+      throw new AnswerValidationError(`Invalid answer for question "${questionId}"`);
+    }
+  }
+  const { currentQuestionIdx } = update;
+  if (currentQuestionIdx !== undefined && (!Number.isInteger(currentQuestionIdx) || currentQuestionIdx < 0 || currentQuestionIdx >= questions.size)) {
+    throw new AnswerValidationError('Invalid question position');
+  }
+
+  const upsert = db.prepare(`
+    INSERT INTO attempt_answers (attempt_id, question_id, answer, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (attempt_id, question_id) DO UPDATE SET answer = excluded.answer, updated_at = excluded.updated_at
+  `);
+  const remove = db.prepare('DELETE FROM attempt_answers WHERE attempt_id = ? AND question_id = ?');
+
+  db.transaction(() => {
+    for (const [questionId, answer] of entries) {
+      if (answer === null) remove.run(attempt.id, questionId);
+      else upsert.run(attempt.id, questionId, JSON.stringify(toCanonicalAnswer(layout, questionId, answer)), now);
+    }
+    if (currentQuestionIdx !== undefined) {
+      db.prepare('UPDATE attempts SET current_question_idx = ? WHERE id = ?').run(currentQuestionIdx, attempt.id);
+    }
+  })();
+}
+
+export function toAttemptSession(db: DB, attempt: AttemptRow, exam: ExamRow, now = Date.now()): AttemptSession {
+  const paper = getAttemptPaper(attempt, exam);
+  const layout = getLayout(attempt, exam, paper);
+  return {
+    attemptId: attempt.id,
+    // Only the questions travel with the session, in this student's order; the paper's key stays on the server
+    // and the proctoring policy as it applies to this student
+    exam: { ...toStudentExam(exam), questions: toDisplayedQuestions(layout, paper.questions), proctoring: attemptProctoringPolicy(attempt, exam) },
+    studentName: attempt.student_name,
+    studentClass: attempt.student_class,
+    startedAt: attempt.started_at,
+    deadline: attempt.deadline,
+    serverNow: now,
+    status: attempt.submitted_at ? 'submitted' : 'active',
+    responses: toDisplayedResponses(layout, getAttemptResponses(db, attempt.id)),
+    currentQuestionIdx: attempt.current_question_idx,
+    accommodations: getAccommodations(attempt),
+    breakStartedAt: attempt.break_started_at,
+    breakRemainingMs: breakRemainingMs(attempt, now),
+  };
+}
@@ -0,0 +1,38 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCookies } from './auth.ts';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+
+test('parseCookies keeps a value it cannot decode as it was sent', () => {
+  assert.deepEqual(parseCookies('theme=dark%20mode; x=%E0%A4%A'), { theme: 'dark mode', x: '%E0%A4%A' });
+});
+
+let client: TestClient;
+
+before(async () => {
+  client = await startTestServer();
+});
+
+after(() => client.close());
+
+test('a malformed cookie next to the session does not break requests', async () => {
+  const cookie = await registerExaminer(client);
+  const me = await client.request('/api/auth/me', { cookie: `x=%E0%A4%A; ${cookie}` });
+  assert.equal(me.status, 200);
+  assert.equal(me.body.email, 'examiner@school.edu');
+  assert.equal((await client.request('/api/auth/me', { cookie: 'x=%E0%A4%A' })).status, 401);
+});
+
+test('email addresses are trimmed and lowercased at signup and login', async () => {
+  const body = { name: 'Grace', email: '  Grace@School.edu ', password: 'correct-horse' };
+  const registered = await client.request('/api/auth/register', { method: 'POST', body });
+  assert.equal(registered.status, 201);
+  assert.equal(registered.body.email, 'grace@school.edu');
+
+  const duplicate = await client.request('/api/auth/register', { method: 'POST', body: { ...body, email: 'grace@school.edu  ' } });
+  assert.equal(duplicate.status, 409);
+
+  const login = await client.request('/api/auth/login', { method: 'POST', body: { email: ' GRACE@school.edu', password: 'correct-horse' } });
+  assert.equal(login.status, 200);
+  assert.equal(login.body.email, 'grace@school.edu');
+});
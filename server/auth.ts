@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { DB } from './db.ts';
+import { getExamRow } from './exams.ts';
+import type { Examiner } from '../src/types.ts';
+
+declare global {
+  namespace Express {
+    interface Request {
+      examiner?: Examiner;
+    }
+  }
+}
+
+export const SESSION_COOKIE = 'exam_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEYLEN = 64;
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Only a digest of the token is stored, so a leaked database cannot be used to hijack sessions
+function digestToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function createSession(db: DB, userId: number) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)')
+    .run(digestToken(token), userId, expiresAt);
+  return { token, expiresAt };
+}
+
+export function destroySession(db: DB, token: string) {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(digestToken(token));
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(';')) {
+    const idx = part.indexOf('=');
+    if (idx < 0) continue;
+    const name = part.slice(0, idx).trim();
+    const value = part.slice(idx + 1).trim();
+    // Another site's badly encoded cookie must not take down every request; keep it as sent
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+export function setSessionCookie(req: Request, res: Response, token: string, expiresAt: number) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    expires: new Date(expiresAt),
+    path: '/',
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+export function getSessionToken(req: Request): string | undefined {
+  return parseCookies(req.headers.cookie)[SESSION_COOKIE];
+}
+
+// Attaches the logged-in examiner (if any) to every request
+export function loadExaminer(db: DB) {
+  const stmt = db.prepare(`
+    SELECT users.id, users.name, users.email, sessions.expires_at
+    FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ?
+  `);
+
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const token = getSessionToken(req);
+    if (token) {
+      const row = stmt.get(digestToken(token)) as (Examiner & { expires_at: number }) | undefined;
+      if (row && row.expires_at > Date.now()) {
+        req.examiner = { id: row.id, name: row.name, email: row.email };
+      } else if (row) {
+        destroySession(db, token);
+      }
+    }
+    next();
+  };
+}
+
+export function requireExaminer(req: Request, res: Response, next: NextFunction) {
+  if (!req.examiner) return res.status(401).json({ error: 'Authentication required' });
+  next();
+}
+
+// Loads the exam named by :id into res.locals.exam, allowing only the examiner who owns it
+export function requireExamOwner(db: DB) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.examiner) return res.status(401).json({ error: 'Authentication required' });
+    const exam = getExamRow(db, req.params.id);
+    if (!exam) return res.status(404).json({ error: 'Exam not found' });
+    if (exam.owner_id !== req.examiner.id) {
+      return res.status(403).json({ error: 'This exam belongs to another examiner' });
+    }
+    res.locals.exam = exam;
+    next();
+  };
+}
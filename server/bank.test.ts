@@ -0,0 +1,140 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBlueprint, BlueprintError } from './bank.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+
+test('parseBlueprint keeps the tags given and checks each section count', () => {
+  assert.equal(parseBlueprint(undefined), null);
+  assert.deepEqual(parseBlueprint({ sections: [{ subject: ' Physics ', topic: '', difficulty: 'hard', count: 2 }] }), {
+    sections: [{ subject: 'Physics', difficulty: 'hard', count: 2 }],
+  });
+  assert.throws(() => parseBlueprint({ sections: [] }), BlueprintError);
+  assert.throws(() => parseBlueprint({ sections: [{ count: 0 }] }), /Section 1 must draw/);
+  assert.throws(() => parseBlueprint({ sections: [{ count: 1, difficulty: 'tricky' }] }), /Section 1: Difficulty/);
+});
+
+let client: TestClient;
+let cookie: string;
+
+const bankQuestions = (subject: string, count: number) => ({
+  questions: Array.from({ length: count }, (_, i) => ({ id: `d${i}`, text: `${subject} ${i}`, options: ['A', 'B'] })),
+  solutionKey: Object.fromEntries(Array.from({ length: count }, (_, i) => [`d${i}`, i % 2])),
+});
+
+before(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+});
+
+after(() => client.close());
+
+test('examiners add, filter, retag and delete their own bank questions', async () => {
+  const invalid = await client.request('/api/bank', {
+    method: 'POST', cookie, body: { questions: [{ id: 'x', text: 'Unkeyed', options: ['A', 'B'] }], solutionKey: {}, tags: { subject: 'Maths' } },
+  });
+  assert.equal(invalid.status, 422);
+  assert.equal(invalid.body.details.length, 1);
+
+  const added = await client.request('/api/bank', {
+    method: 'POST', cookie, body: { ...bankQuestions('Algebra', 2), tags: { subject: 'Maths', topic: 'Algebra', difficulty: 'easy' } },
+  });
+  assert.equal(added.status, 201);
+  assert.deepEqual(added.body.map((q: any) => q.answerKey), [0, 1]);
+  assert.notEqual(added.body[0].id, 'd0');
+
+  const filtered = await client.request('/api/bank?subject=maths&difficulty=easy', { cookie });
+  assert.equal(filtered.body.length, 2);
+  assert.equal((await client.request('/api/bank?difficulty=tricky', { cookie })).status, 400);
+
+  const stranger = await registerExaminer(client, 'other@school.edu');
+  assert.deepEqual((await client.request('/api/bank', { cookie: stranger })).body, []);
+  assert.equal((await client.request(`/api/bank/${added.body[0].id}`, { method: 'DELETE', cookie: stranger })).status, 404);
+
+  const retagged = await client.request(`/api/bank/${added.body[0].id}`, { method: 'PUT', cookie, body: { tags: { subject: 'Maths', difficulty: 'hard' } } });
+  assert.equal(retagged.body.difficulty, 'hard');
+  assert.equal(retagged.body.topic, '');
+
+  assert.equal((await client.request(`/api/bank/${added.body[1].id}`, { method: 'DELETE', cookie })).status, 200);
+  assert.equal((await client.request('/api/bank?topic=algebra', { cookie })).body.length, 0);
+});
+
+test('blueprint exams draw a separate paper per attempt and grade it against that draw', async () => {
+  await client.request('/api/bank', { method: 'POST', cookie, body: { ...bankQuestions('Optics', 8), tags: { subject: 'Physics', topic: 'Optics' } } });
+  const blueprint = { sections: [{ subject: 'Physics', count: 3 }, { subject: 'Maths', count: 2 }] };
+  await client.request('/api/exams', { method: 'POST', cookie, body: { id: 'BLUE1', title: 'Drawn', durationMinutes: 10, blueprint } });
+
+  const short = await client.request('/api/exams/BLUE1/publish', { method: 'POST', cookie });
+  assert.equal(short.status, 422);
+  assert.match(short.body.details[0], /Section 2 needs 2 Maths question\(s\) but the bank has 1/);
+
+  await client.request('/api/bank', { method: 'POST', cookie, body: { ...bankQuestions('Geometry', 2), tags: { subject: 'Maths' } } });
+  assert.equal((await client.request('/api/exams/BLUE1/publish', { method: 'POST', cookie })).status, 200);
+  assert.equal((await client.request('/api/exams', { cookie })).body.find((e: any) => e.id === 'BLUE1').questionCount, 5);
+
+  const keys = new Map<string, number>((await client.request('/api/bank', { cookie })).body.map((q: any) => [q.id, q.answerKey]));
+  const draws = new Set<string>();
+  let attemptId = '';
+  for (let i = 0; i < 6; i++) {
+    attemptId = await startAttempt(client, 'BLUE1', `Student ${i}`);
+    const session = await client.request(`/api/attempts/${attemptId}`);
+    const ids: string[] = session.body.exam.questions.map((q: any) => q.id);
+    assert.equal(new Set(ids).size, 5);
+    assert.ok(ids.every(id => keys.has(id)));
+    draws.add([...ids].sort().join());
+  }
+  assert.ok(draws.size > 1);
+
+  // The draw is a snapshot, so later bank edits do not touch an attempt already under way
+  const session = await client.request(`/api/attempts/${attemptId}`);
+  const drawn: string[] = session.body.exam.questions.map((q: any) => q.id);
+  await client.request(`/api/bank/${drawn[0]}`, { method: 'DELETE', cookie });
+  await saveAnswers(client, attemptId, Object.fromEntries(drawn.map(id => [id, keys.get(id)!])));
+  const submitted = await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  assert.equal(submitted.body.score, 5);
+
+  const answers = await client.request(`/api/exams/BLUE1/answers?attemptId=${attemptId}`, { cookie });
+  assert.deepEqual(Object.keys(answers.body.solutionKey).sort(), [...drawn].sort());
+
+  const [result] = (await client.request('/api/exams/BLUE1/results', { cookie })).body;
+  const detail = await client.request(`/api/exams/BLUE1/results/${result.id}`, { cookie });
+  assert.deepEqual(detail.body.responses.map((r: any) => r.questionId), drawn);
+});
+
+test('attempts cannot start once the bank can no longer fill the blueprint', async () => {
+  await client.request('/api/bank', { method: 'POST', cookie, body: { ...bankQuestions('Acids', 1), tags: { subject: 'Chemistry' } } });
+  await client.request('/api/exams', {
+    method: 'POST', cookie, body: { id: 'BLUE2', title: 'Chem', durationMinutes: 10, blueprint: { sections: [{ subject: 'Chemistry', count: 1 }] } },
+  });
+  assert.equal((await client.request('/api/exams/BLUE2/publish', { method: 'POST', cookie })).status, 200);
+
+  const [question] = (await client.request('/api/bank?subject=Chemistry', { cookie })).body;
+  await client.request(`/api/bank/${question.id}`, { method: 'DELETE', cookie });
+  const res = await client.request('/api/attempts', { method: 'POST', body: { examId: 'BLUE2', studentName: 'Ada', studentClass: '12A' } });
+  assert.equal(res.status, 409);
+});
+
+test('a broad section listed first never takes the questions a narrower section needs', async () => {
+  const owner = await registerExaminer(client, 'overlap@school.edu');
+  const add = (topic: string) => client.request('/api/bank', {
+    method: 'POST', cookie: owner, body: { ...bankQuestions(topic, 1), tags: { subject: 'Maths', topic } },
+  });
+  await add('algebra');
+  await add('geometry');
+  const save = (id: string, sections: unknown[]) => client.request('/api/exams', {
+    method: 'POST', cookie: owner, body: { id, title: 'Overlap', durationMinutes: 10, blueprint: { sections } },
+  });
+
+  await save('OVER1', [{ count: 1 }, { topic: 'algebra', count: 1 }]);
+  assert.equal((await client.request('/api/exams/OVER1/publish', { method: 'POST', cookie: owner })).status, 200);
+  for (let i = 0; i < 20; i++) {
+    const res = await client.request('/api/attempts', { method: 'POST', body: { examId: 'OVER1', studentName: `Student ${i}`, studentClass: '12A' } });
+    assert.equal(res.status, 201);
+    const session = (await client.request(`/api/attempts/${res.body.attemptId}`)).body;
+    assert.deepEqual(session.exam.questions.map((q: any) => q.text), ['geometry 0', 'algebra 0']);
+  }
+
+  await save('OVER2', [{ topic: 'algebra', count: 1 }, { subject: 'maths', topic: 'Algebra', count: 1 }]);
+  const refused = await client.request('/api/exams/OVER2/publish', { method: 'POST', cookie: owner });
+  assert.equal(refused.status, 422);
+  assert.deepEqual(refused.body.details, ['The sections overlap and need 2 different questions, but the bank cannot fill them all at once']);
+});
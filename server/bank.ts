@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import type { DB } from './db.ts';
+import { blueprintSize, getBlueprint, validateQuestions, type ExamRow, type Paper } from './exams.ts';
+import { DIFFICULTIES } from '../src/lib/questions.ts';
+import type { AnswerKey, BankQuestion, BlueprintSection, Difficulty, ExamBlueprint, PartialCredit, Question, QuestionTags, SolutionKey } from '../src/types.ts';
+
+export class QuestionBankError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+  }
+}
+
+export class BlueprintError extends Error {}
+
+interface BankQuestionRow {
+  id: string;
+  owner_id: number;
+  question: string;
+  answer_key: string | null;
+  partial_credit: string;
+  subject: string;
+  topic: string;
+  difficulty: Difficulty | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface BankFilter {
+  subject?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+}
+
+const MAX_SECTION_COUNT = 200;
+
+const tagText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+function parseDifficulty(value: unknown, error: (message: string) => Error): Difficulty | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (!DIFFICULTIES.includes(value as Difficulty)) throw error('Difficulty must be easy, medium or hard');
+  return value as Difficulty;
+}
+
+export function parseTags(input: any): QuestionTags {
+  return {
+    subject: tagText(input?.subject),
+    topic: tagText(input?.topic),
+    difficulty: parseDifficulty(input?.difficulty, message => new QuestionBankError(message)) ?? null,
+  };
+}
+
+// Reads ?subject=&topic=&difficulty= as sent by the bank browser
+export function parseBankFilter(query: Record<string, unknown>): BankFilter {
+  return {
+    subject: tagText(query.subject) || undefined,
+    topic: tagText(query.topic) || undefined,
+    difficulty: parseDifficulty(query.difficulty, message => new QuestionBankError(message)),
+  };
+}
+
+export function parseBlueprint(input: any): ExamBlueprint | null {
+  if (input === undefined || input === null) return null;
+  if (!Array.isArray(input.sections) || input.sections.length === 0) throw new BlueprintError('A blueprint needs at least one section');
+
+  const sections = input.sections.map((section: any, i: number): BlueprintSection => {
+    const { count } = section ?? {};
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SECTION_COUNT) {
+      throw new BlueprintError(`Section ${i + 1} must draw between 1 and ${MAX_SECTION_COUNT} questions`);
+    }
+    const subject = tagText(section.subject);
+    const topic = tagText(section.topic);
+    const difficulty = parseDifficulty(section.difficulty, message => new BlueprintError(`Section ${i + 1}: ${message}`));
+    return { ...(subject && { subject }), ...(topic && { topic }), ...(difficulty && { difficulty }), count };
+  });
+  return { sections };
+}
+
+function toBankQuestion(row: BankQuestionRow): BankQuestion {
+  return {
+    id: row.id,
+    question: { ...JSON.parse(row.question), id: row.id },
+    answerKey: row.answer_key ? JSON.parse(row.answer_key) : null,
+    partialCredit: JSON.parse(row.partial_credit),
+    subject: row.subject,
+    topic: row.topic,
+    difficulty: row.difficulty,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Tags match case-insensitively so "Algebra" and "algebra" land in the same pool
+function matchingRows(db: DB, ownerId: number, { subject, topic, difficulty }: BankFilter) {
+  const conditions = ['owner_id = ?'];
+  const params: unknown[] = [ownerId];
+  if (subject) {
+    conditions.push('subject = ? COLLATE NOCASE');
+    params.push(subject);
+  }
+  if (topic) {
+    conditions.push('topic = ? COLLATE NOCASE');
+    params.push(topic);
+  }
+  if (difficulty) {
+    conditions.push('difficulty = ?');
+    params.push(difficulty);
+  }
+  return db.prepare(`SELECT * FROM bank_questions WHERE ${conditions.join(' AND ')} ORDER BY created_at, rowid`).all(...params) as BankQuestionRow[];
+}
+
+export function listBankQuestions(db: DB, ownerId: number, filter: BankFilter = {}) {
+  return matchingRows(db, ownerId, filter).map(toBankQuestion);
+}
+
+export function getBankQuestion(db: DB, ownerId: number, id: string) {
+  const row = db.prepare('SELECT * FROM bank_questions WHERE id = ? AND owner_id = ?').get(id, ownerId) as BankQuestionRow | undefined;
+  return row && toBankQuestion(row);
+}
+
+// Banked questions are drawn without a review step, so they must be publishable as they stand
+function checkQuestions(questions: Question[], solutionKey: SolutionKey, partialCredit: PartialCredit) {
+  const errors = validateQuestions(questions, solutionKey, partialCredit);
+  if (errors.length) throw new QuestionBankError('Some questions are not ready for the bank', errors);
+}
+
+// Stores copies of the given questions under new ids, all carrying the same tags
+export function addBankQuestions(
+  db: DB, ownerId: number, questions: Question[], solutionKey: SolutionKey, partialCredit: PartialCredit, tags: QuestionTags, now = Date.now(),
+) {
+  if (!Array.isArray(questions) || questions.length === 0) throw new QuestionBankError('Choose at least one question to add');
+  checkQuestions(questions, solutionKey ?? {}, partialCredit ?? {});
+
+  const insert = db.prepare(`
+    INSERT INTO bank_questions (id, owner_id, question, answer_key, partial_credit, subject, topic, difficulty, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const ids = db.transaction(() => questions.map(({ id: draftId, ...question }) => {
+    const id = crypto.randomUUID();
+    const key = solutionKey?.[draftId];
+    insert.run(
+      id, ownerId, JSON.stringify(question), key === undefined ? null : JSON.stringify(key), JSON.stringify(partialCredit?.[draftId] ?? {}),
+      tags.subject, tags.topic, tags.difficulty, now, now,
+    );
+    return id;
+  }))();
+  return ids.map(id => getBankQuestion(db, ownerId, id)!);
+}
+
+export function updateBankQuestion(
+  db: DB, existing: BankQuestion, update: { question?: Question; answerKey?: AnswerKey | null; partialCredit?: PartialCredit[string] }, tags: QuestionTags, now = Date.now(),
+) {
+  const question = { ...(update.question ?? existing.question), id: existing.id };
+  const answerKey = update.answerKey === undefined ? existing.answerKey : update.answerKey;
+  const partialCredit = update.partialCredit ?? existing.partialCredit;
+  checkQuestions([question], answerKey === null ? {} : { [question.id]: answerKey }, { [question.id]: partialCredit });
+
+  const { id: _id, ...stored } = question;
+  db.prepare(`
+    UPDATE bank_questions SET question = ?, answer_key = ?, partial_credit = ?, subject = ?, topic = ?, difficulty = ?, updated_at = ? WHERE id = ?
+  `).run(JSON.stringify(stored), answerKey === null ? null : JSON.stringify(answerKey), JSON.stringify(partialCredit), tags.subject, tags.topic, tags.difficulty, now, existing.id);
+  return { ...existing, question, answerKey, partialCredit, ...tags, updatedAt: now };
+}
+
+export function deleteBankQuestion(db: DB, ownerId: number, id: string) {
+  return db.prepare('DELETE FROM bank_questions WHERE id = ? AND owner_id = ?').run(id, ownerId).changes > 0;
+}
+
+const describeSection = ({ subject, topic, difficulty }: BlueprintSection) =>
+  [difficulty, subject, topic].filter(Boolean).join(' ') || 'any';
+
+// Sections draw without replacement from a shared pool, so overlapping sections must fit together as well as alone.
+// This runs the same assignment every draw does, so a blueprint that publishes can always be drawn.
+export function validateBlueprint(db: DB, exam: ExamRow): string[] {
+  const blueprint = getBlueprint(exam);
+  if (!blueprint || exam.owner_id === null) return [];
+  const errors: string[] = [];
+  const pools = blueprint.sections.map(section => matchingRows(db, exam.owner_id!, section).map(row => row.id));
+  blueprint.sections.forEach((section, i) => {
+    if (pools[i].length < section.count) {
+      errors.push(`Section ${i + 1} needs ${section.count} ${describeSection(section)} question(s) but the bank has ${pools[i].length}`);
+    }
+  });
+  if (!errors.length && !assignSections(pools, blueprint.sections.map(s => s.count))) {
+    const total = blueprintSize(blueprint);
+    errors.push(`The sections overlap and need ${total} different questions, but the bank cannot fill them all at once`);
+  }
+  return errors;
+}
+
+// Gives every section its count of distinct questions from its own pool. A section whose candidates are all taken
+// moves an earlier pick to another question that section can use (augmenting paths, as in bipartite matching), so
+// a broad section listed first never starves a narrower one after it. Null when no assignment exists.
+function assignSections(pools: string[][], counts: number[]): string[][] | null {
+  const slots = counts.flatMap((count, section) => Array<number>(count).fill(section));
+  const holder = new Map<string, number>(); // question id -> slot
+  const place = (slot: number, visited: Set<string>): boolean => {
+    for (const id of pools[slots[slot]]) {
+      if (visited.has(id)) continue;
+      visited.add(id);
+      const current = holder.get(id);
+      if (current === undefined || place(current, visited)) {
+        holder.set(id, slot);
+        return true;
+      }
+    }
+    return false;
+  };
+  for (let slot = 0; slot < slots.length; slot++) {
+    if (!place(slot, new Set())) return null;
+  }
+  const picks = counts.map((): string[] => []);
+  for (const [id, slot] of holder) picks[slots[slot]].push(id);
+  return picks;
+}
+
+function shuffle<T>(items: T[]) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// A fresh random draw for one attempt, snapshotted so later bank edits never change how it is graded
+export function drawPaper(db: DB, exam: ExamRow, blueprint: ExamBlueprint): Paper {
+  const rows = blueprint.sections.map(section => shuffle(matchingRows(db, exam.owner_id!, section)));
+  const byId = new Map(rows.flat().map(row => [row.id, row]));
+  const picks = assignSections(rows.map(pool => pool.map(row => row.id)), blueprint.sections.map(s => s.count));
+  if (!picks) throw new BlueprintError('The question bank no longer has enough questions for this exam');
+
+  const paper: Paper = { questions: [], solutionKey: {}, partialCredit: {} };
+  for (const id of picks.flatMap(section => shuffle(section))) {
+    const { question, answerKey, partialCredit } = toBankQuestion(byId.get(id)!);
+    paper.questions.push(question);
+    if (answerKey !== null) paper.solutionKey[id] = answerKey;
+    if (Object.keys(partialCredit).length) paper.partialCredit[id] = partialCredit;
+  }
+  return paper;
+}
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { migrate } from './migrations.ts';
+
+export type DB = Database.Database;
+
+export const DEFAULT_DATABASE_PATH = 'exam.db';
+
+// DATABASE_PATH points the server at another database file, e.g. on a mounted volume
+export function databasePathFromEnv(env = process.env) {
+  return env.DATABASE_PATH?.trim() || DEFAULT_DATABASE_PATH;
+}
+
+// Opens the database and applies any migrations it has not had yet; see server/migrations.ts
+export function openDatabase(filename = DEFAULT_DATABASE_PATH): DB {
+  if (filename !== ':memory:') fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  const db = new Database(filename);
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
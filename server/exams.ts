@@ -0,0 +1,277 @@
+import type { DB } from './db.ts';
+import { DEFAULT_PROCTORING_POLICY } from '../src/lib/proctoring.ts';
+import { DEFAULT_SCORING_RULES } from '../src/lib/scoring.ts';
+import { validateQuestionScoring } from './scoring.ts';
+import { NO_SHUFFLE } from './shuffle.ts';
+import { getLifecycle } from './schedule.ts';
+import { QUESTION_TYPES, isChoiceQuestion, isNumericKey, isShortAnswerKey, isTextKey, questionType } from '../src/lib/questions.ts';
+import type { AnswerKey, AnswerReleasePolicy, Exam, ExamBlueprint, ExaminerExam, ExamStatus, ExamSummary, ExaminerNotificationMode, PartialCredit, Question, QuestionType, ScoringRules, ShufflePolicy, SolutionKey } from '../src/types.ts';
+
+export interface ExamRow {
+  id: string;
+  title: string;
+  duration_minutes: number;
+  examiner_email: string | null;
+  owner_id: number | null;
+  answer_release: AnswerReleasePolicy;
+  opens_at: string | null;
+  closes_at: string | null;
+  join_cutoff_minutes: number | null;
+  max_attempts: number | null;
+  status: ExamStatus;
+  review_flags: string;
+  proctoring_policy: string | null;
+  scoring_rules: string | null;
+  partial_credit: string;
+  blueprint: string | null;
+  shuffle_policy: string | null;
+  key_corrections: string; // answer-key revisions made after publishing; see KeyCorrections
+  examiner_notifications: ExaminerNotificationMode;
+  student_notifications: number;
+  digest_closes_at: string | null; // the closing time the last digest went out for
+  attach_reports: number;
+  // Not columns: read from exam_questions and question_options when the exam is loaded
+  questions: Question[];
+  solutionKey: SolutionKey;
+}
+
+type ExamColumns = Omit<ExamRow, 'questions' | 'solutionKey'>;
+
+interface QuestionRow {
+  question_id: string;
+  type: QuestionType | null;
+  text: string;
+  marks: number | null;
+  negative_marking: number | null;
+  answer_key: string | null;
+}
+
+// The questions and key a sitting is graded against: the exam's own, or one attempt's draw from the question bank
+export interface Paper {
+  questions: Question[];
+  solutionKey: SolutionKey;
+  partialCredit: PartialCredit;
+  voided?: string[]; // still shown to students so nobody's paper changes shape, but no longer scored
+}
+
+// Answer-key fixes made once students have sat the exam, keyed by question id. Stored apart from the key itself
+// because they apply to every paper the question appears on, including blueprint draws saved with each attempt.
+export interface KeyCorrections {
+  [questionId: string]: { key?: AnswerKey; voided?: boolean };
+}
+
+export function getExamRow(db: DB, id: string) {
+  // Exam codes are typed by students, so match them case-insensitively
+  const row = db.prepare('SELECT * FROM exams WHERE id = ? COLLATE NOCASE').get(id.trim()) as ExamColumns | undefined;
+  return row && withQuestions(db, row);
+}
+
+// Loads exams picked by a query of their own, e.g. `SELECT * FROM exams WHERE ...`
+export function getExamRows(db: DB, sql: string, ...params: unknown[]): ExamRow[] {
+  return (db.prepare(sql).all(...params) as ExamColumns[]).map(row => withQuestions(db, row));
+}
+
+// Questions come back in the order the examiner set them. Choice questions saved before question types keep no type.
+function withQuestions(db: DB, row: ExamColumns): ExamRow {
+  const rows = db.prepare('SELECT * FROM exam_questions WHERE exam_id = ? ORDER BY position').all(row.id) as QuestionRow[];
+  const options = db.prepare('SELECT question_id, text FROM question_options WHERE exam_id = ? ORDER BY position')
+    .all(row.id) as { question_id: string; text: string }[];
+
+  const questions = rows.map(q => {
+    const base = {
+      id: q.question_id,
+      text: q.text,
+      ...(q.marks !== null && { marks: q.marks }),
+      ...(q.negative_marking !== null && { negativeMarking: q.negative_marking }),
+    };
+    const question = { ...base, ...(q.type && { type: q.type }) } as Question;
+    return isChoiceQuestion(question)
+      ? { ...question, options: options.filter(o => o.question_id === q.question_id).map(o => o.text) }
+      : question;
+  });
+  const solutionKey = Object.fromEntries(rows.filter(q => q.answer_key !== null).map(q => [q.question_id, JSON.parse(q.answer_key!)]));
+  return { ...row, questions, solutionKey };
+}
+
+// Replaces an exam's questions, options and answer key. Question ids must be unique within the exam.
+export function saveExamQuestions(db: DB, examId: string, questions: Question[], solutionKey: SolutionKey) {
+  const insertQuestion = db.prepare(`
+    INSERT INTO exam_questions (exam_id, question_id, position, type, text, marks, negative_marking, answer_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertOption = db.prepare('INSERT INTO question_options (exam_id, question_id, position, text) VALUES (?, ?, ?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM exam_questions WHERE exam_id = ?').run(examId);
+    questions.forEach((q, position) => {
+      const key = solutionKey[q.id];
+      insertQuestion.run(
+        examId, q.id, position, q.type ?? null, q.text, q.marks ?? null, q.negativeMarking ?? null, key === undefined ? null : JSON.stringify(key),
+      );
+      if (isChoiceQuestion(q)) q.options.forEach((option, i) => insertOption.run(examId, q.id, i, option));
+    });
+  })();
+}
+
+// The first question whose id was already used, as saving would reject it
+export function findDuplicateQuestion(questions: Question[]) {
+  const index = questions.findIndex((q, i) => questions.findIndex(other => other.id === q.id) !== i);
+  return index === -1 ? null : index;
+}
+
+// The only shape of an exam that may leave the server for a student. Never add solution data here.
+// Blueprint and shuffled exams leave out their questions: each student's paper only comes with their own attempt.
+export function toStudentExam(row: ExamRow): Exam {
+  const blueprint = getBlueprint(row);
+  const shuffle = getShufflePolicy(row);
+  const withheld = !!blueprint || shuffle.questions || shuffle.options;
+  return {
+    id: row.id,
+    title: row.title,
+    questions: withheld ? [] : row.questions,
+    ...(withheld && { questionCount: blueprint ? blueprintSize(blueprint) : row.questions.length }),
+    durationMinutes: row.duration_minutes,
+    answerRelease: row.answer_release,
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+    proctoring: row.proctoring_policy ? JSON.parse(row.proctoring_policy) : DEFAULT_PROCTORING_POLICY,
+    scoring: getScoringRules(row),
+  };
+}
+
+export function getScoringRules(row: ExamRow): ScoringRules {
+  return row.scoring_rules ? JSON.parse(row.scoring_rules) : DEFAULT_SCORING_RULES;
+}
+
+// Whether a student may see the key. 'immediate' releases it to each student once they have submitted, so it
+// never opens before or during their own sitting; 'after_close' releases it to everyone when the exam closes.
+export function isAnswerKeyReleased(row: ExamRow, submitted: boolean, now = new Date()) {
+  switch (row.answer_release) {
+    case 'immediate':
+      return submitted;
+    case 'after_close':
+      return row.closes_at !== null && new Date(row.closes_at) <= now;
+    default:
+      return false;
+  }
+}
+
+export function getPartialCredit(row: ExamRow): PartialCredit {
+  return JSON.parse(row.partial_credit);
+}
+
+export function getBlueprint(row: ExamRow): ExamBlueprint | null {
+  return row.blueprint ? JSON.parse(row.blueprint) : null;
+}
+
+export function getShufflePolicy(row: ExamRow): ShufflePolicy {
+  return row.shuffle_policy ? JSON.parse(row.shuffle_policy) : NO_SHUFFLE;
+}
+
+export const blueprintSize = (blueprint: ExamBlueprint) => blueprint.sections.reduce((sum, s) => sum + s.count, 0);
+
+export function getKeyCorrections(row: ExamRow): KeyCorrections {
+  return JSON.parse(row.key_corrections || '{}');
+}
+
+export function applyKeyCorrections(paper: Paper, corrections: KeyCorrections): Paper {
+  const solutionKey = { ...paper.solutionKey };
+  const voided: string[] = [];
+  for (const q of paper.questions) {
+    const correction = corrections[q.id];
+    if (correction?.key !== undefined) solutionKey[q.id] = correction.key;
+    if (correction?.voided) voided.push(q.id);
+  }
+  return { ...paper, solutionKey, voided };
+}
+
+// The questions that count towards the score
+export const scoredQuestions = (paper: Paper) => paper.questions.filter(q => !paper.voided?.includes(q.id));
+
+export function getExamPaper(row: ExamRow): Paper {
+  const paper = { questions: row.questions, solutionKey: row.solutionKey, partialCredit: getPartialCredit(row) };
+  return applyKeyCorrections(paper, getKeyCorrections(row));
+}
+
+// The examiner always gets the questions in their own order, including the ones students are not sent up front
+export function toExaminerExam(row: ExamRow): ExaminerExam {
+  return {
+    ...toStudentExam(row),
+    questions: row.questions,
+    solutionKey: getExamPaper(row).solutionKey,
+    partialCredit: getPartialCredit(row),
+    flags: JSON.parse(row.review_flags),
+    status: row.status,
+    lifecycle: getLifecycle(row),
+    blueprint: getBlueprint(row),
+    shuffle: getShufflePolicy(row),
+    joinCutoffMinutes: row.join_cutoff_minutes,
+    maxAttempts: row.max_attempts,
+  };
+}
+
+export function toExamSummary(row: ExamRow): ExamSummary {
+  const blueprint = getBlueprint(row);
+  return {
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    lifecycle: getLifecycle(row),
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+    durationMinutes: row.duration_minutes,
+    questionCount: blueprint ? blueprintSize(blueprint) : row.questions.length,
+  };
+}
+
+// Every question must be answerable and gradeable before students can be given it
+export function validateQuestions(questions: Question[], solutionKey: SolutionKey, partialCredit: PartialCredit): string[] {
+  const errors: string[] = [];
+  questions.forEach((q, i) => {
+    const label = `Question ${i + 1}`;
+    if (!q.text?.trim()) errors.push(`${label} has no text`);
+    if (!QUESTION_TYPES.includes(questionType(q))) {
+      errors.push(`${label} has an unknown question type`);
+      return;
+    }
+    const key = solutionKey[q.id];
+    if (isChoiceQuestion(q)) {
+      if (!Array.isArray(q.options) || q.options.length < 2) {
+        errors.push(`${label} needs at least two options`);
+        return;
+      }
+      if (q.options.some(o => !o.trim())) errors.push(`${label} has an empty option`);
+      const isOption = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < q.options.length;
+      const keyed = questionType(q) === 'multiple_choice'
+        ? Array.isArray(key) && key.length > 0 && key.every(isOption)
+        : isOption(key);
+      if (!keyed) errors.push(`${label} has no correct answer selected`);
+      return;
+    }
+    switch (questionType(q)) {
+      case 'numeric':
+        if (!isNumericKey(key) || !Number.isFinite(key.value)) errors.push(`${label} has no correct answer set`);
+        else if (!(key.tolerance >= 0)) errors.push(`${label} has a negative tolerance`);
+        break;
+      case 'fill_blank':
+        if (!isTextKey(key) || !key.accepted.some(a => a.trim())) errors.push(`${label} has no accepted answers`);
+        break;
+      case 'short_answer':
+        // Marked by hand, so a model answer is helpful but optional
+        if (key !== undefined && !isShortAnswerKey(key)) errors.push(`${label} has an invalid model answer`);
+        break;
+    }
+  });
+  return [...errors, ...validateQuestionScoring(questions, partialCredit, solutionKey)];
+}
+
+// Drafts may be incomplete; a published exam must be fully answerable and gradeable.
+// Blueprint exams have no questions of their own; their bank draw is checked separately.
+export function validateForPublish(row: ExamRow): string[] {
+  const errors: string[] = [];
+  if (!row.title?.trim()) errors.push('The exam needs a title');
+  if (!(row.duration_minutes > 0)) errors.push('The exam needs a duration');
+  if (row.blueprint) return errors;
+
+  const { questions, solutionKey, partialCredit } = getExamPaper(row);
+  if (questions.length === 0) errors.push('The exam has no questions');
+  return [...errors, ...validateQuestions(questions, solutionKey, partialCredit)];
+}
@@ -0,0 +1,95 @@
+import ExcelJS from 'exceljs';
+import type { ExamRow } from './exams.ts';
+import { toExamResult, type ResultRow } from './results.ts';
+import type { ExamResultDetail } from '../src/types.ts';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportSheet = 'attempts' | 'responses';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+export const EXPORT_SHEETS: ExportSheet[] = ['attempts', 'responses'];
+
+type Cell = string | number | boolean;
+
+interface Table {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+}
+
+// One row per attempt: what a gradebook import needs
+function attemptsTable(rows: ResultRow[]): Table {
+  return {
+    name: 'Attempts',
+    header: ['Result ID', 'Attempt ID', 'Student Name', 'Class', 'Score', 'Total Marks', 'Percentage', 'Result', 'Grade', 'Awaiting Marking', 'Terminated', 'Late', 'Submitted At'],
+    rows: rows.map(toExamResult).map(r => [
+      r.id, r.attemptId ?? '', r.studentName, r.studentClass, r.score, r.totalMarks, r.percentage, r.resultStatus, r.grade ?? '', r.pendingReview, r.terminated, r.late, r.timestamp,
+    ]),
+  };
+}
+
+// Long format: one row per question per attempt, with answers decoded to option text
+function responsesTable(rows: ResultRow[], detail: (row: ResultRow) => ExamResultDetail): Table {
+  return {
+    name: 'Responses',
+    header: ['Result ID', 'Student Name', 'Class', 'Question #', 'Question ID', 'Question', 'Answer', 'Correct Answer', 'Correct', 'Marks Awarded', 'Marks'],
+    rows: rows.map(detail).flatMap(result => result.responses.map((response, i) => [
+      result.id,
+      result.studentName,
+      result.studentClass,
+      i + 1,
+      response.questionId,
+      response.text,
+      response.answer !== null ? response.answerText : '',
+      response.correctAnswerText,
+      response.isCorrect ?? 'Awaiting marking',
+      response.marksAwarded,
+      response.marks,
+    ])),
+  };
+}
+
+// Spreadsheet apps run cells starting with these as formulas, which student-typed names must never trigger
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: Cell) {
+  if (typeof value !== 'string') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv({ header, rows }: Table) {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+async function toXlsx(tables: Table[]) {
+  const workbook = new ExcelJS.Workbook();
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(table.name);
+    sheet.addRow(table.header).font = { bold: true };
+    sheet.addRows(table.rows);
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// CSV holds a single table, so the sheet picks which; XLSX always carries both.
+// `detail` resolves each result against the paper it was sat on.
+export async function exportResults(
+  exam: ExamRow, rows: ResultRow[], format: ExportFormat, sheet: ExportSheet, detail: (row: ResultRow) => ExamResultDetail,
+) {
+  const basename = `${exam.id}-results`;
+  if (format === 'xlsx') {
+    return {
+      filename: `${basename}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      body: await toXlsx([attemptsTable(rows), responsesTable(rows, detail)]),
+    };
+  }
+  const table = sheet === 'responses' ? responsesTable(rows, detail) : attemptsTable(rows);
+  return {
+    filename: `${basename}-${sheet}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    body: toCsv(table),
+  };
+}
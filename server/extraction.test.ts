@@ -0,0 +1,72 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+import { createFakeExtractor, validateDraft, ExtractionError } from './extraction.ts';
+
+const pdf = new Uint8Array(Buffer.from('%PDF-1.4 fake question paper'));
+
+let client: TestClient;
+
+afterEach(() => client.close());
+
+test('POST /api/exams/extract returns a validated draft from the configured extractor', async () => {
+  client = await startTestServer({ extractor: createFakeExtractor() });
+  const cookie = await registerExaminer(client);
+
+  const res = await client.request('/api/exams/extract', { method: 'POST', cookie, body: pdf, contentType: 'application/pdf' });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.questions.length, 3);
+  assert.equal(res.body.solutionKey.q1, 1);
+});
+
+test('POST /api/exams/extract requires an examiner session', async () => {
+  client = await startTestServer({ extractor: createFakeExtractor() });
+  const res = await client.request('/api/exams/extract', { method: 'POST', body: pdf, contentType: 'application/pdf' });
+  assert.equal(res.status, 401);
+});
+
+test('POST /api/exams/extract flags recoverable problems for the review step', async () => {
+  client = await startTestServer({
+    extractor: createFakeExtractor({
+      questions: [
+        { id: 'q1', text: 'Pick one', options: ['A', 'B'], confidence: 0.4 },
+        { id: 'q2', text: 'Pick another', options: ['C', 'D'], confidence: 0.99 }
+      ],
+      solutionKey: { q1: 5, q2: 0 }
+    })
+  });
+  const cookie = await registerExaminer(client);
+
+  const res = await client.request('/api/exams/extract', { method: 'POST', cookie, body: pdf, contentType: 'application/pdf' });
+  assert.equal(res.status, 200);
+  assert.deepEqual(res.body.flags, { q1: ['No correct answer was detected', 'Low extraction confidence'] });
+  assert.deepEqual(res.body.solutionKey, { q2: 0 });
+});
+
+test('POST /api/exams/extract rejects documents with no questions', async () => {
+  client = await startTestServer({ extractor: createFakeExtractor({ questions: [], solutionKey: {} }) });
+  const cookie = await registerExaminer(client);
+
+  const res = await client.request('/api/exams/extract', { method: 'POST', cookie, body: pdf, contentType: 'application/pdf' });
+  assert.equal(res.status, 422);
+});
+
+test('POST /api/exams/extract reports 503 when no extractor is configured', async () => {
+  client = await startTestServer();
+  const cookie = await registerExaminer(client);
+  const res = await client.request('/api/exams/extract', { method: 'POST', cookie, body: pdf, contentType: 'application/pdf' });
+  assert.equal(res.status, 503);
+});
+
+test('validateDraft renames duplicate question ids and flags single-option questions', () => {
+  const draft = validateDraft({
+    questions: [{ id: 'q1', text: 'a', options: ['x', 'y'] }, { id: 'q1', text: 'b', options: ['x'] }],
+    solutionKey: { q1: 0 }
+  });
+  assert.deepEqual(draft.questions.map(q => q.id), ['q1', 'q1-2']);
+  assert.deepEqual(draft.flags['q1-2'], [
+    'Shared an id with another question, so its answer may be wrong',
+    'Needs at least two options'
+  ]);
+  assert.throws(() => validateDraft({ questions: 'none' }), ExtractionError);
+});
@@ -0,0 +1,198 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { QUESTION_TYPES, TRUE_FALSE_OPTIONS } from '../src/lib/questions.ts';
+import type { AnswerKey, ExamDraft, Question, QuestionType, ReviewFlags, SolutionKey } from '../src/types.ts';
+
+// Turns an uploaded question paper into raw question data. Output is untrusted until validated.
+export interface QuestionExtractor {
+  extract(pdf: Buffer): Promise<unknown>;
+}
+
+export class ExtractionError extends Error {}
+
+const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+const EXTRACTION_PROMPT = `
+  I have a PDF file which is a question paper. Questions may be of these types:
+  - "single_choice": multiple choice with exactly one correct option
+  - "multiple_choice": multiple choice where every correct option must be selected
+  - "true_false": a statement to mark as true or false (options are ["True", "False"])
+  - "numeric": the answer is a number
+  - "fill_blank": the answer is a short word or phrase
+  - "short_answer": a written answer that a person must mark
+
+  Please extract all the questions from the PDF and identify the correct answer for each question.
+  The correct answer might be explicitly marked in the PDF (e.g., bolded, underlined, or with a checkmark),
+  or you should determine the correct answer by solving the question if it's a factual or logical problem.
+  For each question, include a "confidence" between 0 and 1 for how sure you are of the extracted text and answer.
+
+  Return the data in the following JSON format, filling in only the answer fields that apply to the question's type:
+  {
+    "questions": [
+      { "id": "q1", "type": "single_choice", "text": "Question text", "options": ["A", "B", "C", "D"], "correctOptions": [0], "confidence": 0.95 },
+      { "id": "q2", "type": "numeric", "text": "Question text", "numericAnswer": 9.81, "tolerance": 0.01, "confidence": 0.9 },
+      { "id": "q3", "type": "fill_blank", "text": "Question text", "acceptedAnswers": ["Paris"], "confidence": 0.9 },
+      { "id": "q4", "type": "short_answer", "text": "Question text", "modelAnswer": "What a full-marks answer says", "confidence": 0.8 }
+    ]
+  }
+
+  "correctOptions" holds 0-based option indexes. Use a tolerance of 0 unless the question states a precision.
+`;
+
+export function createGeminiExtractor(apiKey: string): QuestionExtractor {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    async extract(pdf) {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: [
+          {
+            parts: [
+              { text: EXTRACTION_PROMPT },
+              { inlineData: { mimeType: 'application/pdf', data: pdf.toString('base64') } }
+            ]
+          }
+        ],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              questions: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    id: { type: Type.STRING },
+                    type: { type: Type.STRING, enum: QUESTION_TYPES },
+                    text: { type: Type.STRING },
+                    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    correctOptions: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                    numericAnswer: { type: Type.NUMBER },
+                    tolerance: { type: Type.NUMBER },
+                    acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    modelAnswer: { type: Type.STRING },
+                    confidence: { type: Type.NUMBER }
+                  },
+                  required: ['id', 'type', 'text']
+                }
+              }
+            },
+            required: ['questions']
+          }
+        }
+      });
+
+      try {
+        return JSON.parse(response.text || '{}');
+      } catch {
+        throw new ExtractionError('The extraction model returned malformed JSON');
+      }
+    }
+  };
+}
+
+// Deterministic stand-in for tests and offline development (EXTRACTOR=fake)
+export function createFakeExtractor(draft: unknown = SAMPLE_DRAFT): QuestionExtractor {
+  return {
+    async extract() {
+      return structuredClone(draft);
+    }
+  };
+}
+
+const SAMPLE_DRAFT = {
+  questions: [
+    { id: 'q1', text: 'What is the SI unit of force?', options: ['Joule', 'Newton', 'Watt', 'Pascal'] },
+    { id: 'q2', text: 'Which planet is closest to the Sun?', options: ['Venus', 'Earth', 'Mercury', 'Mars'] },
+    { id: 'q3', text: 'What is 7 × 8?', options: ['54', '56', '64', '48'] }
+  ],
+  solutionKey: { q1: 1, q2: 2, q3: 1 }
+};
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v: unknown) => typeof v === 'string').map((v: string) => v.trim()) : [];
+
+// Each type keeps its own answer fields; older extractor output instead keyed option indexes in a top-level solutionKey
+function readAnswerKey(type: QuestionType, q: any, legacyAnswer: unknown, options: string[], issues: string[]): AnswerKey | undefined {
+  switch (type) {
+    case 'numeric': {
+      if (typeof q?.numericAnswer !== 'number' || !Number.isFinite(q.numericAnswer)) break;
+      const tolerance = typeof q.tolerance === 'number' && q.tolerance >= 0 ? q.tolerance : 0;
+      return { value: q.numericAnswer, tolerance };
+    }
+    case 'fill_blank': {
+      const accepted = strings(q?.acceptedAnswers).filter(Boolean);
+      if (!accepted.length) break;
+      return { accepted, caseSensitive: false };
+    }
+    case 'short_answer':
+      return { modelAnswer: typeof q?.modelAnswer === 'string' ? q.modelAnswer.trim() : '' };
+    default: {
+      const marked = Array.isArray(q?.correctOptions) ? q.correctOptions : Array.isArray(legacyAnswer) ? legacyAnswer : [legacyAnswer];
+      const correct = [...new Set(marked.filter((i: unknown) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < options.length))] as number[];
+      if (!correct.length) break;
+      if (type === 'multiple_choice') return correct.sort((a, b) => a - b);
+      if (correct.length > 1) issues.push('More than one correct answer was detected; the first is keyed');
+      return correct[0];
+    }
+  }
+  issues.push('No correct answer was detected');
+  return undefined;
+}
+
+export function createExtractorFromEnv(env = process.env): QuestionExtractor | null {
+  if (env.EXTRACTOR === 'fake') return createFakeExtractor();
+  if (env.GEMINI_API_KEY) return createGeminiExtractor(env.GEMINI_API_KEY);
+  return null;
+}
+
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Normalizes extractor output into the Question / SolutionKey shapes. Only an empty result is fatal;
+// anything an examiner can fix in the review step is flagged on the question instead.
+export function validateDraft(data: any): ExamDraft {
+  if (!data || !Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new ExtractionError('No questions were found in the document');
+  }
+  const rawKey = data.solutionKey && typeof data.solutionKey === 'object' ? data.solutionKey : {};
+
+  const seen = new Set<string>();
+  const questions: Question[] = [];
+  const solutionKey: SolutionKey = {};
+  const flags: ReviewFlags = {};
+
+  data.questions.forEach((q: any, i: number) => {
+    const issues: string[] = [];
+    const rawId = typeof q?.id === 'string' ? q.id.trim() : '';
+    let id = rawId || `q${i + 1}`;
+    while (seen.has(id)) id = `${id}-${i + 1}`;
+    seen.add(id);
+    if (rawId && id !== rawId) issues.push('Shared an id with another question, so its answer may be wrong');
+
+    const text = typeof q?.text === 'string' ? q.text.trim() : '';
+    if (!text) issues.push('Question text is missing');
+
+    let type: QuestionType = 'single_choice';
+    if (QUESTION_TYPES.includes(q?.type)) type = q.type;
+    else if (q?.type !== undefined) issues.push('Unrecognised question type, so it was read as single choice');
+
+    const isChoice = type === 'single_choice' || type === 'multiple_choice' || type === 'true_false';
+    let options = isChoice ? strings(q?.options) : [];
+    if (type === 'true_false' && options.length !== 2) options = [...TRUE_FALSE_OPTIONS];
+    if (isChoice && options.length < 2) issues.push('Needs at least two options');
+    if (new Set(options).size !== options.length) issues.push('Contains duplicate options');
+
+    const answer = readAnswerKey(type, q, rawKey[rawId], options, issues);
+    if (answer !== undefined) solutionKey[id] = answer;
+
+    if (typeof q?.confidence === 'number' && q.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      issues.push('Low extraction confidence');
+    }
+
+    questions.push((isChoice ? { id, type, text, options } : { id, type, text }) as Question);
+    if (issues.length) flags[id] = issues;
+  });
+
+  return { questions, solutionKey, flags };
+}
@@ -0,0 +1,79 @@
+import type { DB } from './db.ts';
+import { getScoringRules, scoredQuestions, type ExamRow } from './exams.ts';
+import { gradeResponses, questionMarks, type ManualMarks } from './scoring.ts';
+import { getExamResponses, getManualMarks, getResultPaper, getResultResponses, getResultRows, type ResultRow } from './results.ts';
+import { isShortAnswerKey, questionType } from '../src/lib/questions.ts';
+import type { PendingGrade } from '../src/types.ts';
+
+export class ManualGradeError extends Error {}
+
+export function getExamManualMarks(db: DB, examId: string) {
+  const rows = db.prepare(`
+    SELECT m.result_id, m.question_id, m.marks_awarded FROM manual_grades m JOIN results r ON r.id = m.result_id WHERE r.exam_id = ?
+  `).all(examId) as { result_id: number; question_id: string; marks_awarded: number }[];
+  const byResult = new Map<number, ManualMarks>();
+  for (const row of rows) {
+    byResult.set(row.result_id, { ...byResult.get(row.result_id), [row.question_id]: row.marks_awarded });
+  }
+  return byResult;
+}
+
+// Marks a stored answer sheet again with the exam's current key and any hand-given marks, and saves the outcome
+export function regradeResult(db: DB, exam: ExamRow, row: ResultRow): ResultRow {
+  const responses = getResultResponses(db, row.id);
+  const paper = getResultPaper(db, row, exam);
+  const { score, totalMarks, resultStatus, grade, pending } = gradeResponses(
+    scoredQuestions(paper), paper.solutionKey, paper.partialCredit, getScoringRules(exam), responses, getManualMarks(db, row.id),
+  );
+  db.prepare('UPDATE results SET score = ?, total_marks = ?, result_status = ?, grade = ?, pending_review = ? WHERE id = ?')
+    .run(score, totalMarks, resultStatus, grade, pending.length, row.id);
+  return { ...row, score, total_marks: totalMarks, result_status: resultStatus, grade, pending_review: pending.length };
+}
+
+export function recordManualGrade(db: DB, exam: ExamRow, row: ResultRow, questionId: unknown, marksAwarded: unknown, examinerId: number, now = Date.now()) {
+  const question = scoredQuestions(getResultPaper(db, row, exam)).find(q => q.id === questionId);
+  if (!question || questionType(question) !== 'short_answer') throw new ManualGradeError('Only short-answer questions are marked by hand');
+  const responses = getResultResponses(db, row.id);
+  if (responses[question.id] === undefined) throw new ManualGradeError('This question was not answered');
+  const marks = questionMarks(question);
+  if (typeof marksAwarded !== 'number' || !(marksAwarded >= 0 && marksAwarded <= marks)) {
+    throw new ManualGradeError(`Marks must be between 0 and ${marks}`);
+  }
+
+  return db.transaction(() => {
+    db.prepare(`
+      INSERT INTO manual_grades (result_id, question_id, marks_awarded, graded_by, graded_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (result_id, question_id) DO UPDATE SET marks_awarded = excluded.marks_awarded, graded_by = excluded.graded_by, graded_at = excluded.graded_at
+    `).run(row.id, question.id, marksAwarded, examinerId, now);
+    return regradeResult(db, exam, row);
+  })();
+}
+
+// Every answered short-answer question without a mark yet, oldest submission first
+export function getGradingQueue(db: DB, exam: ExamRow): PendingGrade[] {
+  const marksByResult = getExamManualMarks(db, exam.id);
+  const responsesByResult = getExamResponses(db, exam.id);
+
+  return getResultRows(db, exam.id).flatMap(row => {
+    const paper = getResultPaper(db, row, exam);
+    const questions = scoredQuestions(paper).filter(q => questionType(q) === 'short_answer');
+    const { solutionKey } = paper;
+    const responses = responsesByResult.get(row.id) ?? {};
+    const graded = marksByResult.get(row.id) ?? {};
+    return questions
+      .filter(q => typeof responses[q.id] === 'string' && graded[q.id] === undefined)
+      .map(q => {
+        const key = solutionKey[q.id];
+        return {
+          resultId: row.id,
+          studentName: row.student_name,
+          studentClass: row.student_class,
+          questionId: q.id,
+          questionText: q.text,
+          answer: responses[q.id] as string,
+          modelAnswer: isShortAnswerKey(key) ? key.modelAnswer : '',
+          marks: questionMarks(q),
+        };
+      });
+  });
+}
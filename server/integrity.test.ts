@@ -0,0 +1,79 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'INTG01',
+  title: 'Monitored Quiz',
+  durationMinutes: 10,
+  questions: [{ id: 'q1', text: '2 + 2?', options: ['3', '4'] }],
+  solutionKey: { q1: 1 },
+  proctoring: { events: ['hidden', 'copy_paste'], maxViolations: 1, gracePeriodSeconds: 0 },
+};
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+function sendEvents(attemptId: string, events: { id: string; type: string; occurredAt?: number }[]) {
+  const body = { events: events.map(e => ({ occurredAt: Date.now(), ...e })) };
+  return client.request(`/api/attempts/${attemptId}/events`, { method: 'POST', body });
+}
+
+test('events are logged once per id and classified against the exam policy', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  const batch = [{ id: 'e1', type: 'hidden' }, { id: 'e2', type: 'reconnect' }];
+  assert.equal((await sendEvents(attemptId, batch)).status, 200);
+  const retried = await sendEvents(attemptId, batch);
+  assert.equal(retried.body.violationCount, 1);
+  assert.equal(retried.body.terminated, false);
+
+  const report = await client.request(`/api/exams/${exam.id}/integrity/${attemptId}`, { cookie });
+  assert.equal(report.status, 200);
+  assert.deepEqual(report.body.events.map((e: any) => [e.type, e.violation]), [['hidden', true], ['reconnect', false]]);
+  assert.equal(report.body.suspicionScore, 15);
+  assert.equal(report.body.suspicionLevel, 'low');
+});
+
+test('the server decides termination from the log, including events sent with the submission', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  await sendEvents(attemptId, [{ id: 'e1', type: 'hidden' }]);
+
+  const events = [{ id: 'e2', type: 'copy_paste', occurredAt: Date.now() }];
+  const res = await client.request('/api/submit', { method: 'POST', body: { attemptId, events } });
+  assert.equal(res.body.terminated, true);
+  const row = client.db.prepare('SELECT terminated FROM results WHERE attempt_id = ?').get(attemptId) as { terminated: number };
+  assert.equal(row.terminated, 1);
+
+  assert.equal((await sendEvents(attemptId, [{ id: 'e3', type: 'hidden' }])).status, 409);
+});
+
+test('a client claiming termination without logged violations is not terminated', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  const res = await client.request('/api/submit', { method: 'POST', body: { attemptId, terminated: true } });
+  assert.equal(res.body.terminated, false);
+});
+
+test('unknown event types are rejected', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  assert.equal((await sendEvents(attemptId, [{ id: 'e1', type: 'toString' }])).status, 400);
+});
+
+test('only the owning examiner can read integrity reports', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  const list = await client.request(`/api/exams/${exam.id}/integrity`, { cookie });
+  assert.deepEqual(list.body.map((s: any) => [s.attemptId, s.violationCount]), [[attemptId, 0]]);
+  assert.equal(list.body[0].events, undefined);
+
+  const otherCookie = await registerExaminer(client, 'other@school.edu');
+  assert.equal((await client.request(`/api/exams/${exam.id}/integrity`, { cookie: otherCookie })).status, 403);
+  assert.equal((await client.request(`/api/exams/${exam.id}/integrity/${attemptId}`, { cookie: otherCookie })).status, 403);
+});
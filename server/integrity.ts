@@ -0,0 +1,116 @@
+import type { DB } from './db.ts';
+import type { AttemptRow } from './attempts.ts';
+import type { ExamRow } from './exams.ts';
+import { attemptProctoringPolicy } from './accommodations.ts';
+import { INTEGRITY_EVENT_LABELS } from '../src/lib/proctoring.ts';
+import type {
+  IntegrityEvent,
+  IntegrityEventInput,
+  IntegrityEventType,
+  IntegrityReport,
+  IntegritySummary,
+  SuspicionLevel,
+} from '../src/types.ts';
+
+export class IntegrityEventError extends Error {}
+
+const MAX_EVENTS_PER_BATCH = 200;
+
+// Rough weights for how strongly each event suggests outside help; devtools and clipboard use are the clearest signals
+const SUSPICION_WEIGHTS: Record<IntegrityEventType, number> = {
+  blur: 5,
+  hidden: 10,
+  fullscreen_exit: 10,
+  copy_paste: 15,
+  right_click: 5,
+  devtools: 25,
+  reconnect: 5,
+};
+const TERMINATION_PENALTY = 20;
+
+interface IntegrityEventRow {
+  type: IntegrityEventType;
+  occurred_at: number;
+  violation: number;
+}
+
+function parseEvents(input: unknown): IntegrityEventInput[] {
+  if (!Array.isArray(input)) throw new IntegrityEventError('Events must be a list');
+  if (input.length > MAX_EVENTS_PER_BATCH) throw new IntegrityEventError(`At most ${MAX_EVENTS_PER_BATCH} events can be sent at once`);
+
+  return input.map(event => {
+    const { id, type, occurredAt } = event ?? {};
+    if (typeof id !== 'string' || !id || id.length > 64) throw new IntegrityEventError('Each event needs an id');
+    if (!Object.hasOwn(SUSPICION_WEIGHTS, type)) throw new IntegrityEventError(`Unknown integrity event "${type}"`);
+    if (typeof occurredAt !== 'number' || !Number.isFinite(occurredAt)) throw new IntegrityEventError('Each event needs a timestamp');
+    return { id, type, occurredAt };
+  });
+}
+
+// Stores a batch reported by the client. Events already logged under the same id are ignored, so retries are safe.
+export function recordIntegrityEvents(db: DB, attempt: AttemptRow, exam: ExamRow, input: unknown, now = Date.now()) {
+  const events = parseEvents(input);
+  const { events: counted } = attemptProctoringPolicy(attempt, exam);
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO integrity_events (attempt_id, client_id, type, occurred_at, received_at, violation)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const event of events) {
+      // Client clocks are not trusted to place events outside the attempt
+      const occurredAt = Math.min(Math.max(event.occurredAt, attempt.started_at), now);
+      // Nothing counts while the student is on an accommodated break
+      const onBreak = attempt.break_started_at !== null && occurredAt >= attempt.break_started_at;
+      const violation = !onBreak && (counted as IntegrityEventType[]).includes(event.type);
+      insert.run(attempt.id, event.id, event.type, occurredAt, now, violation ? 1 : 0);
+    }
+  })();
+}
+
+export function getIntegrityEvents(db: DB, attemptId: string): IntegrityEvent[] {
+  const rows = db.prepare('SELECT type, occurred_at, violation FROM integrity_events WHERE attempt_id = ? ORDER BY occurred_at, rowid')
+    .all(attemptId) as IntegrityEventRow[];
+  return rows.map(r => ({ type: r.type, occurredAt: r.occurred_at, violation: !!r.violation }));
+}
+
+function suspicionLevel(score: number): SuspicionLevel {
+  if (score >= 60) return 'high';
+  if (score >= 25) return 'medium';
+  return 'low';
+}
+
+export function getIntegrityReport(db: DB, attempt: AttemptRow, exam: ExamRow): IntegrityReport {
+  const events = getIntegrityEvents(db, attempt.id);
+  const violationCount = events.filter(e => e.violation).length;
+  const terminated = violationCount > attemptProctoringPolicy(attempt, exam).maxViolations;
+  const weight = events.reduce((sum, e) => sum + SUSPICION_WEIGHTS[e.type], 0) + (terminated ? TERMINATION_PENALTY : 0);
+  const suspicionScore = Math.min(100, weight);
+
+  return {
+    attemptId: attempt.id,
+    studentName: attempt.student_name,
+    studentClass: attempt.student_class,
+    startedAt: attempt.started_at,
+    submittedAt: attempt.submitted_at,
+    terminated,
+    violationCount,
+    suspicionScore,
+    suspicionLevel: suspicionLevel(suspicionScore),
+    events,
+  };
+}
+
+export function toIntegritySummary({ events: _events, ...summary }: IntegrityReport): IntegritySummary {
+  return summary;
+}
+
+// Plain-text timeline for result emails, with times relative to the start of the attempt
+export function formatIntegrityTimeline(report: IntegrityReport) {
+  if (!report.events.length) return 'No integrity events recorded.';
+  return report.events.map(e => {
+    const elapsed = Math.round((e.occurredAt - report.startedAt) / 1000);
+    const clock = `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+    return `+${clock}  ${INTEGRITY_EVENT_LABELS[e.type]}${e.violation ? ' (violation)' : ''}`;
+  }).join('\n');
+}
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+// Where the outbox hands messages over. A transport throws when delivery fails, and the outbox retries later.
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+// Any SMTP server, including a local stand-in such as MailHog or smtp4dev (no credentials needed there)
+export function createSmtpTransport(env = process.env): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT || 587),
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+  });
+  const from = env.MAIL_FROM || env.SMTP_USER;
+  return {
+    async send(mail) {
+      await transporter.sendMail({ from, ...mail });
+    },
+  };
+}
+
+// Writes each message to its own JSON file instead of sending it, for development and tests. Attachments are base64.
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    async send(mail) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const filename = `${Date.now()}-${crypto.randomUUID()}.json`;
+      const attachments = mail.attachments?.map(a => ({ ...a, content: a.content.toString('base64') }));
+      await fs.promises.writeFile(path.join(dir, filename), JSON.stringify({ ...mail, attachments }, null, 2));
+    },
+  };
+}
+
+export function createTransportFromEnv(env = process.env): MailTransport | null {
+  if (env.MAIL_TRANSPORT === 'file') return createFileTransport(env.MAIL_DIR || 'mail');
+  if (env.SMTP_HOST) return createSmtpTransport(env);
+  return null;
+}
+
@@ -0,0 +1,106 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { databasePathFromEnv, openDatabase } from './db.ts';
+import { migrate, MIGRATIONS, MigrationError } from './migrations.ts';
+import { getExamRow } from './exams.ts';
+import { getResultResponses } from './results.ts';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+
+const latest = Math.max(...MIGRATIONS.map(m => m.version));
+const count = (db: Database.Database, sql: string) => (db.prepare(sql).get() as { n: number }).n;
+const columns = (db: Database.Database, table: string) => (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+
+test('a new database is migrated to the latest version once', () => {
+  const db = openDatabase(':memory:');
+  const versions = (db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[]).map(r => r.version);
+  assert.deepEqual(versions, MIGRATIONS.map(m => m.version));
+  assert.equal(versions.at(-1), latest);
+  assert.deepEqual(migrate(db), []);
+  assert.ok(!columns(db, 'exams').includes('questions'));
+  db.close();
+});
+
+test('a failed migration leaves no trace and a newer database is refused', () => {
+  const db = new Database(':memory:');
+  const failing = [{ version: 1, name: 'broken', up: (d: Database.Database) => { d.exec('CREATE TABLE half (x)'); throw new Error('boom'); } }];
+  assert.throws(() => migrate(db, failing), /boom/);
+  assert.equal(count(db, "SELECT COUNT(*) AS n FROM sqlite_master WHERE name = 'half'"), 0);
+  assert.equal(count(db, 'SELECT COUNT(*) AS n FROM schema_migrations'), 0);
+
+  db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(latest + 1, 'future', 0);
+  assert.throws(() => migrate(db), MigrationError);
+  db.close();
+});
+
+test('questions, answer keys and answer sheets stored as JSON become rows of their own', () => {
+  const file = path.join(os.tmpdir(), `legacy-json-${process.pid}.db`);
+  try {
+    const legacy = new Database(file);
+    legacy.exec(`
+      CREATE TABLE exams (id TEXT PRIMARY KEY, title TEXT, questions TEXT, solution_key TEXT, duration_minutes INTEGER, examiner_email TEXT);
+      CREATE TABLE results (id INTEGER PRIMARY KEY AUTOINCREMENT, exam_id TEXT, student_name TEXT, student_class TEXT, responses TEXT, score INTEGER, total_marks INTEGER, terminated BOOLEAN, timestamp DATETIME DEFAULT CURRENT_TIMESTAMP);
+    `);
+    legacy.prepare('INSERT INTO exams (id, title, questions, solution_key, duration_minutes) VALUES (?, ?, ?, ?, ?)').run('OLD', 'Old', JSON.stringify([
+      { id: 'q1', text: 'Capital of France?', options: ['Lyon', 'Paris'] },
+      { id: 'q2', type: 'numeric', text: 'Pi to two places?', marks: 2 },
+      { id: 'q1', text: 'A stray copy', options: ['A', 'B'] },
+      { id: 'q3', type: 'multiple_choice', text: 'Primes?', options: ['2', '4', '5'], negativeMarking: 0.5 },
+    ]), JSON.stringify({ q1: 1, q2: { value: 3.14, tolerance: 0 }, gone: 0 }), 10);
+    legacy.prepare("INSERT INTO exams (id, title, questions, solution_key, duration_minutes) VALUES ('EMPTY', 'Empty', NULL, NULL, 5)").run();
+    legacy.prepare("INSERT INTO results (exam_id, student_name, student_class, responses, score, total_marks, terminated) VALUES ('OLD', 'Ada', '12A', ?, 3, 4, 0)")
+      .run(JSON.stringify({ q1: 1, q2: '3.14', q3: [0, 2], q4: null }));
+    legacy.close();
+
+    const db = openDatabase(file);
+    const exam = getExamRow(db, 'old')!;
+    assert.deepEqual(exam.questions, [
+      { id: 'q1', text: 'Capital of France?', options: ['Lyon', 'Paris'] },
+      { id: 'q2', type: 'numeric', text: 'Pi to two places?', marks: 2 },
+      { id: 'q3', type: 'multiple_choice', text: 'Primes?', options: ['2', '4', '5'], negativeMarking: 0.5 },
+    ]);
+    assert.deepEqual(exam.solutionKey, { q1: 1, q2: { value: 3.14, tolerance: 0 } });
+    assert.deepEqual(getExamRow(db, 'EMPTY')!.questions, []);
+    assert.deepEqual(getResultResponses(db, 1), { q1: 1, q2: '3.14', q3: [0, 2] });
+    assert.ok(!columns(db, 'exams').includes('solution_key'));
+    assert.ok(!columns(db, 'results').includes('responses'));
+    db.close();
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+});
+
+test('DATABASE_PATH chooses the database file', () => {
+  assert.equal(databasePathFromEnv({}), 'exam.db');
+  assert.equal(databasePathFromEnv({ DATABASE_PATH: ' /var/lib/exams/exam.db ' }), '/var/lib/exams/exam.db');
+});
+
+let client: TestClient;
+let cookie: string;
+
+before(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+});
+
+after(() => client.close());
+
+test('saving an exam replaces its question rows, and question ids must be unique', async () => {
+  const save = (questions: unknown[]) => client.request('/api/exams', {
+    method: 'POST', cookie, body: { id: 'ROWS1', title: 'Rows', durationMinutes: 10, questions, solutionKey: { a: 0, b: 1 } },
+  });
+  assert.equal((await save([{ id: 'a', text: 'One', options: ['x', 'y'] }, { id: 'b', text: 'Two', options: ['x', 'y', 'z'] }])).status, 200);
+  assert.equal((await save([{ id: 'b', text: 'Two', options: ['x', 'y'] }])).status, 200);
+
+  const rows = client.db.prepare("SELECT question_id FROM exam_questions WHERE exam_id = 'ROWS1'").all();
+  assert.deepEqual(rows, [{ question_id: 'b' }]);
+  assert.equal(count(client.db, "SELECT COUNT(*) AS n FROM question_options WHERE exam_id = 'ROWS1'"), 2);
+  assert.deepEqual((await client.request('/api/exams/ROWS1/manage', { cookie })).body.solutionKey, { b: 1 });
+
+  const duplicate = await save([{ id: 'a', text: 'One', options: ['x', 'y'] }, { id: 'a', text: 'Again', options: ['x', 'y'] }]);
+  assert.equal(duplicate.status, 400);
+  assert.equal(duplicate.body.error, 'Question 2 has the same id as an earlier question');
+});
@@ -0,0 +1,361 @@
+import type { DB } from './db.ts';
+
+// One step in the schema's history. Each runs once, in version order and inside a transaction, and is recorded in
+// schema_migrations. A migration that has shipped is never edited: change the schema by adding the next one.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DB) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'baseline', up: baseline },
+  { version: 2, name: 'normalize questions and responses', up: normalizeQuestionsAndResponses },
+];
+
+export class MigrationError extends Error {}
+
+// Brings the database up to the latest version and returns the versions it applied
+export function migrate(db: DB, migrations = MIGRATIONS): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+  const applied = new Set((db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(r => r.version));
+  const latest = Math.max(0, ...migrations.map(m => m.version));
+  const unknown = [...applied].filter(version => version > latest);
+  if (unknown.length) {
+    throw new MigrationError(`The database is at schema version ${Math.max(...unknown)}, newer than this server knows (${latest})`);
+  }
+
+  const pending = migrations.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(migration.version, migration.name, Date.now());
+    })();
+  }
+  return pending.map(m => m.version);
+}
+
+// The schema as it stood before migrations were versioned. Every statement tolerates a database created by any
+// earlier release, so this also upgrades databases that predate schema_migrations.
+function baseline(db: DB) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS exams (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      questions TEXT,
+      solution_key TEXT,
+      duration_minutes INTEGER,
+      examiner_email TEXT
+    );
+    CREATE TABLE IF NOT EXISTS attempts (
+      id TEXT PRIMARY KEY,
+      exam_id TEXT NOT NULL REFERENCES exams(id),
+      student_name TEXT NOT NULL,
+      student_class TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      deadline INTEGER NOT NULL,
+      submitted_at INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS attempt_answers (
+      attempt_id TEXT NOT NULL REFERENCES attempts(id) ON DELETE CASCADE,
+      question_id TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (attempt_id, question_id)
+    );
+    CREATE TABLE IF NOT EXISTS integrity_events (
+      attempt_id TEXT NOT NULL REFERENCES attempts(id) ON DELETE CASCADE,
+      client_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      occurred_at INTEGER NOT NULL,
+      received_at INTEGER NOT NULL,
+      violation BOOLEAN NOT NULL,
+      PRIMARY KEY (attempt_id, client_id)
+    );
+    CREATE TABLE IF NOT EXISTS results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      exam_id TEXT,
+      student_name TEXT,
+      student_class TEXT,
+      responses TEXT,
+      score INTEGER,
+      total_marks INTEGER,
+      terminated BOOLEAN,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS bank_questions (
+      id TEXT PRIMARY KEY,
+      owner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      question TEXT NOT NULL,
+      answer_key TEXT,
+      partial_credit TEXT NOT NULL DEFAULT '{}',
+      subject TEXT NOT NULL DEFAULT '',
+      topic TEXT NOT NULL DEFAULT '',
+      difficulty TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS bank_questions_owner ON bank_questions (owner_id, subject, topic);
+    CREATE TABLE IF NOT EXISTS manual_grades (
+      result_id INTEGER NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+      question_id TEXT NOT NULL,
+      marks_awarded REAL NOT NULL,
+      graded_by INTEGER REFERENCES users(id),
+      graded_at INTEGER NOT NULL,
+      PRIMARY KEY (result_id, question_id)
+    );
+    CREATE TABLE IF NOT EXISTS students (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      owner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      student_number TEXT NOT NULL,
+      name TEXT NOT NULL,
+      class TEXT NOT NULL,
+      email TEXT,
+      created_at INTEGER NOT NULL,
+      UNIQUE (owner_id, student_number)
+    );
+    CREATE TABLE IF NOT EXISTS exam_roster (
+      exam_id TEXT NOT NULL REFERENCES exams(id),
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      access_code TEXT NOT NULL,
+      used_at INTEGER,
+      PRIMARY KEY (exam_id, student_id),
+      UNIQUE (exam_id, access_code)
+    );
+    CREATE TABLE IF NOT EXISTS key_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      exam_id TEXT NOT NULL REFERENCES exams(id),
+      question_id TEXT NOT NULL,
+      previous_key TEXT,
+      new_key TEXT,
+      previously_voided BOOLEAN NOT NULL,
+      voided BOOLEAN NOT NULL,
+      reason TEXT NOT NULL DEFAULT '',
+      revised_by INTEGER REFERENCES users(id),
+      revised_at INTEGER NOT NULL,
+      regraded_count INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS score_changes (
+      revision_id INTEGER NOT NULL REFERENCES key_revisions(id) ON DELETE CASCADE,
+      result_id INTEGER NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+      previous_score REAL NOT NULL,
+      new_score REAL NOT NULL,
+      previous_total_marks REAL NOT NULL,
+      new_total_marks REAL NOT NULL,
+      previous_status TEXT,
+      new_status TEXT,
+      PRIMARY KEY (revision_id, result_id)
+    );
+    CREATE TABLE IF NOT EXISTS broadcasts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      exam_id TEXT NOT NULL REFERENCES exams(id),
+      message TEXT NOT NULL,
+      sent_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS notification_templates (
+      owner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      text TEXT NOT NULL,
+      html TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (owner_id, kind)
+    );
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      exam_id TEXT REFERENCES exams(id),
+      recipient TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      text TEXT NOT NULL,
+      html TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at INTEGER,
+      created_at INTEGER NOT NULL,
+      sent_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS outbox_due ON outbox (status, next_attempt_at);
+    CREATE TABLE IF NOT EXISTS outbox_attachments (
+      message_id INTEGER NOT NULL REFERENCES outbox(id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      content BLOB NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS report_records (
+      code TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      exam_id TEXT NOT NULL REFERENCES exams(id),
+      result_id INTEGER REFERENCES results(id) ON DELETE SET NULL,
+      description TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      issued_by INTEGER REFERENCES users(id),
+      issued_at INTEGER NOT NULL
+    );
+  `);
+  migrateAttemptAnswers(db);
+
+  // Columns added after the first release; existing databases need them backfilled
+  ensureColumn(db, 'exams', 'owner_id', 'INTEGER REFERENCES users(id)');
+  ensureColumn(db, 'exams', 'answer_release', "TEXT NOT NULL DEFAULT 'never'");
+  ensureColumn(db, 'exams', 'closes_at', 'TEXT');
+  ensureColumn(db, 'exams', 'status', "TEXT NOT NULL DEFAULT 'published'");
+  ensureColumn(db, 'exams', 'review_flags', "TEXT NOT NULL DEFAULT '{}'");
+  ensureColumn(db, 'exams', 'proctoring_policy', 'TEXT');
+  ensureColumn(db, 'exams', 'scoring_rules', 'TEXT');
+  ensureColumn(db, 'exams', 'partial_credit', "TEXT NOT NULL DEFAULT '{}'");
+  ensureColumn(db, 'exams', 'blueprint', 'TEXT');
+  ensureColumn(db, 'exams', 'shuffle_policy', 'TEXT');
+  ensureColumn(db, 'exams', 'opens_at', 'TEXT');
+  ensureColumn(db, 'exams', 'join_cutoff_minutes', 'INTEGER');
+  ensureColumn(db, 'exams', 'max_attempts', 'INTEGER');
+  ensureColumn(db, 'exams', 'key_corrections', "TEXT NOT NULL DEFAULT '{}'");
+  ensureColumn(db, 'exams', 'examiner_notifications', "TEXT NOT NULL DEFAULT 'each'");
+  ensureColumn(db, 'exams', 'student_notifications', 'BOOLEAN NOT NULL DEFAULT 0');
+  ensureColumn(db, 'exams', 'digest_closes_at', 'TEXT');
+  ensureColumn(db, 'exams', 'attach_reports', 'BOOLEAN NOT NULL DEFAULT 0');
+  ensureColumn(db, 'attempts', 'current_question_idx', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'attempts', 'paper', 'TEXT');
+  ensureColumn(db, 'attempts', 'seed', 'INTEGER');
+  ensureColumn(db, 'attempts', 'student_id', 'INTEGER REFERENCES students(id)');
+  ensureColumn(db, 'attempts', 'extended_ms', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'attempts', 'accommodations', 'TEXT');
+  ensureColumn(db, 'attempts', 'break_started_at', 'INTEGER');
+  ensureColumn(db, 'attempts', 'break_used_ms', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'students', 'accommodations', 'TEXT');
+  ensureColumn(db, 'results', 'attempt_id', 'TEXT REFERENCES attempts(id)');
+  ensureColumn(db, 'results', 'late', 'BOOLEAN NOT NULL DEFAULT 0');
+  ensureColumn(db, 'results', 'result_status', 'TEXT');
+  ensureColumn(db, 'results', 'grade', 'TEXT');
+  ensureColumn(db, 'results', 'pending_review', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'results', 'student_id', 'INTEGER REFERENCES students(id)');
+}
+
+function ensureColumn(db: DB, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Autosaved answers were bare option indexes before question types; they are now JSON so any answer shape fits
+function migrateAttemptAnswers(db: DB) {
+  const columns = db.prepare('PRAGMA table_info(attempt_answers)').all() as { name: string }[];
+  if (!columns.some(c => c.name === 'option_index')) return;
+  db.transaction(() => {
+    db.exec(`
+      ALTER TABLE attempt_answers RENAME TO attempt_answers_legacy;
+      CREATE TABLE attempt_answers (
+        attempt_id TEXT NOT NULL REFERENCES attempts(id) ON DELETE CASCADE,
+        question_id TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (attempt_id, question_id)
+      );
+      INSERT INTO attempt_answers SELECT attempt_id, question_id, CAST(option_index AS TEXT), updated_at FROM attempt_answers_legacy;
+      DROP TABLE attempt_answers_legacy;
+    `);
+  })();
+}
+
+// Questions and their options, the answer key and submitted answer sheets move out of the JSON columns on exams and
+// results into rows of their own, so reports can query them. Blueprint draws saved with attempts stay JSON: each is
+// a snapshot of what one student was given.
+function normalizeQuestionsAndResponses(db: DB) {
+  db.exec(`
+    CREATE TABLE exam_questions (
+      exam_id TEXT NOT NULL REFERENCES exams(id) ON DELETE CASCADE,
+      question_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      type TEXT,
+      text TEXT NOT NULL,
+      marks REAL,
+      negative_marking REAL,
+      answer_key TEXT,
+      PRIMARY KEY (exam_id, question_id),
+      UNIQUE (exam_id, position)
+    );
+    CREATE TABLE question_options (
+      exam_id TEXT NOT NULL,
+      question_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      PRIMARY KEY (exam_id, question_id, position),
+      FOREIGN KEY (exam_id, question_id) REFERENCES exam_questions(exam_id, question_id) ON DELETE CASCADE
+    );
+    CREATE TABLE result_responses (
+      result_id INTEGER NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+      question_id TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      PRIMARY KEY (result_id, question_id)
+    );
+    CREATE INDEX result_responses_question ON result_responses (question_id);
+    CREATE INDEX results_exam ON results (exam_id, timestamp);
+    CREATE INDEX attempts_exam ON attempts (exam_id);
+  `);
+
+  const insertQuestion = db.prepare(`
+    INSERT INTO exam_questions (exam_id, question_id, position, type, text, marks, negative_marking, answer_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertOption = db.prepare('INSERT INTO question_options (exam_id, question_id, position, text) VALUES (?, ?, ?, ?)');
+  const exams = db.prepare('SELECT id, questions, solution_key FROM exams').all() as { id: string; questions: string | null; solution_key: string | null }[];
+  for (const exam of exams) {
+    const questions = parseJson(exam.questions, []);
+    const solutionKey = parseJson(exam.solution_key, {});
+    const seen = new Set<string>();
+    for (const q of Array.isArray(questions) ? questions : []) {
+      // Nothing could grade a second question under the same id, so only the first is kept
+      if (typeof q?.id !== 'string' || seen.has(q.id)) continue;
+      seen.add(q.id);
+      const key = solutionKey?.[q.id];
+      insertQuestion.run(
+        exam.id, q.id, seen.size - 1, q.type ?? null, String(q.text ?? ''), numberOrNull(q.marks), numberOrNull(q.negativeMarking),
+        key === undefined || key === null ? null : JSON.stringify(key),
+      );
+      if (Array.isArray(q.options)) q.options.forEach((option: unknown, i: number) => insertOption.run(exam.id, q.id, i, String(option)));
+    }
+  }
+
+  const insertResponse = db.prepare('INSERT INTO result_responses (result_id, question_id, answer) VALUES (?, ?, ?)');
+  const results = db.prepare('SELECT id, responses FROM results').all() as { id: number; responses: string | null }[];
+  for (const result of results) {
+    for (const [questionId, answer] of Object.entries(parseJson(result.responses, {}) ?? {})) {
+      if (answer !== null && answer !== undefined) insertResponse.run(result.id, questionId, JSON.stringify(answer));
+    }
+  }
+
+  db.exec(`
+    ALTER TABLE exams DROP COLUMN questions;
+    ALTER TABLE exams DROP COLUMN solution_key;
+    ALTER TABLE results DROP COLUMN responses;
+  `);
+}
+
+function parseJson(text: string | null, fallback: any): any {
+  try {
+    return text ? JSON.parse(text) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const numberOrNull = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
@@ -0,0 +1,112 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'LIVE01',
+  title: 'Live Quiz',
+  durationMinutes: 30,
+  questions: [
+    { id: 'q1', text: 'Largest planet?', options: ['Mars', 'Jupiter'] },
+    { id: 'q2', text: 'Closest star?', options: ['The Sun', 'Sirius'] },
+  ],
+  solutionKey: { q1: 1, q2: 0 },
+  proctoring: { events: ['blur'], maxViolations: 3, gracePeriodSeconds: 0 },
+};
+
+let client: TestClient;
+let cookie: string;
+const streams: AbortController[] = [];
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(async () => {
+  for (const controller of streams.splice(0)) controller.abort();
+  await client.close();
+});
+
+// Reads a Server-Sent Events response; next(name) resolves with the data of the next event with that name
+async function openStream(path: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  streams.push(controller);
+  const res = await fetch(`${client.baseUrl}${path}`, { headers, signal: controller.signal });
+  assert.equal(res.headers.get('content-type'), 'text/event-stream');
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  return async function next(name: string): Promise<any> {
+    for (;;) {
+      let end;
+      while ((end = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = /^event: (.*)$/m.exec(block)?.[1];
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        if (event === name) return JSON.parse(data!);
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error(`Stream ended before a "${name}" event`);
+      buffer += value;
+    }
+  };
+}
+
+const watch = () => openStream(`/api/exams/${exam.id}/monitor/stream`, { Cookie: cookie });
+
+test('the monitor streams connection, progress and violations as they happen', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  const next = await watch();
+  const [initial] = await next('snapshot');
+  assert.deepEqual([initial.studentName, initial.connected, initial.answeredCount, initial.questionCount], ['Ada', false, 0, 2]);
+
+  await openStream(`/api/attempts/${attemptId}/stream`);
+  assert.equal((await next('attempt')).connected, true);
+
+  await saveAnswers(client, attemptId, { q1: 1 }, 1);
+  const progressed = await next('attempt');
+  assert.deepEqual([progressed.answeredCount, progressed.currentQuestionIdx], [1, 1]);
+
+  await client.request(`/api/attempts/${attemptId}/events`, { method: 'POST', body: { events: [{ id: 'e1', type: 'blur', occurredAt: Date.now() }] } });
+  assert.equal((await next('attempt')).violationCount, 1);
+
+  await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  assert.ok((await next('attempt')).submittedAt);
+  assert.equal((await client.request(`/api/exams/${exam.id}/monitor`, { cookie })).body.length, 0);
+});
+
+test('students receive broadcasts, extra time and a forced submission on their own channel', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  const before = (await client.request(`/api/attempts/${attemptId}`)).body.deadline;
+  assert.equal((await client.request(`/api/exams/${exam.id}/monitor/broadcast`, { method: 'POST', cookie, body: { message: 'Q2 is bonus' } })).status, 200);
+
+  const next = await openStream(`/api/attempts/${attemptId}/stream`);
+  assert.equal((await next('message')).message, 'Q2 is bonus');
+  await client.request(`/api/exams/${exam.id}/monitor/broadcast`, { method: 'POST', cookie, body: { message: 'Ten minutes left' } });
+  assert.equal((await next('message')).message, 'Ten minutes left');
+
+  const extended = await client.request(`/api/exams/${exam.id}/monitor/${attemptId}/extend`, { method: 'POST', cookie, body: { minutes: 10 } });
+  assert.equal(extended.body.deadline, before + 10 * 60 * 1000);
+  assert.equal((await next('deadline')).deadline, extended.body.deadline);
+
+  await saveAnswers(client, attemptId, { q1: 1 });
+  assert.equal((await client.request(`/api/exams/${exam.id}/monitor/${attemptId}/submit`, { method: 'POST', cookie })).status, 200);
+  const result = await next('submitted');
+  assert.deepEqual([result.score, result.totalMarks], [1, 2]);
+  assert.equal((await client.request('/api/submit', { method: 'POST', body: { attemptId } })).status, 409);
+});
+
+test('extra time for one student survives closing the exam early', async () => {
+  const attemptId = await startAttempt(client, exam.id);
+  await client.request(`/api/exams/${exam.id}/monitor/${attemptId}/extend`, { method: 'POST', cookie, body: { minutes: 5 } });
+  await client.request(`/api/exams/${exam.id}/close`, { method: 'POST', cookie });
+  const { deadline } = (await client.request(`/api/attempts/${attemptId}`)).body;
+  assert.ok(deadline > Date.now() + 4 * 60 * 1000);
+
+  const bad = await client.request(`/api/exams/${exam.id}/monitor/${attemptId}/extend`, { method: 'POST', cookie, body: { minutes: 0 } });
+  assert.equal(bad.status, 400);
+});
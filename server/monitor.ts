@@ -0,0 +1,138 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import type { DB } from './db.ts';
+import { getExamRow, type ExamRow } from './exams.ts';
+import { getAttempt, getAttemptPaper, type AttemptRow } from './attempts.ts';
+import { attemptDeadline } from './schedule.ts';
+import { getIntegrityReport, toIntegritySummary } from './integrity.ts';
+import type { Broadcast, LiveAttempt } from '../src/types.ts';
+
+export class MonitorError extends Error {}
+
+const MAX_BROADCAST_LENGTH = 500;
+const MAX_EXTENSION_MINUTES = 240;
+// Proxies drop connections that stay silent; a comment line every so often keeps the stream open
+const HEARTBEAT_MS = 25 * 1000;
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Server-Sent Events over a plain response. The returned function pushes one event; the stream ends when the client goes.
+export function openEventStream(req: Request, res: Response, onClose: () => void): SendEvent {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    onClose();
+  });
+  return (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function getLiveAttempt(db: DB, attempt: AttemptRow, exam: ExamRow, connected: boolean): LiveAttempt {
+  const paper = getAttemptPaper(attempt, exam);
+  const { answeredCount, lastAnswerAt } = db.prepare(`
+    SELECT COUNT(*) AS answeredCount, MAX(updated_at) AS lastAnswerAt FROM attempt_answers WHERE attempt_id = ?
+  `).get(attempt.id) as { answeredCount: number; lastAnswerAt: number | null };
+  const { lastEventAt } = db.prepare('SELECT MAX(received_at) AS lastEventAt FROM integrity_events WHERE attempt_id = ?')
+    .get(attempt.id) as { lastEventAt: number | null };
+  return {
+    ...toIntegritySummary(getIntegrityReport(db, attempt, exam)),
+    connected,
+    currentQuestionIdx: attempt.current_question_idx,
+    answeredCount,
+    questionCount: paper.questions.length,
+    deadline: attempt.deadline,
+    lastActivityAt: Math.max(attempt.started_at, lastAnswerAt ?? 0, lastEventAt ?? 0),
+    onBreak: attempt.break_started_at !== null,
+  };
+}
+
+export function parseBroadcast(input: unknown): string {
+  const message = typeof input === 'string' ? input.trim() : '';
+  if (!message) throw new MonitorError('Write a message to send');
+  if (message.length > MAX_BROADCAST_LENGTH) throw new MonitorError(`Messages can be at most ${MAX_BROADCAST_LENGTH} characters`);
+  return message;
+}
+
+export function getBroadcasts(db: DB, examId: string): Broadcast[] {
+  return db.prepare('SELECT message, sent_at AS sentAt FROM broadcasts WHERE exam_id = ? ORDER BY sent_at, id').all(examId) as Broadcast[];
+}
+
+// Extra time granted to one student survives later changes to the exam's closing time
+export function extendAttempt(db: DB, attempt: AttemptRow, exam: ExamRow, minutes: unknown): AttemptRow {
+  if (attempt.submitted_at) throw new MonitorError('This attempt has already been submitted');
+  if (!Number.isInteger(minutes) || (minutes as number) < 1 || (minutes as number) > MAX_EXTENSION_MINUTES) {
+    throw new MonitorError(`Extra time must be between 1 and ${MAX_EXTENSION_MINUTES} minutes`);
+  }
+  const extendedMs = attempt.extended_ms + (minutes as number) * 60 * 1000;
+  const deadline = attemptDeadline(exam, attempt.started_at) + extendedMs;
+  db.prepare('UPDATE attempts SET extended_ms = ?, deadline = ? WHERE id = ?').run(extendedMs, deadline, attempt.id);
+  return { ...attempt, extended_ms: extendedMs, deadline };
+}
+
+export type Monitor = ReturnType<typeof createMonitor>;
+
+// Fans attempt changes out to examiners watching the exam, and examiner actions out to the students sitting it.
+// Everything lives in this process; a restart simply makes every page reconnect and re-read the database.
+export function createMonitor(db: DB) {
+  const examiners = new EventEmitter().setMaxListeners(0); // keyed by exam id
+  const students = new EventEmitter().setMaxListeners(0); // keyed by attempt id
+  const openStreams = new Map<string, number>(); // per attempt; a student may have the exam open in more than one tab
+
+  const isConnected = (attemptId: string) => (openStreams.get(attemptId) ?? 0) > 0;
+
+  const attemptChanged = (attemptId: string) => {
+    const attempt = getAttempt(db, attemptId);
+    if (!attempt || examiners.listenerCount(attempt.exam_id) === 0) return;
+    const exam = getExamRow(db, attempt.exam_id)!;
+    examiners.emit(exam.id, 'attempt', getLiveAttempt(db, attempt, exam, isConnected(attempt.id)));
+  };
+
+  return {
+    attemptChanged,
+    isConnected,
+
+    // Attempts still in progress, for the monitor's first paint
+    getLiveAttempts(exam: ExamRow): LiveAttempt[] {
+      const attempts = db.prepare('SELECT * FROM attempts WHERE exam_id = ? AND submitted_at IS NULL ORDER BY started_at')
+        .all(exam.id) as AttemptRow[];
+      return attempts.map(attempt => getLiveAttempt(db, attempt, exam, isConnected(attempt.id)));
+    },
+
+    watchExam(examId: string, send: SendEvent) {
+      examiners.on(examId, send);
+      return () => examiners.off(examId, send);
+    },
+
+    connectStudent(attempt: AttemptRow, send: SendEvent) {
+      students.on(attempt.id, send);
+      openStreams.set(attempt.id, (openStreams.get(attempt.id) ?? 0) + 1);
+      attemptChanged(attempt.id);
+      return () => {
+        students.off(attempt.id, send);
+        const remaining = (openStreams.get(attempt.id) ?? 1) - 1;
+        if (remaining > 0) openStreams.set(attempt.id, remaining);
+        else openStreams.delete(attempt.id);
+        attemptChanged(attempt.id);
+      };
+    },
+
+    notifyStudent(attemptId: string, event: string, data: unknown) {
+      students.emit(attemptId, event, data);
+    },
+
+    // Stored so that students who reconnect, or join later, still see what was announced
+    broadcast(examId: string, message: string, now = Date.now()): Broadcast {
+      db.prepare('INSERT INTO broadcasts (exam_id, message, sent_at) VALUES (?, ?, ?)').run(examId, message, now);
+      const broadcast = { message, sentAt: now };
+      const attempts = db.prepare('SELECT id FROM attempts WHERE exam_id = ? AND submitted_at IS NULL').all(examId) as { id: string }[];
+      for (const { id } of attempts) students.emit(id, 'message', broadcast);
+      return broadcast;
+    },
+  };
+}
+
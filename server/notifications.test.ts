@@ -0,0 +1,144 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { deliverOutbox, queueDueDigests } from './notifications.ts';
+import { createFileTransport } from './mail.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, readMailDir, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'MAIL01',
+  title: 'Chemistry <Quiz>',
+  durationMinutes: 20,
+  questions: [
+    { id: 'q1', text: 'Symbol for gold?', options: ['Au', 'Ag'] },
+    { id: 'q2', text: 'Atomic number of carbon?', type: 'numeric' },
+  ],
+  solutionKey: { q1: 0, q2: { value: 6, tolerance: 0 } },
+};
+
+let client: TestClient;
+let cookie: string;
+let mailDir: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exam-mail-'));
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(async () => {
+  await client.close();
+  fs.rmSync(mailDir, { recursive: true, force: true });
+});
+
+async function sit(studentName: string, answers: Record<string, number>, attemptId?: string) {
+  attemptId ??= await startAttempt(client, exam.id, studentName, '10C');
+  await saveAnswers(client, attemptId, answers);
+  return client.request('/api/submit', { method: 'POST', body: { attemptId } });
+}
+
+const outbox = async () => (await client.request(`/api/exams/${exam.id}/notifications`, { cookie })).body.outbox;
+const setNotifications = (body: Record<string, unknown>) => client.request(`/api/exams/${exam.id}/notifications`, { method: 'PUT', cookie, body });
+
+test('each submission queues a report that the worker delivers as text and HTML', async () => {
+  assert.equal((await sit('Ada', { q1: 0, q2: 7 })).status, 200);
+  const [queued] = await outbox();
+  assert.deepEqual([queued.kind, queued.recipient, queued.status], ['result', 'examiner@school.edu', 'pending']);
+  assert.equal(readMailDir(mailDir).length, 0);
+
+  assert.deepEqual(await deliverOutbox(client.db, createFileTransport(mailDir)), { sent: 1, failed: 0 });
+  const [mail] = readMailDir(mailDir);
+  assert.equal(mail.subject, 'Exam Result: Ada - Chemistry <Quiz> [PASS]');
+  assert.match(mail.text, /Score: 1 \/ 2/);
+  assert.match(mail.text, /Question: Atomic number of carbon\?\nStudent Answer: 7\nCorrect Answer: 6\nResult: INCORRECT/);
+  assert.match(mail.html, /Chemistry &lt;Quiz&gt;: Ada/);
+  assert.doesNotMatch(mail.html, /<Quiz>/);
+  assert.equal((await outbox())[0].status, 'sent');
+
+  // Nothing is sent twice
+  assert.deepEqual(await deliverOutbox(client.db, createFileTransport(mailDir)), { sent: 0, failed: 0 });
+});
+
+test('failed deliveries back off, give up after the last retry, and can be retried by hand', async () => {
+  await sit('Ada', { q1: 0 });
+  const broken = { send: async () => { throw new Error('Connection refused'); } };
+  let now = Date.now();
+  assert.deepEqual(await deliverOutbox(client.db, broken, now), { sent: 0, failed: 1 });
+  let [message] = await outbox();
+  assert.deepEqual([message.status, message.attempts, message.lastError, message.nextAttemptAt], ['pending', 1, 'Connection refused', now + 60 * 1000]);
+
+  // Not due again until the delay has passed
+  assert.deepEqual(await deliverOutbox(client.db, broken, now + 30 * 1000), { sent: 0, failed: 0 });
+  for (const minutes of [1, 5, 15, 60, 240]) {
+    now += minutes * 60 * 1000;
+    await deliverOutbox(client.db, broken, now);
+  }
+  [message] = await outbox();
+  assert.deepEqual([message.status, message.attempts, message.nextAttemptAt], ['failed', 6, null]);
+
+  const retried = await client.request(`/api/exams/${exam.id}/notifications/${message.id}/retry`, { method: 'POST', cookie });
+  assert.deepEqual([retried.body.status, retried.body.attempts], ['pending', 0]);
+  await deliverOutbox(client.db, createFileTransport(mailDir));
+  assert.equal(readMailDir(mailDir).length, 1);
+  const again = await client.request(`/api/exams/${exam.id}/notifications/${message.id}/retry`, { method: 'POST', cookie });
+  assert.equal(again.status, 409);
+});
+
+test('digest mode sends one email once the exam closes, and rostered students get their own result', async () => {
+  assert.equal((await setNotifications({ examiner: 'weekly', students: true })).status, 400);
+  assert.deepEqual((await setNotifications({ examiner: 'digest', students: true })).body.settings, { examiner: 'digest', students: true, attachReports: false });
+  const roster = await client.request(`/api/exams/${exam.id}/roster`, {
+    method: 'POST', cookie, body: { csv: 'id,name,class,email\nS1,Grace Hopper,10C,grace@school.edu\nS2,Alan Turing,10C,' },
+  });
+  const [grace, alan] = ['S1', 'S2'].map(id => roster.body.find((s: any) => s.studentNumber === id));
+  const join = async (accessCode: string) => (await client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, accessCode } })).body.attemptId;
+  await sit('', { q1: 0, q2: 6 }, await join(grace.accessCode));
+  const running = await join(alan.accessCode);
+
+  assert.deepEqual((await outbox()).map((m: any) => [m.kind, m.recipient]), [['student_result', 'grace@school.edu']]);
+
+  // Closing does not send the digest while an attempt can still be submitted
+  await client.request(`/api/exams/${exam.id}/close`, { method: 'POST', cookie });
+  queueDueDigests(client.db);
+  assert.equal((await outbox()).length, 1);
+  await sit('', { q1: 1 }, running);
+  queueDueDigests(client.db);
+  queueDueDigests(client.db);
+
+  await deliverOutbox(client.db, createFileTransport(mailDir));
+  const digest = readMailDir(mailDir).find(m => m.to === 'examiner@school.edu')!;
+  assert.equal(digest.subject, 'Exam Closed: Chemistry <Quiz> [2 result(s)]');
+  assert.match(digest.text, /Results: 2 \(1 passed\)\nAverage: 50%/);
+  assert.match(digest.text, /Grace Hopper \(10C\): 2\/2 \(100%\) PASS/);
+  assert.match(readMailDir(mailDir).find(m => m.to === 'grace@school.edu')!.text, /Score: 2 \/ 2 \(100%\)/);
+  assert.equal((await outbox()).filter((m: any) => m.kind === 'digest').length, 1);
+});
+
+test('examiners can customize templates with known placeholders, and reset them', async () => {
+  const bad = await client.request('/api/notifications/templates/result', {
+    method: 'PUT', cookie, body: { subject: '{{studentName}} scored {{marks}}', text: 'x', html: 'x' },
+  });
+  assert.equal(bad.status, 422);
+  assert.deepEqual(bad.body.details, ['{{marks}} is not available in this message']);
+  assert.equal((await client.request('/api/notifications/templates/result', { method: 'PUT', cookie, body: { subject: 'x', text: '' } })).status, 400);
+
+  const saved = await client.request('/api/notifications/templates/result', {
+    method: 'PUT', cookie, body: { subject: '{{ studentName }}: {{percentage}}%', text: 'Hi {{studentName}}', html: '<b>{{studentName}}</b>{{responses}}' },
+  });
+  assert.equal(saved.body.customized, true);
+  await sit('<Ada>', { q1: 0 });
+  await deliverOutbox(client.db, createFileTransport(mailDir));
+  const [mail] = readMailDir(mailDir);
+  assert.equal(mail.subject, '<Ada>: 50%');
+  assert.equal(mail.text, 'Hi <Ada>');
+  assert.match(mail.html, /^<b>&lt;Ada&gt;<\/b><table/);
+
+  const reset = await client.request('/api/notifications/templates/result', { method: 'DELETE', cookie });
+  assert.equal(reset.body.customized, false);
+  assert.match(reset.body.subject, /^Exam Result:/);
+  assert.equal((await client.request('/api/notifications/templates/unknown', { method: 'DELETE', cookie })).status, 404);
+});
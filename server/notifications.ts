@@ -0,0 +1,275 @@
+import type { DB } from './db.ts';
+import { getExamRows, type ExamRow } from './exams.ts';
+import { SUBMISSION_GRACE_MS, type AttemptRow } from './attempts.ts';
+import { getResultDetail, getResultRow, getResultRows, toExamResult } from './results.ts';
+import { getIntegrityReport, formatIntegrityTimeline } from './integrity.ts';
+import { getLifecycle } from './schedule.ts';
+import { escapeHtml, getTemplate, htmlTable, renderTemplate, type TemplateBlocks, type TemplateValues } from './templates.ts';
+import { createClassSummary, createResultSheet, type Report } from './reports.ts';
+import type { MailAttachment, MailTransport } from './mail.ts';
+import type { ExamResult, ExaminerNotificationMode, KeyRevision, NotificationKind, NotificationSettings, OutboxMessage, OutboxStatus } from '../src/types.ts';
+
+export class NotificationSettingsError extends Error {}
+export class OutboxError extends Error {}
+
+const EXAMINER_MODES: ExaminerNotificationMode[] = ['each', 'digest', 'none'];
+
+// Minutes to wait after each failed delivery; once they run out the message is marked failed
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+const DELIVERY_BATCH_SIZE = 20;
+const MAX_ERROR_LENGTH = 500;
+
+interface OutboxRow {
+  id: number;
+  kind: NotificationKind;
+  exam_id: string | null;
+  recipient: string;
+  subject: string;
+  text: string;
+  html: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  created_at: number;
+  sent_at: number | null;
+}
+
+export function getNotificationSettings(exam: ExamRow): NotificationSettings {
+  return { examiner: exam.examiner_notifications, students: !!exam.student_notifications, attachReports: !!exam.attach_reports };
+}
+
+export function parseNotificationSettings(input: any): NotificationSettings {
+  if (!EXAMINER_MODES.includes(input?.examiner)) throw new NotificationSettingsError('Choose per-submission emails, a digest or none');
+  if (typeof input.students !== 'boolean') throw new NotificationSettingsError('Student emails must be on or off');
+  if (input.attachReports !== undefined && typeof input.attachReports !== 'boolean') throw new NotificationSettingsError('PDF attachments must be on or off');
+  return { examiner: input.examiner, students: input.students, attachReports: input.attachReports ?? false };
+}
+
+export function setNotificationSettings(db: DB, examId: string, settings: NotificationSettings) {
+  db.prepare('UPDATE exams SET examiner_notifications = ?, student_notifications = ?, attach_reports = ? WHERE id = ?')
+    .run(settings.examiner, settings.students ? 1 : 0, settings.attachReports ? 1 : 0, examId);
+}
+
+// Results go to the address the exam was created under, or the deployment's fallback
+const examinerAddress = (exam: ExamRow) => exam.examiner_email || process.env.EXAMINER_EMAIL || null;
+
+// Renders with the exam owner's template and leaves the message for the worker. Safe inside a transaction: nothing
+// is sent here, so a failed submission never leaves an email behind and a failed email never loses a submission.
+export function queueNotification(
+  db: DB, exam: ExamRow, kind: NotificationKind, to: string, values: TemplateValues, blocks: TemplateBlocks = {}, now = Date.now(),
+  attachments: MailAttachment[] = [],
+) {
+  const { subject, text, html } = renderTemplate(getTemplate(db, exam.owner_id, kind), values, blocks);
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO outbox (kind, exam_id, recipient, subject, text, html, next_attempt_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(kind, exam.id, to, subject, text, html, now, now);
+  const attach = db.prepare('INSERT INTO outbox_attachments (message_id, filename, content_type, content) VALUES (?, ?, ?, ?)');
+  for (const a of attachments) attach.run(lastInsertRowid, a.filename, a.contentType, a.content);
+}
+
+const asAttachment = ({ filename, body }: Report): MailAttachment => ({ filename, contentType: 'application/pdf', content: body });
+
+const resultValues = (exam: ExamRow, result: ExamResult): TemplateValues => ({
+  examTitle: exam.title,
+  studentName: result.studentName,
+  studentClass: result.studentClass,
+  score: result.score,
+  totalMarks: result.totalMarks,
+  percentage: result.percentage,
+  resultStatus: result.resultStatus,
+  grade: result.grade ?? '-',
+  pendingReview: result.pendingReview,
+});
+
+// The examiner's report for one submission and, when the exam allows it, the student's own result
+export function notifySubmission(db: DB, exam: ExamRow, attempt: AttemptRow, resultId: number, { submittedAt = Date.now(), forced = false } = {}) {
+  const row = getResultRow(db, exam.id, resultId)!;
+  const detail = getResultDetail(db, row, exam);
+  const values = resultValues(exam, detail);
+
+  const examiner = examinerAddress(exam);
+  if (exam.examiner_notifications === 'each' && examiner) {
+    const integrity = getIntegrityReport(db, attempt, exam);
+    const attachments = exam.attach_reports ? [asAttachment(createResultSheet(db, exam, row, null, submittedAt))] : [];
+    const verdict = (isCorrect: boolean | null) => (isCorrect === null ? 'AWAITING MARKING' : isCorrect ? 'CORRECT' : 'INCORRECT');
+    queueNotification(db, exam, 'result', examiner, {
+      ...values,
+      status: integrity.terminated ? 'TERMINATED (Security Violation)' : forced ? 'Submitted by the examiner' : 'Successfully Submitted',
+      timing: detail.late ? `LATE (submitted ${Math.round((submittedAt - attempt.deadline) / 1000)}s after the deadline)` : 'On time',
+      violations: integrity.violationCount,
+      suspicionScore: integrity.suspicionScore,
+      suspicionLevel: integrity.suspicionLevel.toUpperCase(),
+    }, {
+      integrityTimeline: {
+        text: formatIntegrityTimeline(integrity),
+        html: `<pre style="font-size: 12px;">${escapeHtml(formatIntegrityTimeline(integrity))}</pre>`,
+      },
+      responses: {
+        text: detail.responses.map(r =>
+          `Question: ${r.text}\nStudent Answer: ${r.answerText}\nCorrect Answer: ${r.correctAnswerText}\nResult: ${verdict(r.isCorrect)} (${r.marksAwarded} marks)`,
+        ).join('\n\n---\n\n'),
+        html: htmlTable(
+          ['Question', 'Answer', 'Correct answer', 'Result', 'Marks'],
+          detail.responses.map(r => [r.text, r.answerText, r.correctAnswerText, verdict(r.isCorrect), `${r.marksAwarded}/${r.marks}`]),
+        ),
+      },
+    }, submittedAt, attachments);
+  }
+
+  if (exam.student_notifications && attempt.student_id !== null) {
+    const student = db.prepare('SELECT email FROM students WHERE id = ?').get(attempt.student_id) as { email: string | null } | undefined;
+    if (student?.email) queueNotification(db, exam, 'student_result', student.email, values, {}, submittedAt);
+  }
+}
+
+// Lets the examiner know which results an answer-key correction moved
+export function notifyKeyRevision(
+  db: DB, exam: ExamRow, revision: KeyRevision, { questionText, before, after }: { questionText: string; before: string; after: string }, now = Date.now(),
+) {
+  const examiner = examinerAddress(exam);
+  if (!examiner) return;
+  const changes = revision.changes;
+  queueNotification(db, exam, 'key_revision', examiner, {
+    examTitle: exam.title,
+    questionText,
+    before,
+    after,
+    reason: revision.reason || '(none given)',
+    regradedCount: revision.regradedCount,
+    changedCount: changes.length,
+  }, {
+    changes: {
+      text: changes.map(c =>
+        `${c.studentName} (${c.studentClass}): ${c.previousScore}/${c.previousTotalMarks} ${c.previousStatus ?? ''} -> ${c.newScore}/${c.newTotalMarks} ${c.newStatus ?? ''}`.trim(),
+      ).join('\n'),
+      html: changes.length ? htmlTable(
+        ['Student', 'Class', 'Before', 'After'],
+        changes.map(c => [c.studentName, c.studentClass, `${c.previousScore}/${c.previousTotalMarks} ${c.previousStatus ?? ''}`, `${c.newScore}/${c.newTotalMarks} ${c.newStatus ?? ''}`]),
+      ) : '',
+    },
+  }, now);
+}
+
+// A digest goes out once the exam has closed and every attempt still running has run out of time, including the
+// submission grace period. Extending and closing the exam again sends another for the new closing time.
+export function queueDueDigests(db: DB, now = Date.now()) {
+  const exams = getExamRows(db, `
+    SELECT * FROM exams WHERE examiner_notifications = 'digest' AND closes_at IS NOT NULL
+    AND (digest_closes_at IS NULL OR digest_closes_at != closes_at)
+  `);
+  const running = db.prepare('SELECT COUNT(*) AS count FROM attempts WHERE exam_id = ? AND submitted_at IS NULL AND deadline + ? > ?');
+
+  for (const exam of exams) {
+    const lifecycle = getLifecycle(exam, now);
+    if (lifecycle !== 'closed' && lifecycle !== 'archived') continue;
+    if ((running.get(exam.id, SUBMISSION_GRACE_MS, now) as { count: number }).count) continue;
+
+    db.transaction(() => {
+      const examiner = examinerAddress(exam);
+      if (examiner) {
+        const rows = getResultRows(db, exam.id);
+        const results = rows.map(toExamResult);
+        const attachments = exam.attach_reports ? [asAttachment(createClassSummary(db, exam, rows, {}, null, now))] : [];
+        const passCount = results.filter(r => r.resultStatus === 'PASS').length;
+        const average = results.length ? Math.round(results.reduce((sum, r) => sum + r.percentage, 0) / results.length * 10) / 10 : 0;
+        queueNotification(db, exam, 'digest', examiner, {
+          examTitle: exam.title,
+          closedAt: exam.closes_at!,
+          resultCount: results.length,
+          passCount,
+          averagePercentage: average,
+        }, {
+          results: {
+            text: results.length
+              ? results.map(r => `${r.studentName} (${r.studentClass}): ${r.score}/${r.totalMarks} (${r.percentage}%) ${r.resultStatus}${r.grade ? ` ${r.grade}` : ''}${r.pendingReview ? ` [${r.pendingReview} awaiting marking]` : ''}${r.terminated ? ' [TERMINATED]' : ''}${r.late ? ' [LATE]' : ''}`).join('\n')
+              : 'No results were submitted.',
+            html: results.length
+              ? htmlTable(['Student', 'Class', 'Score', '%', 'Result', 'Grade'], results.map(r => [r.studentName, r.studentClass, `${r.score}/${r.totalMarks}`, r.percentage, r.resultStatus, r.grade ?? '-']))
+              : '<p>No results were submitted.</p>',
+          },
+        }, now, attachments);
+      }
+      db.prepare('UPDATE exams SET digest_closes_at = ? WHERE id = ?').run(exam.closes_at, exam.id);
+    })();
+  }
+}
+
+// Hands due messages to the transport one at a time. A failure is kept on the message and retried later.
+export async function deliverOutbox(db: DB, transport: MailTransport, now = Date.now()) {
+  const due = db.prepare(`
+    SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at, id LIMIT ?
+  `).all(now, DELIVERY_BATCH_SIZE) as OutboxRow[];
+
+  let sent = 0;
+  for (const message of due) {
+    try {
+      const attachments = (db.prepare('SELECT filename, content_type, content FROM outbox_attachments WHERE message_id = ?').all(message.id) as
+        { filename: string; content_type: string; content: Buffer }[]).map(a => ({ filename: a.filename, contentType: a.content_type, content: a.content }));
+      await transport.send({ to: message.recipient, subject: message.subject, text: message.text, html: message.html, attachments });
+      db.prepare("UPDATE outbox SET status = 'sent', attempts = attempts + 1, last_error = NULL, next_attempt_at = NULL, sent_at = ? WHERE id = ?")
+        .run(Date.now(), message.id);
+      sent++;
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+      const reason = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+      db.prepare('UPDATE outbox SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?')
+        .run(delay === undefined ? 'failed' : 'pending', attempts, reason, delay === undefined ? null : now + delay * 60 * 1000, message.id);
+    }
+  }
+  return { sent, failed: due.length - sent };
+}
+
+// Queues digests and drains the outbox every interval until the returned function is called
+export function startNotificationWorker(db: DB, transport: MailTransport, intervalMs = 15 * 1000) {
+  let isRunning = false;
+  const tick = async () => {
+    // A slow SMTP server must not let ticks pile up and send the same batch twice
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      queueDueDigests(db);
+      await deliverOutbox(db, transport);
+    } catch (error) {
+      console.error('Notification worker failed:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+  const timer = setInterval(tick, intervalMs);
+  tick();
+  return () => clearInterval(timer);
+}
+
+const toOutboxMessage = (row: OutboxRow, attachments: string[]): OutboxMessage => ({
+  id: row.id,
+  kind: row.kind,
+  recipient: row.recipient,
+  subject: row.subject,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  nextAttemptAt: row.next_attempt_at,
+  createdAt: row.created_at,
+  sentAt: row.sent_at,
+  attachments,
+});
+
+const attachmentNames = (db: DB, messageId: number) =>
+  (db.prepare('SELECT filename FROM outbox_attachments WHERE message_id = ? ORDER BY rowid').all(messageId) as { filename: string }[]).map(a => a.filename);
+
+// Newest first
+export function getOutbox(db: DB, examId: string): OutboxMessage[] {
+  const rows = db.prepare('SELECT * FROM outbox WHERE exam_id = ? ORDER BY id DESC').all(examId) as OutboxRow[];
+  return rows.map(row => toOutboxMessage(row, attachmentNames(db, row.id)));
+}
+
+// Sends a message again on the worker's next pass, with a fresh set of retries
+export function retryMessage(db: DB, examId: string, messageId: number, now = Date.now()): OutboxMessage | undefined {
+  const row = db.prepare('SELECT * FROM outbox WHERE id = ? AND exam_id = ?').get(messageId, examId) as OutboxRow | undefined;
+  if (!row) return undefined;
+  if (row.status === 'sent') throw new OutboxError('This message has already been sent');
+  db.prepare("UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ?").run(now, row.id);
+  return toOutboxMessage({ ...row, status: 'pending', attempts: 0, next_attempt_at: now }, attachmentNames(db, row.id));
+}
@@ -0,0 +1,156 @@
+// Just enough PDF for printable reports: A4 pages of text in the standard Helvetica faces, lines and filled boxes.
+// The standard fonts ship with every PDF reader, so nothing is embedded; text is limited to the WinAnsi character set.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type Color = [number, number, number]; // 0-1 RGB
+
+const BLACK: Color = [0, 0, 0];
+const RULE: Color = [0.8, 0.8, 0.8];
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: Color;
+}
+
+export interface PdfDocument {
+  readonly pageCount: number;
+  addPage(): void;
+  goToPage(index: number): void;
+  // Coordinates are in points from the top-left corner; y is the text baseline
+  text(x: number, y: number, text: string, style?: TextStyle): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: { width?: number; color?: Color }): void;
+  rect(x: number, y: number, width: number, height: number, fill: Color): void;
+  toBuffer(): Buffer;
+}
+
+// Advance widths per 1000 units of font size for the printable ASCII range (32-126), from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const AVERAGE_WIDTH = 556;
+
+// Typographic characters students and examiners paste in, spelled with what WinAnsi can show
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...',
+  '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '≠': '!=', '−': '-',
+};
+
+// Anything outside Latin-1 that has no stand-in prints as "?"
+export function toWinAnsi(text: string) {
+  return [...text.replace(/[\r\n\t]+/g, ' ')]
+    .map(ch => REPLACEMENTS[ch] ?? ch)
+    .join('')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+export function textWidth(text: string, size: number, bold = false) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : AVERAGE_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+// Breaks text into lines no wider than `width`, splitting words that would not fit on a line of their own
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (textWidth(rest, size, bold) > width) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const escapeString = (text: string) => toWinAnsi(text).replace(/[\\()]/g, ch => `\\${ch}`);
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const colorOps = ([r, g, b]: Color, op: 'rg' | 'RG') => `${num(r)} ${num(g)} ${num(b)} ${op}`;
+
+// PDF dates look like D:20240131120000Z
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export function createPdfDocument({ title, createdAt = new Date() }: { title: string; createdAt?: Date }): PdfDocument {
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  const doc: PdfDocument = {
+    get pageCount() {
+      return pages.length;
+    },
+    addPage() {
+      current = [];
+      pages.push(current);
+    },
+    goToPage(index) {
+      current = pages[index];
+    },
+    text(x, y, text, { size = 10, bold = false, color = BLACK } = {}) {
+      current.push(`BT ${colorOps(color, 'rg')} /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${escapeString(text)}) Tj ET`);
+    },
+    line(x1, y1, x2, y2, { width = 0.5, color = RULE } = {}) {
+      current.push(`${colorOps(color, 'RG')} ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    },
+    rect(x, y, width, height, fill) {
+      current.push(`${colorOps(fill, 'rg')} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+    toBuffer() {
+      // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream for each page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, i) => 6 + i * 2);
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+      objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+      objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+      objects[5] = `<< /Title (${escapeString(title)}) /Producer (Secure Exam System) /CreationDate (${pdfDate(createdAt)}) >>`;
+      pages.forEach((ops, i) => {
+        const content = ops.join('\n');
+        objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+        objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+      });
+
+      let body = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(body, 'latin1');
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+      const xref = Buffer.byteLength(body, 'latin1');
+      body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+      body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      return Buffer.from(body, 'latin1');
+    },
+  };
+  return doc;
+}
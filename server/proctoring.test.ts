@@ -0,0 +1,47 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+import { DEFAULT_PROCTORING_POLICY } from '../src/lib/proctoring.ts';
+
+const exam = {
+  id: 'PROC01',
+  title: 'Proctored Quiz',
+  durationMinutes: 10,
+  questions: [{ id: 'q1', text: '2 + 2?', options: ['3', '4'] }],
+  solutionKey: { q1: 1 },
+};
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+});
+
+afterEach(() => client.close());
+
+async function publish(proctoring?: unknown) {
+  const saved = await client.request('/api/exams', { method: 'POST', cookie, body: { ...exam, proctoring } });
+  if (saved.status !== 200) return saved;
+  return client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+}
+
+test('exams without a proctoring policy get the default one', async () => {
+  await publish();
+  const res = await client.request(`/api/exams/${exam.id}`);
+  assert.deepEqual(res.body.proctoring, DEFAULT_PROCTORING_POLICY);
+});
+
+test('a custom proctoring policy is stored with the exam and served to students', async () => {
+  const policy = { events: ['hidden', 'copy_paste', 'devtools'], maxViolations: 0, gracePeriodSeconds: 0 };
+  await publish(policy);
+  const res = await client.request(`/api/exams/${exam.id}`);
+  assert.deepEqual(res.body.proctoring, policy);
+});
+
+test('invalid proctoring policies are rejected', async () => {
+  assert.equal((await publish({ events: ['telepathy'], maxViolations: 1, gracePeriodSeconds: 0 })).status, 400);
+  assert.equal((await publish({ events: ['blur'], maxViolations: -1, gracePeriodSeconds: 0 })).status, 400);
+  assert.equal((await publish({ events: ['blur'], maxViolations: 1, gracePeriodSeconds: 600 })).status, 400);
+});
@@ -0,0 +1,22 @@
+import type { ProctoringPolicy } from '../src/types.ts';
+import { DEFAULT_PROCTORING_POLICY, PROCTORING_EVENTS } from '../src/lib/proctoring.ts';
+
+export class ProctoringPolicyError extends Error {}
+
+const MAX_GRACE_PERIOD_SECONDS = 120;
+
+export function parseProctoringPolicy(input: any): ProctoringPolicy {
+  if (input === undefined || input === null) return DEFAULT_PROCTORING_POLICY;
+
+  const { events, maxViolations, gracePeriodSeconds } = input;
+  if (!Array.isArray(events) || !events.every(e => PROCTORING_EVENTS.includes(e))) {
+    throw new ProctoringPolicyError('Unknown proctoring event');
+  }
+  if (!Number.isInteger(maxViolations) || maxViolations < 0) {
+    throw new ProctoringPolicyError('Allowed violations must be a whole number of zero or more');
+  }
+  if (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0 || gracePeriodSeconds > MAX_GRACE_PERIOD_SECONDS) {
+    throw new ProctoringPolicyError(`Grace period must be between 0 and ${MAX_GRACE_PERIOD_SECONDS} seconds`);
+  }
+  return { events: [...new Set(events)], maxViolations, gracePeriodSeconds };
+}
@@ -0,0 +1,142 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { gradeResponses } from './scoring.ts';
+import { validateDraft } from './extraction.ts';
+import { openDatabase } from './db.ts';
+import { getAttemptResponses } from './attempts.ts';
+import { DEFAULT_SCORING_RULES } from '../src/lib/scoring.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+import type { Question, SolutionKey } from '../src/types.ts';
+
+const questions: Question[] = [
+  { id: 'q1', type: 'multiple_choice', text: 'Noble gases?', options: ['Neon', 'Oxygen', 'Argon'] },
+  { id: 'q2', type: 'true_false', text: 'Water boils at 100°C at sea level.', options: ['True', 'False'] },
+  { id: 'q3', type: 'numeric', text: 'g in m/s²?' },
+  { id: 'q4', type: 'fill_blank', text: 'The capital of France is ___.' },
+  { id: 'q5', type: 'short_answer', text: 'Explain photosynthesis.', marks: 4 },
+];
+const solutionKey: SolutionKey = {
+  q1: [0, 2],
+  q2: 0,
+  q3: { value: 9.81, tolerance: 0.05 },
+  q4: { accepted: ['Paris'], caseSensitive: false },
+  q5: { modelAnswer: 'Plants turn light, water and CO2 into glucose and oxygen.' },
+};
+
+test('each question type is marked by its own rule', () => {
+  const right = gradeResponses(questions, solutionKey, {}, DEFAULT_SCORING_RULES, { q1: [2, 0], q2: 0, q3: 9.78, q4: '  paris ', q5: 'Light to sugar' });
+  assert.deepEqual(right.questionScores, { q1: 1, q2: 1, q3: 1, q4: 1, q5: 0 });
+  assert.deepEqual(right.pending, ['q5']);
+
+  const wrong = gradeResponses(questions, solutionKey, {}, DEFAULT_SCORING_RULES, { q1: [0], q2: 1, q3: 9.7, q4: 'Lyon' });
+  assert.deepEqual(wrong.questionScores, { q1: 0, q2: 0, q3: 0, q4: 0, q5: 0 });
+  assert.deepEqual(wrong.pending, []);
+
+  const marked = gradeResponses(questions, solutionKey, {}, DEFAULT_SCORING_RULES, { q5: 'Light to sugar' }, { q5: 3 });
+  assert.equal(marked.score, 3);
+  assert.deepEqual(marked.pending, []);
+});
+
+test('fill-in-the-blank keys can be case-sensitive', () => {
+  const key = { ...solutionKey, q4: { accepted: ['NaCl'], caseSensitive: true } };
+  assert.equal(gradeResponses(questions, key, {}, DEFAULT_SCORING_RULES, { q4: 'nacl' }).questionScores.q4, 0);
+  assert.equal(gradeResponses(questions, key, {}, DEFAULT_SCORING_RULES, { q4: 'NaCl' }).questionScores.q4, 1);
+});
+
+test('validateDraft reads typed questions and their answer fields', () => {
+  const draft = validateDraft({
+    questions: [
+      { id: 'a', type: 'multiple_choice', text: 'Pick two', options: ['x', 'y', 'z'], correctOptions: [2, 0] },
+      { id: 'b', type: 'true_false', text: 'Sky is blue', correctOptions: [0] },
+      { id: 'c', type: 'numeric', text: 'Pi?', numericAnswer: 3.14, tolerance: 0.01 },
+      { id: 'd', type: 'fill_blank', text: 'H2O is ___', acceptedAnswers: ['water', ' '] },
+      { id: 'e', type: 'short_answer', text: 'Discuss' },
+      { id: 'f', type: 'numeric', text: 'No answer' },
+    ],
+  });
+  assert.deepEqual(draft.questions.map(q => q.type), ['multiple_choice', 'true_false', 'numeric', 'fill_blank', 'short_answer', 'numeric']);
+  assert.deepEqual((draft.questions[1] as any).options, ['True', 'False']);
+  assert.deepEqual(draft.solutionKey, {
+    a: [0, 2],
+    b: 0,
+    c: { value: 3.14, tolerance: 0.01 },
+    d: { accepted: ['water'], caseSensitive: false },
+    e: { modelAnswer: '' },
+  });
+  assert.deepEqual(draft.flags, { f: ['No correct answer was detected'] });
+});
+
+test('answers saved as option indexes before question types survive the answer column migration', () => {
+  const file = path.join(os.tmpdir(), `legacy-answers-${process.pid}.db`);
+  try {
+    const legacy = new Database(file);
+    legacy.exec(`
+      CREATE TABLE exams (id TEXT PRIMARY KEY, title TEXT, questions TEXT, solution_key TEXT, duration_minutes INTEGER, examiner_email TEXT);
+      CREATE TABLE attempts (id TEXT PRIMARY KEY, exam_id TEXT NOT NULL REFERENCES exams(id), student_name TEXT NOT NULL, student_class TEXT NOT NULL, started_at INTEGER NOT NULL, deadline INTEGER NOT NULL, submitted_at INTEGER);
+      CREATE TABLE attempt_answers (attempt_id TEXT NOT NULL, question_id TEXT NOT NULL, option_index INTEGER NOT NULL, updated_at INTEGER NOT NULL, PRIMARY KEY (attempt_id, question_id));
+      INSERT INTO exams (id, title, questions, solution_key, duration_minutes) VALUES ('OLD', 'Old', '[]', '{}', 5);
+      INSERT INTO attempts (id, exam_id, student_name, student_class, started_at, deadline) VALUES ('a1', 'OLD', 'Ada', '12A', 0, 1);
+      INSERT INTO attempt_answers VALUES ('a1', 'q1', 2, 0);
+    `);
+    legacy.close();
+
+    const db = openDatabase(file);
+    assert.deepEqual(getAttemptResponses(db, 'a1'), { q1: 2 });
+    db.close();
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+});
+
+let client: TestClient;
+let cookie: string;
+
+before(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: { id: 'TYPES1', title: 'Mixed', durationMinutes: 10, questions, solutionKey } });
+  assert.equal((await client.request('/api/exams/TYPES1/publish', { method: 'POST', cookie })).status, 200);
+});
+
+after(() => client.close());
+
+test('autosave checks each answer against its question type', async () => {
+  const attemptId = await startAttempt(client, 'TYPES1');
+  assert.equal((await saveAnswers(client, attemptId, { q1: [0, 0] })).status, 400);
+  assert.equal((await saveAnswers(client, attemptId, { q3: '9.81' })).status, 400);
+  assert.equal((await saveAnswers(client, attemptId, { q4: '   ' })).status, 400);
+  assert.equal((await saveAnswers(client, attemptId, { q1: [0, 2], q3: 9.81, q4: 'Paris', q5: 'Sunlight' })).status, 200);
+  const resumed = await client.request(`/api/attempts/${attemptId}`);
+  assert.deepEqual(resumed.body.responses, { q1: [0, 2], q3: 9.81, q4: 'Paris', q5: 'Sunlight' });
+});
+
+test('short answers wait in the grading queue until the examiner marks them', async () => {
+  const attemptId = await startAttempt(client, 'TYPES1', 'Bob');
+  await saveAnswers(client, attemptId, { q1: [0, 2], q2: 0, q5: 'Plants make sugar from light' });
+  const submitted = await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  assert.equal(submitted.body.score, 2);
+  assert.equal(submitted.body.pendingReview, 1);
+
+  const queue = await client.request('/api/exams/TYPES1/grading-queue', { cookie });
+  const item = queue.body.find((entry: any) => entry.studentName === 'Bob');
+  assert.equal(item.answer, 'Plants make sugar from light');
+  assert.equal(item.marks, 4);
+
+  const grades = `/api/exams/TYPES1/results/${item.resultId}/grades`;
+  assert.equal((await client.request(grades, { method: 'PUT', cookie, body: { questionId: 'q5', marksAwarded: 5 } })).status, 400);
+  assert.equal((await client.request(grades, { method: 'PUT', cookie, body: { questionId: 'q1', marksAwarded: 1 } })).status, 400);
+  const graded = await client.request(grades, { method: 'PUT', cookie, body: { questionId: 'q5', marksAwarded: 3.5 } });
+  assert.equal(graded.status, 200);
+  assert.equal(graded.body.score, 5.5);
+  assert.equal(graded.body.pendingReview, 0);
+
+  const after = await client.request('/api/exams/TYPES1/grading-queue', { cookie });
+  assert.ok(!after.body.some((entry: any) => entry.resultId === item.resultId));
+  const detail = await client.request(`/api/exams/TYPES1/results/${item.resultId}`, { cookie });
+  const q5 = detail.body.responses.find((r: any) => r.questionId === 'q5');
+  assert.deepEqual([q5.marksAwarded, q5.isCorrect], [3.5, false]);
+});
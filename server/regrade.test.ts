@@ -0,0 +1,95 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'REGR01',
+  title: 'Geography Quiz',
+  durationMinutes: 20,
+  questions: [
+    { id: 'q1', text: 'Capital of Australia?', options: ['Sydney', 'Canberra', 'Melbourne'] },
+    { id: 'q2', text: 'Longest river?', options: ['Nile', 'Amazon'] },
+    { id: 'q3', text: 'Height of Everest in metres?', type: 'numeric' },
+  ],
+  // q1 was keyed wrongly as Sydney
+  solutionKey: { q1: 0, q2: 0, q3: { value: 8849, tolerance: 0 } },
+  scoring: { negativeMarking: 0, unanswered: 'zero', passPercentage: 60, gradeBands: [] },
+};
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+async function sit(studentName: string, answers: Record<string, number>) {
+  const attemptId = await startAttempt(client, exam.id, studentName, '9B');
+  await saveAnswers(client, attemptId, answers);
+  await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+}
+
+const revise = (body: Record<string, unknown>) => client.request(`/api/exams/${exam.id}/key-revisions`, { method: 'POST', cookie, body });
+const scores = async () => (await client.request(`/api/exams/${exam.id}/results`, { cookie })).body.map((r: any) => [r.studentName, r.score, r.totalMarks, r.resultStatus]);
+
+test('correcting a key regrades stored results and records each score that moved', async () => {
+  await sit('Ada', { q1: 1, q2: 0, q3: 8849 });
+  await sit('Bob', { q1: 0, q2: 0 });
+  assert.deepEqual(await scores(), [['Ada', 2, 3, 'PASS'], ['Bob', 2, 3, 'PASS']]);
+
+  const res = await revise({ questionId: 'q1', solutionKey: 1, reason: 'Canberra is the capital' });
+  assert.equal(res.status, 201);
+  assert.deepEqual([res.body.previousKey, res.body.newKey, res.body.regradedCount], [0, 1, 2]);
+  assert.deepEqual(
+    res.body.changes.map((c: any) => [c.studentName, c.previousScore, c.newScore, c.previousStatus, c.newStatus]),
+    [['Ada', 2, 3, 'PASS', 'PASS'], ['Bob', 2, 1, 'PASS', 'FAIL']],
+  );
+  assert.deepEqual(await scores(), [['Ada', 3, 3, 'PASS'], ['Bob', 1, 3, 'FAIL']]);
+
+  const history = (await client.request(`/api/exams/${exam.id}/key-revisions`, { cookie })).body;
+  assert.deepEqual(history.map((r: any) => [r.questionId, r.reason, r.changes.length]), [['q1', 'Canberra is the capital', 2]]);
+  const answers = (await client.request(`/api/exams/${exam.id}/answers`, { cookie })).body;
+  assert.equal(answers.solutionKey.q1, 1);
+});
+
+test('a key can accept several options, and a voided question stops counting for everyone', async () => {
+  await sit('Ada', { q1: 1, q2: 1 });
+  const inProgress = await startAttempt(client, exam.id, 'Bob', '9B');
+  await saveAnswers(client, inProgress, { q1: 0, q2: 0 });
+
+  await revise({ questionId: 'q1', solutionKey: [1, 0] });
+  const voided = await revise({ questionId: 'q2', voided: true });
+  assert.deepEqual([voided.body.previouslyVoided, voided.body.voided], [false, true]);
+  await client.request('/api/submit', { method: 'POST', body: { attemptId: inProgress } });
+  assert.deepEqual(await scores(), [['Ada', 1, 2, 'FAIL'], ['Bob', 1, 2, 'FAIL']]);
+
+  const [result] = (await client.request(`/api/exams/${exam.id}/results`, { cookie })).body;
+  const detail = (await client.request(`/api/exams/${exam.id}/results/${result.id}`, { cookie })).body;
+  assert.deepEqual(detail.responses.map((r: any) => [r.questionId, r.isCorrect]), [['q1', true], ['q3', false]]);
+
+  const keys = (await client.request(`/api/exams/${exam.id}/answer-key`, { cookie })).body;
+  assert.deepEqual(keys.map((k: any) => [k.question.id, k.originalKey, k.solutionKey, k.voided]).slice(0, 2), [['q1', 0, [0, 1], false], ['q2', 0, 0, true]]);
+
+  // Restoring the question brings its marks back
+  await revise({ questionId: 'q2', voided: false });
+  assert.deepEqual(await scores(), [['Ada', 1, 3, 'FAIL'], ['Bob', 2, 3, 'PASS']]);
+});
+
+test('revisions are checked against the question before anything is regraded', async () => {
+  assert.match((await revise({ questionId: 'q9', voided: true })).body.error, /no such question/);
+  assert.match((await revise({ questionId: 'q1', solutionKey: [5] })).body.error, /at least one/);
+  assert.match((await revise({ questionId: 'q1', solutionKey: 0 })).body.error, /changes nothing/);
+  const numeric = await revise({ questionId: 'q3', solutionKey: { value: 8848, tolerance: -1 } });
+  assert.equal(numeric.status, 422);
+  assert.deepEqual(numeric.body.details, ['Question 1 has a negative tolerance']);
+  assert.equal((await client.request(`/api/exams/${exam.id}/key-revisions`, { cookie })).body.length, 0);
+
+  await client.request('/api/exams', { method: 'POST', cookie, body: { ...exam, id: 'DRAFT1' } });
+  const draft = await client.request('/api/exams/DRAFT1/key-revisions', { method: 'POST', cookie, body: { questionId: 'q1', solutionKey: 1 } });
+  assert.equal(draft.status, 409);
+});
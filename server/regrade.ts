@@ -0,0 +1,174 @@
+import type { DB } from './db.ts';
+import { getBlueprint, getKeyCorrections, getPartialCredit, validateQuestions, type ExamRow, type Paper } from './exams.ts';
+import { getResultRows } from './results.ts';
+import { regradeResult } from './grading.ts';
+import { notifyKeyRevision } from './notifications.ts';
+import { formatAnswerKey, isSingleAnswerQuestion } from '../src/lib/questions.ts';
+import type { AnswerKey, KeyRevision, Question, ResultStatus, RevisableQuestion, ScoreChange } from '../src/types.ts';
+
+export class KeyRevisionError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+  }
+}
+
+const MAX_REASON_LENGTH = 500;
+
+interface KeyRevisionRow {
+  id: number;
+  exam_id: string;
+  question_id: string;
+  previous_key: string | null;
+  new_key: string | null;
+  previously_voided: number;
+  voided: number;
+  reason: string;
+  revised_by: number | null;
+  revised_at: number;
+  regraded_count: number;
+}
+
+interface ScoreChangeRow {
+  result_id: number;
+  student_name: string;
+  student_class: string;
+  previous_score: number;
+  new_score: number;
+  previous_total_marks: number;
+  new_total_marks: number;
+  previous_status: ResultStatus | null;
+  new_status: ResultStatus | null;
+}
+
+// The papers as first set: the exam's own, or every draw made for a blueprint exam so far
+function originalPapers(db: DB, exam: ExamRow): Paper[] {
+  if (!getBlueprint(exam)) {
+    return [{ questions: exam.questions, solutionKey: exam.solutionKey, partialCredit: getPartialCredit(exam) }];
+  }
+  const rows = db.prepare('SELECT paper FROM attempts WHERE exam_id = ? AND paper IS NOT NULL').all(exam.id) as { paper: string }[];
+  return rows.map(row => JSON.parse(row.paper));
+}
+
+export function getRevisableQuestions(db: DB, exam: ExamRow): RevisableQuestion[] {
+  const corrections = getKeyCorrections(exam);
+  const questions = new Map<string, RevisableQuestion>();
+  for (const paper of originalPapers(db, exam)) {
+    for (const question of paper.questions) {
+      if (questions.has(question.id)) continue;
+      const originalKey = paper.solutionKey[question.id] ?? null;
+      const correction = corrections[question.id];
+      questions.set(question.id, { question, originalKey, solutionKey: correction?.key ?? originalKey, voided: !!correction?.voided });
+    }
+  }
+  return [...questions.values()];
+}
+
+// Same checks as publishing, except that a single-answer question may now accept several options
+function checkCorrectedKey(question: Question, key: AnswerKey): AnswerKey {
+  if (isSingleAnswerQuestion(question) && Array.isArray(key)) {
+    const optionCount = 'options' in question ? question.options.length : 0;
+    const options = [...new Set(key)].sort((a, b) => a - b);
+    if (!options.length || !options.every(o => Number.isInteger(o) && o >= 0 && o < optionCount)) {
+      throw new KeyRevisionError('Accept at least one of the question\'s options');
+    }
+    return options.length === 1 ? options[0] : options;
+  }
+  const errors = validateQuestions([question], { [question.id]: key }, {});
+  if (errors.length) throw new KeyRevisionError('The corrected key does not fit this question', errors);
+  return key;
+}
+
+const sameKey = (a: AnswerKey | null, b: AnswerKey | null) => JSON.stringify(a) === JSON.stringify(b);
+
+const toScoreChange = (row: ScoreChangeRow): ScoreChange => ({
+  resultId: row.result_id,
+  studentName: row.student_name,
+  studentClass: row.student_class,
+  previousScore: row.previous_score,
+  newScore: row.new_score,
+  previousTotalMarks: row.previous_total_marks,
+  newTotalMarks: row.new_total_marks,
+  previousStatus: row.previous_status,
+  newStatus: row.new_status,
+});
+
+function toKeyRevision(row: KeyRevisionRow, changes: ScoreChangeRow[]): KeyRevision {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    previousKey: row.previous_key === null ? null : JSON.parse(row.previous_key),
+    newKey: row.new_key === null ? null : JSON.parse(row.new_key),
+    previouslyVoided: !!row.previously_voided,
+    voided: !!row.voided,
+    reason: row.reason,
+    revisedAt: row.revised_at,
+    regradedCount: row.regraded_count,
+    changes: changes.map(toScoreChange),
+  };
+}
+
+// Newest first
+export function getKeyRevisions(db: DB, examId: string): KeyRevision[] {
+  const rows = db.prepare('SELECT * FROM key_revisions WHERE exam_id = ? ORDER BY id DESC').all(examId) as KeyRevisionRow[];
+  const changes = db.prepare(`
+    SELECT c.*, r.student_name, r.student_class FROM score_changes c JOIN results r ON r.id = c.result_id
+    WHERE c.revision_id = ? ORDER BY r.student_class, r.student_name
+  `);
+  return rows.map(row => toKeyRevision(row, changes.all(row.id) as ScoreChangeRow[]));
+}
+
+// Takes { questionId, solutionKey?, voided?, reason? }. The correction is saved on the exam, so attempts still in
+// progress are graded with it when they are submitted, and every stored result is regraded from its saved responses
+// straight away. The revision keeps the before and after of each score it moved.
+export function reviseAnswerKey(db: DB, exam: ExamRow, input: any, examinerId: number, now = Date.now()): KeyRevision {
+  const target = getRevisableQuestions(db, exam).find(q => q.question.id === input?.questionId);
+  if (!target) throw new KeyRevisionError('This exam has no such question');
+  const { id } = target.question;
+
+  if (input.voided !== undefined && typeof input.voided !== 'boolean') throw new KeyRevisionError('Voiding must be on or off');
+  const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+  if (reason.length > MAX_REASON_LENGTH) throw new KeyRevisionError(`The reason can be at most ${MAX_REASON_LENGTH} characters`);
+  const voided: boolean = input.voided ?? target.voided;
+  const key = input.solutionKey === undefined ? target.solutionKey : checkCorrectedKey(target.question, input.solutionKey);
+  if (voided === target.voided && sameKey(key, target.solutionKey)) throw new KeyRevisionError('This revision changes nothing');
+
+  const corrections = getKeyCorrections(exam);
+  const correction = { ...(key !== null && !sameKey(key, target.originalKey) && { key }), ...(voided && { voided }) };
+  if (Object.keys(correction).length) corrections[id] = correction;
+  else delete corrections[id];
+  const revised: ExamRow = { ...exam, key_corrections: JSON.stringify(corrections) };
+
+  return db.transaction(() => {
+    db.prepare('UPDATE exams SET key_corrections = ? WHERE id = ?').run(revised.key_corrections, exam.id);
+    const rows = getResultRows(db, exam.id);
+    const { lastInsertRowid: revisionId } = db.prepare(`
+      INSERT INTO key_revisions (exam_id, question_id, previous_key, new_key, previously_voided, voided, reason, revised_by, revised_at, regraded_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      exam.id, id, target.solutionKey === null ? null : JSON.stringify(target.solutionKey), key === null ? null : JSON.stringify(key),
+      target.voided ? 1 : 0, voided ? 1 : 0, reason, examinerId, now, rows.length,
+    );
+
+    const recordChange = db.prepare(`
+      INSERT INTO score_changes (revision_id, result_id, previous_score, new_score, previous_total_marks, new_total_marks, previous_status, new_status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const row of rows) {
+      const after = regradeResult(db, revised, row);
+      if (after.score === row.score && after.total_marks === row.total_marks && after.result_status === row.result_status) continue;
+      recordChange.run(revisionId, row.id, row.score, after.score, row.total_marks, after.total_marks, row.result_status, after.result_status);
+    }
+    return getKeyRevisions(db, exam.id).find(r => r.id === Number(revisionId))!;
+  })();
+}
+
+// Queues the regrade report for the examiner, for exams whose marks have already gone out
+export function notifyRegrade(db: DB, exam: ExamRow, revision: KeyRevision) {
+  const question = getRevisableQuestions(db, exam).find(q => q.question.id === revision.questionId)!.question;
+  const describeKey = (key: AnswerKey | null, voided: boolean) => (voided ? 'VOIDED' : formatAnswerKey(question, key ?? undefined) || '(none)');
+  notifyKeyRevision(db, exam, revision, {
+    questionText: question.text,
+    before: describeKey(revision.previousKey, revision.previouslyVoided),
+    after: describeKey(revision.newKey, revision.voided),
+  });
+}
@@ -0,0 +1,128 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createPdfDocument, toWinAnsi, wrapText, textWidth } from './pdf.ts';
+import { deliverOutbox } from './notifications.ts';
+import { createFileTransport } from './mail.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, readMailDir, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'REPT01',
+  title: 'Physics (Mid-term)',
+  durationMinutes: 30,
+  questions: [
+    { id: 'q1', text: 'Unit of force?', options: ['Newton', 'Joule', 'Watt'] },
+    { id: 'q2', text: 'Speed of light in km/s, roughly?', type: 'numeric' },
+  ],
+  solutionKey: { q1: 0, q2: { value: 300000, tolerance: 1000 } },
+  scoring: { negativeMarking: 0, unanswered: 'zero', passPercentage: 50, gradeBands: [{ grade: 'A', minPercentage: 90 }, { grade: 'C', minPercentage: 0 }] },
+};
+
+test('the PDF writer escapes text, stands in for characters WinAnsi lacks, and wraps to width', () => {
+  assert.equal(toWinAnsi('“Café” – 5 → 6 ✓'), '"Café" - 5 -> 6 ?');
+  const lines = wrapText('The quick brown fox jumps over the lazy dog', 100, 10);
+  assert.ok(lines.length > 1 && lines.every(line => textWidth(line, 10) <= 100));
+  assert.deepEqual(wrapText('Supercalifragilistic', 30, 10).join(''), 'Supercalifragilistic');
+
+  const pdf = createPdfDocument({ title: 'Test', createdAt: new Date('2026-01-02T03:04:05Z') });
+  pdf.addPage();
+  pdf.text(50, 50, 'Mid-term (part 1) \\ done');
+  const text = pdf.toBuffer().toString('latin1');
+  assert.match(text, /^%PDF-1\.4/);
+  assert.match(text, /\(Mid-term \\\(part 1\\\) \\\\ done\) Tj/);
+  assert.match(text, /\/CreationDate \(D:20260102030405Z\)/);
+  // The cross-reference table points at each object's real byte offset
+  const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+  assert.equal(text.slice(xref, xref + 4), 'xref');
+  const offset = Number(text.slice(xref).split('\n')[3].slice(0, 10));
+  assert.equal(text.slice(offset, offset + 7), '1 0 obj');
+});
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+async function sit(studentName: string, studentClass: string, answers: Record<string, number>) {
+  const attemptId = await startAttempt(client, exam.id, studentName, studentClass);
+  await saveAnswers(client, attemptId, answers);
+  await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+}
+
+const recordCode = (pdf: string) => pdf.match(/Record ([0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4})/)![1];
+
+test('a result sheet lists each answer and can be verified by its record code', async () => {
+  await sit('Ada Lovelace', '11A', { q1: 0, q2: 299792 });
+  const [result] = (await client.request(`/api/exams/${exam.id}/results`, { cookie })).body;
+
+  const res = await client.request(`/api/exams/${exam.id}/results/${result.id}/report`, { cookie });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('content-type'), 'application/pdf');
+  assert.match(res.headers.get('content-disposition')!, /REPT01-ada-lovelace-result\.pdf/);
+  assert.match(res.body, /\(Ada Lovelace\) Tj/);
+  assert.match(res.body, /\(Unit of force\?\) Tj/);
+  assert.match(res.body, /\(Newton\) Tj/);
+  assert.match(res.body, /\(2 \/ 2\) Tj/);
+  assert.match(res.body, /\(No integrity events recorded\.\) Tj/);
+  assert.match(res.body, /Examiner signature \\\(Test Examiner\\\)/);
+
+  const record = (await client.request(`/api/reports/${recordCode(res.body).toLowerCase()}`)).body;
+  assert.equal(record.kind, 'result_sheet');
+  assert.equal(record.examTitle, exam.title);
+  assert.equal(record.description, 'Ada Lovelace (11A): 2/2 (100%) PASS (A)');
+  assert.match(res.body, new RegExp(`Fingerprint ${record.fingerprint.slice(0, 16)}`));
+
+  assert.equal((await client.request('/api/reports/0000-0000-0000')).status, 404);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results/999/report`, { cookie })).status, 404);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results/${result.id}/report`)).status, 401);
+});
+
+test('the class summary shows the spread of scores and honours the class filter', async () => {
+  await sit('Ada', '11A', { q1: 0, q2: 300000 });
+  await sit('Bob', '11A', { q1: 1, q2: 300000 });
+  await sit('Cy', '11B', { q1: 2 });
+
+  const all = await client.request(`/api/exams/${exam.id}/results/report`, { cookie });
+  assert.equal(all.headers.get('content-type'), 'application/pdf');
+  assert.match(all.body, /\(Class Summary\) Tj/);
+  assert.match(all.body, /\(2 \\\(66\.7%\\\)\) Tj/);
+  assert.match(all.body, /\(Median\) Tj[^\n]*\n[^\n]*\(50%\) Tj/);
+  assert.match(all.body, /\(Cy\) Tj/);
+  const record = (await client.request(`/api/reports/${recordCode(all.body)}`)).body;
+  assert.equal(record.description, 'Class summary of 3 result(s), all classes');
+
+  const filtered = await client.request(`/api/exams/${exam.id}/results/report?class=11B`, { cookie });
+  assert.match(filtered.body, /Class 11B/);
+  assert.doesNotMatch(filtered.body, /\(Ada\) Tj/);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results/report?from=yesterday`, { cookie })).status, 400);
+});
+
+test('examiner emails can carry the PDF reports', async () => {
+  const mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exam-reports-'));
+  try {
+    const settings = await client.request(`/api/exams/${exam.id}/notifications`, {
+      method: 'PUT', cookie, body: { examiner: 'each', students: false, attachReports: true },
+    });
+    assert.equal(settings.body.settings.attachReports, true);
+    await sit('Ada', '11A', { q1: 0 });
+
+    const [queued] = (await client.request(`/api/exams/${exam.id}/notifications`, { cookie })).body.outbox;
+    assert.deepEqual(queued.attachments, ['REPT01-ada-result.pdf']);
+    await deliverOutbox(client.db, createFileTransport(mailDir));
+    const [mail] = readMailDir(mailDir);
+    const [attachment] = mail.attachments!;
+    assert.equal(attachment.contentType, 'application/pdf');
+    assert.match(attachment.content.toString('latin1'), /^%PDF-1\.4[\s\S]*\(Ada\) Tj/);
+  } finally {
+    fs.rmSync(mailDir, { recursive: true, force: true });
+  }
+});
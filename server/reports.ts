@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import type { DB } from './db.ts';
+import type { ExamRow } from './exams.ts';
+import { getAttempt } from './attempts.ts';
+import { getResultDetail, toExamResult, type ResultFilter, type ResultRow } from './results.ts';
+import { getIntegrityReport, formatIntegrityTimeline } from './integrity.ts';
+import { createPdfDocument, wrapText, textWidth, PAGE_HEIGHT, PAGE_WIDTH, type Color, type PdfDocument, type TextStyle } from './pdf.ts';
+import type { ExamResult, ReportKind, ReportRecord } from '../src/types.ts';
+
+export interface Report {
+  filename: string;
+  body: Buffer;
+  record: ReportRecord;
+}
+
+interface ReportRecordRow {
+  code: string;
+  kind: ReportKind;
+  exam_id: string;
+  result_id: number | null;
+  description: string;
+  fingerprint: string;
+  issued_by: number | null;
+  issued_at: number;
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - 70; // leaves room for the footer
+const MUTED: Color = [0.45, 0.45, 0.48];
+const BAR: Color = [0.15, 0.15, 0.17];
+const BAND: Color = [0.95, 0.95, 0.96];
+
+// Crockford-style alphabet: no I, L, O or U to misread when a code is typed back in from paper
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+function newRecordCode() {
+  const chars = [...crypto.randomBytes(12)].map(b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`;
+}
+
+const formatDate = (time: number | string) => `${new Date(time).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'student';
+
+interface Column {
+  label: string;
+  width: number; // share of the content width
+  align?: 'right';
+}
+
+// A top-to-bottom cursor over the document that starts a new page whenever the next block would not fit
+function createLayout(pdf: PdfDocument) {
+  let y = MARGIN;
+  pdf.addPage();
+
+  const ensure = (height: number) => {
+    if (y + height <= BOTTOM) return false;
+    pdf.addPage();
+    y = MARGIN;
+    return true;
+  };
+
+  const lines = (text: string, x: number, width: number, style: TextStyle = {}) => {
+    const size = style.size ?? 10;
+    for (const line of wrapText(text, width, size, style.bold)) {
+      ensure(size * 1.4);
+      y += size * 1.4;
+      pdf.text(x, y, line, style);
+    }
+  };
+
+  const drawRow = (columns: Column[], cells: string[], style: TextStyle) => {
+    const size = style.size ?? 9;
+    const wrapped = cells.map((cell, i) => wrapText(cell, columns[i].width * CONTENT_WIDTH - 6, size, style.bold));
+    const height = Math.max(...wrapped.map(w => w.length)) * size * 1.3 + 6;
+    let x = MARGIN;
+    wrapped.forEach((cellLines, i) => {
+      const width = columns[i].width * CONTENT_WIDTH;
+      cellLines.forEach((line, l) => {
+        const lineX = columns[i].align === 'right' ? x + width - 4 - textWidth(line, size, style.bold) : x + 2;
+        pdf.text(lineX, y + size * 1.3 * (l + 1), line, style);
+      });
+      x += width;
+    });
+    return height;
+  };
+
+  return {
+    gap(height: number) {
+      y += height;
+    },
+    title(text: string, subtitle: string) {
+      lines(text, MARGIN, CONTENT_WIDTH, { size: 18, bold: true });
+      lines(subtitle, MARGIN, CONTENT_WIDTH, { size: 11, color: MUTED });
+      y += 8;
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { width: 1, color: BAR });
+      y += 6;
+    },
+    heading(text: string) {
+      ensure(40);
+      y += 14;
+      lines(text.toUpperCase(), MARGIN, CONTENT_WIDTH, { size: 9, bold: true, color: MUTED });
+      y += 4;
+    },
+    paragraph(text: string, style: TextStyle = {}) {
+      lines(text, MARGIN, CONTENT_WIDTH, style);
+    },
+    // Label and value pairs laid out in two columns
+    facts(pairs: [string, string | number][]) {
+      const half = CONTENT_WIDTH / 2;
+      for (let i = 0; i < pairs.length; i += 2) {
+        ensure(16);
+        y += 15;
+        pairs.slice(i, i + 2).forEach(([label, value], j) => {
+          const x = MARGIN + j * half;
+          pdf.text(x, y, label, { size: 9, color: MUTED });
+          pdf.text(x + 95, y, String(value), { size: 10, bold: true });
+        });
+      }
+    },
+    table(columns: Column[], rows: string[][]) {
+      const header = () => {
+        pdf.rect(MARGIN, y, CONTENT_WIDTH, 18, BAND);
+        y += drawRow(columns, columns.map(c => c.label), { size: 8, bold: true, color: MUTED }) + 2;
+      };
+      y += 4;
+      header();
+      for (const row of rows) {
+        const height = Math.max(...row.map((cell, i) => wrapText(cell, columns[i].width * CONTENT_WIDTH - 6, 9).length)) * 9 * 1.3 + 6;
+        if (ensure(height)) header();
+        y += drawRow(columns, row, { size: 9 });
+        pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+      }
+    },
+    // Horizontal bars, scaled to the largest count
+    bars(items: { label: string; count: number }[]) {
+      const max = Math.max(1, ...items.map(i => i.count));
+      const barWidth = CONTENT_WIDTH - 110;
+      for (const item of items) {
+        ensure(16);
+        y += 16;
+        pdf.text(MARGIN, y, item.label, { size: 9, color: MUTED });
+        if (item.count) pdf.rect(MARGIN + 70, y - 9, (item.count / max) * barWidth, 11, BAR);
+        pdf.text(MARGIN + 76 + (item.count / max) * barWidth, y, String(item.count), { size: 9 });
+      }
+    },
+    // Printed records are signed by hand; the examiner's name is filled in so the signature can be matched to it
+    signature(examinerName: string | null) {
+      ensure(90);
+      y += 50;
+      const width = CONTENT_WIDTH / 2 - 20;
+      pdf.line(MARGIN, y, MARGIN + width, y, { color: BAR });
+      pdf.line(MARGIN + CONTENT_WIDTH / 2 + 20, y, MARGIN + CONTENT_WIDTH, y, { color: BAR });
+      pdf.text(MARGIN, y + 12, `Examiner signature${examinerName ? ` (${examinerName})` : ''}`, { size: 8, color: MUTED });
+      pdf.text(MARGIN + CONTENT_WIDTH / 2 + 20, y + 12, 'Date', { size: 8, color: MUTED });
+    },
+  };
+}
+
+// Every page carries the record code and fingerprint, so a single loose page can still be checked against the server
+function addFooters(pdf: PdfDocument, record: ReportRecord) {
+  for (let i = 0; i < pdf.pageCount; i++) {
+    pdf.goToPage(i);
+    const y = PAGE_HEIGHT - 36;
+    pdf.line(MARGIN, y - 12, MARGIN + CONTENT_WIDTH, y - 12);
+    pdf.text(MARGIN, y, `Record ${record.code}  |  Fingerprint ${record.fingerprint.slice(0, 16)}  |  Issued ${formatDate(record.issuedAt)}`, { size: 7, color: MUTED });
+    const page = `Page ${i + 1} of ${pdf.pageCount}`;
+    pdf.text(MARGIN + CONTENT_WIDTH - textWidth(page, 7), y, page, { size: 7, color: MUTED });
+  }
+}
+
+const examinerName = (db: DB, exam: ExamRow) =>
+  exam.owner_id === null ? null : (db.prepare('SELECT name FROM users WHERE id = ?').get(exam.owner_id) as { name: string } | undefined)?.name ?? null;
+
+// The fingerprint covers exactly what the report prints, so any later change to the result shows up as a mismatch
+function issueRecord(
+  db: DB, exam: ExamRow, kind: ReportKind, resultId: number | null, description: string, contents: unknown, issuedBy: number | null, now: number,
+): ReportRecord {
+  const code = newRecordCode();
+  const fingerprint = crypto.createHash('sha256').update(JSON.stringify({ code, examId: exam.id, kind, issuedAt: now, contents })).digest('hex');
+  db.prepare(`
+    INSERT INTO report_records (code, kind, exam_id, result_id, description, fingerprint, issued_by, issued_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(code, kind, exam.id, resultId, description, fingerprint, issuedBy, now);
+  return { code, kind, examId: exam.id, examTitle: exam.title, description, fingerprint, issuedAt: now };
+}
+
+const standing = (r: ExamResult) => `${r.resultStatus}${r.grade ? ` (${r.grade})` : ''}`;
+
+const flags = (r: ExamResult) => [
+  r.terminated && 'Terminated',
+  r.late && 'Late',
+  r.pendingReview > 0 && `${r.pendingReview} to mark`,
+].filter(Boolean).join(', ');
+
+// One student's sheet: the score, each question with the answer given and the key, and the integrity record
+export function createResultSheet(db: DB, exam: ExamRow, row: ResultRow, issuedBy: number | null, now = Date.now()): Report {
+  const detail = getResultDetail(db, row, exam);
+  const attempt = row.attempt_id ? getAttempt(db, row.attempt_id) : undefined;
+  const integrity = attempt ? getIntegrityReport(db, attempt, exam) : null;
+
+  const record = issueRecord(
+    db, exam, 'result_sheet', row.id,
+    `${detail.studentName} (${detail.studentClass}): ${detail.score}/${detail.totalMarks} (${detail.percentage}%) ${standing(detail)}`,
+    { detail, integrity }, issuedBy, now,
+  );
+
+  const pdf = createPdfDocument({ title: `${exam.title}: ${detail.studentName}`, createdAt: new Date(now) });
+  const layout = createLayout(pdf);
+  layout.title('Result Sheet', `${exam.title}  |  Exam ${exam.id}`);
+  layout.facts([
+    ['Student', detail.studentName],
+    ['Class', detail.studentClass],
+    ['Submitted', formatDate(detail.timestamp)],
+    ['Status', detail.terminated ? 'Terminated' : detail.late ? 'Late' : 'On time'],
+    ['Score', `${detail.score} / ${detail.totalMarks}`],
+    ['Percentage', `${detail.percentage}%`],
+    ['Result', detail.resultStatus],
+    ['Grade', detail.grade ?? '-'],
+  ]);
+  if (detail.pendingReview) layout.paragraph(`${detail.pendingReview} answer(s) are awaiting marking; the score is provisional.`, { size: 9, color: MUTED });
+
+  layout.heading('Responses');
+  layout.table(
+    [{ label: '#', width: 0.05 }, { label: 'Question', width: 0.37 }, { label: 'Answer', width: 0.21 }, { label: 'Correct answer', width: 0.21 }, { label: 'Marks', width: 0.16, align: 'right' }],
+    detail.responses.map((r, i) => [
+      String(i + 1),
+      r.text,
+      r.answer === null ? '(unanswered)' : r.answerText,
+      r.correctAnswerText,
+      `${r.isCorrect === null ? 'to mark' : `${r.marksAwarded}`} / ${r.marks}`,
+    ]),
+  );
+
+  if (integrity) {
+    layout.heading('Integrity');
+    layout.facts([
+      ['Violations', integrity.violationCount],
+      ['Suspicion', `${integrity.suspicionScore}/100 (${integrity.suspicionLevel})`],
+    ]);
+    layout.gap(6);
+    for (const line of formatIntegrityTimeline(integrity).split('\n')) layout.paragraph(line, { size: 9 });
+  }
+
+  layout.signature(examinerName(db, exam));
+  addFooters(pdf, record);
+  return { filename: `${exam.id}-${slug(detail.studentName)}-result.pdf`, body: pdf.toBuffer(), record };
+}
+
+const DISTRIBUTION_BANDS = 10;
+
+// Shares of the total in tenths; a perfect score lands in the top band
+function distribution(results: ExamResult[]) {
+  const counts = Array(DISTRIBUTION_BANDS).fill(0);
+  for (const r of results) counts[Math.min(DISTRIBUTION_BANDS - 1, Math.floor(r.percentage / (100 / DISTRIBUTION_BANDS)))]++;
+  return counts.map((count, i) => ({
+    label: `${i * 10}-${i === DISTRIBUTION_BANDS - 1 ? 100 : i * 10 + 9}%`,
+    count,
+  })).reverse();
+}
+
+function median(values: number[]) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function describeFilter({ studentClass, from, to }: ResultFilter) {
+  const parts = [
+    studentClass && `Class ${studentClass}`,
+    from && `from ${from.toISOString().slice(0, 10)}`,
+    // The filter's upper bound is exclusive; show the last day it includes
+    to && `to ${new Date(to.getTime() - 1).toISOString().slice(0, 10)}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'All classes';
+}
+
+// The class overview: summary statistics, how scores are spread, and every student's standing
+export function createClassSummary(
+  db: DB, exam: ExamRow, rows: ResultRow[], filter: ResultFilter, issuedBy: number | null, now = Date.now(),
+): Report {
+  const results = rows.map(toExamResult)
+    .sort((a, b) => a.studentClass.localeCompare(b.studentClass) || a.studentName.localeCompare(b.studentName));
+  const percentages = results.map(r => r.percentage);
+  const passed = results.filter(r => r.resultStatus === 'PASS').length;
+  const scope = describeFilter(filter);
+  const stats = {
+    count: results.length,
+    average: results.length ? round(percentages.reduce((a, b) => a + b, 0) / results.length) : 0,
+    median: round(median(percentages)),
+    highest: results.length ? Math.max(...percentages) : 0,
+    lowest: results.length ? Math.min(...percentages) : 0,
+    passed,
+    passRate: results.length ? round((passed / results.length) * 100) : 0,
+  };
+
+  const record = issueRecord(
+    db, exam, 'class_summary', null, `Class summary of ${stats.count} result(s), ${scope.toLowerCase()}`, { scope, stats, results }, issuedBy, now,
+  );
+
+  const pdf = createPdfDocument({ title: `${exam.title}: class summary`, createdAt: new Date(now) });
+  const layout = createLayout(pdf);
+  layout.title('Class Summary', `${exam.title}  |  Exam ${exam.id}  |  ${scope}`);
+  layout.facts([
+    ['Results', stats.count],
+    ['Passed', `${stats.passed} (${stats.passRate}%)`],
+    ['Average', `${stats.average}%`],
+    ['Median', `${stats.median}%`],
+    ['Highest', `${stats.highest}%`],
+    ['Lowest', `${stats.lowest}%`],
+    ['Terminated', results.filter(r => r.terminated).length],
+    ['Late', results.filter(r => r.late).length],
+  ]);
+
+  layout.heading('Score distribution');
+  layout.bars(distribution(results));
+
+  const grades = [...new Set(results.map(r => r.grade).filter((g): g is string => !!g))];
+  if (grades.length) {
+    layout.heading('Grades');
+    layout.bars(grades.map(grade => ({ label: grade, count: results.filter(r => r.grade === grade).length })));
+  }
+
+  layout.heading('Students');
+  if (!results.length) layout.paragraph('No results were submitted.', { color: MUTED });
+  else layout.table(
+    [{ label: 'Student', width: 0.26 }, { label: 'Class', width: 0.1 }, { label: 'Score', width: 0.12, align: 'right' }, { label: '%', width: 0.09, align: 'right' }, { label: 'Result', width: 0.16 }, { label: 'Notes', width: 0.27 }],
+    results.map(r => [r.studentName, r.studentClass, `${r.score}/${r.totalMarks}`, `${r.percentage}%`, standing(r), flags(r)]),
+  );
+
+  layout.signature(examinerName(db, exam));
+  addFooters(pdf, record);
+  return { filename: `${exam.id}-class-summary.pdf`, body: pdf.toBuffer(), record };
+}
+
+// What anyone holding a printed report can confirm with its record code
+export function getReportRecord(db: DB, code: string): ReportRecord | undefined {
+  const row = db.prepare(`
+    SELECT r.*, e.title FROM report_records r JOIN exams e ON e.id = r.exam_id WHERE r.code = ?
+  `).get(code.trim().toUpperCase()) as (ReportRecordRow & { title: string }) | undefined;
+  if (!row) return undefined;
+  return { code: row.code, kind: row.kind, examId: row.exam_id, examTitle: row.title, description: row.description, fingerprint: row.fingerprint, issuedAt: row.issued_at };
+}
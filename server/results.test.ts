@@ -0,0 +1,104 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'RSLT01',
+  title: 'Chemistry Quiz',
+  durationMinutes: 20,
+  questions: [
+    { id: 'q1', text: 'Symbol for gold?', options: ['Ag', 'Au'] },
+    { id: 'q2', text: 'pH of water?', options: ['7', '1'] },
+  ],
+  solutionKey: { q1: 1, q2: 0 },
+};
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+async function sit(studentName: string, studentClass: string, answers: Record<string, number>) {
+  const attemptId = await startAttempt(client, exam.id, studentName, studentClass);
+  await saveAnswers(client, attemptId, answers);
+  await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  return attemptId;
+}
+
+test('examiners can list results with percentage and pass status', async () => {
+  const attemptId = await sit('Ada', '12A', { q1: 1, q2: 0 });
+  await sit('Bob', '12B', { q1: 0 });
+
+  const res = await client.request(`/api/exams/${exam.id}/results`, { cookie });
+  assert.equal(res.status, 200);
+  assert.deepEqual(
+    res.body.map((r: any) => [r.studentName, r.score, r.percentage, r.resultStatus, r.terminated]),
+    [['Ada', 2, 100, 'PASS', false], ['Bob', 0, 0, 'FAIL', false]],
+  );
+  assert.equal(res.body[0].attemptId, attemptId);
+  assert.ok(!isNaN(Date.parse(res.body[0].timestamp)));
+});
+
+test('results can be filtered by class', async () => {
+  await sit('Ada', '12A', { q1: 1 });
+  await sit('Bob', '12B', { q1: 1 });
+  const res = await client.request(`/api/exams/${exam.id}/results?class=12b`, { cookie });
+  assert.deepEqual(res.body.map((r: any) => r.studentName), ['Bob']);
+});
+
+test('a result drills down into per-question responses', async () => {
+  await sit('Ada', '12A', { q1: 0 });
+  const [result] = (await client.request(`/api/exams/${exam.id}/results`, { cookie })).body;
+  const detail = await client.request(`/api/exams/${exam.id}/results/${result.id}`, { cookie });
+  assert.deepEqual(
+    detail.body.responses.map((r: any) => [r.questionId, r.answer, r.answerText, r.correctAnswerText, r.isCorrect]),
+    [['q1', 0, 'Ag', 'Au', false], ['q2', null, 'Not Answered', '7', false]],
+  );
+  assert.equal((await client.request(`/api/exams/${exam.id}/results/999`, { cookie })).status, 404);
+});
+
+test('results are private to the owning examiner', async () => {
+  await sit('Ada', '12A', { q1: 1 });
+  assert.equal((await client.request(`/api/exams/${exam.id}/results`)).status, 401);
+  const otherCookie = await registerExaminer(client, 'other@school.edu');
+  assert.equal((await client.request(`/api/exams/${exam.id}/results`, { cookie: otherCookie })).status, 403);
+});
+
+test('results export as CSV, one row per attempt or per question response', async () => {
+  await sit('=Ada, "the first"', '12A', { q1: 1, q2: 1 });
+  await sit('Bob', '12B', { q1: 1 });
+
+  const attempts = await client.request(`/api/exams/${exam.id}/results/export?format=csv&class=12A`, { cookie });
+  assert.equal(attempts.status, 200);
+  assert.match(attempts.headers.get('content-disposition')!, /RSLT01-results-attempts\.csv/);
+  const lines = attempts.body.trim().split('\r\n');
+  assert.equal(lines.length, 2);
+  assert.match(lines[1], /^1,[^,]+,"'=Ada, ""the first""",12A,1,2,50,PASS,,0,false,false,/);
+
+  const responses = await client.request(`/api/exams/${exam.id}/results/export?format=csv&sheet=responses`, { cookie });
+  assert.deepEqual(responses.body.trim().split('\r\n').slice(3), [
+    '2,Bob,12B,1,q1,Symbol for gold?,Au,Au,true,1,1',
+    '2,Bob,12B,2,q2,pH of water?,,7,false,0,1',
+  ]);
+});
+
+test('results export as an XLSX workbook and honour the date range', async () => {
+  await sit('Ada', '12A', { q1: 1 });
+  const xlsx = await client.request(`/api/exams/${exam.id}/results/export?format=xlsx`, { cookie });
+  assert.equal(xlsx.status, 200);
+  assert.match(xlsx.headers.get('content-type')!, /spreadsheetml/);
+  assert.ok(xlsx.body.startsWith('PK'));
+
+  const future = await client.request(`/api/exams/${exam.id}/results?from=2999-01-01`, { cookie });
+  assert.deepEqual(future.body, []);
+  const today = new Date().toISOString().slice(0, 10);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results?from=${today}&to=${today}`, { cookie })).body.length, 1);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results/export?to=yesterday`, { cookie })).status, 400);
+});
@@ -0,0 +1,161 @@
+import type { DB } from './db.ts';
+import { getExamPaper, getScoringRules, scoredQuestions, type ExamRow, type Paper } from './exams.ts';
+import { getAttempt, getAttemptPaper } from './attempts.ts';
+import { getGrade, getPercentage, gradeResponses, questionMarks, type ManualMarks } from './scoring.ts';
+import { DEFAULT_SCORING_RULES } from '../src/lib/scoring.ts';
+import { formatAnswer, formatAnswerKey, isAnswerCorrect, questionType } from '../src/lib/questions.ts';
+import type { ExamResult, ExamResultDetail, Responses, ResultStatus } from '../src/types.ts';
+
+export interface ResultRow {
+  id: number;
+  exam_id: string;
+  student_name: string;
+  student_class: string;
+  score: number;
+  total_marks: number;
+  terminated: number;
+  timestamp: string;
+  attempt_id: string | null;
+  late: number;
+  result_status: ResultStatus | null;
+  grade: string | null;
+  pending_review: number;
+  student_id: number | null;
+}
+
+export class ResultFilterError extends Error {}
+
+export interface ResultFilter {
+  studentClass?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: unknown, name: string, endOfDay: boolean) {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new ResultFilterError(`Invalid "${name}" date`);
+  // A bare date as the upper bound means "through the end of that day"
+  if (endOfDay && DATE_ONLY.test(value.trim())) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+// Reads ?class=&from=&to= as sent by the results dashboard and export links
+export function parseResultFilter(query: Record<string, unknown>): ResultFilter {
+  const studentClass = typeof query.class === 'string' && query.class.trim() ? query.class.trim() : undefined;
+  return { studentClass, from: parseDate(query.from, 'from', false), to: parseDate(query.to, 'to', true) };
+}
+
+// Matches the "YYYY-MM-DD HH:MM:SS" UTC text SQLite writes for CURRENT_TIMESTAMP
+const toSqliteTimestamp = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+export function getResultRows(db: DB, examId: string, { studentClass, from, to }: ResultFilter = {}) {
+  const conditions = ['exam_id = ?'];
+  const params: unknown[] = [examId];
+  if (studentClass) {
+    conditions.push('student_class = ? COLLATE NOCASE');
+    params.push(studentClass);
+  }
+  if (from) {
+    conditions.push('timestamp >= ?');
+    params.push(toSqliteTimestamp(from));
+  }
+  if (to) {
+    conditions.push('timestamp < ?');
+    params.push(toSqliteTimestamp(to));
+  }
+  return db.prepare(`SELECT * FROM results WHERE ${conditions.join(' AND ')} ORDER BY id`).all(...params) as ResultRow[];
+}
+
+export function getResultRow(db: DB, examId: string, id: number) {
+  return db.prepare('SELECT * FROM results WHERE exam_id = ? AND id = ?').get(examId, id) as ResultRow | undefined;
+}
+
+export function toExamResult(row: ResultRow): ExamResult {
+  const percentage = getPercentage(row.score, row.total_marks);
+  // Results from before scoring rules were stored were graded against the defaults
+  const standing = row.result_status ? { resultStatus: row.result_status, grade: row.grade } : getGrade(percentage, DEFAULT_SCORING_RULES);
+  return {
+    id: row.id,
+    attemptId: row.attempt_id,
+    studentId: row.student_id,
+    studentName: row.student_name,
+    studentClass: row.student_class,
+    score: row.score,
+    totalMarks: row.total_marks,
+    percentage,
+    ...standing,
+    pendingReview: row.pending_review,
+    terminated: !!row.terminated,
+    late: !!row.late,
+    // SQLite's CURRENT_TIMESTAMP is UTC without a zone marker
+    timestamp: new Date(`${row.timestamp.replace(' ', 'T')}Z`).toISOString(),
+  };
+}
+
+// Blueprint exams grade each attempt against its own draw; fixed exams and legacy results use the exam's questions
+export function getResultPaper(db: DB, row: ResultRow, exam: ExamRow): Paper {
+  const attempt = row.attempt_id ? getAttempt(db, row.attempt_id) : undefined;
+  return attempt ? getAttemptPaper(attempt, exam) : getExamPaper(exam);
+}
+
+// The answer sheet graded at submission, one row per answered question in result_responses
+export function getResultResponses(db: DB, resultId: number): Responses {
+  const rows = db.prepare('SELECT question_id, answer FROM result_responses WHERE result_id = ?')
+    .all(resultId) as { question_id: string; answer: string }[];
+  return Object.fromEntries(rows.map(r => [r.question_id, JSON.parse(r.answer)]));
+}
+
+export function getExamResponses(db: DB, examId: string) {
+  const rows = db.prepare(`
+    SELECT s.result_id, s.question_id, s.answer FROM result_responses s JOIN results r ON r.id = s.result_id WHERE r.exam_id = ?
+  `).all(examId) as { result_id: number; question_id: string; answer: string }[];
+  const byResult = new Map<number, Responses>();
+  for (const row of rows) {
+    byResult.set(row.result_id, { ...byResult.get(row.result_id), [row.question_id]: JSON.parse(row.answer) });
+  }
+  return byResult;
+}
+
+export function getManualMarks(db: DB, resultId: number): ManualMarks {
+  const rows = db.prepare('SELECT question_id, marks_awarded FROM manual_grades WHERE result_id = ?')
+    .all(resultId) as { question_id: string; marks_awarded: number }[];
+  return Object.fromEntries(rows.map(r => [r.question_id, r.marks_awarded]));
+}
+
+// Responses are the snapshot graded at submission, shown against the paper's current questions and key.
+// Voided questions are left out, as they are from the score.
+export function toExamResultDetail(
+  row: ResultRow, exam: ExamRow, paper: Paper, responses: Responses, manualMarks: ManualMarks = {},
+): ExamResultDetail {
+  const { solutionKey, partialCredit } = paper;
+  const questions = scoredQuestions(paper);
+  const { questionScores, pending } = gradeResponses(questions, solutionKey, partialCredit, getScoringRules(exam), responses, manualMarks);
+
+  return {
+    ...toExamResult(row),
+    responses: questions.map(q => {
+      const answer = responses[q.id];
+      const marks = questionMarks(q);
+      const correct = answer === undefined ? false : isAnswerCorrect(q, solutionKey[q.id], answer);
+      return {
+        questionId: q.id,
+        type: questionType(q),
+        text: q.text,
+        answer: answer ?? null,
+        answerText: formatAnswer(q, answer),
+        correctAnswerText: formatAnswerKey(q, solutionKey[q.id]),
+        // A hand-marked answer counts as correct only when it earned full marks
+        isCorrect: correct !== null ? correct : pending.includes(q.id) ? null : questionScores[q.id] >= marks,
+        marks,
+        marksAwarded: questionScores[q.id],
+      };
+    }),
+  };
+}
+
+export function getResultDetail(db: DB, row: ResultRow, exam: ExamRow) {
+  return toExamResultDetail(row, exam, getResultPaper(db, row, exam), getResultResponses(db, row.id), getManualMarks(db, row.id));
+}
@@ -0,0 +1,89 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRosterCsv, RosterError } from './roster.ts';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+
+const exam = {
+  id: 'ROST01',
+  title: 'Rostered Quiz',
+  durationMinutes: 20,
+  questions: [{ id: 'q1', text: 'Capital of France?', options: ['Paris', 'Rome'] }],
+  solutionKey: { q1: 0 },
+};
+
+const CSV = 'Student ID,Name,Class,Email\nS001,Ada Lovelace,12A,ada@school.edu\nS002,"Turing, Alan",12B,\nS003,Grace Hopper,12A,grace@school.edu\n';
+
+test('parseRosterCsv reads headers in any order, quoted fields and headerless files', () => {
+  const records = parseRosterCsv('email,class,name,student id\r\nada@school.edu,12A,Ada Lovelace,S001\r\n,12B,"Turing, Alan",S002');
+  assert.deepEqual(records[1], { studentNumber: 'S002', name: 'Turing, Alan', studentClass: '12B', email: null });
+  assert.equal(parseRosterCsv('S001,Ada Lovelace,12A')[0].name, 'Ada Lovelace');
+});
+
+test('parseRosterCsv reports every bad row', () => {
+  try {
+    parseRosterCsv('id,name,class,email\nS001,,12A,\nS002,Bob,12A,not-an-email\nS003,Cy,12A,\nS003,Di,12A,');
+    assert.fail('expected a RosterError');
+  } catch (error) {
+    assert.ok(error instanceof RosterError);
+    assert.deepEqual(error.details.map(d => d.split(':')[0]), ['Row 2', 'Row 3', 'Row 5']);
+  }
+  assert.throws(() => parseRosterCsv('name,email\nAda,ada@school.edu'), /student id column/);
+});
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+  await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie });
+});
+
+afterEach(() => client.close());
+
+const join = (body: Record<string, unknown>) => client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, ...body } });
+
+test('a rostered exam only admits students with a valid, unused access code', async () => {
+  const roster = await client.request(`/api/exams/${exam.id}/roster`, { method: 'POST', cookie, body: { csv: CSV } });
+  assert.equal(roster.status, 200);
+  assert.equal(roster.body.length, 3);
+  const ada = roster.body.find((s: any) => s.studentNumber === 'S001');
+
+  assert.equal((await client.request(`/api/exams/${exam.id}`)).body.rosterRequired, true);
+  assert.equal((await join({ studentName: 'Ada', studentClass: '12A' })).status, 400);
+  assert.equal((await join({ accessCode: 'NOTACODE' })).status, 403);
+
+  const started = await join({ accessCode: ada.accessCode.toLowerCase(), studentName: 'Someone Else' });
+  assert.equal(started.status, 201);
+  assert.equal(started.body.studentName, 'Ada Lovelace');
+  assert.equal((await join({ accessCode: ada.accessCode })).status, 409);
+
+  await client.request('/api/submit', { method: 'POST', body: { attemptId: started.body.attemptId } });
+  const [result] = (await client.request(`/api/exams/${exam.id}/results`, { cookie })).body;
+  assert.equal(result.studentId, ada.id);
+
+  const reissued = await client.request(`/api/exams/${exam.id}/roster/${ada.id}/reissue`, { method: 'POST', cookie });
+  assert.notEqual(reissued.body.accessCode, ada.accessCode);
+  assert.equal(reissued.body.usedAt, null);
+  assert.equal((await join({ accessCode: reissued.body.accessCode })).status, 201);
+});
+
+test('students imported once can be enrolled on an exam by class', async () => {
+  const imported = await client.request('/api/roster', { method: 'POST', cookie, body: { csv: CSV } });
+  assert.equal(imported.status, 201);
+  const reimported = await client.request('/api/roster', { method: 'POST', cookie, body: { csv: 'id,name,class\nS002,Alan Turing,12A' } });
+  assert.equal(reimported.body[0].id, imported.body[1].id);
+
+  const roster = await client.request(`/api/exams/${exam.id}/roster`, { method: 'POST', cookie, body: { class: '12a' } });
+  assert.deepEqual(roster.body.map((s: any) => s.name), ['Ada Lovelace', 'Alan Turing', 'Grace Hopper']);
+
+  const other = await registerExaminer(client, 'other@school.edu');
+  assert.equal((await client.request('/api/roster', { cookie: other })).body.length, 0);
+  const stolen = await client.request(`/api/exams/${exam.id}/roster`, { method: 'POST', cookie, body: { studentIds: [999] } });
+  assert.equal(stolen.status, 400);
+
+  const removed = await client.request(`/api/exams/${exam.id}/roster/${roster.body[0].id}`, { method: 'DELETE', cookie });
+  assert.equal(removed.status, 200);
+  assert.equal((await join({ accessCode: roster.body[0].accessCode })).status, 403);
+});
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import type { DB } from './db.ts';
+import type { ExamRow } from './exams.ts';
+import { EXAM_CODE_ALPHABET } from '../src/lib/utils.ts';
+import { NO_ACCOMMODATIONS } from './accommodations.ts';
+import type { Accommodations, RosterEntry, Student } from '../src/types.ts';
+
+export class RosterError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+  }
+}
+
+export class AccessCodeError extends Error {}
+export class AccessCodeUsedError extends Error {}
+
+interface StudentRow {
+  id: number;
+  owner_id: number;
+  student_number: string;
+  name: string;
+  class: string;
+  email: string | null;
+  created_at: number;
+  accommodations: string | null;
+}
+
+interface RosterRow extends StudentRow {
+  access_code: string;
+  used_at: number | null;
+}
+
+export interface StudentRecord {
+  studentNumber: string;
+  name: string;
+  studentClass: string;
+  email: string | null;
+}
+
+const ACCESS_CODE_LENGTH = 8;
+const MAX_ROSTER_ROWS = 2000;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Header spellings seen in school exports; without a recognised header the columns are read as id, name, class, email
+const COLUMN_NAMES: Record<keyof StudentRecord, string[]> = {
+  studentNumber: ['student id', 'student_id', 'studentid', 'student number', 'student no', 'id', 'number'],
+  name: ['name', 'full name', 'student name'],
+  studentClass: ['class', 'class / grade', 'grade', 'form', 'group'],
+  email: ['email', 'e-mail', 'email address'],
+};
+const DEFAULT_COLUMNS: (keyof StudentRecord)[] = ['studentNumber', 'name', 'studentClass', 'email'];
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function headerColumns(header: string[]): (keyof StudentRecord | null)[] | null {
+  const columns = header.map(cell => {
+    const label = cell.trim().toLowerCase();
+    return (Object.keys(COLUMN_NAMES) as (keyof StudentRecord)[]).find(key => COLUMN_NAMES[key].includes(label)) ?? null;
+  });
+  return columns.includes('name') ? columns : null;
+}
+
+// Every bad row is reported at once so the examiner can fix the file in one pass
+export function parseRosterCsv(text: unknown): StudentRecord[] {
+  if (typeof text !== 'string' || !text.trim()) throw new RosterError('Paste or upload a roster CSV');
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const header = headerColumns(rows[0]);
+  const body = header ? rows.slice(1) : rows;
+  const columns = header ?? DEFAULT_COLUMNS;
+  if (body.length === 0) throw new RosterError('The roster has no students');
+  if (body.length > MAX_ROSTER_ROWS) throw new RosterError(`A roster can list at most ${MAX_ROSTER_ROWS} students`);
+  for (const key of ['studentNumber', 'name', 'studentClass'] as const) {
+    if (!columns.includes(key)) throw new RosterError(`The roster needs a ${key === 'studentClass' ? 'class' : key === 'name' ? 'name' : 'student id'} column`);
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const records = body.map((cells, i) => {
+    const line = i + (header ? 2 : 1);
+    const value = (key: keyof StudentRecord) => cells[columns.indexOf(key)]?.trim() ?? '';
+    const record: StudentRecord = {
+      studentNumber: value('studentNumber'),
+      name: value('name').replace(/\s+/g, ' '),
+      studentClass: value('studentClass'),
+      email: value('email') || null,
+    };
+    if (!record.studentNumber || !record.name || !record.studentClass) errors.push(`Row ${line}: student id, name and class are required`);
+    else if (record.email && !EMAIL.test(record.email)) errors.push(`Row ${line}: "${record.email}" is not an email address`);
+    else if (seen.has(record.studentNumber.toLowerCase())) errors.push(`Row ${line}: student id ${record.studentNumber} appears more than once`);
+    seen.add(record.studentNumber.toLowerCase());
+    return record;
+  });
+  if (errors.length) throw new RosterError('The roster has errors', errors);
+  return records;
+}
+
+function toStudent(row: StudentRow): Student {
+  return {
+    id: row.id,
+    studentNumber: row.student_number,
+    name: row.name,
+    studentClass: row.class,
+    email: row.email,
+    accommodations: row.accommodations ? JSON.parse(row.accommodations) : NO_ACCOMMODATIONS,
+  };
+}
+
+function toRosterEntry(row: RosterRow): RosterEntry {
+  return { ...toStudent(row), accessCode: row.access_code, usedAt: row.used_at };
+}
+
+// Students are matched on their id, so re-importing a corrected file updates names, classes and emails in place
+export function importStudents(db: DB, ownerId: number, records: StudentRecord[], now = Date.now()): Student[] {
+  const upsert = db.prepare(`
+    INSERT INTO students (owner_id, student_number, name, class, email, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (owner_id, student_number) DO UPDATE SET name = excluded.name, class = excluded.class, email = excluded.email
+    RETURNING *
+  `);
+  return db.transaction(() => records.map(r => toStudent(upsert.get(ownerId, r.studentNumber, r.name, r.studentClass, r.email, now) as StudentRow)))();
+}
+
+export function listStudents(db: DB, ownerId: number, studentClass?: string): Student[] {
+  const rows = studentClass
+    ? db.prepare('SELECT * FROM students WHERE owner_id = ? AND class = ? COLLATE NOCASE ORDER BY class, name').all(ownerId, studentClass)
+    : db.prepare('SELECT * FROM students WHERE owner_id = ? ORDER BY class, name').all(ownerId);
+  return (rows as StudentRow[]).map(toStudent);
+}
+
+// Applies to attempts started from now on; attempts already under way keep what they started with
+export function setAccommodations(db: DB, ownerId: number, studentId: number, accommodations: Accommodations): Student | undefined {
+  const row = db.prepare('UPDATE students SET accommodations = ? WHERE id = ? AND owner_id = ? RETURNING *')
+    .get(JSON.stringify(accommodations), studentId, ownerId) as StudentRow | undefined;
+  return row && toStudent(row);
+}
+
+export function getExamRoster(db: DB, examId: string): RosterEntry[] {
+  const rows = db.prepare(`
+    SELECT s.*, r.access_code, r.used_at FROM exam_roster r JOIN students s ON s.id = r.student_id
+    WHERE r.exam_id = ? ORDER BY s.class, s.name
+  `).all(examId) as RosterRow[];
+  return rows.map(toRosterEntry);
+}
+
+// Once an exam has a roster, only the students on it can join
+export function hasRoster(db: DB, examId: string) {
+  return !!db.prepare('SELECT 1 FROM exam_roster WHERE exam_id = ? LIMIT 1').get(examId);
+}
+
+function newAccessCode(db: DB, examId: string) {
+  const taken = db.prepare('SELECT 1 FROM exam_roster WHERE exam_id = ? AND access_code = ?');
+  const randomCode = () => Array.from({ length: ACCESS_CODE_LENGTH }, () => EXAM_CODE_ALPHABET[crypto.randomInt(EXAM_CODE_ALPHABET.length)]).join('');
+  let code;
+  do code = randomCode();
+  while (taken.get(examId, code));
+  return code;
+}
+
+// Adds the examiner's own students to the exam; students already enrolled keep their code
+export function enrollStudents(db: DB, exam: ExamRow, studentIds: unknown): RosterEntry[] {
+  if (!Array.isArray(studentIds) || !studentIds.every(Number.isInteger)) throw new RosterError('Choose the students to add');
+  const owned = db.prepare('SELECT 1 FROM students WHERE id = ? AND owner_id = ?');
+  const insert = db.prepare('INSERT INTO exam_roster (exam_id, student_id, access_code) VALUES (?, ?, ?) ON CONFLICT DO NOTHING');
+  db.transaction(() => {
+    for (const id of studentIds as number[]) {
+      if (!owned.get(id, exam.owner_id)) throw new RosterError(`Student ${id} is not on your roster`);
+      insert.run(exam.id, id, newAccessCode(db, exam.id));
+    }
+  })();
+  return getExamRoster(db, exam.id);
+}
+
+export function enrollClass(db: DB, exam: ExamRow, studentClass: unknown): RosterEntry[] {
+  if (typeof studentClass !== 'string' || !studentClass.trim()) throw new RosterError('Choose a class to add');
+  const students = listStudents(db, exam.owner_id!, studentClass.trim());
+  if (students.length === 0) throw new RosterError(`No students on your roster are in class ${studentClass.trim()}`);
+  return enrollStudents(db, exam, students.map(s => s.id));
+}
+
+export function removeFromRoster(db: DB, examId: string, studentId: number) {
+  return db.prepare('DELETE FROM exam_roster WHERE exam_id = ? AND student_id = ?').run(examId, studentId).changes > 0;
+}
+
+// A fresh code for a lost one, or for another attempt once the first code has been used
+export function reissueAccessCode(db: DB, examId: string, studentId: number): RosterEntry | undefined {
+  const updated = db.prepare('UPDATE exam_roster SET access_code = ?, used_at = NULL WHERE exam_id = ? AND student_id = ?')
+    .run(newAccessCode(db, examId), examId, studentId);
+  if (updated.changes === 0) return undefined;
+  return getExamRoster(db, examId).find(entry => entry.id === studentId);
+}
+
+export function findAccessCode(db: DB, examId: string, accessCode: unknown): RosterEntry {
+  const code = typeof accessCode === 'string' ? accessCode.trim().replace(/\s+/g, '').toUpperCase() : '';
+  const row = code && db.prepare(`
+    SELECT s.*, r.access_code, r.used_at FROM exam_roster r JOIN students s ON s.id = r.student_id
+    WHERE r.exam_id = ? AND r.access_code = ?
+  `).get(examId, code) as RosterRow | undefined;
+  if (!row) throw new AccessCodeError('This access code is not valid for this exam');
+  if (row.used_at !== null) throw new AccessCodeUsedError('This access code has already been used. Ask your examiner for a new one.');
+  return toRosterEntry(row);
+}
+
+export function markAccessCodeUsed(db: DB, examId: string, studentId: number, now = Date.now()) {
+  db.prepare('UPDATE exam_roster SET used_at = ? WHERE exam_id = ? AND student_id = ?').run(now, examId, studentId);
+}
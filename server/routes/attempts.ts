@@ -0,0 +1,137 @@
+import { Router, type Request, type Response } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { getExamRow } from '../exams.ts';
+import { createAttempt, getAttempt, isLate, saveAnswers, toAttemptSession, AnswerValidationError } from '../attempts.ts';
+import { BlueprintError } from '../bank.ts';
+import { checkAttemptLimit, checkJoinable, AttemptLimitError, ExamUnavailableError } from '../schedule.ts';
+import { findAccessCode, hasRoster, markAccessCodeUsed, AccessCodeError, AccessCodeUsedError } from '../roster.ts';
+import { getBroadcasts, openEventStream, type Monitor } from '../monitor.ts';
+import { endBreak, startBreak, BreakError } from '../accommodations.ts';
+import { recordIntegrityEvents, getIntegrityReport, IntegrityEventError } from '../integrity.ts';
+
+export function attemptRoutes(db: DB, monitor: Monitor) {
+  const router = Router();
+
+  // Rostered exams identify the student by their access code; open exams take the name and class as typed
+  router.post('/', validate(api.startAttempt), (req, res) => {
+    const { examId, accessCode } = req.body;
+    if (!examId) return res.status(400).json({ error: 'Exam code is required' });
+
+    const exam = getExamRow(db, examId);
+    if (!exam || exam.status === 'draft') return res.status(404).json({ error: 'Exam not found' });
+
+    const rostered = hasRoster(db, exam.id);
+    const studentName = req.body.studentName?.trim();
+    const studentClass = req.body.studentClass?.trim();
+    if (rostered && (typeof accessCode !== 'string' || !accessCode.trim())) return res.status(400).json({ error: 'Enter the access code from your examiner' });
+    if (!rostered && (!studentName || !studentClass)) return res.status(400).json({ error: 'Exam code, name and class are required' });
+
+    let attempt;
+    try {
+      attempt = db.transaction(() => {
+        checkJoinable(exam);
+        if (!rostered) {
+          checkAttemptLimit(db, exam, studentName, studentClass);
+          return createAttempt(db, exam, studentName, studentClass);
+        }
+        const student = findAccessCode(db, exam.id, accessCode);
+        checkAttemptLimit(db, exam, student.name, student.studentClass, student.id);
+        const created = createAttempt(db, exam, student.name, student.studentClass, student);
+        markAccessCodeUsed(db, exam.id, student.id, created.started_at);
+        return created;
+      })();
+    } catch (error) {
+      if (error instanceof ExamUnavailableError || error instanceof AccessCodeError) return res.status(403).json({ error: error.message });
+      if (error instanceof BlueprintError || error instanceof AttemptLimitError || error instanceof AccessCodeUsedError) {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+    monitor.attemptChanged(attempt.id);
+    res.status(201).json(toAttemptSession(db, attempt, exam));
+  });
+
+  // Lets a reloaded page pick the same attempt back up with the server's view of the clock
+  router.get('/:id', validate(api.getAttempt), (req, res) => {
+    const attempt = getAttempt(db, req.params.id);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    const exam = getExamRow(db, attempt.exam_id)!;
+    res.json(toAttemptSession(db, attempt, exam));
+  });
+
+  router.put('/:id/answers', validate(api.saveAnswers), (req, res) => {
+    const attempt = getAttempt(db, req.params.id);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+    if (isLate(attempt)) return res.status(409).json({ error: 'Time is up for this attempt' });
+    if (attempt.break_started_at !== null) return res.status(409).json({ error: 'Answers cannot be changed during a break' });
+
+    try {
+      saveAnswers(db, attempt, getExamRow(db, attempt.exam_id)!, req.body ?? {});
+    } catch (error) {
+      if (error instanceof AnswerValidationError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    monitor.attemptChanged(attempt.id);
+    res.json({ success: true, savedAt: Date.now() });
+  });
+
+  // Accommodated breaks stop the clock; the exam stays hidden until the student resumes
+  const changeBreak = (apply: typeof startBreak) => (req: Request, res: Response) => {
+    const attempt = getAttempt(db, req.params.id);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+    let updated;
+    try {
+      updated = apply(db, attempt);
+    } catch (error) {
+      if (error instanceof BreakError) return res.status(409).json({ error: error.message });
+      throw error;
+    }
+    monitor.attemptChanged(attempt.id);
+    res.json(toAttemptSession(db, updated, getExamRow(db, attempt.exam_id)!));
+  };
+
+  router.post('/:id/break', validate(api.startBreak), changeBreak(startBreak));
+  router.post('/:id/resume', validate(api.endBreak), changeBreak(endBreak));
+
+  // The student's live channel: examiner messages, extra time and the result of a submission arrive here.
+  // While it is open the examiner's monitor shows the student as connected.
+  router.get('/:id/stream', validate(api.attemptStream), (req, res) => {
+    const attempt = getAttempt(db, req.params.id);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+    let disconnect = () => {};
+    const send = openEventStream(req, res, () => disconnect());
+    for (const broadcast of getBroadcasts(db, attempt.exam_id)) send('message', broadcast);
+    // Nothing more is sent once the attempt is over
+    disconnect = monitor.connectStudent(attempt, (event, data) => {
+      send(event, data);
+      if (event === 'submitted') res.end();
+    });
+  });
+
+  // Proctoring events are batched by the client and may arrive late after a spell offline
+  router.post('/:id/events', validate(api.recordEvents), (req, res) => {
+    const attempt = getAttempt(db, req.params.id);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+    const exam = getExamRow(db, attempt.exam_id)!;
+    try {
+      recordIntegrityEvents(db, attempt, exam, req.body?.events);
+    } catch (error) {
+      if (error instanceof IntegrityEventError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    monitor.attemptChanged(attempt.id);
+    const { violationCount, terminated } = getIntegrityReport(db, attempt, exam);
+    res.json({ success: true, violationCount, terminated });
+  });
+
+  return router;
+}
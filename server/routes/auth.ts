@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import {
+  hashPassword,
+  verifyPassword,
+  createSession,
+  destroySession,
+  getSessionToken,
+  setSessionCookie,
+  clearSessionCookie,
+  requireExaminer,
+} from '../auth.ts';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+  id: number;
+  name: string;
+  email: string;
+  password_hash: string;
+}
+
+// Addresses are stored and looked up in one form, so stray spaces or capitals neither duplicate nor lock out an account
+const normalizeEmail = (email: unknown) => String(email ?? '').trim().toLowerCase();
+
+export function authRoutes(db: DB) {
+  const router = Router();
+
+  router.post('/register', validate(api.register), (req, res) => {
+    const { name, password } = req.body ?? {};
+    const email = normalizeEmail(req.body?.email);
+    if (!name || !email || !password) {
+      return res.status(400).json({ error: 'Name, email and password are required' });
+    }
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existing = db.prepare('SELECT id FROM users WHERE email = ?').get(email);
+    if (existing) return res.status(409).json({ error: 'An account with this email already exists' });
+
+    const info = db.prepare('INSERT INTO users (name, email, password_hash) VALUES (?, ?, ?)')
+      .run(String(name).trim(), email, hashPassword(String(password)));
+    const userId = Number(info.lastInsertRowid);
+
+    const { token, expiresAt } = createSession(db, userId);
+    setSessionCookie(req, res, token, expiresAt);
+    res.status(201).json({ id: userId, name: String(name).trim(), email });
+  });
+
+  router.post('/login', validate(api.login), (req, res) => {
+    const { password } = req.body ?? {};
+    const user = db.prepare('SELECT * FROM users WHERE email = ?').get(normalizeEmail(req.body?.email)) as UserRow | undefined;
+    if (!user || !verifyPassword(String(password ?? ''), user.password_hash)) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    const { token, expiresAt } = createSession(db, user.id);
+    setSessionCookie(req, res, token, expiresAt);
+    res.json({ id: user.id, name: user.name, email: user.email });
+  });
+
+  router.post('/logout', validate(api.logout), (req, res) => {
+    const token = getSessionToken(req);
+    if (token) destroySession(db, token);
+    clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  router.get('/me', requireExaminer, validate(api.getCurrentExaminer), (req, res) => {
+    res.json(req.examiner);
+  });
+
+  return router;
+}
@@ -0,0 +1,64 @@
+import { Router, type Response } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { requireExaminer } from '../auth.ts';
+import {
+  addBankQuestions,
+  deleteBankQuestion,
+  getBankQuestion,
+  listBankQuestions,
+  parseBankFilter,
+  parseTags,
+  updateBankQuestion,
+  QuestionBankError,
+} from '../bank.ts';
+
+// Each examiner's question bank is private to them
+export function bankRoutes(db: DB) {
+  const router = Router();
+  router.use(requireExaminer);
+
+  const sendError = (res: Response, error: unknown) => {
+    if (!(error instanceof QuestionBankError)) throw error;
+    return error.details.length
+      ? res.status(422).json({ error: error.message, details: error.details })
+      : res.status(400).json({ error: error.message });
+  };
+
+  router.get('/', validate(api.listBankQuestions), (req, res) => {
+    try {
+      res.json(listBankQuestions(db, req.examiner!.id, parseBankFilter(req.query)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Saves reviewed draft questions into the bank under one set of tags
+  router.post('/', validate(api.addBankQuestions), (req, res) => {
+    const { questions, solutionKey, partialCredit, tags } = req.body;
+    try {
+      res.status(201).json(addBankQuestions(db, req.examiner!.id, questions, solutionKey, partialCredit, parseTags(tags)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.put('/:id', validate(api.updateBankQuestion), (req, res) => {
+    const existing = getBankQuestion(db, req.examiner!.id, req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Question not found' });
+    const { question, answerKey, partialCredit, tags } = req.body;
+    try {
+      res.json(updateBankQuestion(db, existing, { question, answerKey, partialCredit }, parseTags(tags ?? existing)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.delete('/:id', validate(api.deleteBankQuestion), (req, res) => {
+    if (!deleteBankQuestion(db, req.examiner!.id, req.params.id)) return res.status(404).json({ error: 'Question not found' });
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,461 @@
+import express, { Router, type Request, type Response } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { requireExaminer, requireExamOwner } from '../auth.ts';
+import {
+  getExamRow,
+  getExamRows,
+  saveExamQuestions,
+  findDuplicateQuestion,
+  toStudentExam,
+  toExaminerExam,
+  toExamSummary,
+  isAnswerKeyReleased,
+  getExamPaper,
+  validateForPublish,
+  type ExamRow,
+} from '../exams.ts';
+import { validateDraft, ExtractionError, type QuestionExtractor } from '../extraction.ts';
+import { parseProctoringPolicy, ProctoringPolicyError } from '../proctoring.ts';
+import { parseScoringRules, ScoringRulesError } from '../scoring.ts';
+import { parseShufflePolicy, toDisplayedKey, ShufflePolicyError } from '../shuffle.ts';
+import { getIntegrityReport, toIntegritySummary } from '../integrity.ts';
+import { parseBlueprint, validateBlueprint, BlueprintError } from '../bank.ts';
+import {
+  archiveExam, checkJoinable, closeEarly, extendExam, getLifecycle, openEarly, parseSchedule, ExamUnavailableError, LifecycleError, ScheduleError,
+} from '../schedule.ts';
+import {
+  getResultRows, getResultRow, getResultDetail, getResultPaper, getExamResponses, parseResultFilter, toExamResult, toExamResultDetail, ResultFilterError, type ResultRow,
+} from '../results.ts';
+import {
+  enrollClass, enrollStudents, getExamRoster, hasRoster, importStudents, parseRosterCsv, reissueAccessCode, removeFromRoster, RosterError,
+} from '../roster.ts';
+import { extendAttempt, getLiveAttempt, openEventStream, parseBroadcast, MonitorError, type Monitor } from '../monitor.ts';
+import { submitAttempt, toSubmissionResponse } from '../submissions.ts';
+import { analyzeExam } from '../analysis.ts';
+import { getGradingQueue, getExamManualMarks, recordManualGrade, ManualGradeError } from '../grading.ts';
+import { getKeyRevisions, getRevisableQuestions, notifyRegrade, reviseAnswerKey, KeyRevisionError } from '../regrade.ts';
+import {
+  getNotificationSettings, getOutbox, parseNotificationSettings, retryMessage, setNotificationSettings, NotificationSettingsError, OutboxError,
+} from '../notifications.ts';
+import { createClassSummary, createResultSheet } from '../reports.ts';
+import { EXPORT_FORMATS, EXPORT_SHEETS, exportResults, type ExportFormat, type ExportSheet } from '../exports.ts';
+import { getAttempt, getAttemptPaper, getLayout, type AttemptRow } from '../attempts.ts';
+import type { AnswerReleasePolicy } from '../../src/types.ts';
+
+const ANSWER_RELEASE_POLICIES: AnswerReleasePolicy[] = ['never', 'after_close', 'immediate'];
+const MAX_PDF_SIZE = '20mb';
+
+export function examRoutes(db: DB, extractor: QuestionExtractor | null, monitor: Monitor) {
+  const router = Router();
+  const requireOwner = requireExamOwner(db);
+
+  router.get('/', requireExaminer, validate(api.listExams), (req, res) => {
+    res.json(getExamRows(db, 'SELECT * FROM exams WHERE owner_id = ? ORDER BY rowid DESC', req.examiner!.id).map(toExamSummary));
+  });
+
+  router.post('/extract', requireExaminer, express.raw({ type: 'application/pdf', limit: MAX_PDF_SIZE }), validate(api.extractQuestions), async (req, res) => {
+    if (!extractor) {
+      return res.status(503).json({ error: 'Question extraction is not configured on this server' });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Upload the question paper as application/pdf' });
+    }
+
+    try {
+      const draft = validateDraft(await extractor.extract(req.body));
+      res.json(draft);
+    } catch (error) {
+      if (error instanceof ExtractionError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Question extraction failed:', error);
+      res.status(502).json({ error: 'Failed to extract questions from the document' });
+    }
+  });
+
+  // Saves the examiner's working copy. Students cannot see an exam until it is published.
+  router.post('/', requireExaminer, validate(api.saveExam), (req, res) => {
+    const {
+      id, title, durationMinutes, answerRelease = 'never', flags = {}, proctoring, scoring, partialCredit = {},
+    } = req.body;
+    const examiner = req.examiner!;
+
+    let proctoringPolicy, scoringRules, shufflePolicy, blueprint, schedule;
+    try {
+      schedule = parseSchedule(req.body);
+      proctoringPolicy = JSON.stringify(parseProctoringPolicy(proctoring));
+      scoringRules = JSON.stringify(parseScoringRules(scoring));
+      shufflePolicy = JSON.stringify(parseShufflePolicy(req.body.shuffle));
+      blueprint = parseBlueprint(req.body.blueprint);
+    } catch (error) {
+      if (
+        error instanceof ProctoringPolicyError || error instanceof ScoringRulesError || error instanceof ShufflePolicyError || error instanceof BlueprintError || error instanceof ScheduleError
+      ) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    if (!ANSWER_RELEASE_POLICIES.includes(answerRelease)) {
+      return res.status(400).json({ error: 'Invalid answer release policy' });
+    }
+    const { opensAt, closesAt, joinCutoffMinutes, maxAttempts } = schedule;
+    if (answerRelease === 'after_close' && !closesAt) {
+      return res.status(400).json({ error: 'A closing time is required to release answers after the exam closes' });
+    }
+
+    const existing = getExamRow(db, id);
+    if (existing && existing.owner_id !== examiner.id) {
+      return res.status(403).json({ error: 'This exam belongs to another examiner' });
+    }
+    if (existing && existing.status !== 'draft') {
+      return res.status(409).json({ error: 'Published exams can no longer be edited' });
+    }
+
+    // A blueprint exam keeps no fixed questions; each attempt draws its own from the bank
+    const questions = blueprint ? [] : req.body.questions ?? [];
+    const solutionKey = blueprint ? {} : req.body.solutionKey ?? {};
+    const storedBlueprint = blueprint && JSON.stringify(blueprint);
+    const duplicate = findDuplicateQuestion(questions);
+    if (duplicate !== null) {
+      return res.status(400).json({ error: `Question ${duplicate + 1} has the same id as an earlier question` });
+    }
+
+    db.transaction(() => {
+      if (existing) {
+        db.prepare('UPDATE exams SET title = ?, duration_minutes = ?, examiner_email = ?, answer_release = ?, closes_at = ?, review_flags = ?, proctoring_policy = ?, scoring_rules = ?, partial_credit = ?, blueprint = ?, shuffle_policy = ?, opens_at = ?, join_cutoff_minutes = ?, max_attempts = ? WHERE id = ?')
+          .run(title, durationMinutes, examiner.email, answerRelease, closesAt, JSON.stringify(flags), proctoringPolicy, scoringRules, JSON.stringify(partialCredit), storedBlueprint, shufflePolicy, opensAt, joinCutoffMinutes, maxAttempts, existing.id);
+      } else {
+        db.prepare("INSERT INTO exams (id, title, duration_minutes, examiner_email, owner_id, answer_release, closes_at, review_flags, proctoring_policy, scoring_rules, partial_credit, blueprint, shuffle_policy, opens_at, join_cutoff_minutes, max_attempts, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft')")
+          .run(id, title, durationMinutes, examiner.email, examiner.id, answerRelease, closesAt, JSON.stringify(flags), proctoringPolicy, scoringRules, JSON.stringify(partialCredit), storedBlueprint, shufflePolicy, opensAt, joinCutoffMinutes, maxAttempts);
+      }
+      saveExamQuestions(db, existing?.id ?? id, questions, solutionKey);
+    })();
+    res.json({ success: true });
+  });
+
+  router.get('/:id/manage', requireOwner, validate(api.getManagedExam), (_req, res) => {
+    res.json(toExaminerExam(res.locals.exam));
+  });
+
+  router.post('/:id/publish', requireOwner, validate(api.publishExam), (_req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    if (exam.status !== 'draft') return res.status(409).json({ error: 'This exam is already published' });
+
+    const errors = [...validateForPublish(exam), ...validateBlueprint(db, exam)];
+    if (errors.length) return res.status(422).json({ error: 'The exam is not ready to publish', details: errors });
+
+    // Without a scheduled opening time the exam opens now, which is also where the late-join cutoff counts from
+    db.prepare("UPDATE exams SET status = 'published', review_flags = '{}', opens_at = COALESCE(opens_at, ?) WHERE id = ?")
+      .run(new Date().toISOString(), exam.id);
+    res.json({ success: true });
+  });
+
+  // Examiner overrides of the schedule: open or close now, push the closing time back, or put a finished exam away
+  const changeLifecycle = (apply: (exam: ExamRow, body: any) => void) => (req: Request, res: Response) => {
+    const exam: ExamRow = res.locals.exam;
+    try {
+      apply(exam, req.body);
+    } catch (error) {
+      if (error instanceof ScheduleError) return res.status(400).json({ error: error.message });
+      if (error instanceof LifecycleError) return res.status(409).json({ error: error.message });
+      throw error;
+    }
+    res.json(toExamSummary(getExamRow(db, exam.id)!));
+  };
+
+  router.post('/:id/open', requireOwner, validate(api.openExam), changeLifecycle(exam => openEarly(db, exam)));
+  router.post('/:id/close', requireOwner, validate(api.closeExam), changeLifecycle(exam => closeEarly(db, exam)));
+  router.post('/:id/extend', requireOwner, validate(api.extendExam), changeLifecycle((exam, body) => extendExam(db, exam, body?.closesAt)));
+  router.post('/:id/archive', requireOwner, validate(api.archiveExam), changeLifecycle(exam => archiveExam(db, exam)));
+
+  router.get('/:id/results', requireOwner, validate(api.listResults), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    try {
+      res.json(getResultRows(db, exam.id, parseResultFilter(req.query)).map(toExamResult));
+    } catch (error) {
+      if (error instanceof ResultFilterError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  router.get('/:id/results/export', requireOwner, validate(api.exportResults), async (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const { format = 'csv', sheet = 'attempts' } = req.query as { format?: ExportFormat; sheet?: ExportSheet };
+    if (!EXPORT_FORMATS.includes(format)) return res.status(400).json({ error: 'Export format must be csv or xlsx' });
+    if (!EXPORT_SHEETS.includes(sheet)) return res.status(400).json({ error: 'Export sheet must be attempts or responses' });
+
+    let rows;
+    try {
+      rows = getResultRows(db, exam.id, parseResultFilter(req.query));
+    } catch (error) {
+      if (error instanceof ResultFilterError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+
+    const manualMarks = getExamManualMarks(db, exam.id);
+    const responses = getExamResponses(db, exam.id);
+    const detail = (row: ResultRow) => toExamResultDetail(row, exam, getResultPaper(db, row, exam), responses.get(row.id) ?? {}, manualMarks.get(row.id));
+    const file = await exportResults(exam, rows, format, sheet, detail);
+    res.attachment(file.filename).type(file.contentType).send(file.body);
+  });
+
+  // Printable class summary for the same ?class=&from=&to= filter as the results view
+  router.get('/:id/results/report', requireOwner, validate(api.classReport), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    let filter;
+    try {
+      filter = parseResultFilter(req.query);
+    } catch (error) {
+      if (error instanceof ResultFilterError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    const report = createClassSummary(db, exam, getResultRows(db, exam.id, filter), filter, req.examiner!.id);
+    res.attachment(report.filename).type('application/pdf').send(report.body);
+  });
+
+  router.get('/:id/results/:resultId/report', requireOwner, validate(api.resultReport), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const row = getResultRow(db, exam.id, Number(req.params.resultId));
+    if (!row) return res.status(404).json({ error: 'Result not found' });
+    const report = createResultSheet(db, exam, row, req.examiner!.id);
+    res.attachment(report.filename).type('application/pdf').send(report.body);
+  });
+
+  router.get('/:id/results/:resultId', requireOwner, validate(api.getResult), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const row = getResultRow(db, exam.id, Number(req.params.resultId));
+    if (!row) return res.status(404).json({ error: 'Result not found' });
+    res.json(getResultDetail(db, row, exam));
+  });
+
+  // Marks one hand-graded answer and re-scores the result around it; marking again overwrites
+  router.put('/:id/results/:resultId/grades', requireOwner, validate(api.gradeAnswer), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const row = getResultRow(db, exam.id, Number(req.params.resultId));
+    if (!row) return res.status(404).json({ error: 'Result not found' });
+    const { questionId, marksAwarded } = req.body;
+    try {
+      res.json(toExamResult(recordManualGrade(db, exam, row, questionId, marksAwarded, req.examiner!.id)));
+    } catch (error) {
+      if (error instanceof ManualGradeError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  router.get('/:id/grading-queue', requireOwner, validate(api.getGradingQueue), (_req, res) => {
+    res.json(getGradingQueue(db, res.locals.exam));
+  });
+
+  router.get('/:id/answer-key', requireOwner, validate(api.getAnswerKey), (_req, res) => {
+    res.json(getRevisableQuestions(db, res.locals.exam));
+  });
+
+  router.get('/:id/key-revisions', requireOwner, validate(api.listKeyRevisions), (_req, res) => {
+    res.json(getKeyRevisions(db, res.locals.exam.id));
+  });
+
+  // Corrects, widens or voids one question's key and regrades every stored result; { notify: true } queues an email of the changes
+  router.post('/:id/key-revisions', requireOwner, validate(api.reviseAnswerKey), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    if (exam.status === 'draft') return res.status(409).json({ error: 'Draft exams are corrected in the editor' });
+    let revision;
+    try {
+      revision = reviseAnswerKey(db, exam, req.body ?? {}, req.examiner!.id);
+    } catch (error) {
+      if (!(error instanceof KeyRevisionError)) throw error;
+      return error.details.length
+        ? res.status(422).json({ error: error.message, details: error.details })
+        : res.status(400).json({ error: error.message });
+    }
+    if (req.body.notify === true) notifyRegrade(db, getExamRow(db, exam.id)!, revision);
+    res.status(201).json(revision);
+  });
+
+  router.get('/:id/analysis', requireOwner, validate(api.getAnalysis), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    try {
+      res.json(analyzeExam(db, exam, getResultRows(db, exam.id, parseResultFilter(req.query))));
+    } catch (error) {
+      if (error instanceof ResultFilterError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  router.get('/:id/roster', requireOwner, validate(api.getExamRoster), (_req, res) => {
+    res.json(getExamRoster(db, res.locals.exam.id));
+  });
+
+  // Enrols students from a pasted CSV ({ csv }), a whole class ({ class }) or by record ({ studentIds }), each with an access code
+  router.post('/:id/roster', requireOwner, validate(api.enrollStudents), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    if (exam.status === 'archived') return res.status(409).json({ error: 'This exam has been archived' });
+    const { csv, studentIds } = req.body ?? {};
+    try {
+      if (csv !== undefined) {
+        const students = importStudents(db, req.examiner!.id, parseRosterCsv(csv));
+        return res.json(enrollStudents(db, exam, students.map(s => s.id)));
+      }
+      res.json(req.body?.class !== undefined ? enrollClass(db, exam, req.body.class) : enrollStudents(db, exam, studentIds));
+    } catch (error) {
+      if (!(error instanceof RosterError)) throw error;
+      return error.details.length
+        ? res.status(422).json({ error: error.message, details: error.details })
+        : res.status(400).json({ error: error.message });
+    }
+  });
+
+  router.delete('/:id/roster/:studentId', requireOwner, validate(api.removeFromRoster), (req, res) => {
+    if (!removeFromRoster(db, res.locals.exam.id, Number(req.params.studentId))) {
+      return res.status(404).json({ error: 'Student is not on this exam\'s roster' });
+    }
+    res.json({ success: true });
+  });
+
+  // Replaces a lost code, or lets a student who has used theirs make another attempt
+  router.post('/:id/roster/:studentId/reissue', requireOwner, validate(api.reissueAccessCode), (req, res) => {
+    const entry = reissueAccessCode(db, res.locals.exam.id, Number(req.params.studentId));
+    if (!entry) return res.status(404).json({ error: 'Student is not on this exam\'s roster' });
+    res.json(entry);
+  });
+
+  router.get('/:id/notifications', requireOwner, validate(api.getNotifications), (_req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    res.json({ settings: getNotificationSettings(exam), outbox: getOutbox(db, exam.id) });
+  });
+
+  // Takes { examiner: 'each' | 'digest' | 'none', students }; messages already queued are left as they are
+  router.put('/:id/notifications', requireOwner, validate(api.saveNotificationSettings), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    let settings;
+    try {
+      settings = parseNotificationSettings(req.body);
+    } catch (error) {
+      if (error instanceof NotificationSettingsError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    setNotificationSettings(db, exam.id, settings);
+    res.json({ settings, outbox: getOutbox(db, exam.id) });
+  });
+
+  router.post('/:id/notifications/:messageId/retry', requireOwner, validate(api.retryNotification), (req, res) => {
+    let message;
+    try {
+      message = retryMessage(db, res.locals.exam.id, Number(req.params.messageId));
+    } catch (error) {
+      if (error instanceof OutboxError) return res.status(409).json({ error: error.message });
+      throw error;
+    }
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    res.json(message);
+  });
+
+  router.get('/:id/monitor', requireOwner, validate(api.getLiveAttempts), (_req, res) => {
+    res.json(monitor.getLiveAttempts(res.locals.exam));
+  });
+
+  // Pushes the attempts in progress as a `snapshot`, then each attempt again as an `attempt` event whenever it changes
+  router.get('/:id/monitor/stream', requireOwner, validate(api.monitorStream), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    let unwatch = () => {};
+    const send = openEventStream(req, res, () => unwatch());
+    send('snapshot', monitor.getLiveAttempts(exam));
+    unwatch = monitor.watchExam(exam.id, send);
+  });
+
+  router.post('/:id/monitor/broadcast', requireOwner, validate(api.broadcast), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    if (getLifecycle(exam) !== 'open' && getLifecycle(exam) !== 'closed') return res.status(409).json({ error: 'This exam is not running' });
+    try {
+      res.json(monitor.broadcast(exam.id, parseBroadcast(req.body?.message)));
+    } catch (error) {
+      if (error instanceof MonitorError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  const findAttempt = (exam: ExamRow, attemptId: string) =>
+    db.prepare('SELECT * FROM attempts WHERE id = ? AND exam_id = ?').get(attemptId, exam.id) as AttemptRow | undefined;
+
+  router.post('/:id/monitor/:attemptId/extend', requireOwner, validate(api.extendAttempt), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const attempt = findAttempt(exam, req.params.attemptId);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    let extended;
+    try {
+      extended = extendAttempt(db, attempt, exam, req.body?.minutes);
+    } catch (error) {
+      if (error instanceof MonitorError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    monitor.notifyStudent(attempt.id, 'deadline', { deadline: extended.deadline });
+    monitor.attemptChanged(attempt.id);
+    res.json(getLiveAttempt(db, extended, exam, monitor.isConnected(attempt.id)));
+  });
+
+  // Grades whatever the student has autosaved so far and sends them to their result screen
+  router.post('/:id/monitor/:attemptId/submit', requireOwner, validate(api.forceSubmit), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const attempt = findAttempt(exam, req.params.attemptId);
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+    const outcome = submitAttempt(db, attempt, exam, { forced: true });
+    monitor.notifyStudent(attempt.id, 'submitted', toSubmissionResponse(attempt, exam, outcome));
+    monitor.attemptChanged(attempt.id);
+    res.json({ success: true });
+  });
+
+  router.get('/:id/integrity', requireOwner, validate(api.listIntegrity), (_req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const attempts = db.prepare('SELECT * FROM attempts WHERE exam_id = ? ORDER BY started_at').all(exam.id) as AttemptRow[];
+    res.json(attempts.map(attempt => toIntegritySummary(getIntegrityReport(db, attempt, exam))));
+  });
+
+  router.get('/:id/integrity/:attemptId', requireOwner, validate(api.getIntegrityReport), (req, res) => {
+    const exam: ExamRow = res.locals.exam;
+    const attempt = db.prepare('SELECT * FROM attempts WHERE id = ? AND exam_id = ?').get(req.params.attemptId, exam.id) as AttemptRow | undefined;
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    res.json(getIntegrityReport(db, attempt, exam));
+  });
+
+  router.get('/:id', validate(api.getExam), (req, res) => {
+    const exam = getExamRow(db, req.params.id);
+    if (!exam || exam.status === 'draft' || exam.status === 'archived') return res.status(404).json({ error: 'Exam not found' });
+    try {
+      checkJoinable(exam);
+    } catch (error) {
+      if (error instanceof ExamUnavailableError) {
+        return res.status(403).json({ error: error.message, ...(getLifecycle(exam) === 'scheduled' && { opensAt: exam.opens_at }) });
+      }
+      throw error;
+    }
+    res.json({ ...toStudentExam(exam), ...(hasRoster(db, exam.id) && { rosterRequired: true }) });
+  });
+
+  router.get('/:id/answers', validate(api.getAnswers), (req, res) => {
+    const exam = getExamRow(db, req.params.id);
+    if (!exam) return res.status(404).json({ error: 'Exam not found' });
+    const isOwner = req.examiner?.id === exam.owner_id;
+    if (!isOwner && exam.status === 'draft') return res.status(404).json({ error: 'Exam not found' });
+
+    // Blueprint exams have no shared key; ?attemptId= picks the paper one student actually sat, in the order they saw it.
+    // Under 'immediate' release it is also how a student shows they have submitted.
+    const attemptId = req.query.attemptId;
+    const attempt = typeof attemptId === 'string' ? getAttempt(db, attemptId) : undefined;
+    if (typeof attemptId === 'string' && (!attempt || attempt.exam_id !== exam.id)) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+    if (!isOwner && !isAnswerKeyReleased(exam, !!attempt?.submitted_at)) {
+      return res.status(403).json({ error: 'Answers have not been released for this exam' });
+    }
+
+    if (!attempt) return res.json({ solutionKey: getExamPaper(exam).solutionKey });
+    const paper = getAttemptPaper(attempt, exam);
+    res.json({ solutionKey: toDisplayedKey(getLayout(attempt, exam, paper), paper.solutionKey) });
+  });
+
+  return router;
+}
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { requireExaminer } from '../auth.ts';
+import { getTemplates, parseTemplate, resetTemplate, saveTemplate, NOTIFICATION_KINDS, TemplateError } from '../templates.ts';
+import type { NotificationKind } from '../../src/types.ts';
+
+// Each examiner's email templates, used for every exam they own
+export function notificationRoutes(db: DB) {
+  const router = Router();
+  router.use(requireExaminer);
+
+  router.get('/templates', validate(api.listTemplates), (req, res) => {
+    res.json(getTemplates(db, req.examiner!.id));
+  });
+
+  router.put('/templates/:kind', validate(api.saveTemplate), (req, res) => {
+    const kind = req.params.kind as NotificationKind;
+    if (!NOTIFICATION_KINDS.includes(kind)) return res.status(404).json({ error: 'Unknown kind of notification' });
+    try {
+      saveTemplate(db, req.examiner!.id, kind, parseTemplate(kind, req.body));
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      return error.details.length
+        ? res.status(422).json({ error: error.message, details: error.details })
+        : res.status(400).json({ error: error.message });
+    }
+    res.json(getTemplates(db, req.examiner!.id).find(t => t.kind === kind));
+  });
+
+  // Goes back to the built-in template
+  router.delete('/templates/:kind', validate(api.resetTemplate), (req, res) => {
+    const kind = req.params.kind as NotificationKind;
+    if (!NOTIFICATION_KINDS.includes(kind)) return res.status(404).json({ error: 'Unknown kind of notification' });
+    resetTemplate(db, req.examiner!.id, kind);
+    res.json(getTemplates(db, req.examiner!.id).find(t => t.kind === kind));
+  });
+
+  return router;
+}
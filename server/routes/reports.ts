@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { getReportRecord } from '../reports.ts';
+
+// Open to anyone holding a printed report: the record code on its footer looks up what the server issued
+export function reportRoutes(db: DB) {
+  const router = Router();
+
+  router.get('/:code', validate(api.verifyReport), (req, res) => {
+    const record = getReportRecord(db, req.params.code);
+    if (!record) return res.status(404).json({ error: 'No report was issued with this record code' });
+    res.json(record);
+  });
+
+  return router;
+}
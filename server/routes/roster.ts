@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { requireExaminer } from '../auth.ts';
+import { importStudents, listStudents, parseRosterCsv, setAccommodations, RosterError } from '../roster.ts';
+import { parseAccommodations, AccommodationsError } from '../accommodations.ts';
+
+// Each examiner keeps their own student records; exams enrol students from here
+export function rosterRoutes(db: DB) {
+  const router = Router();
+  router.use(requireExaminer);
+
+  router.get('/', validate(api.listStudents), (req, res) => {
+    const studentClass = typeof req.query.class === 'string' && req.query.class.trim() ? req.query.class.trim() : undefined;
+    res.json(listStudents(db, req.examiner!.id, studentClass));
+  });
+
+  // Takes the CSV text as { csv }; students already on the roster are updated by their id
+  router.post('/', validate(api.importStudents), (req, res) => {
+    try {
+      res.status(201).json(importStudents(db, req.examiner!.id, parseRosterCsv(req.body?.csv)));
+    } catch (error) {
+      if (!(error instanceof RosterError)) throw error;
+      return error.details.length
+        ? res.status(422).json({ error: error.message, details: error.details })
+        : res.status(400).json({ error: error.message });
+    }
+  });
+
+  router.put('/:id/accommodations', validate(api.setAccommodations), (req, res) => {
+    let accommodations;
+    try {
+      accommodations = parseAccommodations(req.body?.accommodations);
+    } catch (error) {
+      if (error instanceof AccommodationsError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    const student = setAccommodations(db, req.examiner!.id, Number(req.params.id), accommodations);
+    if (!student) return res.status(404).json({ error: 'Student not found' });
+    res.json(student);
+  });
+
+  return router;
+}
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import type { DB } from '../db.ts';
+import { validate } from '../validation.ts';
+import { api } from '../../src/api/contract.ts';
+import { getExamRow } from '../exams.ts';
+import { getAttempt } from '../attempts.ts';
+import { submitAttempt, toSubmissionResponse } from '../submissions.ts';
+import type { Monitor } from '../monitor.ts';
+import { recordIntegrityEvents, IntegrityEventError } from '../integrity.ts';
+
+export function submissionRoutes(db: DB, monitor: Monitor) {
+  const router = Router();
+
+  router.post('/submit', validate(api.submit), (req, res) => {
+    const { attemptId, events = [] } = req.body;
+
+    const attempt = attemptId ? getAttempt(db, attemptId) : undefined;
+    if (!attempt) return res.status(404).json({ error: 'Attempt not found' });
+    if (attempt.submitted_at) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+    const submittedAt = Date.now();
+    const exam = getExamRow(db, attempt.exam_id);
+    if (!exam) return res.status(404).json({ error: 'Exam not found' });
+    // A closed exam still takes submissions, which are marked late once past the window; an archived one is finished
+    if (exam.status === 'archived') return res.status(409).json({ error: 'This exam has been archived' });
+
+    // Whatever the client had not yet delivered rides along with the submission, so termination is decided from the full log
+    try {
+      recordIntegrityEvents(db, attempt, exam, events, submittedAt);
+    } catch (error) {
+      if (error instanceof IntegrityEventError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    const outcome = submitAttempt(db, attempt, exam, { submittedAt });
+    const result = toSubmissionResponse(attempt, exam, outcome);
+    // Any other tab the student has open on this attempt moves to the result screen too
+    monitor.notifyStudent(attempt.id, 'submitted', result);
+    monitor.attemptChanged(attempt.id);
+    res.json(result);
+  });
+
+  return router;
+}
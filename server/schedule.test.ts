@@ -0,0 +1,114 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getLifecycle, parseSchedule, ScheduleError } from './schedule.ts';
+import { startTestServer, registerExaminer, startAttempt, type TestClient } from './testing.ts';
+import type { ExamRow } from './exams.ts';
+
+const HOUR = 60 * 60 * 1000;
+const iso = (offset: number) => new Date(Date.now() + offset).toISOString();
+
+const exam = {
+  id: 'SCHED1',
+  title: 'Scheduled Quiz',
+  durationMinutes: 30,
+  questions: [{ id: 'q1', text: 'Unit of force?', options: ['Joule', 'Newton'] }],
+  solutionKey: { q1: 1 },
+};
+
+test('parseSchedule checks the window and limits', () => {
+  assert.deepEqual(parseSchedule({}), { opensAt: null, closesAt: null, joinCutoffMinutes: null, maxAttempts: null });
+  assert.throws(() => parseSchedule({ opensAt: '2030-01-02T00:00:00Z', closesAt: '2030-01-01T00:00:00Z' }), /close after it opens/);
+  assert.throws(() => parseSchedule({ opensAt: 'soon' }), ScheduleError);
+  assert.throws(() => parseSchedule({ maxAttempts: 0 }), /Attempts per student/);
+  assert.throws(() => parseSchedule({ joinCutoffMinutes: 2.5 }), /late-join cutoff/);
+});
+
+test('published exams are scheduled, open or closed depending on the clock', () => {
+  const row = { status: 'published', opens_at: '2030-01-01T09:00:00.000Z', closes_at: '2030-01-01T10:00:00.000Z' } as ExamRow;
+  assert.equal(getLifecycle(row, Date.parse('2030-01-01T08:59:00Z')), 'scheduled');
+  assert.equal(getLifecycle(row, Date.parse('2030-01-01T09:30:00Z')), 'open');
+  assert.equal(getLifecycle(row, Date.parse('2030-01-01T10:00:00Z')), 'closed');
+  assert.equal(getLifecycle({ ...row, status: 'archived' }, 0), 'archived');
+  assert.equal(getLifecycle({ ...row, opens_at: null, closes_at: null }, 0), 'open');
+});
+
+let client: TestClient;
+let cookie: string;
+
+beforeEach(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+});
+
+afterEach(() => client.close());
+
+async function publish(overrides: Record<string, unknown> = {}) {
+  await client.request('/api/exams', { method: 'POST', cookie, body: { ...exam, ...overrides } });
+  assert.equal((await client.request(`/api/exams/${exam.id}/publish`, { method: 'POST', cookie })).status, 200);
+}
+
+const join = (studentName = 'Ada', studentClass = '12A') =>
+  client.request('/api/attempts', { method: 'POST', body: { examId: exam.id, studentName, studentClass } });
+
+test('students cannot find or start a scheduled exam until it opens', async () => {
+  await publish({ opensAt: iso(HOUR) });
+  const lookup = await client.request(`/api/exams/${exam.id}`);
+  assert.equal(lookup.status, 403);
+  assert.ok(lookup.body.opensAt);
+  assert.equal((await join()).status, 403);
+
+  const opened = await client.request(`/api/exams/${exam.id}/open`, { method: 'POST', cookie });
+  assert.equal(opened.body.lifecycle, 'open');
+  assert.equal((await client.request(`/api/exams/${exam.id}`)).status, 200);
+  assert.equal((await join()).status, 201);
+});
+
+test('the late-join cutoff counts from the opening time', async () => {
+  await publish({ opensAt: iso(-20 * 60 * 1000), joinCutoffMinutes: 15 });
+  const lookup = await client.request(`/api/exams/${exam.id}`);
+  assert.equal(lookup.status, 403);
+  assert.match(lookup.body.error, /too late/);
+});
+
+test('each student gets at most the allowed number of attempts', async () => {
+  await publish({ maxAttempts: 1 });
+  assert.equal((await join('Ada', '12A')).status, 201);
+  const again = await join('ada', '12a');
+  assert.equal(again.status, 409);
+  assert.match(again.body.error, /1 attempt/);
+  assert.equal((await join('Bob', '12A')).status, 201);
+});
+
+test('attempts end at the closing time, and closing early or extending moves them with it', async () => {
+  const closesAt = iso(10 * 60 * 1000);
+  await publish({ closesAt });
+  const attemptId = await startAttempt(client, exam.id);
+  const session = await client.request(`/api/attempts/${attemptId}`);
+  assert.equal(session.body.deadline, Date.parse(closesAt));
+
+  const closed = await client.request(`/api/exams/${exam.id}/close`, { method: 'POST', cookie });
+  assert.equal(closed.body.lifecycle, 'closed');
+  assert.ok((await client.request(`/api/attempts/${attemptId}`)).body.deadline <= Date.now());
+  assert.equal((await join('Bob')).status, 403);
+
+  const extended = await client.request(`/api/exams/${exam.id}/extend`, { method: 'POST', cookie, body: { closesAt: iso(HOUR) } });
+  assert.equal(extended.body.lifecycle, 'open');
+  const resumed = await client.request(`/api/attempts/${attemptId}`);
+  assert.equal(resumed.body.deadline, resumed.body.startedAt + exam.durationMinutes * 60 * 1000);
+
+  const backwards = await client.request(`/api/exams/${exam.id}/extend`, { method: 'POST', cookie, body: { closesAt: iso(30 * 60 * 1000) } });
+  assert.equal(backwards.status, 409);
+});
+
+test('only closed exams can be archived, after which students can no longer reach them', async () => {
+  await publish();
+  const attemptId = await startAttempt(client, exam.id);
+  assert.equal((await client.request(`/api/exams/${exam.id}/archive`, { method: 'POST', cookie })).status, 409);
+
+  await client.request(`/api/exams/${exam.id}/close`, { method: 'POST', cookie });
+  const archived = await client.request(`/api/exams/${exam.id}/archive`, { method: 'POST', cookie });
+  assert.equal(archived.body.lifecycle, 'archived');
+  assert.equal((await client.request(`/api/exams/${exam.id}`)).status, 404);
+  assert.equal((await client.request('/api/submit', { method: 'POST', body: { attemptId } })).status, 409);
+  assert.equal((await client.request(`/api/exams/${exam.id}/results`, { cookie })).status, 200);
+});
@@ -0,0 +1,133 @@
+import type { DB } from './db.ts';
+import type { ExamRow } from './exams.ts';
+import type { ExamLifecycle } from '../src/types.ts';
+
+export class ScheduleError extends Error {}
+export class ExamUnavailableError extends Error {}
+export class AttemptLimitError extends Error {}
+export class LifecycleError extends Error {}
+
+export interface Schedule {
+  opensAt: string | null;
+  closesAt: string | null;
+  joinCutoffMinutes: number | null;
+  maxAttempts: number | null;
+}
+
+const MAX_ATTEMPTS = 20;
+
+const toTime = (iso: string | null) => (iso === null ? null : Date.parse(iso));
+
+function parseTime(value: unknown, label: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) throw new ScheduleError(`${label} is not a valid time`);
+  return new Date(value).toISOString();
+}
+
+function parseLimit(value: unknown, message: string, max = Infinity): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > max) throw new ScheduleError(message);
+  return value as number;
+}
+
+// Every field is optional: no opening time means the exam opens when published, no closing time means it never closes
+export function parseSchedule(input: any): Schedule {
+  const opensAt = parseTime(input?.opensAt, 'The opening time');
+  const closesAt = parseTime(input?.closesAt, 'The closing time');
+  if (opensAt && closesAt && Date.parse(closesAt) <= Date.parse(opensAt)) {
+    throw new ScheduleError('The exam must close after it opens');
+  }
+  return {
+    opensAt,
+    closesAt,
+    joinCutoffMinutes: parseLimit(input?.joinCutoffMinutes, 'The late-join cutoff must be a whole number of minutes'),
+    maxAttempts: parseLimit(input?.maxAttempts, `Attempts per student must be between 1 and ${MAX_ATTEMPTS}`, MAX_ATTEMPTS),
+  };
+}
+
+// Only draft and archived are stored; the rest follow from the window and the clock
+export function getLifecycle(row: ExamRow, now = Date.now()): ExamLifecycle {
+  if (row.status === 'draft' || row.status === 'archived') return row.status;
+  const opensAt = toTime(row.opens_at);
+  const closesAt = toTime(row.closes_at);
+  if (opensAt !== null && now < opensAt) return 'scheduled';
+  if (closesAt !== null && now >= closesAt) return 'closed';
+  return 'open';
+}
+
+// Whether a student may look the exam up and start it right now
+export function checkJoinable(row: ExamRow, now = Date.now()) {
+  switch (getLifecycle(row, now)) {
+    case 'scheduled':
+      throw new ExamUnavailableError('This exam has not opened yet');
+    case 'closed':
+      throw new ExamUnavailableError('This exam has closed');
+    case 'open':
+      break;
+    default:
+      throw new ExamUnavailableError('This exam is not available');
+  }
+  const opensAt = toTime(row.opens_at);
+  if (row.join_cutoff_minutes !== null && opensAt !== null && now > opensAt + row.join_cutoff_minutes * 60 * 1000) {
+    throw new ExamUnavailableError('It is too late to join this exam');
+  }
+}
+
+// Counted per roster student when the exam has a roster, otherwise per name and class, the only identity a student gives
+export function checkAttemptLimit(db: DB, row: ExamRow, studentName: string, studentClass: string, studentId: number | null = null) {
+  if (row.max_attempts === null) return;
+  const { count } = (studentId !== null
+    ? db.prepare('SELECT COUNT(*) AS count FROM attempts WHERE exam_id = ? AND student_id = ?').get(row.id, studentId)
+    : db.prepare(`
+      SELECT COUNT(*) AS count FROM attempts WHERE exam_id = ? AND student_name = ? COLLATE NOCASE AND student_class = ? COLLATE NOCASE
+    `).get(row.id, studentName, studentClass)) as { count: number };
+  if (count >= row.max_attempts) {
+    throw new AttemptLimitError(`You have used all ${row.max_attempts} attempt(s) allowed for this exam`);
+  }
+}
+
+// An attempt ends at its own time limit or when the exam closes, whichever comes first
+export function attemptDeadline(row: ExamRow, startedAt: number) {
+  const closesAt = toTime(row.closes_at);
+  const limit = startedAt + row.duration_minutes * 60 * 1000;
+  return closesAt === null ? limit : Math.min(limit, closesAt);
+}
+
+// Attempts still in progress follow the new window, so a change here reaches students on their next autosave
+function setClosingTime(db: DB, row: ExamRow, closesAt: string | null) {
+  db.transaction(() => {
+    db.prepare('UPDATE exams SET closes_at = ? WHERE id = ?').run(closesAt, row.id);
+    const updated = { ...row, closes_at: closesAt };
+    const attempts = db.prepare('SELECT id, started_at, extended_ms FROM attempts WHERE exam_id = ? AND submitted_at IS NULL')
+      .all(row.id) as { id: string; started_at: number; extended_ms: number }[];
+    const setDeadline = db.prepare('UPDATE attempts SET deadline = ? WHERE id = ?');
+    for (const attempt of attempts) setDeadline.run(attemptDeadline(updated, attempt.started_at) + attempt.extended_ms, attempt.id);
+  })();
+}
+
+export function openEarly(db: DB, row: ExamRow, now = Date.now()) {
+  if (getLifecycle(row, now) !== 'scheduled') throw new LifecycleError('Only a scheduled exam can be opened early');
+  db.prepare('UPDATE exams SET opens_at = ? WHERE id = ?').run(new Date(now).toISOString(), row.id);
+}
+
+export function closeEarly(db: DB, row: ExamRow, now = Date.now()) {
+  if (getLifecycle(row, now) !== 'open') throw new LifecycleError('Only an open exam can be closed');
+  setClosingTime(db, row, new Date(now).toISOString());
+}
+
+// Extending a closed exam reopens it
+export function extendExam(db: DB, row: ExamRow, closesAt: unknown, now = Date.now()) {
+  const lifecycle = getLifecycle(row, now);
+  if (lifecycle !== 'open' && lifecycle !== 'closed') throw new LifecycleError('Only an open or closed exam can be extended');
+  const until = parseTime(closesAt, 'The new closing time');
+  if (until === null || Date.parse(until) <= now) throw new LifecycleError('The new closing time must be in the future');
+  if (row.closes_at !== null && Date.parse(until) <= Date.parse(row.closes_at)) {
+    throw new LifecycleError('The new closing time must be later than the current one');
+  }
+  setClosingTime(db, row, until);
+}
+
+export function archiveExam(db: DB, row: ExamRow, now = Date.now()) {
+  if (getLifecycle(row, now) !== 'closed') throw new LifecycleError('Close the exam before archiving it');
+  db.prepare("UPDATE exams SET status = 'archived' WHERE id = ?").run(row.id);
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gradeResponses, parseScoringRules, ScoringRulesError } from './scoring.ts';
+import { DEFAULT_SCORING_RULES } from '../src/lib/scoring.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers } from './testing.ts';
+
+const questions = [
+  { id: 'q1', text: 'One', options: ['A', 'B', 'C'], marks: 4 },
+  { id: 'q2', text: 'Two', options: ['A', 'B'], marks: 2, negativeMarking: 0.5 },
+  { id: 'q3', text: 'Three', options: ['A', 'B'] },
+];
+const solutionKey = { q1: 0, q2: 1, q3: 0 };
+const rules = {
+  negativeMarking: 0.25,
+  unanswered: 'zero' as const,
+  passPercentage: 50,
+  gradeBands: [{ grade: 'A', minPercentage: 80 }, { grade: 'B', minPercentage: 60 }],
+};
+
+test('weighted marks, partial credit and per-question negative marking', () => {
+  const grading = gradeResponses(questions, solutionKey, { q1: { 2: 0.5 } }, rules, { q1: 2, q2: 0, q3: 0 });
+  assert.deepEqual(grading.questionScores, { q1: 2, q2: -1, q3: 1 });
+  assert.equal(grading.score, 2);
+  assert.equal(grading.totalMarks, 7);
+  assert.equal(grading.percentage, 29);
+  assert.equal(grading.resultStatus, 'FAIL');
+  assert.equal(grading.grade, null);
+});
+
+test('unanswered questions are only penalized when the rules say so', () => {
+  const answers = { q1: 0, q2: 1 };
+  assert.equal(gradeResponses(questions, solutionKey, {}, rules, answers).score, 6);
+  const penalized = gradeResponses(questions, solutionKey, {}, { ...rules, unanswered: 'penalize' }, answers);
+  assert.equal(penalized.questionScores.q3, -0.25);
+  assert.equal(penalized.score, 5.75);
+  assert.equal(penalized.grade, 'A');
+});
+
+test('penalties never take a total below zero', () => {
+  assert.equal(gradeResponses(questions, solutionKey, {}, rules, { q1: 1, q2: 0, q3: 1 }).score, 0);
+});
+
+test('scoring rules are validated and grade bands sorted', () => {
+  assert.deepEqual(parseScoringRules(undefined), DEFAULT_SCORING_RULES);
+  const parsed = parseScoringRules({ ...rules, gradeBands: [{ grade: 'B', minPercentage: 60 }, { grade: ' A ', minPercentage: 80 }] });
+  assert.deepEqual(parsed.gradeBands.map(b => b.grade), ['A', 'B']);
+  assert.throws(() => parseScoringRules({ ...rules, negativeMarking: 2 }), ScoringRulesError);
+  assert.throws(() => parseScoringRules({ ...rules, gradeBands: [{ grade: 'A', minPercentage: 80 }, { grade: 'A', minPercentage: 70 }] }), ScoringRulesError);
+});
+
+test('submissions are graded with the exam\'s stored rules', async () => {
+  const client = await startTestServer();
+  try {
+    const cookie = await registerExaminer(client);
+    const exam = { id: 'SCOR01', title: 'Weighted', durationMinutes: 5, questions, solutionKey, scoring: rules, partialCredit: { q1: { 2: 0.5 } } };
+    assert.equal((await client.request('/api/exams', { method: 'POST', cookie, body: exam })).status, 200);
+    assert.equal((await client.request('/api/exams/SCOR01/publish', { method: 'POST', cookie })).status, 200);
+
+    const published = await client.request('/api/exams/SCOR01');
+    assert.deepEqual(published.body.scoring, rules);
+    assert.equal(published.body.partialCredit, undefined);
+
+    const attemptId = await startAttempt(client, 'SCOR01');
+    await saveAnswers(client, attemptId, { q1: 2, q2: 1, q3: 0 });
+    const res = await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+    assert.deepEqual([res.body.score, res.body.totalMarks, res.body.resultStatus, res.body.grade], [5, 7, 'PASS', 'B']);
+
+    const [result] = (await client.request('/api/exams/SCOR01/results', { cookie })).body;
+    assert.deepEqual([result.percentage, result.grade], [71, 'B']);
+  } finally {
+    await client.close();
+  }
+});
+
+test('publishing rejects invalid per-question scoring', async () => {
+  const client = await startTestServer();
+  try {
+    const cookie = await registerExaminer(client);
+    const exam = { id: 'SCOR02', title: 'Broken', durationMinutes: 5, questions: [{ ...questions[0], marks: 0 }], solutionKey, partialCredit: { q1: { 0: 0.5 } } };
+    await client.request('/api/exams', { method: 'POST', cookie, body: exam });
+    const res = await client.request('/api/exams/SCOR02/publish', { method: 'POST', cookie });
+    assert.equal(res.status, 422);
+    assert.deepEqual(res.body.details, ['Question 1 must be worth more than 0 marks', 'Question 1 gives partial credit to the correct answer']);
+  } finally {
+    await client.close();
+  }
+});
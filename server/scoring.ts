@@ -0,0 +1,116 @@
+import type { GradeBand, PartialCredit, Question, Responses, ResultStatus, ScoringRules, SolutionKey } from '../src/types.ts';
+import { DEFAULT_SCORING_RULES } from '../src/lib/scoring.ts';
+import { isAnswerCorrect, isSingleAnswerQuestion } from '../src/lib/questions.ts';
+
+export class ScoringRulesError extends Error {}
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+const isPercentage = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 100;
+
+export function parseScoringRules(input: any): ScoringRules {
+  if (input === undefined || input === null) return DEFAULT_SCORING_RULES;
+
+  const { negativeMarking, unanswered, passPercentage, gradeBands = [] } = input;
+  if (!isFraction(negativeMarking)) throw new ScoringRulesError('Negative marking must be a fraction between 0 and 1');
+  if (unanswered !== 'zero' && unanswered !== 'penalize') throw new ScoringRulesError('Unknown unanswered question rule');
+  if (!isPercentage(passPercentage)) throw new ScoringRulesError('Pass percentage must be between 0 and 100');
+  if (!Array.isArray(gradeBands)) throw new ScoringRulesError('Grade bands must be a list');
+
+  const bands: GradeBand[] = gradeBands.map((band: any) => {
+    if (typeof band?.grade !== 'string' || !band.grade.trim()) throw new ScoringRulesError('Every grade band needs a name');
+    if (!isPercentage(band.minPercentage)) throw new ScoringRulesError(`Grade ${band.grade} needs a minimum percentage between 0 and 100`);
+    return { grade: band.grade.trim(), minPercentage: band.minPercentage };
+  });
+  if (new Set(bands.map(b => b.grade)).size !== bands.length) throw new ScoringRulesError('Grade names must be unique');
+  bands.sort((a, b) => b.minPercentage - a.minPercentage);
+
+  return { negativeMarking, unanswered, passPercentage, gradeBands: bands };
+}
+
+export const questionMarks = (q: Question) => q.marks ?? 1;
+
+// Per-question settings live on the questions themselves, so they are checked with the rest of the exam at publish time
+export function validateQuestionScoring(questions: Question[], partialCredit: PartialCredit, solutionKey: SolutionKey): string[] {
+  const errors: string[] = [];
+  questions.forEach((q, i) => {
+    const label = `Question ${i + 1}`;
+    if (q.marks !== undefined && !(typeof q.marks === 'number' && q.marks > 0)) errors.push(`${label} must be worth more than 0 marks`);
+    if (q.negativeMarking !== undefined && !isFraction(q.negativeMarking)) errors.push(`${label} has a negative marking fraction outside 0 to 1`);
+    const credits = Object.entries(partialCredit[q.id] ?? {});
+    if (credits.length && !isSingleAnswerQuestion(q)) {
+      errors.push(`${label} only supports partial credit on single-answer questions`);
+      return;
+    }
+    for (const [option, fraction] of credits) {
+      const optionIdx = Number(option);
+      if (!Number.isInteger(optionIdx) || optionIdx < 0 || !('options' in q) || optionIdx >= q.options.length) errors.push(`${label} gives partial credit to a missing option`);
+      else if (optionIdx === solutionKey[q.id]) errors.push(`${label} gives partial credit to the correct answer`);
+      else if (!isFraction(fraction)) errors.push(`${label} has partial credit outside 0 to 1`);
+    }
+  });
+  return errors;
+}
+
+const roundMarks = (value: number) => Math.round(value * 100) / 100;
+
+export function getPercentage(score: number, totalMarks: number) {
+  return totalMarks > 0 ? Math.round((score / totalMarks) * 100) : 0;
+}
+
+export function getGrade(percentage: number, rules: ScoringRules): { resultStatus: ResultStatus; grade: string | null } {
+  return {
+    resultStatus: percentage >= rules.passPercentage ? 'PASS' : 'FAIL',
+    grade: rules.gradeBands.find(band => percentage >= band.minPercentage)?.grade ?? null,
+  };
+}
+
+export interface Grading {
+  score: number;
+  totalMarks: number;
+  percentage: number;
+  resultStatus: ResultStatus;
+  grade: string | null;
+  questionScores: { [questionId: string]: number };
+  pending: string[]; // answered questions still waiting for an examiner's mark, counted as 0 meanwhile
+}
+
+// Marks an examiner gave by hand, keyed by question id
+export interface ManualMarks {
+  [questionId: string]: number;
+}
+
+export function gradeResponses(
+  questions: Question[],
+  solutionKey: SolutionKey,
+  partialCredit: PartialCredit,
+  rules: ScoringRules,
+  responses: Responses,
+  manualMarks: ManualMarks = {},
+): Grading {
+  const questionScores: Grading['questionScores'] = {};
+  const pending: string[] = [];
+  for (const q of questions) {
+    const marks = questionMarks(q);
+    // Written as a subtraction so an exam without penalties scores 0 rather than -0
+    const wrongMarks = 0 - (q.negativeMarking ?? rules.negativeMarking) * marks;
+    const answer = responses[q.id];
+    const correct = answer === undefined ? false : isAnswerCorrect(q, solutionKey[q.id], answer);
+    if (answer === undefined) {
+      questionScores[q.id] = rules.unanswered === 'penalize' ? wrongMarks : 0;
+    } else if (correct === null) {
+      if (manualMarks[q.id] === undefined) pending.push(q.id);
+      questionScores[q.id] = manualMarks[q.id] ?? 0;
+    } else if (correct) {
+      questionScores[q.id] = marks;
+    } else {
+      const credit = typeof answer === 'number' && isSingleAnswerQuestion(q) ? partialCredit[q.id]?.[answer] : undefined;
+      questionScores[q.id] = credit ? roundMarks(credit * marks) : wrongMarks;
+    }
+  }
+
+  const totalMarks = roundMarks(questions.reduce((sum, q) => sum + questionMarks(q), 0));
+  // Penalties can cancel out marks but never push a student below zero overall
+  const score = Math.max(0, roundMarks(Object.values(questionScores).reduce((sum, v) => sum + v, 0)));
+  const percentage = getPercentage(score, totalMarks);
+  return { score, totalMarks, percentage, ...getGrade(percentage, rules), questionScores, pending };
+}
@@ -0,0 +1,103 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAttemptLayout, parseShufflePolicy, toCanonicalAnswer, toDisplayedQuestions, ShufflePolicyError } from './shuffle.ts';
+import { startTestServer, registerExaminer, startAttempt, saveAnswers, type TestClient } from './testing.ts';
+import type { ChoiceQuestion, Question } from '../src/types.ts';
+
+const questions: Question[] = [
+  { id: 'q1', text: 'Symbol for gold?', options: ['Ag', 'Au', 'Gd', 'Go'] },
+  { id: 'q2', type: 'multiple_choice', text: 'Noble gases?', options: ['Neon', 'Oxygen', 'Argon', 'Carbon'] },
+  { id: 'q3', type: 'true_false', text: 'Water is wet.', options: ['True', 'False'] },
+  { id: 'q4', type: 'numeric', text: 'Atomic number of carbon?' },
+];
+const solutionKey = { q1: 1, q2: [0, 2], q3: 0, q4: { value: 6, tolerance: 0 } };
+const BOTH = { questions: true, options: true };
+
+test('a seed always produces the same layout, and true/false options never move', () => {
+  const layout = getAttemptLayout(1234, questions, BOTH);
+  assert.deepEqual(getAttemptLayout(1234, questions, BOTH), layout);
+  assert.deepEqual([...layout.questionOrder].sort(), ['q1', 'q2', 'q3', 'q4']);
+  assert.deepEqual(Object.keys(layout.optionOrders).sort(), ['q1', 'q2']);
+  assert.deepEqual([...layout.optionOrders.q1].sort(), [0, 1, 2, 3]);
+
+  assert.deepEqual(getAttemptLayout(null, questions, BOTH), { questionOrder: ['q1', 'q2', 'q3', 'q4'], optionOrders: {} });
+  assert.deepEqual(getAttemptLayout(1234, questions, { questions: false, options: false }).questionOrder, ['q1', 'q2', 'q3', 'q4']);
+
+  const shown = toDisplayedQuestions(layout, questions).find(q => q.id === 'q1') as ChoiceQuestion;
+  const goldAt = shown.options.indexOf('Au');
+  assert.equal(toCanonicalAnswer(layout, 'q1', goldAt), 1);
+});
+
+test('every order of three options is about equally likely across seeds', () => {
+  const three: Question[] = [{ id: 'q', text: 'Pick', options: ['A', 'B', 'C'] }];
+  const counts = new Map<string, number>();
+  for (let seed = 1; seed <= 6000; seed++) {
+    const order = getAttemptLayout(seed, three, BOTH).optionOrders.q.join('');
+    counts.set(order, (counts.get(order) ?? 0) + 1);
+  }
+  assert.equal(counts.size, 6);
+  for (const count of counts.values()) assert.ok(count > 850 && count < 1150, `uneven shuffle: ${[...counts]}`);
+});
+
+test('parseShufflePolicy defaults to the authored order and rejects non-boolean settings', () => {
+  assert.deepEqual(parseShufflePolicy(undefined), { questions: false, options: false });
+  assert.throws(() => parseShufflePolicy({ questions: 'yes', options: true }), ShufflePolicyError);
+});
+
+let client: TestClient;
+let cookie: string;
+
+before(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+  await client.request('/api/exams', { method: 'POST', cookie, body: { id: 'SHUF01', title: 'Shuffled', durationMinutes: 10, questions, solutionKey, shuffle: BOTH } });
+  await client.request('/api/exams/SHUF01/publish', { method: 'POST', cookie });
+});
+
+after(() => client.close());
+
+test('students answer in their own option order and are graded on the canonical key', async () => {
+  const attemptId = await startAttempt(client, 'SHUF01');
+  const session = (await client.request(`/api/attempts/${attemptId}`)).body;
+  const shown = new Map<string, ChoiceQuestion>(session.exam.questions.map((q: ChoiceQuestion) => [q.id, q]));
+  assert.deepEqual(shown.get('q3')!.options, ['True', 'False']);
+
+  const answers = {
+    q1: shown.get('q1')!.options.indexOf('Au'),
+    q2: [shown.get('q2')!.options.indexOf('Argon'), shown.get('q2')!.options.indexOf('Neon')],
+    q3: 0,
+    q4: 6,
+  };
+  assert.equal((await saveAnswers(client, attemptId, answers)).status, 200);
+  const resumed = (await client.request(`/api/attempts/${attemptId}`)).body;
+  assert.deepEqual(resumed.exam.questions, session.exam.questions);
+  assert.deepEqual(resumed.responses.q1, answers.q1);
+
+  const submitted = await client.request('/api/submit', { method: 'POST', body: { attemptId } });
+  assert.equal(submitted.body.score, 4);
+
+  const [result] = (await client.request('/api/exams/SHUF01/results', { cookie })).body;
+  const detail = await client.request(`/api/exams/SHUF01/results/${result.id}`, { cookie });
+  const q1 = detail.body.responses.find((r: any) => r.questionId === 'q1');
+  assert.deepEqual([q1.answer, q1.answerText], [1, 'Au']);
+
+  const released = await client.request(`/api/exams/SHUF01/answers?attemptId=${attemptId}`, { cookie });
+  assert.equal(released.body.solutionKey.q1, answers.q1);
+});
+
+test('the exam lookup withholds a shuffled paper until the student has an attempt', async () => {
+  const exam = await client.request('/api/exams/SHUF01');
+  assert.equal(exam.status, 200);
+  assert.deepEqual(exam.body.questions, []);
+  assert.equal(exam.body.questionCount, questions.length);
+});
+
+test('attempts get different orders', async () => {
+  const orders = new Set<string>();
+  for (let i = 0; i < 5; i++) {
+    const attemptId = await startAttempt(client, 'SHUF01', `Student ${i}`);
+    const session = (await client.request(`/api/attempts/${attemptId}`)).body;
+    orders.add(JSON.stringify(session.exam.questions));
+  }
+  assert.ok(orders.size > 1);
+});
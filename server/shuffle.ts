@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { isChoiceQuestion, questionType } from '../src/lib/questions.ts';
+import type { Answer, ChoiceQuestion, Question, Responses, ShufflePolicy, SolutionKey } from '../src/types.ts';
+
+export class ShufflePolicyError extends Error {}
+
+// Exams saved without a policy, including every exam from before per-attempt shuffling, keep the authored order
+export const NO_SHUFFLE: ShufflePolicy = { questions: false, options: false };
+
+export function parseShufflePolicy(input: any): ShufflePolicy {
+  if (input === undefined || input === null) return NO_SHUFFLE;
+  const { questions, options } = input;
+  if (typeof questions !== 'boolean' || typeof options !== 'boolean') {
+    throw new ShufflePolicyError('Shuffle settings must be on or off');
+  }
+  return { questions, options };
+}
+
+export const newSeed = () => crypto.randomInt(2 ** 32);
+
+// mulberry32: small, fast and plenty for ordering; the seed is what makes an attempt's order reproducible
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+// Fisher-Yates, so every order is equally likely
+function shuffled<T>(items: T[], random: () => number) {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// What one student sees. optionOrders[id][shown] is the canonical index of the option shown at that position.
+export interface AttemptLayout {
+  questionOrder: string[];
+  optionOrders: Record<string, number[]>;
+}
+
+// True/false keeps its fixed order and typed-answer questions have no options to move
+const hasShuffledOptions = (q: Question): q is ChoiceQuestion => isChoiceQuestion(q) && questionType(q) !== 'true_false';
+
+export function getAttemptLayout(seed: number | null, questions: Question[], policy: ShufflePolicy): AttemptLayout {
+  const random = seededRandom(seed ?? 0);
+  const ids = questions.map(q => q.id);
+  const questionOrder = seed !== null && policy.questions ? shuffled(ids, random) : ids;
+  const optionOrders: Record<string, number[]> = {};
+  if (seed !== null && policy.options) {
+    for (const q of questions) {
+      if (hasShuffledOptions(q)) optionOrders[q.id] = shuffled(q.options.map((_, i) => i), random);
+    }
+  }
+  return { questionOrder, optionOrders };
+}
+
+export function toDisplayedQuestions({ questionOrder, optionOrders }: AttemptLayout, questions: Question[]): Question[] {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  return questionOrder.map(id => {
+    const q = byId.get(id)!;
+    const order = optionOrders[id];
+    return order && isChoiceQuestion(q) ? { ...q, options: order.map(i => q.options[i]) } : q;
+  });
+}
+
+function mapOptions(answer: Answer, map: (option: number) => number): Answer {
+  if (Array.isArray(answer)) return answer.map(map).sort((a, b) => a - b);
+  return typeof answer === 'number' ? map(answer) : answer;
+}
+
+// Only choice answers move; numeric and typed answers pass through untouched
+export function toCanonicalAnswer(layout: AttemptLayout, questionId: string, answer: Answer): Answer {
+  const order = layout.optionOrders[questionId];
+  return order ? mapOptions(answer, shown => order[shown]) : answer;
+}
+
+export function toDisplayedAnswer(layout: AttemptLayout, questionId: string, answer: Answer): Answer {
+  const order = layout.optionOrders[questionId];
+  return order ? mapOptions(answer, canonical => order.indexOf(canonical)) : answer;
+}
+
+export function toDisplayedResponses(layout: AttemptLayout, responses: Responses): Responses {
+  return Object.fromEntries(Object.entries(responses).map(([id, answer]) => [id, toDisplayedAnswer(layout, id, answer)]));
+}
+
+export function toDisplayedKey(layout: AttemptLayout, solutionKey: SolutionKey): SolutionKey {
+  return Object.fromEntries(Object.entries(solutionKey).map(([id, key]) => [
+    id, typeof key === 'number' || Array.isArray(key) ? toDisplayedAnswer(layout, id, key) as number | number[] : key,
+  ]));
+}
@@ -0,0 +1,69 @@
+import type { DB } from './db.ts';
+import { getScoringRules, isAnswerKeyReleased, scoredQuestions, type ExamRow, type Paper } from './exams.ts';
+import { getAttemptPaper, getAttemptResponses, getLayout, isLate, type AttemptRow } from './attempts.ts';
+import { toDisplayedKey } from './shuffle.ts';
+import { endBreak } from './accommodations.ts';
+import { gradeResponses } from './scoring.ts';
+import { getIntegrityReport } from './integrity.ts';
+import { notifySubmission } from './notifications.ts';
+import type { ResultStatus } from '../src/types.ts';
+
+export interface SubmissionOutcome {
+  paper: Paper;
+  score: number;
+  totalMarks: number;
+  resultStatus: ResultStatus;
+  grade: string | null;
+  pendingReview: number;
+  late: boolean;
+  terminated: boolean;
+}
+
+// Grades and records an attempt, then queues the result emails. Used by the student's own submission and by an
+// examiner force-submitting from the live monitor (`forced`), so both produce the same result row and report.
+export function submitAttempt(
+  db: DB, attempt: AttemptRow, exam: ExamRow, { submittedAt = Date.now(), forced = false } = {},
+): SubmissionOutcome {
+  // A student who submits from a break is credited the break like any other
+  if (attempt.break_started_at !== null) attempt = endBreak(db, attempt, submittedAt);
+  const late = isLate(attempt, submittedAt);
+  const { exam_id: examId, student_name: studentName, student_class: studentClass } = attempt;
+  const { terminated } = getIntegrityReport(db, attempt, exam);
+
+  // Grade what the server has autosaved, never a client-supplied answer sheet. Those answers are already mapped from
+  // the student's shuffled option positions to canonical indexes, so grading reads them as they are.
+  const responses = getAttemptResponses(db, attempt.id);
+
+  const paper = getAttemptPaper(attempt, exam);
+  const { solutionKey, partialCredit } = paper;
+
+  const { score, totalMarks, resultStatus, grade, pending } = gradeResponses(
+    scoredQuestions(paper), solutionKey, partialCredit, getScoringRules(exam), responses,
+  );
+
+  const resultStmt = db.prepare(`
+    INSERT INTO results (exam_id, student_name, student_class, score, total_marks, terminated, attempt_id, late, result_status, grade, pending_review, student_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const responseStmt = db.prepare('INSERT INTO result_responses (result_id, question_id, answer) VALUES (?, ?, ?)');
+  db.transaction(() => {
+    const { lastInsertRowid } = resultStmt.run(
+      examId, studentName, studentClass, score, totalMarks, terminated ? 1 : 0, attempt.id, late ? 1 : 0, resultStatus, grade, pending.length, attempt.student_id,
+    );
+    for (const [questionId, answer] of Object.entries(responses)) responseStmt.run(lastInsertRowid, questionId, JSON.stringify(answer));
+    db.prepare('UPDATE attempts SET submitted_at = ? WHERE id = ?').run(submittedAt, attempt.id);
+    notifySubmission(db, exam, attempt, Number(lastInsertRowid), { submittedAt, forced });
+  })();
+
+  return { paper, score, totalMarks, resultStatus, grade, pendingReview: pending.length, late, terminated };
+}
+
+// What the student's result screen gets. The answer key only goes back to the student when the examiner's release
+// policy allows it, numbered the way their own paper showed the options.
+export function toSubmissionResponse(attempt: AttemptRow, exam: ExamRow, outcome: SubmissionOutcome) {
+  const { paper, ...result } = outcome;
+  const answers = isAnswerKeyReleased(exam, true)
+    ? { solutionKey: toDisplayedKey(getLayout(attempt, exam, paper), paper.solutionKey) }
+    : { answersAvailableAt: exam.answer_release === 'after_close' ? exam.closes_at : null };
+  return { ...result, success: true, ...answers };
+}
@@ -0,0 +1,243 @@
+import type { DB } from './db.ts';
+import type { NotificationKind, NotificationTemplate } from '../src/types.ts';
+
+export class TemplateError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+  }
+}
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['result', 'student_result', 'digest', 'key_revision'];
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 20000;
+
+// Plain values are escaped wherever they land in HTML. Blocks are lists (answers, results, score changes) that come
+// ready-made in both formats, so the HTML version goes in as it is.
+export interface TemplateValues {
+  [name: string]: string | number;
+}
+
+export interface TemplateBlocks {
+  [name: string]: { text: string; html: string };
+}
+
+interface TemplateContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Everything each kind of message can mention, as {{name}}
+export const TEMPLATE_VARIABLES: Record<NotificationKind, string[]> = {
+  result: [
+    'examTitle', 'studentName', 'studentClass', 'score', 'totalMarks', 'percentage', 'resultStatus', 'grade', 'pendingReview',
+    'status', 'timing', 'violations', 'suspicionScore', 'suspicionLevel', 'integrityTimeline', 'responses',
+  ],
+  student_result: ['examTitle', 'studentName', 'studentClass', 'score', 'totalMarks', 'percentage', 'resultStatus', 'grade', 'pendingReview'],
+  digest: ['examTitle', 'closedAt', 'resultCount', 'passCount', 'averagePercentage', 'results'],
+  key_revision: ['examTitle', 'questionText', 'before', 'after', 'reason', 'regradedCount', 'changedCount', 'changes'],
+};
+
+const htmlPage = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<body style="font-family: Inter, Arial, sans-serif; color: #18181b; max-width: 640px; margin: 0 auto; padding: 24px;">
+<h2 style="margin: 0 0 4px;">${title}</h2>
+${body}
+<p style="color: #a1a1aa; font-size: 12px; margin-top: 32px;">Generated by Secure Exam System</p>
+</body>
+</html>
+`;
+
+export const DEFAULT_TEMPLATES: Record<NotificationKind, TemplateContent> = {
+  result: {
+    subject: 'Exam Result: {{studentName}} - {{examTitle}} [{{resultStatus}}]',
+    text: `
+SECURE EXAM SYSTEM - RESULT REPORT
+==================================
+
+STUDENT INFORMATION
+-------------------
+Name: {{studentName}}
+Class: {{studentClass}}
+Exam: {{examTitle}}
+
+PERFORMANCE SUMMARY
+-------------------
+Score: {{score}} / {{totalMarks}}
+Percentage: {{percentage}}%
+Result Status: {{resultStatus}}
+Grade: {{grade}}
+Awaiting Marking: {{pendingReview}} answer(s)
+Status: {{status}}
+Timing: {{timing}}
+
+INTEGRITY
+---------
+Violations: {{violations}}
+Suspicion Score: {{suspicionScore}}/100 ({{suspicionLevel}})
+{{integrityTimeline}}
+
+DETAILED RESPONSES
+------------------
+{{responses}}
+
+==================================
+Generated by Secure Exam System
+`,
+    html: htmlPage('{{examTitle}}: {{studentName}}', `<p style="color: #71717a;">{{studentClass}}</p>
+<p style="font-size: 28px; font-weight: bold; margin: 16px 0 4px;">{{score}} / {{totalMarks}} ({{percentage}}%)</p>
+<p>{{resultStatus}} &middot; Grade {{grade}} &middot; {{pendingReview}} answer(s) awaiting marking</p>
+<p>{{status}} &middot; {{timing}}</p>
+<h3>Integrity</h3>
+<p>{{violations}} violation(s) &middot; suspicion {{suspicionScore}}/100 ({{suspicionLevel}})</p>
+{{integrityTimeline}}
+<h3>Responses</h3>
+{{responses}}`),
+  },
+  student_result: {
+    subject: 'Your result for {{examTitle}}',
+    text: `Hello {{studentName}},
+
+Your exam "{{examTitle}}" has been submitted.
+
+Score: {{score}} / {{totalMarks}} ({{percentage}}%)
+Result: {{resultStatus}}
+Grade: {{grade}}
+Answers awaiting marking: {{pendingReview}}
+
+If any answers are still awaiting marking, your score may go up once your examiner has marked them.
+`,
+    html: htmlPage('Your result for {{examTitle}}', `<p>Hello {{studentName}}, your exam has been submitted.</p>
+<p style="font-size: 28px; font-weight: bold; margin: 16px 0 4px;">{{score}} / {{totalMarks}} ({{percentage}}%)</p>
+<p>{{resultStatus}} &middot; Grade {{grade}}</p>
+<p style="color: #71717a;">Answers awaiting marking: {{pendingReview}}. If any are still waiting, your score may go up once your examiner has marked them.</p>`),
+  },
+  digest: {
+    subject: 'Exam Closed: {{examTitle}} [{{resultCount}} result(s)]',
+    text: `
+SECURE EXAM SYSTEM - RESULTS DIGEST
+===================================
+
+Exam: {{examTitle}}
+Closed: {{closedAt}}
+Results: {{resultCount}} ({{passCount}} passed)
+Average: {{averagePercentage}}%
+
+RESULTS
+-------
+{{results}}
+
+===================================
+Generated by Secure Exam System
+`,
+    html: htmlPage('{{examTitle}} has closed', `<p style="color: #71717a;">Closed {{closedAt}}</p>
+<p>{{resultCount}} result(s) &middot; {{passCount}} passed &middot; average {{averagePercentage}}%</p>
+{{results}}`),
+  },
+  key_revision: {
+    subject: 'Answer Key Revised: {{examTitle}} [{{changedCount}} result(s) changed]',
+    text: `
+SECURE EXAM SYSTEM - ANSWER KEY REVISION
+========================================
+
+Exam: {{examTitle}}
+Question: {{questionText}}
+Before: {{before}}
+After: {{after}}
+Reason: {{reason}}
+
+REGRADE
+-------
+Results regraded: {{regradedCount}}
+Results changed: {{changedCount}}
+{{changes}}
+
+========================================
+Generated by Secure Exam System
+`,
+    html: htmlPage('Answer key revised: {{examTitle}}', `<p><strong>{{questionText}}</strong></p>
+<p>{{before}} &rarr; {{after}}</p>
+<p style="color: #71717a;">{{reason}}</p>
+<p>{{regradedCount}} result(s) regraded &middot; {{changedCount}} changed</p>
+{{changes}}`),
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Builds a plain HTML table for a block; every cell is escaped
+export function htmlTable(headings: string[], rows: (string | number)[][]) {
+  const cell = (tag: string, value: string | number) => `<${tag} style="text-align: left; padding: 4px 8px; border-bottom: 1px solid #e4e4e7;">${escapeHtml(String(value))}</${tag}>`;
+  return `<table style="border-collapse: collapse; width: 100%; font-size: 14px;">
+<tr>${headings.map(h => cell('th', h)).join('')}</tr>
+${rows.map(row => `<tr>${row.map(v => cell('td', v)).join('')}</tr>`).join('\n')}
+</table>`;
+}
+
+function fill(template: string, values: TemplateValues, blocks: TemplateBlocks, format: 'text' | 'html') {
+  return template.replace(PLACEHOLDER, (_match, name: string) => {
+    if (blocks[name]) return blocks[name][format];
+    const value = values[name] === undefined ? '' : String(values[name]);
+    return format === 'html' ? escapeHtml(value) : value;
+  });
+}
+
+export function renderTemplate(template: TemplateContent, values: TemplateValues, blocks: TemplateBlocks = {}): TemplateContent {
+  return {
+    subject: fill(template.subject, values, {}, 'text').replace(/\s+/g, ' ').trim(),
+    text: fill(template.text, values, blocks, 'text'),
+    html: fill(template.html, values, blocks, 'html'),
+  };
+}
+
+export function parseTemplate(kind: NotificationKind, input: any): TemplateContent {
+  const { subject, text, html } = input ?? {};
+  for (const [name, value] of Object.entries({ subject, text, html })) {
+    if (typeof value !== 'string' || !value.trim()) throw new TemplateError(`The template needs a ${name === 'html' ? 'HTML' : name} version`);
+  }
+  if (subject.length > MAX_SUBJECT_LENGTH) throw new TemplateError(`The subject can be at most ${MAX_SUBJECT_LENGTH} characters`);
+  if (text.length > MAX_BODY_LENGTH || html.length > MAX_BODY_LENGTH) throw new TemplateError(`Templates can be at most ${MAX_BODY_LENGTH} characters`);
+
+  const known = TEMPLATE_VARIABLES[kind];
+  const unknown = new Set([subject, text, html].flatMap(t => [...t.matchAll(PLACEHOLDER)].map(m => m[1])).filter(name => !known.includes(name)));
+  if (unknown.size) throw new TemplateError('The template mentions unknown placeholders', [...unknown].map(name => `{{${name}}} is not available in this message`));
+  return { subject, text, html };
+}
+
+interface TemplateRow {
+  kind: NotificationKind;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// The examiner's own version where they have saved one, the default otherwise
+export function getTemplate(db: DB, ownerId: number | null, kind: NotificationKind): TemplateContent {
+  const row = ownerId === null ? undefined
+    : db.prepare('SELECT * FROM notification_templates WHERE owner_id = ? AND kind = ?').get(ownerId, kind) as TemplateRow | undefined;
+  return row ? { subject: row.subject, text: row.text, html: row.html } : DEFAULT_TEMPLATES[kind];
+}
+
+export function getTemplates(db: DB, ownerId: number): NotificationTemplate[] {
+  const rows = db.prepare('SELECT * FROM notification_templates WHERE owner_id = ?').all(ownerId) as TemplateRow[];
+  return NOTIFICATION_KINDS.map(kind => {
+    const row = rows.find(r => r.kind === kind);
+    const { subject, text, html } = row ?? DEFAULT_TEMPLATES[kind];
+    return { kind, subject, text, html, variables: TEMPLATE_VARIABLES[kind], customized: !!row };
+  });
+}
+
+export function saveTemplate(db: DB, ownerId: number, kind: NotificationKind, content: TemplateContent, now = Date.now()) {
+  db.prepare(`
+    INSERT INTO notification_templates (owner_id, kind, subject, text, html, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (owner_id, kind) DO UPDATE SET subject = excluded.subject, text = excluded.text, html = excluded.html, updated_at = excluded.updated_at
+  `).run(ownerId, kind, content.subject, content.text, content.html, now);
+}
+
+export function resetTemplate(db: DB, ownerId: number, kind: NotificationKind) {
+  db.prepare('DELETE FROM notification_templates WHERE owner_id = ? AND kind = ?').run(ownerId, kind);
+}
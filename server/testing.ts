@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { openDatabase, type DB } from './db.ts';
+import { createApp, type AppOptions } from './app.ts';
+import type { OutgoingMail } from './mail.ts';
+import type { Answer } from '../src/types.ts';
+
+export interface TestClient {
+  db: DB;
+  baseUrl: string;
+  request: (path: string, init?: { method?: string; body?: unknown; cookie?: string; contentType?: string }) => Promise<{ status: number; body: any; cookie?: string; headers: Headers }>;
+  close: () => Promise<void>;
+}
+
+// Boots the API against a throwaway in-memory database on a random port, holding every response to the API contract
+export async function startTestServer(options: AppOptions = {}): Promise<TestClient> {
+  const db = openDatabase(':memory:');
+  const app = createApp(db, { checkResponses: true, ...options });
+  const server: Server = await new Promise(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    db,
+    baseUrl,
+    async request(path, { method = 'GET', body, cookie, contentType = 'application/json' } = {}) {
+      const isJson = contentType === 'application/json';
+      const res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': contentType }),
+          ...(cookie && { Cookie: cookie }),
+        },
+        body: body === undefined ? undefined : isJson ? JSON.stringify(body) : (body as BodyInit),
+      });
+      const text = await res.text();
+      const setCookie = res.headers.get('set-cookie');
+      const isJsonResponse = res.headers.get('content-type')?.includes('application/json');
+      return {
+        status: res.status,
+        body: text && isJsonResponse ? JSON.parse(text) : text || undefined,
+        cookie: setCookie ? setCookie.split(';')[0] : undefined,
+        headers: res.headers,
+      };
+    },
+    close: () => new Promise(resolve => server.close(() => { db.close(); resolve(); })),
+  };
+}
+
+export async function registerExaminer(client: TestClient, email = 'examiner@school.edu') {
+  const res = await client.request('/api/auth/register', {
+    method: 'POST',
+    body: { name: 'Test Examiner', email, password: 'correct-horse' },
+  });
+  return res.cookie!;
+}
+
+export async function startAttempt(client: TestClient, examId: string, studentName = 'Ada', studentClass = '12A') {
+  const res = await client.request('/api/attempts', { method: 'POST', body: { examId, studentName, studentClass } });
+  return res.body.attemptId as string;
+}
+
+export async function saveAnswers(client: TestClient, attemptId: string, answers: Record<string, Answer | null>, currentQuestionIdx?: number) {
+  return client.request(`/api/attempts/${attemptId}/answers`, { method: 'PUT', body: { answers, currentQuestionIdx } });
+}
+
+// Reads back what the file transport wrote, oldest first
+export function readMailDir(dir: string): OutgoingMail[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).sort().map(name => {
+    const mail = JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8'));
+    return { ...mail, attachments: mail.attachments?.map((a: any) => ({ ...a, content: Buffer.from(a.content, 'base64') })) };
+  });
+}
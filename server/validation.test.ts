@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { parse, SchemaError, array, number, object, optional, string } from '../src/lib/schema.ts';
+import { CLIENT_PATH, renderApiClient } from '../scripts/generate-api-client.ts';
+import { startTestServer, registerExaminer, type TestClient } from './testing.ts';
+
+test('parse lists every problem with the path it was found at', () => {
+  const schema = object({ title: string({ max: 5 }), marks: array(number({ integer: true, min: 0 })), note: optional(string()) });
+  assert.deepEqual(parse(schema, { title: 'Quiz', marks: [1, 2] }, 'exam'), { title: 'Quiz', marks: [1, 2] });
+
+  try {
+    parse(schema, { title: 'Midterm', marks: [1, 2.5, -1], note: 3 }, 'exam');
+    assert.fail('expected a SchemaError');
+  } catch (error) {
+    assert.ok(error instanceof SchemaError);
+    assert.equal(error.message, 'The exam is not valid');
+    assert.deepEqual(error.details, [
+      'title must be at most 5 characters',
+      'marks[1] must be a whole number',
+      'marks[2] must be at least 0',
+      'note must be text',
+    ]);
+  }
+  assert.throws(() => parse(string(), 4, 'name'), { details: ['The name must be text'] });
+});
+
+test('the generated API client is up to date with the contract', () => {
+  assert.equal(fs.readFileSync(CLIENT_PATH, 'utf8'), renderApiClient(), 'run `npm run generate:api`');
+});
+
+let client: TestClient;
+let cookie: string;
+
+before(async () => {
+  client = await startTestServer();
+  cookie = await registerExaminer(client);
+});
+
+after(() => client.close());
+
+test('requests that do not fit the contract are turned away with every problem listed', async () => {
+  const res = await client.request('/api/exams', {
+    method: 'POST', cookie, body: { id: 'e1', title: 42, questions: {}, durationMinutes: 0 },
+  });
+  assert.equal(res.status, 400);
+  assert.equal(res.body.error, 'The request body is not valid');
+  assert.deepEqual(res.body.details, ['title must be text', 'durationMinutes must be at least 1', 'questions must be a list']);
+  assert.equal((client.db.prepare('SELECT COUNT(*) AS n FROM exams').get() as { n: number }).n, 0);
+
+  const query = await client.request('/api/bank?subject=a&subject=b', { cookie });
+  assert.equal(query.status, 400);
+  assert.deepEqual(query.body, { error: 'The query string is not valid', details: ['subject must be text'] });
+});
+
+test('malformed JSON and unknown API paths still answer in the error shape', async () => {
+  const malformed = await client.request('/api/auth/login', { method: 'POST', body: '{"email":', contentType: 'application/json; charset=utf-8' });
+  assert.equal(malformed.status, 400);
+  assert.deepEqual(malformed.body, { error: 'The request body is not valid JSON' });
+
+  const missing = await client.request('/api/nowhere', { cookie });
+  assert.equal(missing.status, 404);
+  assert.deepEqual(missing.body, { error: 'Not found' });
+});
@@ -0,0 +1,52 @@
+import type { ErrorRequestHandler, RequestHandler, Response } from 'express';
+import { parse, SchemaError, type Schema } from '../src/lib/schema.ts';
+import { apiError, type Endpoint } from '../src/api/contract.ts';
+
+// Turns a request that does not fit its endpoint in src/api/contract.ts away with a 400 listing every problem, before
+// the handler sees it. With the app's `checkResponses` setting on (tests and development) the route itself is checked
+// against the contract and so is every JSON response, so a server that drifts from the contract fails loudly.
+export function validate(endpoint: Endpoint): RequestHandler {
+  return (req, res, next) => {
+    if (req.app.get('checkResponses')) {
+      const route = `${req.method} ${req.baseUrl}${req.route.path === '/' ? '' : req.route.path}`;
+      if (route !== `${endpoint.method} ${endpoint.path}`) throw new Error(`${route} is checked against ${endpoint.method} ${endpoint.path}`);
+      if (typeof endpoint.response !== 'string') checkResponses(res, endpoint.response);
+    }
+
+    try {
+      if (endpoint.query) parse(endpoint.query, req.query, 'query string');
+      if (endpoint.body) parse(endpoint.body, req.body, 'request body');
+    } catch (error) {
+      if (error instanceof SchemaError) return res.status(400).json({ error: error.message, details: error.details });
+      throw error;
+    }
+    next();
+  };
+}
+
+function checkResponses(res: Response, schema: Schema<unknown>) {
+  const send = res.json.bind(res);
+  res.json = body => {
+    try {
+      parse(res.statusCode < 400 ? schema : apiError, body, 'response');
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      return send.call(res.status(500), { error: 'The response does not match the API contract', details: error.details });
+    }
+    return send(body);
+  };
+}
+
+// Paths under /api that no route answers
+export const apiNotFound: RequestHandler = (_req, res) => {
+  res.status(404).json({ error: 'Not found' });
+};
+
+// Errors no handler caught still answer in the API's error shape, including bodies the JSON and PDF parsers reject
+export const apiErrors: ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error?.type === 'entity.parse.failed') return res.status(400).json({ error: 'The request body is not valid JSON' });
+  if (error?.type === 'entity.too.large') return res.status(413).json({ error: 'The request body is too large' });
+  console.error(error);
+  res.status(500).json({ error: 'Something went wrong on the server' });
+};
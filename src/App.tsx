@@ -4,7 +4,6 @@ import confetti from 'canvas-confetti';
 import { 
   Shield, 
   BookOpen, 
-  Upload, 
   CheckCircle2, 
   AlertTriangle, 
   Clock, 
@@ -20,377 +19,351 @@ import {
   Zap,
   Lock,
   Eye,
-  Trophy
+  Trophy,
+  Search,
+  Megaphone,
+  Coffee,
+  Contrast,
+  AArrowUp,
+  AArrowDown,
+  X
 } from 'lucide-react';
-import { cn } from './lib/utils';
-import { Exam, Question, SolutionKey, ExamResult } from './types';
-import { GoogleGenAI, Type } from "@google/genai";
-
-// --- Components ---
-
-const Card = ({ children, className, onClick, ...props }: React.HTMLAttributes<HTMLDivElement>) => (
-  <div 
-    onClick={onClick}
-    className={cn(
-      "bg-white rounded-2xl border border-black/5 shadow-sm overflow-hidden", 
-      onClick && "cursor-pointer hover:border-zinc-400 transition-all",
-      className
-    )}
-    {...props}
-  >
-    {children}
-  </div>
-);
-
-const Button = ({ 
-  children, 
-  onClick, 
-  variant = 'primary', 
-  className,
-  disabled,
-  type = 'button'
-}: { 
-  children: React.ReactNode; 
-  onClick?: () => void; 
-  variant?: 'primary' | 'secondary' | 'danger' | 'ghost';
-  className?: string;
-  disabled?: boolean;
-  type?: 'button' | 'submit';
-}) => {
-  const variants = {
-    primary: "bg-black text-white hover:bg-zinc-800",
-    secondary: "bg-zinc-100 text-zinc-900 hover:bg-zinc-200",
-    danger: "bg-red-500 text-white hover:bg-red-600",
-    ghost: "bg-transparent text-zinc-600 hover:bg-zinc-100"
-  };
-
-  return (
-    <button 
-      type={type}
-      disabled={disabled}
-      onClick={onClick}
-      className={cn(
-        "px-6 py-2.5 rounded-xl font-medium transition-all active:scale-95 disabled:opacity-50 disabled:active:scale-100 flex items-center justify-center gap-2",
-        variants[variant],
-        className
-      )}
-    >
-      {children}
-    </button>
-  );
-};
-
-const Input = ({ 
-  label, 
-  value, 
-  onChange, 
-  placeholder, 
-  type = 'text',
-  required 
-}: { 
-  label: string; 
-  value: string | number; 
-  onChange: (val: string) => void; 
-  placeholder?: string;
-  type?: string;
-  required?: boolean;
-}) => (
-  <div className="space-y-1.5">
-    <label className="text-sm font-medium text-zinc-700">{label}</label>
-    <input 
-      type={type}
-      required={required}
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      placeholder={placeholder}
-      className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-black transition-all"
-    />
-  </div>
-);
-
-const FileUpload = ({ 
-  label, 
-  onFileSelect, 
-  accept = ".pdf",
-  fileName
-}: { 
-  label: string; 
-  onFileSelect: (file: File) => void;
-  accept?: string;
-  fileName?: string;
-}) => (
-  <div className="space-y-1.5">
-    <label className="text-sm font-medium text-zinc-700">{label}</label>
-    <div className="relative group">
-      <input 
-        type="file" 
-        accept={accept}
-        onChange={(e) => e.target.files?.[0] && onFileSelect(e.target.files[0])}
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-      />
-      <div className={cn(
-        "flex items-center gap-3 px-4 py-3 rounded-xl border-2 border-dashed transition-all",
-        fileName ? "border-black bg-zinc-50" : "border-zinc-200 group-hover:border-zinc-400"
-      )}>
-        <Upload className={cn("w-5 h-5", fileName ? "text-black" : "text-zinc-400")} />
-        <span className={cn("text-sm", fileName ? "text-black font-medium" : "text-zinc-500")}>
-          {fileName || "Click or drag PDF to upload"}
-        </span>
-      </div>
-    </div>
-  </div>
-);
+import { cn, normalizeExamCode } from './lib/utils';
+import { Card, Button, Input } from './components/ui';
+import { JoinSheet } from './components/JoinSheet';
+import { ExaminerAuth } from './components/ExaminerAuth';
+import { ExaminerDashboard } from './components/ExaminerDashboard';
+import { OpenAnswerInput } from './components/OpenAnswerInput';
+import { Answer, Exam, Question, ExamResult, Examiner, AttemptSession, Responses, Broadcast, SubmissionResult } from './types';
+import * as api from './api/client';
+import { ApiError, errorMessage } from './api/client';
+import { formatAnswer, formatAnswerKey, isAnswerCorrect, isChoiceQuestion, questionType } from './lib/questions';
+import { useAnswerAutosave, readPendingAnswers, clearPendingAnswers } from './hooks/useAnswerAutosave';
+import { useProctoring, readPendingEvents, clearPendingEvents, queueIntegrityEvent } from './hooks/useProctoring';
+import { useLiveChannel } from './hooks/useLiveChannel';
+import { useReadingSettings, FONT_SCALES } from './hooks/useReadingSettings';
+import { DEFAULT_PROCTORING_POLICY, PROCTORING_EVENT_LABELS } from './lib/proctoring';
 
 // --- Main App ---
 
+// Survives reloads so a student lands back in the same attempt
+const ACTIVE_ATTEMPT_KEY = 'secure-exam:active-attempt';
+
 export default function App() {
-  const [view, setView] = useState<'landing' | 'examiner' | 'student-reg' | 'exam' | 'result'>('landing');
+  const [view, setView] = useState<'landing' | 'examiner' | 'join-sheet' | 'student-reg' | 'exam' | 'result'>('landing');
   const [exam, setExam] = useState<Exam | null>(null);
-  const [solutionKey, setSolutionKey] = useState<SolutionKey | null>(null);
   const [studentInfo, setStudentInfo] = useState({ name: '', class: '' });
-  const [responses, setResponses] = useState<{ [key: string]: number }>({});
+  const [accessCode, setAccessCode] = useState('');
+  const [responses, setResponses] = useState<Responses>({});
   const [timeLeft, setTimeLeft] = useState(0);
-  const [finalResult, setFinalResult] = useState<{ score: number; totalMarks: number; terminated: boolean; resultStatus?: string; solutionKey?: SolutionKey } | null>(null);
-  const [isSaved, setIsSaved] = useState(false);
-  
-  // Examiner form state
-  const [examTitle, setExamTitle] = useState('');
-  const [examDuration, setExamDuration] = useState('30');
-  const [examinerEmail, setExaminerEmail] = useState('');
-  const [questionFile, setQuestionFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedQuestions, setExtractedQuestions] = useState<Question[]>([]);
-  const [extractedKey, setExtractedKey] = useState<SolutionKey | null>(null);
+  const [finalResult, setFinalResult] = useState<SubmissionResult | null>(null);
+  const [notices, setNotices] = useState<Broadcast[]>([]);
+  const dismissedNoticesRef = useRef(0); // the channel replays every message on reconnect; these stay dismissed
+
+  // Examiner session
+  const [examiner, setExaminer] = useState<Examiner | null>(null);
+
+  // Student registration state
+  const [examCode, setExamCode] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
 
   // Exam taking state
   const [currentQuestionIdx, setCurrentQuestionIdx] = useState(0);
   const [showReview, setShowReview] = useState(false);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [deadline, setDeadline] = useState(0);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [breakAllowanceMs, setBreakAllowanceMs] = useState(0);
+  const [breakEndsAt, setBreakEndsAt] = useState<number | null>(null);
+  const [breakLeft, setBreakLeft] = useState(0);
+  const isSubmittingRef = useRef(false);
+  const autosave = useAnswerAutosave(attemptId);
 
   // --- Examiner Logic ---
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = error => reject(error);
-    });
+  useEffect(() => {
+    api.getCurrentExaminer()
+      .then(setExaminer)
+      .catch(() => setExaminer(null));
+  }, []);
+
+  const handleLogout = async () => {
+    await api.logout();
+    setExaminer(null);
+    setView('landing');
   };
 
-  const handleProcessPDFs = async () => {
-    if (!questionFile || !examTitle || !examinerEmail) {
-      alert("Please fill all fields and upload the Question Paper.");
-      return;
-    }
+  // --- Student Logic ---
+  const lookupExam = useCallback(async (code: string) => {
+    const normalized = normalizeExamCode(code);
+    if (!normalized) return;
 
-    setIsProcessing(true);
+    setIsLookingUp(true);
+    setLookupError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
-      const model = "gemini-3-flash-preview";
-
-      const qBase64 = await fileToBase64(questionFile);
-
-      const prompt = `
-        I have a PDF file which is a question paper with multiple choice questions (MCQs).
-        
-        Please extract all the questions from the PDF and identify the correct answer for each question. 
-        The correct answer might be explicitly marked in the PDF (e.g., bolded, underlined, or with a checkmark), 
-        or you should determine the correct answer by solving the question if it's a factual or logical problem.
-        
-        Return the data in the following JSON format:
-        {
-          "questions": [
-            { "id": "q1", "text": "Question text here", "options": ["Option A", "Option B", "Option C", "Option D"] }
-          ],
-          "solutionKey": { "q1": 0 } // index of the correct option (0-based)
-        }
-        
-        Ensure the question IDs match between the questions array and the solutionKey object.
-      `;
-
-      const response = await ai.models.generateContent({
-        model,
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              { inlineData: { mimeType: "application/pdf", data: qBase64 } }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              questions: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    text: { type: Type.STRING },
-                    options: { type: Type.ARRAY, items: { type: Type.STRING } }
-                  },
-                  required: ["id", "text", "options"]
-                }
-              },
-              solutionKey: {
-                type: Type.OBJECT,
-                additionalProperties: { type: Type.INTEGER }
-              }
-            },
-            required: ["questions", "solutionKey"]
-          }
-        }
-      });
-
-      const data = JSON.parse(response.text || "{}");
-      setExtractedQuestions(data.questions);
-      setExtractedKey(data.solutionKey);
-
+      const data = await api.getExam(normalized);
+      setExam(data);
+      setExamCode(data.id);
     } catch (e) {
-      console.error(e);
-      alert("Failed to process PDFs. Please ensure they are clear and contain MCQs.");
+      setExam(null);
+      if (!(e instanceof ApiError)) {
+        console.error(e);
+        setLookupError("Could not reach the server. Check your connection.");
+      } else if (e.status === 403) {
+        const { opensAt } = e.body;
+        setLookupError(typeof opensAt === 'string' ? `This exam opens at ${new Date(opensAt).toLocaleString()}.` : e.message);
+      } else {
+        setLookupError(e.status === 404 ? "No exam found with that code." : "Could not load the exam. Please try again.");
+      }
     } finally {
-      setIsProcessing(false);
+      setIsLookingUp(false);
     }
+  }, []);
+
+  // The server owns the clock: remaining time is always derived from its deadline, corrected for clock skew.
+  // A break runs on the same clock and ends by itself when the student's break allowance does.
+  const syncClock = (session: AttemptSession) => {
+    setDeadline(session.deadline);
+    setClockOffset(session.serverNow - Date.now());
+    setTimeLeft(Math.max(0, Math.ceil((session.deadline - session.serverNow) / 1000)));
+    setBreakAllowanceMs(session.breakRemainingMs);
+    setBreakEndsAt(session.breakStartedAt === null ? null : session.serverNow + session.breakRemainingMs);
+    setBreakLeft(Math.ceil(session.breakRemainingMs / 1000));
   };
 
-  const handleSaveExam = async () => {
-    if (!extractedQuestions.length || !extractedKey) return;
-
-    const shuffledQuestions = extractedQuestions.map(q => {
-      const originalOptions = [...q.options];
-      const correctOptionText = originalOptions[extractedKey[q.id]];
-      
-      const shuffledOptions = [...originalOptions].sort(() => Math.random() - 0.5);
-      const newCorrectIdx = shuffledOptions.indexOf(correctOptionText);
-      
-      return {
-        question: { ...q, options: shuffledOptions },
-        newCorrectIdx
-      };
-    });
-
-    const newSolutionKey: SolutionKey = {};
-    shuffledQuestions.forEach(sq => {
-      newSolutionKey[sq.question.id] = sq.newCorrectIdx;
-    });
-
-    const newExam: Exam = {
-      id: 'exam-' + Math.random().toString(36).substr(2, 9),
-      title: examTitle,
-      questions: shuffledQuestions.map(sq => sq.question),
-      durationMinutes: parseInt(examDuration)
-    };
+  const enterAttempt = (session: AttemptSession) => {
+    setExam(session.exam);
+    setStudentInfo({ name: session.studentName, class: session.studentClass });
+    setAttemptId(session.attemptId);
+    syncClock(session);
+
+    // Answers queued on this device are newer than anything the server has seen
+    const pending = readPendingAnswers(session.attemptId);
+    const restored: Responses = { ...session.responses };
+    for (const [questionId, answer] of Object.entries(pending.answers)) {
+      if (answer === null) delete restored[questionId];
+      else restored[questionId] = answer;
+    }
+    setResponses(restored);
+    setCurrentQuestionIdx(pending.currentQuestionIdx ?? session.currentQuestionIdx);
+    setShowReview(false);
+    setNotices([]);
+    dismissedNoticesRef.current = 0;
 
-    setExam(newExam);
-    setSolutionKey(newSolutionKey);
-    
-    // Save to server
-    const saveRes = await fetch('/api/exams', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ ...newExam, solutionKey: newSolutionKey, examinerEmail })
-    });
+    localStorage.setItem(ACTIVE_ATTEMPT_KEY, session.attemptId);
+    isSubmittingRef.current = false;
+    setView('exam');
+  };
 
-    if (saveRes.ok) {
-      setIsSaved(true);
-    } else {
-      alert("Failed to save exam to server");
+  const resumeAttempt = async (savedAttemptId: string) => {
+    try {
+      const session = await api.getAttempt(savedAttemptId);
+      if (session.status === 'active') {
+        queueIntegrityEvent(session.attemptId, 'reconnect');
+        enterAttempt(session);
+        return true;
+      }
+    } catch (e) {
+      if (!(e instanceof ApiError)) console.error(e);
     }
+    localStorage.removeItem(ACTIVE_ATTEMPT_KEY);
+    return false;
   };
 
-  // --- Student Logic ---
-  const startExam = () => {
+  // Resume an unfinished attempt first; otherwise join links carry the exam code as ?exam=CODE, and a rostered
+  // student's own link adds their access code as &access=CODE
+  useEffect(() => {
+    const savedAttemptId = localStorage.getItem(ACTIVE_ATTEMPT_KEY);
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('exam');
+
+    (async () => {
+      if (savedAttemptId && (await resumeAttempt(savedAttemptId))) return;
+      if (!code) return;
+      setExamCode(normalizeExamCode(code));
+      setAccessCode(normalizeExamCode(params.get('access') ?? ''));
+      setView('student-reg');
+      lookupExam(code);
+    })();
+  }, [lookupExam]);
+
+  const startExam = async () => {
     if (!exam) return;
-    setTimeLeft(exam.durationMinutes * 60);
-    setView('exam');
-    setCurrentQuestionIdx(0);
-    setShowReview(false);
-    
-    // Enter Fullscreen
+
+    // Enter Fullscreen while we still have the click's user activation
     document.documentElement.requestFullscreen().catch(() => {});
-  };
 
-  const submitExam = useCallback(async (terminated = false) => {
-    if (!exam || !studentInfo.name) return;
-
-    const res = await fetch('/api/submit', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        examId: exam.id,
-        studentName: studentInfo.name,
-        studentClass: studentInfo.class,
-        responses,
-        terminated
-      })
-    });
+    let session: AttemptSession;
+    try {
+      session = await api.startAttempt(exam.rosterRequired
+        ? { examId: exam.id, accessCode }
+        : { examId: exam.id, studentName: studentInfo.name, studentClass: studentInfo.class });
+    } catch (e) {
+      alert(errorMessage(e, "Could not start the exam. Please try again."));
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+      return;
+    }
 
-    const resultData = await res.json();
-    setFinalResult({ ...resultData, terminated });
+    enterAttempt(session);
+  };
+
+  // Also reached when the examiner submits the attempt from the live monitor
+  const finishAttempt = useCallback((result: SubmissionResult) => {
+    if (attemptId) {
+      clearPendingAnswers(attemptId);
+      clearPendingEvents(attemptId);
+    }
+    localStorage.removeItem(ACTIVE_ATTEMPT_KEY);
+    isSubmittingRef.current = true;
+    setAttemptId(null);
+    setFinalResult(result);
     setView('result');
-    
+
     if (document.fullscreenElement) {
       document.exitFullscreen().catch(() => {});
     }
-  }, [exam, studentInfo, responses]);
+  }, [attemptId]);
 
-  // --- Security Measures ---
-  useEffect(() => {
-    if (view !== 'exam') return;
+  const submitExam = useCallback(async () => {
+    if (!exam || !attemptId || isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
 
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        submitExam(true);
+    // The server grades its own copy of the answers, so everything queued must reach it first
+    if (!(await autosave.flush())) {
+      isSubmittingRef.current = false;
+      alert("You appear to be offline. Your answers are kept on this device; submit again once you are reconnected.");
+      return;
+    }
+
+    let result: SubmissionResult;
+    try {
+      // Undelivered proctoring events go with the submission; the server decides whether the attempt was terminated
+      result = await api.submit({ attemptId, events: readPendingEvents(attemptId) });
+    } catch (e) {
+      if (!(e instanceof ApiError && e.status === 409)) {
+        isSubmittingRef.current = false;
+        alert("Submission failed. Check your connection and try again.");
+        return;
       }
-    };
+      result = { score: 0, totalMarks: exam.questions.length, terminated: false };
+    }
 
-    const handleBlur = () => {
-      submitExam(true);
-    };
+    finishAttempt(result);
+  }, [exam, attemptId, autosave.flush, finishAttempt]);
+
+  // Answers cannot change during a break, so anything still queued goes to the server first
+  const takeBreak = async () => {
+    if (!attemptId || !(await autosave.flush())) return;
+    try {
+      syncClock(await api.startBreak(attemptId));
+    } catch (e) {
+      alert(errorMessage(e, "Could not start the break. Check your connection and try again."));
+    }
+  };
+
+  const isResumingRef = useRef(false);
+  const endBreak = useCallback(async () => {
+    if (!attemptId || isResumingRef.current) return;
+    isResumingRef.current = true;
+    try {
+      syncClock(await api.endBreak(attemptId));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      isResumingRef.current = false;
+    }
+  }, [attemptId]);
+
+  const setAnswer = useCallback((questionId: string, answer: Answer | null) => {
+    setResponses(prev => {
+      const { [questionId]: _previous, ...rest } = prev;
+      return answer === null ? rest : { ...rest, [questionId]: answer };
+    });
+    autosave.queue({ answers: { [questionId]: answer } });
+  }, [autosave.queue]);
+
+  // Multiple-select options toggle in and out of the answer; every other choice question takes one option
+  const selectAnswer = useCallback((question: Question, optionIdx: number) => {
+    if (questionType(question) !== 'multiple_choice') return setAnswer(question.id, optionIdx);
+    const current = responses[question.id];
+    const selected = Array.isArray(current) ? current : [];
+    const next = selected.includes(optionIdx) ? selected.filter(o => o !== optionIdx) : [...selected, optionIdx].sort((a, b) => a - b);
+    setAnswer(question.id, next.length ? next : null);
+  }, [responses, setAnswer]);
+
+  const isSelected = (question: Question, optionIdx: number) => {
+    const answer = responses[question.id];
+    return Array.isArray(answer) ? answer.includes(optionIdx) : answer === optionIdx;
+  };
+
+  useEffect(() => {
+    if (view === 'exam') autosave.queue({ currentQuestionIdx });
+  }, [view, currentQuestionIdx, autosave.queue]);
+
+  // Examiner messages, extra time and forced submissions pushed from the live monitor
+  useLiveChannel(attemptId, view === 'exam', {
+    onMessage: (broadcast) => {
+      if (broadcast.sentAt <= dismissedNoticesRef.current) return;
+      setNotices(prev => (prev.some(n => n.sentAt === broadcast.sentAt) ? prev : [...prev, broadcast]));
+    },
+    onDeadline: setDeadline,
+    onSubmitted: finishAttempt
+  });
+
+  // --- Security Measures ---
+  const onBreak = breakEndsAt !== null;
+  const reading = useReadingSettings(view === 'exam');
+
+  // Nothing is proctored while the student is away on a break
+  const proctoring = useProctoring({
+    attemptId,
+    policy: exam?.proctoring,
+    active: view === 'exam' && !onBreak,
+    onTerminate: () => submitExam()
+  });
+
+  useEffect(() => {
+    if (view !== 'exam') return;
 
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       e.preventDefault();
       e.returnValue = '';
     };
 
-    window.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('blur', handleBlur);
     window.addEventListener('beforeunload', handleBeforeUnload);
-
-    return () => {
-      window.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('blur', handleBlur);
-      window.removeEventListener('beforeunload', handleBeforeUnload);
-    };
-  }, [view, submitExam]);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [view]);
 
   // --- Timer ---
   useEffect(() => {
-    if (view !== 'exam' || timeLeft <= 0) {
-      if (view === 'exam' && timeLeft <= 0) submitExam();
-      return;
-    }
+    if (view !== 'exam') return;
 
     const timer = setInterval(() => {
-      setTimeLeft(prev => prev - 1);
+      const serverNow = Date.now() + clockOffset;
+      if (breakEndsAt !== null) setBreakLeft(Math.max(0, Math.ceil((breakEndsAt - serverNow) / 1000)));
+      else setTimeLeft(Math.max(0, Math.ceil((deadline - serverNow) / 1000)));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [view, timeLeft, submitExam]);
+  }, [view, deadline, clockOffset, breakEndsAt]);
+
+  useEffect(() => {
+    if (view === 'exam' && !onBreak && timeLeft <= 0) submitExam();
+  }, [view, onBreak, timeLeft, submitExam]);
+
+  useEffect(() => {
+    if (view === 'exam' && onBreak && breakLeft <= 0) endBreak();
+  }, [view, onBreak, breakLeft, endBreak]);
 
   const progress = exam ? (Object.keys(responses).length / exam.questions.length) * 100 : 0;
 
   // Keyboard navigation
   useEffect(() => {
-    if (view !== 'exam' || showReview) return;
+    if (view !== 'exam' || showReview || onBreak) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys typed into an answer box belong to the answer, not to navigation
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.key === 'ArrowRight') {
         if (currentQuestionIdx < exam!.questions.length - 1) {
           setCurrentQuestionIdx(prev => prev + 1);
@@ -402,15 +375,15 @@ export default function App() {
       } else if (['1', '2', '3', '4'].includes(e.key)) {
         const optionIdx = parseInt(e.key) - 1;
         const question = exam!.questions[currentQuestionIdx];
-        if (optionIdx < question.options.length) {
-          setResponses(prev => ({ ...prev, [question.id]: optionIdx }));
+        if (isChoiceQuestion(question) && optionIdx < question.options.length) {
+          selectAnswer(question, optionIdx);
         }
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [view, showReview, currentQuestionIdx, exam]);
+  }, [view, showReview, onBreak, currentQuestionIdx, exam, selectAnswer]);
 
   // Confetti on pass
   useEffect(() => {
@@ -440,7 +413,7 @@ export default function App() {
   return (
     <div className="min-h-screen bg-[#F8F9FA] text-zinc-900 font-sans selection:bg-black selection:text-white">
       {/* Header */}
-      <header className="border-b border-black/5 bg-white/80 backdrop-blur-md sticky top-0 z-50">
+      <header className="border-b border-black/5 bg-white/80 backdrop-blur-md sticky top-0 z-50 print:hidden">
         <div className="max-w-6xl mx-auto px-6 h-16 flex items-center justify-between">
           <div className="flex items-center gap-2 font-bold text-lg tracking-tight cursor-pointer" onClick={() => setView('landing')}>
             <Shield className="w-6 h-6" />
@@ -452,6 +425,14 @@ export default function App() {
                 <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
                 Live Monitoring Active
               </div>
+              <div className={cn(
+                "hidden sm:flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest",
+                autosave.status === 'offline' ? "text-amber-600" : "text-zinc-400"
+              )}>
+                {autosave.status === 'saving' && <><Loader2 className="w-3 h-3 animate-spin" /> Saving</>}
+                {autosave.status === 'saved' && <><CheckCircle2 className="w-3 h-3" /> Saved</>}
+                {autosave.status === 'offline' && <><AlertTriangle className="w-3 h-3" /> Offline &middot; saved on device</>}
+              </div>
               <div className="hidden md:flex flex-col items-end gap-1">
                 <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Progress</div>
                 <div className="w-32 h-1.5 bg-zinc-100 rounded-full overflow-hidden">
@@ -462,11 +443,49 @@ export default function App() {
                   />
                 </div>
               </div>
-              <div className={cn(
+              <div className="flex items-center gap-1" role="group" aria-label="Reading settings">
+                <button
+                  type="button"
+                  title="Smaller text"
+                  aria-label="Smaller text"
+                  disabled={reading.fontScale === FONT_SCALES[0]}
+                  onClick={() => reading.changeFontScale(-1)}
+                  className="p-2 rounded-lg text-zinc-500 hover:bg-zinc-100 disabled:opacity-30"
+                >
+                  <AArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  title="Larger text"
+                  aria-label="Larger text"
+                  disabled={reading.fontScale === FONT_SCALES[FONT_SCALES.length - 1]}
+                  onClick={() => reading.changeFontScale(1)}
+                  className="p-2 rounded-lg text-zinc-500 hover:bg-zinc-100 disabled:opacity-30"
+                >
+                  <AArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  title="High contrast"
+                  aria-label="High contrast"
+                  aria-pressed={reading.highContrast}
+                  onClick={reading.toggleHighContrast}
+                  className={cn("p-2 rounded-lg hover:bg-zinc-100", reading.highContrast ? "text-black bg-zinc-100" : "text-zinc-500")}
+                >
+                  <Contrast className="w-4 h-4" />
+                </button>
+              </div>
+              {breakAllowanceMs > 0 && !onBreak && (
+                <Button variant="secondary" className="px-4 py-1.5 text-xs" onClick={takeBreak}>
+                  <Coffee className="w-4 h-4" />
+                  Break &middot; {Math.ceil(breakAllowanceMs / 60000)} min left
+                </Button>
+              )}
+              <div role="timer" aria-label="Time remaining" className={cn(
                 "flex items-center gap-2 px-4 py-1.5 rounded-full font-mono text-sm transition-all duration-500",
-                timeLeft < 60 ? "bg-red-500 text-white animate-pulse shadow-[0_0_20px_rgba(239,68,68,0.5)]" : "bg-zinc-100 text-zinc-600"
+                timeLeft < 60 && !onBreak ? "bg-red-500 text-white animate-pulse shadow-[0_0_20px_rgba(239,68,68,0.5)]" : "bg-zinc-100 text-zinc-600"
               )}>
-                <Clock className={cn("w-4 h-4", timeLeft < 60 && "animate-spin-slow")} />
+                <Clock className={cn("w-4 h-4", timeLeft < 60 && !onBreak && "animate-spin-slow")} />
                 {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
               </div>
             </div>
@@ -551,93 +570,26 @@ export default function App() {
             </motion.div>
           )}
 
-          {view === 'examiner' && (
-            <motion.div 
-              key="examiner"
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="max-w-4xl mx-auto space-y-8"
-            >
-              <div className="text-center space-y-2">
-                <h2 className="text-4xl font-bold tracking-tight">Examiner Dashboard</h2>
-                <p className="text-zinc-500">Configure your exam and upload source documents.</p>
-              </div>
-
-              <div className="grid md:grid-cols-3 gap-8">
-                <Card className="md:col-span-2 p-8 space-y-8">
-                  <div className="grid grid-cols-2 gap-6">
-                    <Input label="Exam Title" value={examTitle} onChange={setExamTitle} placeholder="e.g. Midterm Physics" />
-                    <Input label="Duration (Min)" type="number" value={examDuration} onChange={setExamDuration} />
-                  </div>
-                  <Input label="Examiner Email" type="email" value={examinerEmail} onChange={setExaminerEmail} placeholder="examiner@school.edu" />
-                  
-                  <div className="grid grid-cols-1 gap-6">
-                    <FileUpload label="Question Paper (PDF)" onFileSelect={setQuestionFile} fileName={questionFile?.name} />
-                  </div>
-
-                  <div className="flex justify-between pt-4 border-t border-zinc-100">
-                    <Button variant="ghost" onClick={() => setView('landing')}>Back</Button>
-                    <Button disabled={isProcessing || isSaved} onClick={handleProcessPDFs} className="min-w-[160px]">
-                      {isProcessing ? <><Loader2 className="w-4 h-4 animate-spin" /> Processing...</> : <><FileText className="w-4 h-4" /> Extract Data</>}
-                    </Button>
-                  </div>
-                </Card>
+          {view === 'examiner' && !examiner && (
+            <ExaminerAuth onAuthenticated={setExaminer} onBack={() => setView('landing')} />
+          )}
 
-                <div className="space-y-6">
-                  <Card className="p-6 bg-zinc-900 text-white space-y-4">
-                    <h3 className="font-bold flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-emerald-400" />
-                      Status
-                    </h3>
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between text-xs">
-                        <span className="text-zinc-400">PDF Uploaded</span>
-                        <span className={cn(questionFile ? "text-emerald-400" : "text-zinc-600")}>
-                          {questionFile ? "Yes" : "No"}
-                        </span>
-                      </div>
-                      <div className="flex items-center justify-between text-xs">
-                        <span className="text-zinc-400">Questions Extracted</span>
-                        <span className={cn(extractedQuestions.length > 0 ? "text-emerald-400" : "text-zinc-600")}>
-                          {extractedQuestions.length}
-                        </span>
-                      </div>
-                      <div className="flex items-center justify-between text-xs">
-                        <span className="text-zinc-400">AI Answer Detection</span>
-                        <span className={cn(extractedKey ? "text-emerald-400" : "text-zinc-600")}>
-                          {extractedKey ? "Success" : "Pending"}
-                        </span>
-                      </div>
-                    </div>
-                    {extractedQuestions.length > 0 && extractedKey && !isSaved && (
-                      <Button onClick={handleSaveExam} className="w-full bg-white text-black hover:bg-zinc-200">
-                        <Save className="w-4 h-4" />
-                        Finalize & Save
-                      </Button>
-                    )}
-                    {isSaved && (
-                      <div className="text-center py-2 bg-emerald-500/10 text-emerald-400 rounded-lg text-xs font-bold uppercase tracking-widest">
-                        Exam Ready
-                      </div>
-                    )}
-                  </Card>
+          {view === 'examiner' && examiner && (
+            <ExaminerDashboard
+              examiner={examiner}
+              onBack={() => setView('landing')}
+              onLogout={handleLogout}
+              onSessionExpired={() => setExaminer(null)}
+              onShare={(published) => {
+                setExam(published);
+                setExamCode(published.id);
+                setView('join-sheet');
+              }}
+            />
+          )}
 
-                  {extractedQuestions.length > 0 && (
-                    <Card className="p-6 space-y-4 max-h-[400px] overflow-y-auto">
-                      <h3 className="font-bold text-sm">Preview Questions</h3>
-                      <div className="space-y-4">
-                        {extractedQuestions.map((q, i) => (
-                          <div key={i} className="text-xs space-y-1">
-                            <p className="font-bold text-zinc-400">Q{i+1}</p>
-                            <p className="line-clamp-2">{q.text}</p>
-                          </div>
-                        ))}
-                      </div>
-                    </Card>
-                  )}
-                </div>
-              </div>
-            </motion.div>
+          {view === 'join-sheet' && exam && (
+            <JoinSheet exam={exam} onBack={() => setView('examiner')} />
           )}
 
           {view === 'student-reg' && (
@@ -653,32 +605,146 @@ export default function App() {
               </div>
 
               <Card className="p-8 space-y-6">
-                <Input label="Full Name" value={studentInfo.name} onChange={(v) => setStudentInfo(prev => ({ ...prev, name: v }))} placeholder="John Doe" />
-                <Input label="Class / Grade" value={studentInfo.class} onChange={(v) => setStudentInfo(prev => ({ ...prev, class: v }))} placeholder="Grade 12A" />
+                <form
+                  className="flex items-end gap-3"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    lookupExam(examCode);
+                  }}
+                >
+                  <div className="flex-1">
+                    <Input label="Exam Code" value={examCode} onChange={(v) => {
+                      setExamCode(v.toUpperCase());
+                      if (exam && normalizeExamCode(v) !== exam.id) setExam(null);
+                    }} placeholder="e.g. K7XQ2M" />
+                  </div>
+                  <Button type="submit" variant="secondary" disabled={!examCode.trim() || isLookingUp}>
+                    {isLookingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                    Find
+                  </Button>
+                </form>
+                {lookupError && <p className="text-xs text-red-500">{lookupError}</p>}
+                {exam && (
+                  <div className="p-4 bg-zinc-50 rounded-2xl border border-zinc-100 space-y-1">
+                    <div className="font-bold">{exam.title}</div>
+                    <div className="text-xs text-zinc-500">
+                      {exam.questionCount ?? exam.questions.length} questions &middot; {exam.durationMinutes} minutes
+                    </div>
+                  </div>
+                )}
+
+                {exam?.rosterRequired ? (
+                  <Input label="Access Code" value={accessCode} onChange={(v) => setAccessCode(v.toUpperCase())} placeholder="Your personal code from your examiner" />
+                ) : (
+                  <>
+                    <Input label="Full Name" value={studentInfo.name} onChange={(v) => setStudentInfo(prev => ({ ...prev, name: v }))} placeholder="John Doe" />
+                    <Input label="Class / Grade" value={studentInfo.class} onChange={(v) => setStudentInfo(prev => ({ ...prev, class: v }))} placeholder="Grade 12A" />
+                  </>
+                )}
 
                 <div className="pt-4 space-y-4">
                   <div className="p-4 bg-amber-50 rounded-2xl border border-amber-100 flex gap-3">
                     <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
                     <div className="text-xs text-amber-800 leading-relaxed">
-                      <strong>Security Protocol:</strong> This exam uses advanced monitoring. Switching tabs or exiting fullscreen will terminate your session.
+                      <strong>Security Protocol:</strong> This exam uses advanced monitoring.
+                      {(() => {
+                        const policy = exam?.proctoring ?? DEFAULT_PROCTORING_POLICY;
+                        if (!policy.events.length) return null;
+                        return (
+                          <>
+                            {' '}The following are recorded as violations: {policy.events.map(e => PROCTORING_EVENT_LABELS[e].toLowerCase()).join(', ')}.
+                            {' '}{policy.maxViolations === 0
+                              ? 'Your session will be terminated on the first violation.'
+                              : `You will be warned ${policy.maxViolations} time${policy.maxViolations === 1 ? '' : 's'}; the next violation terminates your session.`}
+                          </>
+                        );
+                      })()}
                     </div>
                   </div>
-                  <Button className="w-full py-4 text-lg" disabled={!studentInfo.name || !studentInfo.class || !exam} onClick={startExam}>
+                  <Button className="w-full py-4 text-lg" disabled={!exam || (exam.rosterRequired ? !accessCode.trim() : !studentInfo.name || !studentInfo.class)} onClick={startExam}>
                     Begin Examination
                   </Button>
-                  {!exam && <p className="text-center text-xs text-red-500">No exam has been set by the examiner yet.</p>}
+                  {!exam && <p className="text-center text-xs text-zinc-500">Enter the exam code from your examiner to continue.</p>}
                 </div>
               </Card>
             </motion.div>
           )}
 
-          {view === 'exam' && exam && (
+          {view === 'exam' && exam && onBreak && (
+            <motion.div
+              key="break"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="max-w-md mx-auto"
+            >
+              <Card className="p-10 text-center space-y-6">
+                <Coffee className="w-10 h-10 mx-auto text-zinc-400" />
+                <div className="space-y-2">
+                  <h2 className="text-3xl font-bold tracking-tight">On a Break</h2>
+                  <p className="text-sm text-zinc-500">
+                    Your exam clock is stopped and your questions are hidden. The exam resumes by itself when your break time runs out.
+                  </p>
+                </div>
+                <div role="timer" aria-label="Break time remaining" className="text-5xl font-mono font-bold">
+                  {Math.floor(breakLeft / 60)}:{(breakLeft % 60).toString().padStart(2, '0')}
+                </div>
+                <Button className="w-full" onClick={endBreak}>
+                  Resume Exam
+                  <ChevronRight className="w-5 h-5" />
+                </Button>
+              </Card>
+            </motion.div>
+          )}
+
+          {view === 'exam' && exam && !onBreak && (
             <motion.div 
               key="exam"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               className="grid md:grid-cols-4 gap-8"
             >
+              {/* Examiner Messages */}
+              {notices.length > 0 && (
+                <div className="md:col-span-4 p-4 bg-blue-50 rounded-2xl border border-blue-100 flex items-start justify-between gap-4">
+                  <div className="flex gap-3 text-sm text-blue-800">
+                    <Megaphone className="w-5 h-5 text-blue-600 shrink-0" />
+                    <div className="space-y-1">
+                      {notices.map(n => (
+                        <p key={n.sentAt}>
+                          <span className="text-xs text-blue-500 mr-2">{new Date(n.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                          {n.message}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                  <button type="button" title="Dismiss" onClick={() => {
+                    dismissedNoticesRef.current = Math.max(...notices.map(n => n.sentAt));
+                    setNotices([]);
+                  }} className="p-1 rounded-lg text-blue-400 hover:bg-blue-100">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
+              {/* Proctoring Notices */}
+              {(proctoring.pendingAway || (proctoring.requiresFullscreen && !proctoring.isFullscreen)) && (
+                <div className="md:col-span-4 p-4 bg-amber-50 rounded-2xl border border-amber-100 flex items-center justify-between gap-4">
+                  <div className="flex gap-3 text-sm text-amber-800">
+                    <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+                    <p>
+                      {proctoring.pendingAway
+                        ? `${PROCTORING_EVENT_LABELS[proctoring.pendingAway.event]} detected. Return within ${exam.proctoring?.gracePeriodSeconds ?? DEFAULT_PROCTORING_POLICY.gracePeriodSeconds} seconds or it will count as a violation.`
+                        : 'This exam must be taken in fullscreen mode.'}
+                    </p>
+                  </div>
+                  {proctoring.requiresFullscreen && !proctoring.isFullscreen && (
+                    <Button variant="secondary" className="shrink-0 text-xs" onClick={proctoring.enterFullscreen}>
+                      Enter Fullscreen
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Question Navigator */}
               <div className="hidden md:block space-y-6">
                 <Card className="p-6 space-y-6 sticky top-24">
@@ -765,61 +831,91 @@ export default function App() {
                           <span className="flex items-center justify-center w-12 h-12 rounded-2xl bg-black text-white text-lg font-bold">
                             {currentQuestionIdx + 1}
                           </span>
-                          <h3 className="text-3xl font-bold tracking-tight leading-tight">
+                          <h3 id={`question-${currentQuestionIdx}`} className="text-3xl font-bold tracking-tight leading-tight">
                             {exam.questions[currentQuestionIdx].text}
                           </h3>
                         </div>
-                        <div className="grid gap-4">
-                          {exam.questions[currentQuestionIdx].options.map((opt, optIdx) => (
-                            <motion.button
-                              key={optIdx}
-                              whileHover={{ x: 8, scale: 1.01 }}
-                              whileTap={{ scale: 0.98 }}
-                              onClick={() => setResponses(prev => ({ ...prev, [exam.questions[currentQuestionIdx].id]: optIdx }))}
-                              className={cn(
-                                "text-left px-8 py-6 rounded-[24px] border-2 transition-all flex items-center justify-between group relative overflow-hidden",
-                                responses[exam.questions[currentQuestionIdx].id] === optIdx 
-                                  ? "bg-black text-white border-black shadow-xl" 
-                                  : "bg-white border-zinc-100 hover:border-zinc-300 hover:shadow-md"
-                              )}
+                        {(() => {
+                          const question = exam.questions[currentQuestionIdx];
+                          const marks = question.marks ?? 1;
+                          const penalty = question.negativeMarking ?? exam.scoring?.negativeMarking ?? 0;
+                          return (
+                            <p className="text-xs font-bold uppercase tracking-widest text-zinc-400">
+                              {marks} mark{marks === 1 ? '' : 's'}
+                              {penalty > 0 && ` · ${Math.round(penalty * marks * 100) / 100} deducted for a wrong answer`}
+                            </p>
+                          );
+                        })()}
+                        {(() => {
+                          const question = exam.questions[currentQuestionIdx];
+                          if (!isChoiceQuestion(question)) {
+                            return <OpenAnswerInput question={question} answer={responses[question.id]} onChange={(answer) => setAnswer(question.id, answer)} />;
+                          }
+                          const isMultiple = questionType(question) === 'multiple_choice';
+                          return (
+                            <div
+                              className="grid gap-4"
+                              role={isMultiple ? 'group' : 'radiogroup'}
+                              aria-labelledby={`question-${currentQuestionIdx}`}
                             >
-                              <div className="flex items-center gap-4 z-10">
-                                <span className={cn(
-                                  "w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold transition-colors",
-                                  responses[exam.questions[currentQuestionIdx].id] === optIdx 
-                                    ? "bg-white/20 text-white" 
-                                    : "bg-zinc-100 text-zinc-400 group-hover:bg-zinc-200"
-                                )}>
-                                  {String.fromCharCode(65 + optIdx)}
-                                </span>
-                                <span className="text-lg font-medium">{opt}</span>
-                              </div>
-                              
-                              <div className={cn(
-                                "w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all z-10",
-                                responses[exam.questions[currentQuestionIdx].id] === optIdx 
-                                  ? "border-white bg-white" 
-                                  : "border-zinc-200 group-hover:border-zinc-400"
-                                )}>
-                                {responses[exam.questions[currentQuestionIdx].id] === optIdx && (
-                                  <motion.div 
-                                    initial={{ scale: 0 }}
-                                    animate={{ scale: 1 }}
-                                    className="w-2.5 h-2.5 rounded-full bg-black" 
-                                  />
-                                )}
-                              </div>
-
-                              {responses[exam.questions[currentQuestionIdx].id] === optIdx && (
-                                <motion.div
-                                  layoutId="option-bg"
-                                  className="absolute inset-0 bg-black -z-0"
-                                  transition={{ type: "spring", bounce: 0.2, duration: 0.6 }}
-                                />
+                              {isMultiple && (
+                                <p className="text-sm text-zinc-500">Select every correct option.</p>
                               )}
-                            </motion.button>
-                          ))}
-                        </div>
+                              {question.options.map((opt, optIdx) => (
+                                <motion.button
+                                  key={optIdx}
+                                  type="button"
+                                  role={isMultiple ? 'checkbox' : 'radio'}
+                                  aria-checked={isSelected(question, optIdx)}
+                                  whileHover={{ x: 8, scale: 1.01 }}
+                                  whileTap={{ scale: 0.98 }}
+                                  onClick={() => selectAnswer(question, optIdx)}
+                                  className={cn(
+                                    "text-left px-8 py-6 rounded-[24px] border-2 transition-all flex items-center justify-between group relative overflow-hidden",
+                                    isSelected(question, optIdx)
+                                      ? "bg-black text-white border-black shadow-xl" 
+                                      : "bg-white border-zinc-100 hover:border-zinc-300 hover:shadow-md"
+                                  )}
+                                >
+                                  <div className="flex items-center gap-4 z-10">
+                                    <span className={cn(
+                                      "w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold transition-colors",
+                                      isSelected(question, optIdx)
+                                        ? "bg-white/20 text-white" 
+                                        : "bg-zinc-100 text-zinc-400 group-hover:bg-zinc-200"
+                                    )}>
+                                      {String.fromCharCode(65 + optIdx)}
+                                    </span>
+                                    <span className="text-lg font-medium">{opt}</span>
+                                  </div>
+                              
+                                  <div className={cn(
+                                    "w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all z-10",
+                                    isSelected(question, optIdx)
+                                      ? "border-white bg-white" 
+                                      : "border-zinc-200 group-hover:border-zinc-400"
+                                    )}>
+                                    {isSelected(question, optIdx) && (
+                                      <motion.div 
+                                        initial={{ scale: 0 }}
+                                        animate={{ scale: 1 }}
+                                        className="w-2.5 h-2.5 rounded-full bg-black" 
+                                      />
+                                    )}
+                                  </div>
+
+                                  {isSelected(question, optIdx) && (
+                                    <motion.div
+                                      layoutId="option-bg"
+                                      className="absolute inset-0 bg-black -z-0"
+                                      transition={{ type: "spring", bounce: 0.2, duration: 0.6 }}
+                                    />
+                                  )}
+                                </motion.button>
+                              ))}
+                            </div>
+                          );
+                        })()}
                       </div>
 
                       <div className="pt-12 flex items-center justify-between">
@@ -876,9 +972,44 @@ export default function App() {
                   <div className="space-y-2">
                     <h2 className="text-4xl font-bold tracking-tight">Examination successfully completed</h2>
                     <p className="text-zinc-500 max-w-xs mx-auto">Your responses have been securely transmitted and evaluated.</p>
+                    {!!finalResult.pendingReview && (
+                      <p className="text-sm text-zinc-500 max-w-xs mx-auto">
+                        {finalResult.pendingReview} written answer{finalResult.pendingReview === 1 ? '' : 's'} will be marked by your examiner.
+                      </p>
+                    )}
                   </div>
                 </div>
 
+                {finalResult.solutionKey && exam ? (
+                  <div className="space-y-3 text-left">
+                    <h3 className="font-bold text-sm uppercase tracking-widest text-zinc-400">Answer Review</h3>
+                    {exam.questions.map((q, i) => {
+                      const answer = responses[q.id];
+                      const key = finalResult.solutionKey![q.id];
+                      const correct = answer === undefined ? false : isAnswerCorrect(q, key, answer);
+                      const keyText = formatAnswerKey(q, key);
+                      return (
+                        <div key={q.id} className="p-4 rounded-2xl border border-zinc-100 space-y-1 text-sm">
+                          <p className="font-medium">{i + 1}. {q.text}</p>
+                          <p className={cn("whitespace-pre-wrap", correct === null ? "text-zinc-700" : correct ? "text-emerald-600" : "text-red-500")}>
+                            Your answer: {formatAnswer(q, answer)}
+                          </p>
+                          {correct === null && <p className="text-zinc-500">Awaiting marking by your examiner.</p>}
+                          {correct !== true && keyText && (
+                            <p className="text-zinc-500 whitespace-pre-wrap">{questionType(q) === 'short_answer' ? 'Model answer' : 'Correct answer'}: {keyText}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-xs text-zinc-400">
+                    {finalResult.answersAvailableAt
+                      ? `Correct answers will be released after ${new Date(finalResult.answersAvailableAt).toLocaleString()}.`
+                      : "Correct answers are not released for this exam."}
+                  </p>
+                )}
+
                 <div className="pt-8 border-t border-zinc-100">
                   <Button className="w-full py-4 text-lg" onClick={() => window.location.reload()}>
                     Return to Home
@@ -890,8 +1021,47 @@ export default function App() {
         </AnimatePresence>
       </main>
 
+      {/* Proctoring Warning */}
+      <AnimatePresence>
+        {view === 'exam' && proctoring.warning && (
+          <motion.div
+            key="proctoring-warning"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-6"
+          >
+            <Card className="max-w-md w-full p-8 space-y-6 text-center">
+              <div className="w-16 h-16 rounded-full bg-amber-100 text-amber-600 flex items-center justify-center mx-auto">
+                <AlertTriangle className="w-8 h-8" />
+              </div>
+              <div className="space-y-2">
+                <h2 className="text-2xl font-bold tracking-tight">
+                  Warning {proctoring.warning.count} of {proctoring.warning.allowed}
+                </h2>
+                <p className="text-zinc-500">
+                  {PROCTORING_EVENT_LABELS[proctoring.warning.event]} was recorded as a violation.
+                  {proctoring.warning.count === proctoring.warning.allowed
+                    ? ' One more violation will end your examination.'
+                    : ` Your examination ends after ${proctoring.warning.allowed} warnings.`}
+                </p>
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => {
+                  if (proctoring.requiresFullscreen && !proctoring.isFullscreen) proctoring.enterFullscreen();
+                  proctoring.dismissWarning();
+                }}
+              >
+                {proctoring.requiresFullscreen && !proctoring.isFullscreen ? 'Return to Fullscreen' : 'Continue Exam'}
+              </Button>
+            </Card>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Footer */}
-      <footer className="py-12 border-t border-black/5">
+      <footer className="py-12 border-t border-black/5 print:hidden">
         <div className="max-w-6xl mx-auto px-6 flex flex-col md:flex-row items-center justify-between gap-6">
           <div className="flex items-center gap-2 font-bold text-sm tracking-tight opacity-40">
             <Shield className="w-4 h-4" />
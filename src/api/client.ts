@@ -0,0 +1,67 @@
+// Generated from src/api/contract.ts by scripts/generate-api-client.ts. Do not edit by hand;
+// run `npm run generate:api` after changing the contract.
+
+import { api, type Api, type RequestBody, type RequestQuery } from './contract';
+import { endpointUrl, request, type PathParam } from './request';
+
+export { ApiError, errorMessage } from './request';
+
+export const register = (body: RequestBody<Api['register']>) => request(api.register, {}, { body });
+export const login = (body: RequestBody<Api['login']>) => request(api.login, {}, { body });
+export const logout = () => request(api.logout);
+export const getCurrentExaminer = () => request(api.getCurrentExaminer);
+export const listExams = () => request(api.listExams);
+export const extractQuestions = (body: Blob) => request(api.extractQuestions, {}, { body });
+export const saveExam = (body: RequestBody<Api['saveExam']>) => request(api.saveExam, {}, { body });
+export const getManagedExam = (id: PathParam) => request(api.getManagedExam, { id });
+export const publishExam = (id: PathParam) => request(api.publishExam, { id });
+export const openExam = (id: PathParam) => request(api.openExam, { id });
+export const closeExam = (id: PathParam) => request(api.closeExam, { id });
+export const extendExam = (id: PathParam, body: RequestBody<Api['extendExam']>) => request(api.extendExam, { id }, { body });
+export const archiveExam = (id: PathParam) => request(api.archiveExam, { id });
+export const listResults = (id: PathParam, query: RequestQuery<Api['listResults']> = {}) => request(api.listResults, { id }, { query });
+export const exportResultsUrl = (id: PathParam, query: RequestQuery<Api['exportResults']> = {}) => endpointUrl(api.exportResults, { id }, query);
+export const classReportUrl = (id: PathParam, query: RequestQuery<Api['classReport']> = {}) => endpointUrl(api.classReport, { id }, query);
+export const resultReportUrl = (id: PathParam, resultId: PathParam) => endpointUrl(api.resultReport, { id, resultId });
+export const getResult = (id: PathParam, resultId: PathParam) => request(api.getResult, { id, resultId });
+export const gradeAnswer = (id: PathParam, resultId: PathParam, body: RequestBody<Api['gradeAnswer']>) => request(api.gradeAnswer, { id, resultId }, { body });
+export const getGradingQueue = (id: PathParam) => request(api.getGradingQueue, { id });
+export const getAnalysis = (id: PathParam, query: RequestQuery<Api['getAnalysis']> = {}) => request(api.getAnalysis, { id }, { query });
+export const getAnswerKey = (id: PathParam) => request(api.getAnswerKey, { id });
+export const listKeyRevisions = (id: PathParam) => request(api.listKeyRevisions, { id });
+export const reviseAnswerKey = (id: PathParam, body: RequestBody<Api['reviseAnswerKey']>) => request(api.reviseAnswerKey, { id }, { body });
+export const getExamRoster = (id: PathParam) => request(api.getExamRoster, { id });
+export const enrollStudents = (id: PathParam, body: RequestBody<Api['enrollStudents']>) => request(api.enrollStudents, { id }, { body });
+export const removeFromRoster = (id: PathParam, studentId: PathParam) => request(api.removeFromRoster, { id, studentId });
+export const reissueAccessCode = (id: PathParam, studentId: PathParam) => request(api.reissueAccessCode, { id, studentId });
+export const getNotifications = (id: PathParam) => request(api.getNotifications, { id });
+export const saveNotificationSettings = (id: PathParam, body: RequestBody<Api['saveNotificationSettings']>) => request(api.saveNotificationSettings, { id }, { body });
+export const retryNotification = (id: PathParam, messageId: PathParam) => request(api.retryNotification, { id, messageId });
+export const getLiveAttempts = (id: PathParam) => request(api.getLiveAttempts, { id });
+export const monitorStreamUrl = (id: PathParam) => endpointUrl(api.monitorStream, { id });
+export const broadcast = (id: PathParam, body: RequestBody<Api['broadcast']>) => request(api.broadcast, { id }, { body });
+export const extendAttempt = (id: PathParam, attemptId: PathParam, body: RequestBody<Api['extendAttempt']>) => request(api.extendAttempt, { id, attemptId }, { body });
+export const forceSubmit = (id: PathParam, attemptId: PathParam) => request(api.forceSubmit, { id, attemptId });
+export const listIntegrity = (id: PathParam) => request(api.listIntegrity, { id });
+export const getIntegrityReport = (id: PathParam, attemptId: PathParam) => request(api.getIntegrityReport, { id, attemptId });
+export const getExam = (id: PathParam) => request(api.getExam, { id });
+export const getAnswers = (id: PathParam, query: RequestQuery<Api['getAnswers']> = {}) => request(api.getAnswers, { id }, { query });
+export const startAttempt = (body: RequestBody<Api['startAttempt']>) => request(api.startAttempt, {}, { body });
+export const getAttempt = (id: PathParam) => request(api.getAttempt, { id });
+export const saveAnswers = (id: PathParam, body: RequestBody<Api['saveAnswers']>) => request(api.saveAnswers, { id }, { body });
+export const startBreak = (id: PathParam) => request(api.startBreak, { id });
+export const endBreak = (id: PathParam) => request(api.endBreak, { id });
+export const attemptStreamUrl = (id: PathParam) => endpointUrl(api.attemptStream, { id });
+export const recordEvents = (id: PathParam, body: RequestBody<Api['recordEvents']>) => request(api.recordEvents, { id }, { body });
+export const submit = (body: RequestBody<Api['submit']>) => request(api.submit, {}, { body });
+export const listBankQuestions = (query: RequestQuery<Api['listBankQuestions']> = {}) => request(api.listBankQuestions, {}, { query });
+export const addBankQuestions = (body: RequestBody<Api['addBankQuestions']>) => request(api.addBankQuestions, {}, { body });
+export const updateBankQuestion = (id: PathParam, body: RequestBody<Api['updateBankQuestion']>) => request(api.updateBankQuestion, { id }, { body });
+export const deleteBankQuestion = (id: PathParam) => request(api.deleteBankQuestion, { id });
+export const listStudents = (query: RequestQuery<Api['listStudents']> = {}) => request(api.listStudents, {}, { query });
+export const importStudents = (body: RequestBody<Api['importStudents']>) => request(api.importStudents, {}, { body });
+export const setAccommodations = (id: PathParam, body: RequestBody<Api['setAccommodations']>) => request(api.setAccommodations, { id }, { body });
+export const listTemplates = () => request(api.listTemplates);
+export const saveTemplate = (kind: PathParam, body: RequestBody<Api['saveTemplate']>) => request(api.saveTemplate, { kind }, { body });
+export const resetTemplate = (kind: PathParam) => request(api.resetTemplate, { kind });
+export const verifyReport = (code: PathParam) => request(api.verifyReport, { code });
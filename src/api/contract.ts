@@ -0,0 +1,230 @@
+import {
+  accommodations, answer, answerReleasePolicy, attemptSession, bankQuestion, broadcast, examAnalysis, examinerExam, examiner, exam, examDraft,
+  examResult, examResultDetail, examSummary, integrityReport, integritySummary, keyRevision, liveAttempt, notificationSettings,
+  notificationTemplate, outboxMessage, partialCredit, pendingGrade, question, reportRecord, reviewFlags, revisableQuestion, rosterEntry,
+  solutionKey, student, submissionResult, answerKey,
+} from './schemas';
+import { array, boolean, nullable, number, object, oneOf, optional, record, string, unknown, type Infer, type Schema } from '../lib/schema';
+
+// Every route the server answers, with the shape of what it takes and what it sends back. The server checks requests
+// against it and the client in src/api/client.ts is generated from it, so the two are always built from the same table.
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface Endpoint {
+  method: Method;
+  path: string; // as mounted in Express, with :params
+  body?: Schema<unknown>;
+  upload?: string; // content type of a raw request body, sent instead of JSON
+  query?: Schema<unknown>;
+  // A file to download and a Server-Sent Events stream are opened by URL rather than fetched as JSON
+  response: Schema<unknown> | 'download' | 'stream';
+}
+
+export type RequestBody<E extends Endpoint> = E['body'] extends Schema<unknown> ? Infer<E['body']> : never;
+export type RequestQuery<E extends Endpoint> = E['query'] extends Schema<unknown> ? Infer<E['query']> : never;
+export type ResponseBody<E extends Endpoint> = E['response'] extends Schema<unknown> ? Infer<E['response']> : never;
+
+// Every 4xx and 5xx response has this body; a few add fields of their own
+export const apiError = object({ error: string(), details: optional(array(string())) });
+
+const success = object({ success: oneOf([true]) });
+
+// Query values arrive as text
+const resultFilter = { class: optional(string()), from: optional(string()), to: optional(string()) };
+
+const notificationsView = object({ settings: notificationSettings, outbox: array(outboxMessage) });
+
+// Deeper rules (ranges, schedules, policies) are left to the server's own parsers, which explain them in the examiner's terms
+export const examInput = object({
+  id: string({ min: 1, max: 64 }),
+  title: string({ max: 200 }),
+  durationMinutes: number({ integer: true, min: 1 }),
+  questions: optional(array(question)),
+  solutionKey: optional(solutionKey),
+  flags: optional(reviewFlags),
+  partialCredit: optional(partialCredit),
+  answerRelease: optional(answerReleasePolicy),
+  opensAt: optional(nullable(string())),
+  closesAt: optional(nullable(string())),
+  joinCutoffMinutes: optional(nullable(number())),
+  maxAttempts: optional(nullable(number())),
+  proctoring: optional(unknown()), // parseProctoringPolicy
+  scoring: optional(unknown()), // parseScoringRules
+  shuffle: optional(unknown()), // parseShufflePolicy
+  blueprint: optional(unknown()), // parseBlueprint
+});
+
+const tags = object({ subject: optional(string()), topic: optional(string()), difficulty: optional(nullable(string())) });
+
+export const api = {
+  // Examiner accounts
+  register: {
+    method: 'POST', path: '/api/auth/register',
+    body: object({ name: string({ min: 1 }), email: string({ min: 1 }), password: string() }),
+    response: examiner,
+  },
+  login: { method: 'POST', path: '/api/auth/login', body: object({ email: string(), password: string() }), response: examiner },
+  logout: { method: 'POST', path: '/api/auth/logout', response: success },
+  getCurrentExaminer: { method: 'GET', path: '/api/auth/me', response: examiner },
+
+  // Exams, as their owner manages them
+  listExams: { method: 'GET', path: '/api/exams', response: array(examSummary) },
+  extractQuestions: { method: 'POST', path: '/api/exams/extract', upload: 'application/pdf', response: examDraft },
+  saveExam: { method: 'POST', path: '/api/exams', body: examInput, response: success },
+  getManagedExam: { method: 'GET', path: '/api/exams/:id/manage', response: examinerExam },
+  publishExam: { method: 'POST', path: '/api/exams/:id/publish', response: success },
+  openExam: { method: 'POST', path: '/api/exams/:id/open', response: examSummary },
+  closeExam: { method: 'POST', path: '/api/exams/:id/close', response: examSummary },
+  extendExam: { method: 'POST', path: '/api/exams/:id/extend', body: object({ closesAt: string() }), response: examSummary },
+  archiveExam: { method: 'POST', path: '/api/exams/:id/archive', response: examSummary },
+
+  // Results and reports
+  listResults: { method: 'GET', path: '/api/exams/:id/results', query: object(resultFilter), response: array(examResult) },
+  exportResults: {
+    method: 'GET', path: '/api/exams/:id/results/export',
+    query: object({ ...resultFilter, format: optional(oneOf(['csv', 'xlsx'])), sheet: optional(oneOf(['attempts', 'responses'])) }),
+    response: 'download',
+  },
+  classReport: { method: 'GET', path: '/api/exams/:id/results/report', query: object(resultFilter), response: 'download' },
+  resultReport: { method: 'GET', path: '/api/exams/:id/results/:resultId/report', response: 'download' },
+  getResult: { method: 'GET', path: '/api/exams/:id/results/:resultId', response: examResultDetail },
+  gradeAnswer: {
+    method: 'PUT', path: '/api/exams/:id/results/:resultId/grades',
+    body: object({ questionId: string(), marksAwarded: number() }),
+    response: examResult,
+  },
+  getGradingQueue: { method: 'GET', path: '/api/exams/:id/grading-queue', response: array(pendingGrade) },
+  getAnalysis: { method: 'GET', path: '/api/exams/:id/analysis', query: object(resultFilter), response: examAnalysis },
+
+  // Answer-key corrections after publishing
+  getAnswerKey: { method: 'GET', path: '/api/exams/:id/answer-key', response: array(revisableQuestion) },
+  listKeyRevisions: { method: 'GET', path: '/api/exams/:id/key-revisions', response: array(keyRevision) },
+  reviseAnswerKey: {
+    method: 'POST', path: '/api/exams/:id/key-revisions',
+    body: object({
+      questionId: string(),
+      solutionKey: optional(unknown()), // checked against the question by checkCorrectedKey
+      voided: optional(boolean()),
+      reason: optional(string()),
+      notify: optional(boolean()),
+    }),
+    response: keyRevision,
+  },
+
+  // Who sits an exam
+  getExamRoster: { method: 'GET', path: '/api/exams/:id/roster', response: array(rosterEntry) },
+  enrollStudents: {
+    method: 'POST', path: '/api/exams/:id/roster',
+    body: object({ csv: optional(string()), class: optional(string()), studentIds: optional(array(number({ integer: true }))) }),
+    response: array(rosterEntry),
+  },
+  removeFromRoster: { method: 'DELETE', path: '/api/exams/:id/roster/:studentId', response: success },
+  reissueAccessCode: { method: 'POST', path: '/api/exams/:id/roster/:studentId/reissue', response: rosterEntry },
+
+  // Emails about an exam
+  getNotifications: { method: 'GET', path: '/api/exams/:id/notifications', response: notificationsView },
+  saveNotificationSettings: {
+    method: 'PUT', path: '/api/exams/:id/notifications',
+    body: object({ examiner: oneOf(['each', 'digest', 'none']), students: boolean(), attachReports: optional(boolean()) }),
+    response: notificationsView,
+  },
+  retryNotification: { method: 'POST', path: '/api/exams/:id/notifications/:messageId/retry', response: outboxMessage },
+
+  // The live monitor
+  getLiveAttempts: { method: 'GET', path: '/api/exams/:id/monitor', response: array(liveAttempt) },
+  monitorStream: { method: 'GET', path: '/api/exams/:id/monitor/stream', response: 'stream' },
+  broadcast: { method: 'POST', path: '/api/exams/:id/monitor/broadcast', body: object({ message: string() }), response: broadcast },
+  extendAttempt: {
+    method: 'POST', path: '/api/exams/:id/monitor/:attemptId/extend',
+    body: object({ minutes: number({ integer: true }) }),
+    response: liveAttempt,
+  },
+  forceSubmit: { method: 'POST', path: '/api/exams/:id/monitor/:attemptId/submit', response: success },
+
+  // Integrity reports
+  listIntegrity: { method: 'GET', path: '/api/exams/:id/integrity', response: array(integritySummary) },
+  getIntegrityReport: { method: 'GET', path: '/api/exams/:id/integrity/:attemptId', response: integrityReport },
+
+  // What students see of an exam
+  getExam: { method: 'GET', path: '/api/exams/:id', response: exam },
+  getAnswers: {
+    method: 'GET', path: '/api/exams/:id/answers',
+    query: object({ attemptId: optional(string()) }),
+    response: object({ solutionKey }),
+  },
+
+  // A student's attempt
+  startAttempt: {
+    method: 'POST', path: '/api/attempts',
+    body: object({ examId: string(), accessCode: optional(string()), studentName: optional(string()), studentClass: optional(string()) }),
+    response: attemptSession,
+  },
+  getAttempt: { method: 'GET', path: '/api/attempts/:id', response: attemptSession },
+  saveAnswers: {
+    method: 'PUT', path: '/api/attempts/:id/answers',
+    body: object({ answers: optional(record(nullable(answer))), currentQuestionIdx: optional(number({ integer: true })) }),
+    response: object({ success: oneOf([true]), savedAt: number() }),
+  },
+  startBreak: { method: 'POST', path: '/api/attempts/:id/break', response: attemptSession },
+  endBreak: { method: 'POST', path: '/api/attempts/:id/resume', response: attemptSession },
+  attemptStream: { method: 'GET', path: '/api/attempts/:id/stream', response: 'stream' },
+  recordEvents: {
+    method: 'POST', path: '/api/attempts/:id/events',
+    body: object({ events: array(unknown()) }), // recordIntegrityEvents explains what is wrong with an event
+    response: object({ success: oneOf([true]), violationCount: number(), terminated: boolean() }),
+  },
+  submit: {
+    method: 'POST', path: '/api/submit',
+    body: object({ attemptId: string({ min: 1 }), events: optional(array(unknown())) }),
+    response: submissionResult,
+  },
+
+  // The question bank
+  listBankQuestions: {
+    method: 'GET', path: '/api/bank',
+    query: object({ subject: optional(string()), topic: optional(string()), difficulty: optional(string()) }),
+    response: array(bankQuestion),
+  },
+  addBankQuestions: {
+    method: 'POST', path: '/api/bank',
+    body: object({ questions: array(question), solutionKey: optional(solutionKey), partialCredit: optional(partialCredit), tags: optional(tags) }),
+    response: array(bankQuestion),
+  },
+  updateBankQuestion: {
+    method: 'PUT', path: '/api/bank/:id',
+    body: object({
+      question: optional(question),
+      answerKey: optional(nullable(answerKey)),
+      partialCredit: optional(partialCredit),
+      tags: optional(tags),
+    }),
+    response: bankQuestion,
+  },
+  deleteBankQuestion: { method: 'DELETE', path: '/api/bank/:id', response: success },
+
+  // The examiner's students
+  listStudents: { method: 'GET', path: '/api/roster', query: object({ class: optional(string()) }), response: array(student) },
+  importStudents: { method: 'POST', path: '/api/roster', body: object({ csv: string() }), response: array(student) },
+  setAccommodations: {
+    method: 'PUT', path: '/api/roster/:id/accommodations',
+    body: object({ accommodations: optional(nullable(accommodations)) }), // none resets to standard
+    response: student,
+  },
+
+  // Email templates
+  listTemplates: { method: 'GET', path: '/api/notifications/templates', response: array(notificationTemplate) },
+  saveTemplate: {
+    method: 'PUT', path: '/api/notifications/templates/:kind',
+    body: object({ subject: string(), text: string(), html: string() }),
+    response: notificationTemplate,
+  },
+  resetTemplate: { method: 'DELETE', path: '/api/notifications/templates/:kind', response: notificationTemplate },
+
+  // Checking a printed report
+  verifyReport: { method: 'GET', path: '/api/reports/:code', response: reportRecord },
+} satisfies Record<string, Endpoint>;
+
+export type Api = typeof api;
+export type EndpointName = keyof Api;
+
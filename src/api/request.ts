@@ -0,0 +1,45 @@
+import { parse, SchemaError, type Schema } from '../lib/schema';
+import type { Endpoint, ResponseBody } from './contract';
+
+// A request the server turned down, with its explanation. `body` keeps any extra fields it sent, such as `opensAt`.
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly details: string[] = [], readonly body: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+// What to show the user when a request fails: the server's message and every detail it gave, or `fallback` when
+// the request never got an answer
+export function errorMessage(error: unknown, fallback: string) {
+  return error instanceof ApiError ? [error.message, ...error.details].join('\n') : fallback;
+}
+
+export type PathParam = string | number;
+type Query = Record<string, string | undefined>;
+
+export function endpointUrl(endpoint: Endpoint, params: Record<string, PathParam> = {}, query: Query = {}) {
+  const path = endpoint.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params[name])));
+  const search = new URLSearchParams(Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])).toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// Sends one request and returns the response body once it has been checked against the contract
+export async function request<E extends Endpoint>(
+  endpoint: E, params: Record<string, PathParam> = {}, { body, query }: { body?: unknown; query?: Query } = {},
+): Promise<ResponseBody<E>> {
+  const res = await fetch(endpointUrl(endpoint, params, query), {
+    method: endpoint.method,
+    headers: body === undefined ? undefined : { 'Content-Type': endpoint.upload ?? 'application/json' },
+    body: body === undefined ? undefined : endpoint.upload ? (body as Blob) : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, data?.error ?? `The server answered with status ${res.status}`, data?.details ?? [], data ?? {});
+  }
+  try {
+    return parse(endpoint.response as Schema<ResponseBody<E>>, data, 'response');
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    throw new ApiError(res.status, 'The server sent something this page does not understand. Reload the page and try again.', error.details, data);
+  }
+}
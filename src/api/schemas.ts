@@ -0,0 +1,375 @@
+import type {
+  Accommodations, Answer, AnswerKey, AnswerReleasePolicy, AttemptSession, BankQuestion, BlueprintSection, Broadcast, ChoiceQuestion, ExamAnalysis,
+  Exam, ExamBlueprint, ExamDraft, ExaminerExam, Examiner, ExamLifecycle, ExamResult, ExamResultDetail, ExamStatus, ExamSummary, GradeBand,
+  IntegrityEvent, IntegrityEventInput, IntegrityReport, IntegritySummary, ItemAnalysis, KeyRevision, LiveAttempt, NotificationKind,
+  NotificationSettings, NotificationTemplate, NumericKey, OpenQuestion, OutboxMessage, PendingGrade, ProctoringPolicy, Question, QuestionResponse,
+  ReportRecord, ResultStatus, RevisableQuestion, RosterEntry, ScoreChange, ScoringRules, ShortAnswerKey, ShufflePolicy, Student, SubmissionResult,
+  TextKey,
+} from '../types';
+import { DIFFICULTIES, QUESTION_TYPES } from '../lib/questions';
+import { PROCTORING_EVENTS } from '../lib/proctoring';
+import { array, boolean, nullable, number, object, oneOf, optional, pick, record, string, union, type Schema } from '../lib/schema';
+
+// One schema per shape in src/types.ts that crosses the wire, named after the type it checks
+
+const timestamp = number();
+
+export const questionType = oneOf(QUESTION_TYPES);
+const OPEN_QUESTION_TYPES = ['numeric', 'fill_blank', 'short_answer'] as const;
+
+const questionShape = {
+  id: string({ min: 1 }),
+  text: string(),
+  marks: optional(number({ min: 0 })),
+  negativeMarking: optional(number({ min: 0, max: 1 })),
+};
+
+export const choiceQuestion: Schema<ChoiceQuestion> = object({
+  ...questionShape,
+  type: optional(oneOf(['single_choice', 'multiple_choice', 'true_false'])),
+  options: array(string()),
+});
+
+export const openQuestion: Schema<OpenQuestion> = object({ ...questionShape, type: oneOf(OPEN_QUESTION_TYPES) });
+
+export const question: Schema<Question> = pick<Question>(value =>
+  (OPEN_QUESTION_TYPES as readonly unknown[]).includes(value.type) ? openQuestion : choiceQuestion
+);
+
+export const numericKey: Schema<NumericKey> = object({ value: number(), tolerance: number({ min: 0 }) });
+export const textKey: Schema<TextKey> = object({ accepted: array(string()), caseSensitive: boolean() });
+export const shortAnswerKey: Schema<ShortAnswerKey> = object({ modelAnswer: string() });
+
+export const answerKey: Schema<AnswerKey> = union(
+  'an option, a list of options, a numeric key, accepted answers or a model answer',
+  number({ integer: true, min: 0 }), array(number({ integer: true, min: 0 })), numericKey, textKey, shortAnswerKey
+);
+
+export const solutionKey = record(answerKey);
+
+export const answer: Schema<Answer> = union('an option, a list of options, a number or text', number(), array(number()), string());
+
+export const responses = record(answer);
+
+export const partialCredit = record(record(number({ min: 0, max: 1 })));
+
+export const reviewFlags = record(array(string()));
+
+export const examDraft: Schema<ExamDraft> = object({
+  questions: array(question),
+  solutionKey,
+  flags: reviewFlags,
+  partialCredit: optional(partialCredit),
+});
+
+export const examStatus: Schema<ExamStatus> = oneOf(['draft', 'published', 'archived']);
+export const examLifecycle: Schema<ExamLifecycle> = oneOf(['draft', 'scheduled', 'open', 'closed', 'archived']);
+export const answerReleasePolicy: Schema<AnswerReleasePolicy> = oneOf(['never', 'after_close', 'immediate']);
+
+export const proctoringPolicy: Schema<ProctoringPolicy> = object({
+  events: array(oneOf(PROCTORING_EVENTS)),
+  maxViolations: number({ integer: true }),
+  gracePeriodSeconds: number(),
+});
+
+export const gradeBand: Schema<GradeBand> = object({ grade: string(), minPercentage: number() });
+
+export const scoringRules: Schema<ScoringRules> = object({
+  negativeMarking: number(),
+  unanswered: oneOf(['zero', 'penalize']),
+  passPercentage: number(),
+  gradeBands: array(gradeBand),
+});
+
+export const shufflePolicy: Schema<ShufflePolicy> = object({ questions: boolean(), options: boolean() });
+
+export const difficulty = oneOf(DIFFICULTIES);
+
+export const blueprintSection: Schema<BlueprintSection> = object({
+  subject: optional(string()),
+  topic: optional(string()),
+  difficulty: optional(difficulty),
+  count: number({ integer: true }),
+});
+
+export const examBlueprint: Schema<ExamBlueprint> = object({ sections: array(blueprintSection) });
+
+const examShape = {
+  id: string({ min: 1 }),
+  title: string(),
+  questions: array(question),
+  questionCount: optional(number({ integer: true })),
+  durationMinutes: number(),
+  answerRelease: optional(answerReleasePolicy),
+  opensAt: optional(nullable(string())),
+  closesAt: optional(nullable(string())),
+  rosterRequired: optional(boolean()),
+  proctoring: optional(proctoringPolicy),
+  scoring: optional(scoringRules),
+};
+
+export const exam: Schema<Exam> = object(examShape);
+
+export const examinerExam: Schema<ExaminerExam> = object({
+  ...examShape,
+  solutionKey,
+  flags: reviewFlags,
+  partialCredit: optional(partialCredit),
+  status: examStatus,
+  lifecycle: examLifecycle,
+  blueprint: nullable(examBlueprint),
+  shuffle: shufflePolicy,
+  joinCutoffMinutes: nullable(number()),
+  maxAttempts: nullable(number()),
+});
+
+export const examSummary: Schema<ExamSummary> = object({
+  id: string(),
+  title: string(),
+  status: examStatus,
+  lifecycle: examLifecycle,
+  opensAt: nullable(string()),
+  closesAt: nullable(string()),
+  durationMinutes: number(),
+  questionCount: number(),
+});
+
+export const bankQuestion: Schema<BankQuestion> = object({
+  id: string(),
+  subject: string(),
+  topic: string(),
+  difficulty: nullable(difficulty),
+  question,
+  answerKey: nullable(answerKey),
+  partialCredit: record(number()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const accommodations: Schema<Accommodations> = object({
+  timeMultiplier: number(),
+  breakMinutes: number(),
+  proctoringExempt: boolean(),
+});
+
+const studentShape = {
+  id: number({ integer: true }),
+  studentNumber: string(),
+  name: string(),
+  studentClass: string(),
+  email: nullable(string()),
+  accommodations,
+};
+
+export const student: Schema<Student> = object(studentShape);
+
+export const rosterEntry: Schema<RosterEntry> = object({ ...studentShape, accessCode: string(), usedAt: nullable(timestamp) });
+
+export const attemptSession: Schema<AttemptSession> = object({
+  attemptId: string(),
+  exam,
+  studentName: string(),
+  studentClass: string(),
+  startedAt: timestamp,
+  deadline: timestamp,
+  serverNow: timestamp,
+  status: oneOf(['active', 'submitted']),
+  responses,
+  currentQuestionIdx: number({ integer: true }),
+  accommodations,
+  breakStartedAt: nullable(timestamp),
+  breakRemainingMs: number(),
+});
+
+export const resultStatus: Schema<ResultStatus> = oneOf(['PASS', 'FAIL']);
+
+export const submissionResult: Schema<SubmissionResult> = object({
+  score: number(),
+  totalMarks: number(),
+  terminated: boolean(),
+  resultStatus: optional(resultStatus),
+  pendingReview: optional(number()),
+  late: optional(boolean()),
+  solutionKey: optional(solutionKey),
+  answersAvailableAt: optional(nullable(string())),
+});
+
+const examResultShape = {
+  id: number({ integer: true }),
+  attemptId: nullable(string()),
+  studentId: nullable(number({ integer: true })),
+  studentName: string(),
+  studentClass: string(),
+  score: number(),
+  totalMarks: number(),
+  percentage: number(),
+  resultStatus,
+  grade: nullable(string()),
+  pendingReview: number(),
+  terminated: boolean(),
+  late: boolean(),
+  timestamp: string(),
+};
+
+export const examResult: Schema<ExamResult> = object(examResultShape);
+
+export const questionResponse: Schema<QuestionResponse> = object({
+  questionId: string(),
+  type: questionType,
+  text: string(),
+  answer: nullable(answer),
+  answerText: string(),
+  correctAnswerText: string(),
+  isCorrect: nullable(boolean()),
+  marks: number(),
+  marksAwarded: number(),
+});
+
+export const examResultDetail: Schema<ExamResultDetail> = object({ ...examResultShape, responses: array(questionResponse) });
+
+export const revisableQuestion: Schema<RevisableQuestion> = object({
+  question,
+  originalKey: nullable(answerKey),
+  solutionKey: nullable(answerKey),
+  voided: boolean(),
+});
+
+export const scoreChange: Schema<ScoreChange> = object({
+  resultId: number({ integer: true }),
+  studentName: string(),
+  studentClass: string(),
+  previousScore: number(),
+  newScore: number(),
+  previousTotalMarks: number(),
+  newTotalMarks: number(),
+  previousStatus: nullable(resultStatus),
+  newStatus: nullable(resultStatus),
+});
+
+export const keyRevision: Schema<KeyRevision> = object({
+  id: number({ integer: true }),
+  questionId: string(),
+  previousKey: nullable(answerKey),
+  newKey: nullable(answerKey),
+  previouslyVoided: boolean(),
+  voided: boolean(),
+  reason: string(),
+  revisedAt: timestamp,
+  regradedCount: number(),
+  changes: array(scoreChange),
+});
+
+export const notificationKind: Schema<NotificationKind> = oneOf(['result', 'student_result', 'digest', 'key_revision']);
+
+export const notificationSettings: Schema<NotificationSettings> = object({
+  examiner: oneOf(['each', 'digest', 'none']),
+  students: boolean(),
+  attachReports: boolean(),
+});
+
+export const notificationTemplate: Schema<NotificationTemplate> = object({
+  kind: notificationKind,
+  subject: string(),
+  text: string(),
+  html: string(),
+  variables: array(string()),
+  customized: boolean(),
+});
+
+export const outboxMessage: Schema<OutboxMessage> = object({
+  id: number({ integer: true }),
+  kind: notificationKind,
+  recipient: string(),
+  subject: string(),
+  status: oneOf(['pending', 'sent', 'failed']),
+  attempts: number(),
+  lastError: nullable(string()),
+  nextAttemptAt: nullable(timestamp),
+  createdAt: timestamp,
+  sentAt: nullable(timestamp),
+  attachments: array(string()),
+});
+
+export const reportRecord: Schema<ReportRecord> = object({
+  code: string(),
+  kind: oneOf(['result_sheet', 'class_summary']),
+  examId: string(),
+  examTitle: string(),
+  description: string(),
+  fingerprint: string(),
+  issuedAt: timestamp,
+});
+
+export const pendingGrade: Schema<PendingGrade> = object({
+  resultId: number({ integer: true }),
+  studentName: string(),
+  studentClass: string(),
+  questionId: string(),
+  questionText: string(),
+  answer: string(),
+  modelAnswer: string(),
+  marks: number(),
+});
+
+export const itemAnalysis: Schema<ItemAnalysis> = object({
+  questionId: string(),
+  type: questionType,
+  text: string(),
+  options: array(string()),
+  correctOption: nullable(number()),
+  correctOptions: array(number()),
+  difficulty: number(),
+  discrimination: nullable(number()),
+  optionCounts: array(number()),
+  omitted: number(),
+  flags: array(string()),
+});
+
+export const examAnalysis: Schema<ExamAnalysis> = object({
+  attemptCount: number(),
+  meanScore: number(),
+  totalMarks: number(),
+  kr20: nullable(number()),
+  items: array(itemAnalysis),
+});
+
+export const integrityEventType = oneOf([...PROCTORING_EVENTS, 'reconnect']);
+
+export const integrityEventInput: Schema<IntegrityEventInput> = object({
+  id: string({ min: 1, max: 64 }),
+  type: integrityEventType,
+  occurredAt: timestamp,
+});
+
+export const integrityEvent: Schema<IntegrityEvent> = object({ type: integrityEventType, occurredAt: timestamp, violation: boolean() });
+
+const integritySummaryShape = {
+  attemptId: string(),
+  studentName: string(),
+  studentClass: string(),
+  startedAt: timestamp,
+  submittedAt: nullable(timestamp),
+  terminated: boolean(),
+  violationCount: number(),
+  suspicionScore: number(),
+  suspicionLevel: oneOf(['low', 'medium', 'high']),
+};
+
+export const integritySummary: Schema<IntegritySummary> = object(integritySummaryShape);
+
+export const integrityReport: Schema<IntegrityReport> = object({ ...integritySummaryShape, events: array(integrityEvent) });
+
+export const liveAttempt: Schema<LiveAttempt> = object({
+  ...integritySummaryShape,
+  connected: boolean(),
+  currentQuestionIdx: number({ integer: true }),
+  answeredCount: number(),
+  questionCount: number(),
+  deadline: timestamp,
+  lastActivityAt: timestamp,
+  onBreak: boolean(),
+});
+
+export const broadcast: Schema<Broadcast> = object({ message: string(), sentAt: timestamp });
+
+export const examiner: Schema<Examiner> = object({ id: number({ integer: true }), name: string(), email: string() });
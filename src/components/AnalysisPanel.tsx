@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, PieChart, X } from 'lucide-react';
+import { ExamAnalysis } from '../types';
+import * as api from '../api/client';
+import { cn } from '../lib/utils';
+import { QUESTION_TYPE_LABELS } from '../lib/questions';
+import { Card } from './ui';
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="space-y-1" title={hint}>
+    <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">{label}</div>
+    <div className="text-2xl font-mono font-bold">{value}</div>
+  </div>
+);
+
+export const AnalysisPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [analysis, setAnalysis] = useState<ExamAnalysis | null>(null);
+
+  useEffect(() => {
+    setAnalysis(null);
+    api.getAnalysis(examId)
+      .catch(() => null)
+      .then(setAnalysis);
+  }, [examId]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <PieChart className="w-6 h-6" />
+            Item Analysis
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!analysis ? (
+        <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />
+      ) : (
+        <>
+          <Card className="p-6 grid grid-cols-3 gap-6">
+            <Stat label="Attempts" value={String(analysis.attemptCount)} hint="Terminated attempts are excluded" />
+            <Stat label="Mean Score" value={`${analysis.meanScore}/${analysis.totalMarks}`} />
+            <Stat
+              label="Reliability (KR-20)"
+              value={analysis.kr20 === null ? '—' : analysis.kr20.toFixed(2)}
+              hint="Internal consistency; 0.7 or higher is usually acceptable for classroom tests"
+            />
+          </Card>
+
+          {analysis.items.map((item, i) => {
+            // Multiple-select answers count once per option picked, so bars are shares of all picks
+            const answered = item.options.length ? item.optionCounts.reduce((sum, c) => sum + c, 0) + item.omitted : analysis.attemptCount;
+            return (
+              <Card key={item.questionId} className={cn("p-6 space-y-4", item.flags.length > 0 && "border-amber-300")}>
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm font-medium">{i + 1}. {item.text}</p>
+                  <div className="flex gap-4 shrink-0 text-xs font-mono text-zinc-500">
+                    <span title="Difficulty: share of students answering correctly">p = {item.difficulty.toFixed(2)}</span>
+                    <span title="Discrimination: upper minus lower group">D = {item.discrimination === null ? '—' : item.discrimination.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                {item.flags.length > 0 && (
+                  <div className="p-3 bg-amber-50 rounded-xl border border-amber-100 flex gap-2 text-xs text-amber-800">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                    <ul className="space-y-0.5">
+                      {item.flags.map(flag => <li key={flag}>{flag}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="space-y-1.5">
+                  {item.options.length === 0 && (
+                    <div className="text-xs text-zinc-400">{QUESTION_TYPE_LABELS[item.type]} &middot; {answered - item.omitted} answered</div>
+                  )}
+                  {item.options.map((option, optIdx) => {
+                    const share = answered ? item.optionCounts[optIdx] / answered : 0;
+                    const isKey = item.correctOptions.includes(optIdx);
+                    return (
+                      <div key={optIdx} className="flex items-center gap-3 text-xs">
+                        <span className={cn("w-5 font-bold", isKey ? "text-emerald-600" : "text-zinc-400")}>{String.fromCharCode(65 + optIdx)}</span>
+                        <div className="flex-1 h-5 bg-zinc-50 rounded-md overflow-hidden relative">
+                          <div className={cn("h-full", isKey ? "bg-emerald-200" : "bg-zinc-200")} style={{ width: `${share * 100}%` }} />
+                          <span className="absolute inset-0 px-2 flex items-center truncate">{option}</span>
+                        </div>
+                        <span className="w-8 text-right font-mono text-zinc-500">{item.optionCounts[optIdx]}</span>
+                      </div>
+                    );
+                  })}
+                  {item.omitted > 0 && (
+                    <div className="text-xs text-zinc-400 pl-8">{item.omitted} left unanswered</div>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, KeyRound, Loader2, Pencil, RotateCcw, X } from 'lucide-react';
+import { AnswerKey, KeyRevision, RevisableQuestion } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { cn } from '../lib/utils';
+import { QUESTION_TYPE_LABELS, formatAnswerKey, isChoiceQuestion, questionType } from '../lib/questions';
+import { OpenAnswerKeyEditor } from './QuestionEditor';
+import { Card, Button } from './ui';
+
+const selectedOptions = (key: AnswerKey | null | undefined) => (Array.isArray(key) ? key : typeof key === 'number' ? [key] : []);
+
+const sameKey = (a: AnswerKey | null | undefined, b: AnswerKey | null | undefined) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Corrects a published exam's key after students have sat it. Every saved result is regraded on the server,
+// and the history below keeps what each revision did to each student's score.
+export const AnswerKeyPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [questions, setQuestions] = useState<RevisableQuestion[] | null>(null);
+  const [revisions, setRevisions] = useState<KeyRevision[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftKey, setDraftKey] = useState<AnswerKey | undefined>(undefined);
+  const [reason, setReason] = useState('');
+  const [notify, setNotify] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = () => {
+    api.getAnswerKey(examId)
+      .catch(() => [])
+      .then(setQuestions);
+    api.listKeyRevisions(examId)
+      .catch(() => [])
+      .then(setRevisions);
+  };
+
+  useEffect(() => {
+    setQuestions(null);
+    setEditingId(null);
+    load();
+  }, [examId]);
+
+  const startEditing = (entry: RevisableQuestion) => {
+    setEditingId(entry.question.id);
+    setDraftKey(entry.solutionKey ?? undefined);
+    setReason('');
+  };
+
+  const revise = async (body: { questionId: string; solutionKey?: AnswerKey; voided?: boolean; reason: string }) => {
+    setIsSaving(true);
+    try {
+      const revision = await api.reviseAnswerKey(examId, { ...body, notify });
+      alert(`${revision.regradedCount} result(s) regraded; ${revision.changes.length} changed.`);
+      setEditingId(null);
+      load();
+    } catch (e) {
+      alert(errorMessage(e, "Could not reach the server. Check your connection."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleVoid = (entry: RevisableQuestion) => {
+    const reason = prompt(entry.voided
+      ? 'Restore this question so it counts again? Reason (optional):'
+      : 'Void this question so it no longer counts for anyone? Reason (optional):', '');
+    if (reason === null) return;
+    revise({ questionId: entry.question.id, voided: !entry.voided, reason });
+  };
+
+  // A single-answer question with more than one option selected accepts each of them
+  const toggleOption = (entry: RevisableQuestion, optionIdx: number) => {
+    const current = selectedOptions(draftKey);
+    const next = current.includes(optionIdx) ? current.filter(o => o !== optionIdx) : [...current, optionIdx].sort((a, b) => a - b);
+    const isMultiple = questionType(entry.question) === 'multiple_choice';
+    setDraftKey(next.length === 0 ? undefined : next.length === 1 && !isMultiple ? next[0] : next);
+  };
+
+  const questionNumber = (questionId: string) => (questions ?? []).findIndex(q => q.question.id === questionId) + 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <KeyRound className="w-6 h-6" />
+            Answer Key
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-zinc-500">
+            <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+            Email me each regrade
+          </label>
+          <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {!questions && <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />}
+      {questions?.length === 0 && (
+        <Card className="p-6">
+          <p className="text-sm text-zinc-500 text-center">No questions have been drawn for this exam yet.</p>
+        </Card>
+      )}
+      {questions?.map((entry, i) => {
+        const { question } = entry;
+        const isEditing = editingId === question.id;
+        return (
+          <Card key={question.id} className={cn("p-6 space-y-3 text-sm", entry.voided && "opacity-60")}>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1 min-w-0">
+                <p className="font-medium">{i + 1}. {question.text}</p>
+                <p className="text-xs text-zinc-400">
+                  {QUESTION_TYPE_LABELS[questionType(question)]}
+                  {entry.voided && <span className="ml-2 font-bold uppercase tracking-widest text-red-500">Voided</span>}
+                  {!sameKey(entry.solutionKey, entry.originalKey) && (
+                    <span className="ml-2 font-bold uppercase tracking-widest text-amber-600">Corrected</span>
+                  )}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {!entry.voided && (
+                  <button type="button" title="Correct the key" onClick={() => (isEditing ? setEditingId(null) : startEditing(entry))} className={cn("p-2 rounded-lg hover:bg-zinc-100", isEditing ? "text-black" : "text-zinc-400")}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+                <button type="button" title={entry.voided ? 'Restore question' : 'Void question'} disabled={isSaving} onClick={() => toggleVoid(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                  {entry.voided ? <RotateCcw className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+            <p className="text-zinc-500">
+              Key: {formatAnswerKey(question, entry.solutionKey ?? undefined) || 'None'}
+              {!sameKey(entry.solutionKey, entry.originalKey) && (
+                <span className="text-zinc-400"> (originally {formatAnswerKey(question, entry.originalKey ?? undefined) || 'none'})</span>
+              )}
+            </p>
+
+            {isEditing && (
+              <div className="pt-3 border-t border-zinc-100 space-y-3">
+                {isChoiceQuestion(question) ? (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      {question.options.map((option, optIdx) => (
+                        <button
+                          key={optIdx}
+                          type="button"
+                          role="checkbox"
+                          aria-checked={selectedOptions(draftKey).includes(optIdx)}
+                          onClick={() => toggleOption(entry, optIdx)}
+                          className={cn(
+                            "px-3 py-2 rounded-lg border text-sm",
+                            selectedOptions(draftKey).includes(optIdx) ? "bg-black text-white border-black" : "border-zinc-200 hover:border-zinc-400"
+                          )}
+                        >
+                          {String.fromCharCode(65 + optIdx)}. {option}
+                        </button>
+                      ))}
+                    </div>
+                    {questionType(question) !== 'multiple_choice' && (
+                      <p className="text-xs text-zinc-500">Select more than one option to accept each of them as correct.</p>
+                    )}
+                  </div>
+                ) : (
+                  <OpenAnswerKeyEditor q={question} answerKey={draftKey} onChange={setDraftKey} />
+                )}
+                <input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  placeholder="Reason for the correction (kept with the revision)"
+                  className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:border-black"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+                  <Button
+                    disabled={isSaving || draftKey === undefined || sameKey(draftKey, entry.solutionKey)}
+                    onClick={() => revise({ questionId: question.id, solutionKey: draftKey, reason })}
+                  >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save and Regrade
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+        );
+      })}
+
+      {revisions.length > 0 && (
+        <Card className="p-6 space-y-4 text-sm">
+          <h4 className="font-bold text-sm uppercase tracking-widest text-zinc-400">Revision History</h4>
+          {revisions.map(revision => {
+            const entry = questions?.find(q => q.question.id === revision.questionId);
+            const describe = (key: AnswerKey | null, voided: boolean) =>
+              voided ? 'voided' : entry ? formatAnswerKey(entry.question, key ?? undefined) || 'none' : JSON.stringify(key);
+            return (
+              <div key={revision.id} className="space-y-2 pb-4 border-b border-zinc-100 last:border-0 last:pb-0">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-medium">
+                    Question {questionNumber(revision.questionId) || revision.questionId}: {describe(revision.previousKey, revision.previouslyVoided)} &rarr; {describe(revision.newKey, revision.voided)}
+                  </p>
+                  <span className="text-xs text-zinc-400 shrink-0">{new Date(revision.revisedAt).toLocaleString()}</span>
+                </div>
+                {revision.reason && <p className="text-zinc-500">{revision.reason}</p>}
+                <p className="text-xs text-zinc-400">{revision.regradedCount} result(s) regraded &middot; {revision.changes.length} changed</p>
+                {revision.changes.length > 0 && (
+                  <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-1 text-xs">
+                    {revision.changes.map(change => (
+                      <React.Fragment key={change.resultId}>
+                        <span>{change.studentName} &middot; {change.studentClass}</span>
+                        <span className="font-mono">
+                          {change.previousScore}/{change.previousTotalMarks} &rarr; {change.newScore}/{change.newTotalMarks}
+                        </span>
+                        <span className={cn(change.previousStatus !== change.newStatus && (change.newStatus === 'PASS' ? "text-emerald-600" : "text-red-500"))}>
+                          {change.previousStatus === change.newStatus ? change.newStatus : `${change.previousStatus} → ${change.newStatus}`}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </Card>
+      )}
+    </div>
+  );
+};
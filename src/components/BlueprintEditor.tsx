@@ -0,0 +1,79 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlueprintSection, Difficulty, ExamBlueprint } from '../types';
+import { DIFFICULTIES } from '../lib/questions';
+
+const ANY = '';
+
+export const BlueprintEditor = ({
+  blueprint,
+  onChange
+}: {
+  blueprint: ExamBlueprint;
+  onChange: (blueprint: ExamBlueprint) => void;
+}) => {
+  const updateSection = (idx: number, patch: Partial<BlueprintSection>) => {
+    onChange({ sections: blueprint.sections.map((section, i) => (i === idx ? { ...section, ...patch } : section)) });
+  };
+
+  const total = blueprint.sections.reduce((sum, s) => sum + s.count, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium text-zinc-700">Blueprint</div>
+      <div className="text-xs text-zinc-500">
+        Every attempt draws its own questions from your bank. Leave a tag blank to match anything.
+      </div>
+      {blueprint.sections.map((section, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-sm">
+          <input
+            value={section.subject ?? ''}
+            onChange={(e) => updateSection(idx, { subject: e.target.value })}
+            placeholder="Subject"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+          />
+          <input
+            value={section.topic ?? ''}
+            onChange={(e) => updateSection(idx, { topic: e.target.value })}
+            placeholder="Topic"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+          />
+          <select
+            value={section.difficulty ?? ANY}
+            onChange={(e) => updateSection(idx, { difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+            className="px-3 py-2 rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-black"
+          >
+            <option value={ANY}>Any difficulty</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={section.count}
+            onChange={(e) => updateSection(idx, { count: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-20 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+          />
+          <button
+            type="button"
+            title="Remove section"
+            disabled={blueprint.sections.length === 1}
+            onClick={() => onChange({ sections: blueprint.sections.filter((_, i) => i !== idx) })}
+            className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100 disabled:opacity-30"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange({ sections: [...blueprint.sections, { count: 1 }] })}
+          className="text-xs font-medium text-zinc-500 hover:text-black flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add section
+        </button>
+        <span className="text-xs text-zinc-500">{total} questions per attempt</span>
+      </div>
+    </div>
+  );
+};
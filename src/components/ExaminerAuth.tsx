@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Loader2, Lock } from 'lucide-react';
+import { Examiner } from '../types';
+import * as api from '../api/client';
+import { ApiError, errorMessage } from '../api/client';
+import { Card, Button, Input } from './ui';
+
+export const ExaminerAuth = ({
+  onAuthenticated,
+  onBack
+}: {
+  onAuthenticated: (examiner: Examiner) => void;
+  onBack: () => void;
+}) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onAuthenticated(await (mode === 'register' ? api.register({ name, email, password }) : api.login({ email, password })));
+    } catch (err) {
+      if (!(err instanceof ApiError)) console.error(err);
+      setError(errorMessage(err, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      key="examiner-auth"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="max-w-md mx-auto space-y-8"
+    >
+      <div className="text-center space-y-2">
+        <h2 className="text-4xl font-bold tracking-tight">{mode === 'login' ? 'Examiner Sign In' : 'Create Account'}</h2>
+        <p className="text-zinc-500">
+          {mode === 'login' ? 'Sign in to manage your exams.' : 'Register to start publishing exams.'}
+        </p>
+      </div>
+
+      <Card className="p-8">
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          {mode === 'register' && (
+            <Input label="Full Name" value={name} onChange={setName} placeholder="Jane Smith" required />
+          )}
+          <Input label="Email" type="email" value={email} onChange={setEmail} placeholder="examiner@school.edu" required />
+          <Input label="Password" type="password" value={password} onChange={setPassword} required />
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <Button type="submit" className="w-full py-4 text-lg" disabled={isSubmitting}>
+            {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Lock className="w-5 h-5" />}
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </Button>
+
+          <div className="flex items-center justify-between pt-4 border-t border-zinc-100">
+            <Button variant="ghost" onClick={onBack}>Back</Button>
+            <button
+              type="button"
+              className="text-sm font-medium text-zinc-500 hover:text-black"
+              onClick={() => {
+                setMode(mode === 'login' ? 'register' : 'login');
+                setError(null);
+              }}
+            >
+              {mode === 'login' ? 'Need an account? Register' : 'Have an account? Sign in'}
+            </button>
+          </div>
+        </form>
+      </Card>
+    </motion.div>
+  );
+};
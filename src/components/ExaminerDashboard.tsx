@@ -0,0 +1,646 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Activity, Archive, BarChart3, CheckCircle2, ClipboardCheck, ClockPlus, FileText, KeyRound, Library, Loader2, Lock, LogOut, Mail, PieChart, Play, Plus, QrCode, Save, Send, ShieldAlert, Users } from 'lucide-react';
+import { AnswerReleasePolicy, BankQuestion, Exam, ExamBlueprint, ExamDraft, Examiner, ExamLifecycle, ExamSummary, ProctoringEvent, ProctoringPolicy, ScoringRules, ShufflePolicy } from '../types';
+import { cn, generateExamCode } from '../lib/utils';
+import { DEFAULT_PROCTORING_POLICY, PROCTORING_EVENTS, PROCTORING_EVENT_LABELS } from '../lib/proctoring';
+import { DEFAULT_SCORING_RULES } from '../lib/scoring';
+import * as api from '../api/client';
+import { ApiError, errorMessage } from '../api/client';
+import { Card, Button, Input, Select, FileUpload } from './ui';
+import { QuestionEditor } from './QuestionEditor';
+import { ScoringSettings } from './ScoringSettings';
+import { IntegrityPanel } from './IntegrityPanel';
+import { ResultsPanel } from './ResultsPanel';
+import { AnalysisPanel } from './AnalysisPanel';
+import { GradingPanel } from './GradingPanel';
+import { RosterPanel } from './RosterPanel';
+import { MonitorPanel } from './MonitorPanel';
+import { AnswerKeyPanel } from './AnswerKeyPanel';
+import { NotificationsPanel } from './NotificationsPanel';
+import { BlueprintEditor } from './BlueprintEditor';
+import { QuestionBankPanel, SaveToBank } from './QuestionBankPanel';
+
+type QuestionSource = 'pdf' | 'blueprint';
+
+const EMPTY_BLUEPRINT: ExamBlueprint = { sections: [{ count: 10 }] };
+
+// New exams give every student their own order; the server keeps exams saved without a policy unshuffled
+const DEFAULT_SHUFFLE: ShufflePolicy = { questions: true, options: true };
+
+const LIFECYCLE_STYLES: Record<ExamLifecycle, string> = {
+  draft: "bg-amber-100 text-amber-700",
+  scheduled: "bg-blue-100 text-blue-700",
+  open: "bg-emerald-100 text-emerald-700",
+  closed: "bg-zinc-100 text-zinc-600",
+  archived: "bg-zinc-50 text-zinc-400"
+};
+
+const toIsoOrNull = (local: string) => (local ? new Date(local).toISOString() : null);
+
+const toLocalDateTimeInput = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const ExaminerDashboard = ({
+  examiner,
+  onBack,
+  onLogout,
+  onSessionExpired,
+  onShare
+}: {
+  examiner: Examiner;
+  onBack: () => void;
+  onLogout: () => void;
+  onSessionExpired: () => void;
+  onShare: (exam: Exam) => void;
+}) => {
+  // Exam settings
+  const [examTitle, setExamTitle] = useState('');
+  const [examDuration, setExamDuration] = useState('30');
+  const [answerRelease, setAnswerRelease] = useState<AnswerReleasePolicy>('never');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [joinCutoff, setJoinCutoff] = useState('');
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [proctoring, setProctoring] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
+  const [scoring, setScoring] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [shuffle, setShuffle] = useState<ShufflePolicy>(DEFAULT_SHUFFLE);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>('pdf');
+  const [blueprint, setBlueprint] = useState<ExamBlueprint>(EMPTY_BLUEPRINT);
+  const [questionFile, setQuestionFile] = useState<File | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Draft under review
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ExamDraft | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [publishedExam, setPublishedExam] = useState<Exam | null>(null);
+
+  const [myExams, setMyExams] = useState<ExamSummary[]>([]);
+  const [examPanel, setExamPanel] = useState<{ exam: ExamSummary; kind: 'results' | 'grading' | 'analysis' | 'integrity' | 'roster' | 'monitor' | 'answer-key' | 'notifications' } | null>(null);
+  const [showBank, setShowBank] = useState(false);
+
+  const loadExams = useCallback(() => api.listExams().then(setMyExams, console.error), []);
+
+  useEffect(() => {
+    loadExams();
+  }, [loadExams]);
+
+  const resetForm = () => {
+    setExamTitle('');
+    setExamDuration('30');
+    setAnswerRelease('never');
+    setOpensAt('');
+    setClosesAt('');
+    setJoinCutoff('');
+    setMaxAttempts('');
+    setProctoring(DEFAULT_PROCTORING_POLICY);
+    setScoring(DEFAULT_SCORING_RULES);
+    setShuffle(DEFAULT_SHUFFLE);
+    setQuestionSource('pdf');
+    setBlueprint(EMPTY_BLUEPRINT);
+    setQuestionFile(null);
+    setDraftId(null);
+    setDraft(null);
+    setIsDirty(false);
+    setPublishedExam(null);
+  };
+
+  const saveDraft = async (next: ExamDraft, id: string) => {
+    setIsSaving(true);
+    try {
+      await api.saveExam({
+        id,
+        title: examTitle,
+        durationMinutes: parseInt(examDuration),
+        answerRelease,
+        opensAt: toIsoOrNull(opensAt),
+        closesAt: toIsoOrNull(closesAt),
+        joinCutoffMinutes: joinCutoff ? parseInt(joinCutoff) : null,
+        maxAttempts: maxAttempts ? parseInt(maxAttempts) : null,
+        proctoring,
+        scoring,
+        shuffle,
+        blueprint: questionSource === 'blueprint' ? blueprint : null,
+        ...next
+      });
+      setIsDirty(false);
+      loadExams();
+      return true;
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 401) {
+        alert("Your session has expired. Please sign in again.");
+        onSessionExpired();
+      } else {
+        alert(errorMessage(e, "Failed to save exam to server"));
+      }
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleProcessPDFs = async () => {
+    if (!questionFile || !examTitle) {
+      alert("Please fill all fields and upload the Question Paper.");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const data = await api.extractQuestions(questionFile);
+
+      // Persist the extraction straight away so nothing is lost if the examiner walks away mid-review
+      const id = draftId ?? generateExamCode();
+      setDraftId(id);
+      setDraft(data);
+      await saveDraft(data, id);
+
+    } catch (e) {
+      console.error(e);
+      alert(errorMessage(e, "Failed to process PDFs. Please ensure they are clear and contain MCQs."));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Blueprint exams have no questions of their own to review, so the draft is created straight away
+  const handleCreateBlueprintDraft = async () => {
+    if (!examTitle) {
+      alert("Please give the exam a title.");
+      return;
+    }
+    const id = draftId ?? generateExamCode();
+    const empty: ExamDraft = { questions: [], solutionKey: {}, flags: {} };
+    if (!(await saveDraft(empty, id))) return;
+    setDraftId(id);
+    setDraft(empty);
+  };
+
+  const handleAddFromBank = (entry: BankQuestion) => {
+    if (!draft) return;
+    if (draft.questions.some(q => q.id === entry.id)) {
+      alert("This question is already in the draft.");
+      return;
+    }
+    handleDraftChange({
+      ...draft,
+      questions: [...draft.questions, entry.question],
+      solutionKey: entry.answerKey === null ? draft.solutionKey : { ...draft.solutionKey, [entry.id]: entry.answerKey },
+      partialCredit: Object.keys(entry.partialCredit).length ? { ...draft.partialCredit, [entry.id]: entry.partialCredit } : draft.partialCredit
+    });
+  };
+
+  const handleDraftChange = (next: ExamDraft) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !draftId) return;
+    if (answerRelease === 'after_close' && !closesAt) {
+      alert("Set when the exam closes so answers can be released afterwards.");
+      return;
+    }
+    const flaggedCount = Object.keys(draft.flags).length;
+    if (flaggedCount > 0 && !confirm(`${flaggedCount} question(s) are still flagged for review. Publish anyway?`)) {
+      return;
+    }
+
+    // Questions are stored as authored; each attempt gets its own order from the shuffle settings
+    if (!(await saveDraft(draft, draftId))) return;
+    if (!(await publishDraft())) return;
+    setPublishedExam(isBlueprint ? { ...examSettings(), questions: [], questionCount: blueprintTotal } : { ...examSettings(), questions: draft.questions });
+  };
+
+  const publishDraft = async () => {
+    try {
+      await api.publishExam(draftId!);
+    } catch (e) {
+      alert(errorMessage(e, "Failed to publish the exam"));
+      return false;
+    }
+    loadExams();
+    return true;
+  };
+
+  const examSettings = () => ({
+    id: draftId!,
+    title: examTitle,
+    durationMinutes: parseInt(examDuration),
+    answerRelease,
+    proctoring,
+    scoring
+  });
+
+  const openExam = async (summary: ExamSummary) => {
+    // Scheduled and closed exams are hidden from the student lookup, so sharing goes through the owner's view
+    const data = await api.getManagedExam(summary.id).catch(() => null);
+    if (!data) return;
+    if (summary.status !== 'draft') {
+      onShare(data);
+      return;
+    }
+
+    setExamTitle(data.title);
+    setExamDuration(String(data.durationMinutes));
+    setAnswerRelease(data.answerRelease ?? 'never');
+    setOpensAt(toLocalDateTimeInput(data.opensAt));
+    setClosesAt(toLocalDateTimeInput(data.closesAt));
+    setJoinCutoff(data.joinCutoffMinutes ? String(data.joinCutoffMinutes) : '');
+    setMaxAttempts(data.maxAttempts ? String(data.maxAttempts) : '');
+    setProctoring(data.proctoring ?? DEFAULT_PROCTORING_POLICY);
+    setScoring(data.scoring ?? DEFAULT_SCORING_RULES);
+    setShuffle(data.shuffle);
+    setQuestionSource(data.blueprint ? 'blueprint' : 'pdf');
+    setBlueprint(data.blueprint ?? EMPTY_BLUEPRINT);
+    setQuestionFile(null);
+    setDraftId(data.id);
+    setDraft({ questions: data.questions, solutionKey: data.solutionKey, flags: data.flags, partialCredit: data.partialCredit });
+    setIsDirty(false);
+    setPublishedExam(null);
+  };
+
+  const changeLifecycle = async (summary: ExamSummary, action: 'open' | 'close' | 'extend' | 'archive') => {
+    let closesAt = '';
+    if (action === 'extend') {
+      const minutes = parseInt(prompt("Extend the exam by how many minutes?", "15") ?? '');
+      if (!(minutes > 0)) return;
+      const from = Math.max(Date.now(), summary.closesAt ? Date.parse(summary.closesAt) : 0);
+      closesAt = new Date(from + minutes * 60000).toISOString();
+    } else if (action === 'close' && !confirm("Close this exam now? Students still sitting it will be stopped.")) {
+      return;
+    }
+
+    try {
+      if (action === 'extend') await api.extendExam(summary.id, { closesAt });
+      else await { open: api.openExam, close: api.closeExam, archive: api.archiveExam }[action](summary.id);
+    } catch (e) {
+      alert(errorMessage(e, "Could not reach the server. Check your connection."));
+      return;
+    }
+    loadExams();
+  };
+
+  const updateProctoring = (patch: Partial<ProctoringPolicy>) => {
+    setProctoring(current => ({ ...current, ...patch }));
+    setIsDirty(true);
+  };
+
+  const toggleProctoringEvent = (event: ProctoringEvent) => {
+    const events = proctoring.events.includes(event)
+      ? proctoring.events.filter(e => e !== event)
+      : [...proctoring.events, event];
+    updateProctoring({ events });
+  };
+
+  const flaggedCount = draft ? Object.keys(draft.flags).length : 0;
+  const blueprintTotal = blueprint.sections.reduce((sum, s) => sum + s.count, 0);
+  const isBlueprint = questionSource === 'blueprint';
+
+  return (
+    <motion.div
+      key="examiner"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="max-w-4xl mx-auto space-y-8"
+    >
+      <div className="text-center space-y-2">
+        <h2 className="text-4xl font-bold tracking-tight">Examiner Dashboard</h2>
+        <p className="text-zinc-500">Configure your exam and upload source documents.</p>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-8">
+        <Card className="md:col-span-2 p-8 space-y-8">
+          <div className="grid grid-cols-2 gap-6">
+            <Input label="Exam Title" value={examTitle} onChange={(v) => { setExamTitle(v); setIsDirty(true); }} placeholder="e.g. Midterm Physics" />
+            <Input label="Duration (Min)" type="number" value={examDuration} onChange={(v) => { setExamDuration(v); setIsDirty(true); }} />
+          </div>
+          <div className="flex items-center justify-between px-4 py-3 rounded-xl bg-zinc-50 border border-zinc-100">
+            <div className="text-sm">
+              <div className="font-medium">{examiner.name}</div>
+              <div className="text-xs text-zinc-500">Results will be sent to {examiner.email}</div>
+            </div>
+            <Button variant="ghost" onClick={onLogout} className="px-3 py-1.5 text-xs">
+              <LogOut className="w-3.5 h-3.5" />
+              Sign Out
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <Input label="Opens At" type="datetime-local" value={opensAt} onChange={(v) => { setOpensAt(v); setIsDirty(true); }} />
+            <Input label="Closes At" type="datetime-local" value={closesAt} onChange={(v) => { setClosesAt(v); setIsDirty(true); }} />
+            <Input label="Late Join Cutoff (Min)" type="number" value={joinCutoff} onChange={(v) => { setJoinCutoff(v); setIsDirty(true); }} placeholder="No cutoff" />
+            <Input label="Attempts per Student" type="number" value={maxAttempts} onChange={(v) => { setMaxAttempts(v); setIsDirty(true); }} placeholder="Unlimited" />
+          </div>
+          <p className="text-xs text-zinc-500 -mt-4">
+            Leave the opening time empty to open on publishing, and the closing time empty to keep the exam open until you close it.
+          </p>
+
+          <div className="grid grid-cols-2 gap-6">
+            <Select
+              label="Release Answers to Students"
+              value={answerRelease}
+              onChange={(v) => { setAnswerRelease(v); setIsDirty(true); }}
+              options={[
+                { value: 'never', label: 'Never' },
+                { value: 'after_close', label: 'After the exam closes' },
+                { value: 'immediate', label: 'Immediately after submission' }
+              ]}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div className="text-sm font-medium text-zinc-700">Proctoring</div>
+            <div className="grid grid-cols-2 gap-2">
+              {PROCTORING_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm text-zinc-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={proctoring.events.includes(event)}
+                    onChange={() => toggleProctoringEvent(event)}
+                    className="accent-black"
+                  />
+                  {PROCTORING_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <Input
+                label="Warnings Before Termination"
+                type="number"
+                value={proctoring.maxViolations}
+                onChange={(v) => updateProctoring({ maxViolations: Math.max(0, parseInt(v) || 0) })}
+              />
+              <Input
+                label="Grace Period (Sec)"
+                type="number"
+                value={proctoring.gracePeriodSeconds}
+                onChange={(v) => updateProctoring({ gracePeriodSeconds: Math.min(120, Math.max(0, parseInt(v) || 0)) })}
+              />
+            </div>
+            <p className="text-xs text-zinc-500">
+              The grace period lets students return from leaving the window, switching tabs or exiting fullscreen before it counts.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-zinc-700">Shuffling</div>
+            <div className="grid grid-cols-2 gap-2">
+              {([['questions', 'Shuffle question order'], ['options', 'Shuffle answer options']] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-zinc-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={shuffle[key]}
+                    onChange={(e) => { setShuffle(current => ({ ...current, [key]: e.target.checked })); setIsDirty(true); }}
+                    className="accent-black"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-zinc-500">
+              Each student gets their own order, fixed for their attempt. True/false options always stay in order.
+            </p>
+          </div>
+
+          <ScoringSettings rules={scoring} onChange={(rules) => { setScoring(rules); setIsDirty(true); }} />
+
+          <div className="grid grid-cols-1 gap-6">
+            <Select
+              label="Questions"
+              value={questionSource}
+              onChange={(v) => { setQuestionSource(v); setIsDirty(true); }}
+              options={[
+                { value: 'pdf', label: 'Extract from a question paper' },
+                { value: 'blueprint', label: 'Draw from my question bank for each attempt' }
+              ]}
+            />
+            {isBlueprint ? (
+              <BlueprintEditor blueprint={blueprint} onChange={(next) => { setBlueprint(next); setIsDirty(true); }} />
+            ) : (
+              <FileUpload label="Question Paper (PDF)" onFileSelect={setQuestionFile} fileName={questionFile?.name} />
+            )}
+          </div>
+
+          <div className="flex justify-between pt-4 border-t border-zinc-100">
+            <Button variant="ghost" onClick={onBack}>Back</Button>
+            {isBlueprint ? (
+              <Button disabled={isSaving || !!publishedExam} onClick={() => (draft ? draftId && saveDraft(draft, draftId) : handleCreateBlueprintDraft())} className="min-w-[160px]">
+                <Save className="w-4 h-4" />
+                {draft ? 'Save Draft' : 'Create Draft'}
+              </Button>
+            ) : (
+              <Button disabled={isProcessing || !!publishedExam} onClick={handleProcessPDFs} className="min-w-[160px]">
+                {isProcessing ? <><Loader2 className="w-4 h-4 animate-spin" /> Processing...</> : <><FileText className="w-4 h-4" /> Extract Data</>}
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        <div className="space-y-6">
+          <Card className="p-6 bg-zinc-900 text-white space-y-4">
+            <h3 className="font-bold flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+              Status
+            </h3>
+            <div className="space-y-3">
+              {isBlueprint ? (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-zinc-400">Questions per Attempt</span>
+                  <span className="text-emerald-400">{blueprintTotal}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-zinc-400">PDF Uploaded</span>
+                    <span className={cn(questionFile ? "text-emerald-400" : "text-zinc-600")}>
+                      {questionFile ? "Yes" : "No"}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-zinc-400">Questions Extracted</span>
+                    <span className={cn(draft?.questions.length ? "text-emerald-400" : "text-zinc-600")}>
+                      {draft?.questions.length ?? 0}
+                    </span>
+                  </div>
+                </>
+              )}
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-zinc-400">Flagged for Review</span>
+                <span className={cn(!draft ? "text-zinc-600" : flaggedCount > 0 ? "text-amber-400" : "text-emerald-400")}>
+                  {draft ? flaggedCount : "Pending"}
+                </span>
+              </div>
+            </div>
+            {draft && !publishedExam && (
+              <Button onClick={handlePublish} disabled={isSaving} className="w-full bg-white text-black hover:bg-zinc-200">
+                <Send className="w-4 h-4" />
+                Finalize & Publish
+              </Button>
+            )}
+            {publishedExam && (
+              <div className="space-y-3">
+                <div className="text-center py-2 bg-emerald-500/10 text-emerald-400 rounded-lg text-xs font-bold uppercase tracking-widest">
+                  Exam Ready
+                </div>
+                <div className="text-center space-y-1">
+                  <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Exam Code</div>
+                  <div className="text-2xl font-mono font-bold tracking-[0.2em]">{publishedExam.id}</div>
+                </div>
+                <Button onClick={() => onShare(publishedExam)} className="w-full bg-white text-black hover:bg-zinc-200">
+                  <QrCode className="w-4 h-4" />
+                  Share & Print
+                </Button>
+                <Button variant="ghost" onClick={resetForm} className="w-full text-zinc-400 hover:bg-white/10">
+                  <Plus className="w-4 h-4" />
+                  New Exam
+                </Button>
+              </div>
+            )}
+          </Card>
+
+          <Button variant="secondary" onClick={() => setShowBank(open => !open)} className="w-full">
+            <Library className="w-4 h-4" />
+            {showBank ? 'Hide Question Bank' : 'Question Bank'}
+          </Button>
+
+          {myExams.length > 0 && (
+            <Card className="p-6 space-y-4 max-h-[400px] overflow-y-auto">
+              <h3 className="font-bold text-sm">Your Exams</h3>
+              <div className="space-y-2">
+                {myExams.map(summary => (
+                  <div
+                    key={summary.id}
+                    className={cn(
+                      "flex items-center gap-1 rounded-xl border transition-all hover:border-zinc-400",
+                      summary.id === draftId || summary.id === examPanel?.exam.id ? "border-black" : "border-zinc-100"
+                    )}
+                  >
+                    <button onClick={() => openExam(summary)} className="flex-1 min-w-0 text-left p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{summary.title || 'Untitled exam'}</span>
+                        <span className={cn(
+                          "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest shrink-0",
+                          LIFECYCLE_STYLES[summary.lifecycle]
+                        )}>
+                          {summary.lifecycle}
+                        </span>
+                      </div>
+                      <div className="text-xs text-zinc-400 font-mono">{summary.id} &middot; {summary.questionCount} questions</div>
+                    </button>
+                    <button type="button" title="Email notifications" onClick={() => setExamPanel({ exam: summary, kind: 'notifications' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                      <Mail className="w-4 h-4" />
+                    </button>
+                    {summary.status !== 'archived' && (
+                      <button type="button" title="Roster and access codes" onClick={() => setExamPanel({ exam: summary, kind: 'roster' })} className={cn("p-2 rounded-lg text-zinc-400 hover:bg-zinc-100", summary.status === 'draft' && "mr-1")}>
+                        <Users className="w-4 h-4" />
+                      </button>
+                    )}
+                    {summary.status !== 'draft' && (
+                      <>
+                        {summary.lifecycle === 'scheduled' && (
+                          <button type="button" title="Open now" onClick={() => changeLifecycle(summary, 'open')} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+                        {summary.lifecycle === 'open' && (
+                          <button type="button" title="Close now" onClick={() => changeLifecycle(summary, 'close')} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                            <Lock className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(summary.lifecycle === 'open' || summary.lifecycle === 'closed') && (
+                          <button type="button" title="Extend" onClick={() => changeLifecycle(summary, 'extend')} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                            <ClockPlus className="w-4 h-4" />
+                          </button>
+                        )}
+                        {summary.lifecycle === 'closed' && (
+                          <button type="button" title="Archive" onClick={() => changeLifecycle(summary, 'archive')} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                            <Archive className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(summary.lifecycle === 'open' || summary.lifecycle === 'closed') && (
+                          <button type="button" title="Live monitor" onClick={() => setExamPanel({ exam: summary, kind: 'monitor' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                            <Activity className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button type="button" title="Results" onClick={() => setExamPanel({ exam: summary, kind: 'results' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                          <BarChart3 className="w-4 h-4" />
+                        </button>
+                        <button type="button" title="Correct answer key" onClick={() => setExamPanel({ exam: summary, kind: 'answer-key' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                          <KeyRound className="w-4 h-4" />
+                        </button>
+                        <button type="button" title="Grading queue" onClick={() => setExamPanel({ exam: summary, kind: 'grading' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                          <ClipboardCheck className="w-4 h-4" />
+                        </button>
+                        <button type="button" title="Item analysis" onClick={() => setExamPanel({ exam: summary, kind: 'analysis' })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                          <PieChart className="w-4 h-4" />
+                        </button>
+                        <button type="button" title="Integrity report" onClick={() => setExamPanel({ exam: summary, kind: 'integrity' })} className="p-2 mr-1 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                          <ShieldAlert className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {examPanel?.kind === 'results' && (
+        <ResultsPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'grading' && (
+        <GradingPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'analysis' && (
+        <AnalysisPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'integrity' && (
+        <IntegrityPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'monitor' && (
+        <MonitorPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'answer-key' && (
+        <AnswerKeyPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'notifications' && (
+        <NotificationsPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+      {examPanel?.kind === 'roster' && (
+        <RosterPanel examId={examPanel.exam.id} examTitle={examPanel.exam.title} onClose={() => setExamPanel(null)} />
+      )}
+
+      {showBank && (
+        <QuestionBankPanel
+          onAdd={draft && !publishedExam && !isBlueprint ? handleAddFromBank : undefined}
+          onClose={() => setShowBank(false)}
+        />
+      )}
+
+      {draft && !publishedExam && !isBlueprint && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-2xl font-bold tracking-tight">Review Questions</h3>
+              <p className="text-sm text-zinc-500">Correct any extraction mistakes before students see this exam.</p>
+            </div>
+            <Button variant="secondary" disabled={!isDirty || isSaving} onClick={() => draftId && saveDraft(draft, draftId)}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {isDirty ? 'Save Draft' : 'Draft Saved'}
+            </Button>
+          </div>
+          <QuestionEditor draft={draft} onChange={handleDraftChange} />
+          <SaveToBank draft={draft} />
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardCheck, Loader2, X } from 'lucide-react';
+import { PendingGrade } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { Card, Button } from './ui';
+
+const entryKey = (entry: PendingGrade) => `${entry.resultId}:${entry.questionId}`;
+
+export const GradingPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [queue, setQueue] = useState<PendingGrade[] | null>(null);
+  const [marks, setMarks] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQueue(null);
+    setMarks({});
+    api.getGradingQueue(examId)
+      .catch(() => [])
+      .then(setQueue);
+  }, [examId]);
+
+  const saveMark = async (entry: PendingGrade) => {
+    const key = entryKey(entry);
+    setSaving(key);
+    try {
+      await api.gradeAnswer(examId, entry.resultId, { questionId: entry.questionId, marksAwarded: parseFloat(marks[key]) });
+      setQueue(current => (current ?? []).filter(e => entryKey(e) !== key));
+    } catch (e) {
+      alert(errorMessage(e, "Could not reach the server. Check your connection."));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <ClipboardCheck className="w-6 h-6" />
+            Grading Queue
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!queue ? (
+        <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />
+      ) : queue.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-sm text-zinc-500 text-center">Nothing left to mark.</p>
+        </Card>
+      ) : (
+        queue.map(entry => {
+          const key = entryKey(entry);
+          return (
+            <Card key={key} className="p-6 space-y-3 text-sm">
+              <div className="flex items-center justify-between text-xs text-zinc-500">
+                <span className="font-medium text-zinc-900">{entry.studentName} &middot; {entry.studentClass}</span>
+                <span>Out of {entry.marks}</span>
+              </div>
+              <p className="font-medium">{entry.questionText}</p>
+              <p className="p-3 rounded-xl bg-zinc-50 whitespace-pre-wrap">{entry.answer}</p>
+              {entry.modelAnswer && <p className="text-zinc-500 whitespace-pre-wrap">Model answer: {entry.modelAnswer}</p>}
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={entry.marks}
+                  step="any"
+                  value={marks[key] ?? ''}
+                  onChange={(e) => setMarks(m => ({ ...m, [key]: e.target.value }))}
+                  placeholder="Marks"
+                  className="w-24 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+                />
+                <Button variant="secondary" disabled={!marks[key] || saving === key} onClick={() => saveMark(entry)}>
+                  {saving === key ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save Mark'}
+                </Button>
+              </div>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
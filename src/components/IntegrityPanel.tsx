@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, ShieldAlert, X } from 'lucide-react';
+import { IntegrityReport, IntegritySummary, SuspicionLevel } from '../types';
+import * as api from '../api/client';
+import { INTEGRITY_EVENT_LABELS } from '../lib/proctoring';
+import { cn } from '../lib/utils';
+import { Card } from './ui';
+
+const LEVEL_STYLES: Record<SuspicionLevel, string> = {
+  low: 'bg-emerald-100 text-emerald-700',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-red-100 text-red-700'
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `+${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const IntegrityPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [summaries, setSummaries] = useState<IntegritySummary[] | null>(null);
+  const [selected, setSelected] = useState<IntegrityReport | null>(null);
+
+  useEffect(() => {
+    setSummaries(null);
+    setSelected(null);
+    api.listIntegrity(examId)
+      .catch(() => [])
+      .then(setSummaries);
+  }, [examId]);
+
+  const openReport = async (attemptId: string) => {
+    const report = await api.getIntegrityReport(examId, attemptId).catch(() => null);
+    if (report) setSelected(report);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <ShieldAlert className="w-6 h-6" />
+            Integrity Report
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card className="p-4 space-y-2">
+          {!summaries && <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />}
+          {summaries?.length === 0 && <p className="text-sm text-zinc-500 text-center py-4">No students have started this exam yet.</p>}
+          {summaries?.map(summary => (
+            <button
+              key={summary.attemptId}
+              type="button"
+              onClick={() => openReport(summary.attemptId)}
+              className={cn(
+                "w-full text-left p-3 rounded-xl border transition-all hover:border-zinc-400",
+                selected?.attemptId === summary.attemptId ? "border-black" : "border-zinc-100"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{summary.studentName}</span>
+                <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest shrink-0", LEVEL_STYLES[summary.suspicionLevel])}>
+                  {summary.suspicionLevel} &middot; {summary.suspicionScore}
+                </span>
+              </div>
+              <div className="text-xs text-zinc-400">
+                {summary.studentClass} &middot; {summary.violationCount} violation{summary.violationCount === 1 ? '' : 's'}
+                {summary.terminated && <span className="text-red-500"> &middot; terminated</span>}
+                {!summary.submittedAt && <span> &middot; in progress</span>}
+              </div>
+            </button>
+          ))}
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          {!selected ? (
+            <p className="text-sm text-zinc-500 text-center py-4">Select a student to see their timeline.</p>
+          ) : (
+            <>
+              <div className="text-sm">
+                <div className="font-medium">{selected.studentName}</div>
+                <div className="text-xs text-zinc-500">Started {new Date(selected.startedAt).toLocaleString()}</div>
+              </div>
+              {selected.events.length === 0 ? (
+                <p className="text-sm text-zinc-500">No integrity events were recorded.</p>
+              ) : (
+                <ol className="space-y-2 border-l border-zinc-200 pl-4">
+                  {selected.events.map((event, i) => (
+                    <li key={i} className="text-sm flex items-baseline gap-3">
+                      <span className="font-mono text-xs text-zinc-400 w-12 shrink-0">{formatElapsed(event.occurredAt - selected.startedAt)}</span>
+                      <span className={cn(event.violation ? "text-red-600" : "text-zinc-500")}>
+                        {INTEGRITY_EVENT_LABELS[event.type]}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import QRCode from 'qrcode';
+import { Printer, ChevronLeft, Copy, Check } from 'lucide-react';
+import { Exam } from '../types';
+import { getJoinLink } from '../lib/utils';
+import { Card, Button } from './ui';
+
+export const JoinSheet = ({ exam, onBack }: { exam: Exam; onBack: () => void }) => {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const joinLink = getJoinLink(exam.id);
+
+  useEffect(() => {
+    QRCode.toDataURL(joinLink, { width: 320, margin: 1 })
+      .then(setQrDataUrl)
+      .catch(() => setQrDataUrl(null));
+  }, [joinLink]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(joinLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <motion.div
+      key="join-sheet"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="max-w-2xl mx-auto space-y-8"
+    >
+      <div className="flex items-center justify-between print:hidden">
+        <Button variant="ghost" onClick={onBack}>
+          <ChevronLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={copyLink}>
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy Link'}
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="w-4 h-4" />
+            Print Sheet
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-12 space-y-10 text-center print:shadow-none print:border-0">
+        <div className="space-y-2">
+          <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Secure Exam</div>
+          <h2 className="text-4xl font-bold tracking-tight">{exam.title}</h2>
+          <p className="text-zinc-500">
+            {exam.questionCount ?? exam.questions.length} questions &middot; {exam.durationMinutes} minutes
+          </p>
+        </div>
+
+        <div className="flex justify-center">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt={`QR code linking to ${joinLink}`} className="w-64 h-64" />
+          ) : (
+            <div className="w-64 h-64 rounded-2xl bg-zinc-100" />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-bold uppercase tracking-widest text-zinc-400">Exam Code</div>
+          <div className="text-6xl font-mono font-bold tracking-[0.2em]">{exam.id}</div>
+        </div>
+
+        <div className="pt-8 border-t border-zinc-100 space-y-2 text-sm text-zinc-500">
+          <p>Scan the code, or open the Student Portal and enter the exam code above.</p>
+          <p className="font-mono text-xs break-all text-zinc-400">{joinLink}</p>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
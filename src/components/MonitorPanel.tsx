@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, ClockPlus, Loader2, Megaphone, Send, X } from 'lucide-react';
+import { LiveAttempt } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { cn } from '../lib/utils';
+import { Card, Button } from './ui';
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Every attempt in progress, kept current over the exam's event stream
+export const MonitorPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [attempts, setAttempts] = useState<LiveAttempt[] | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setAttempts(null);
+    const source = new EventSource(api.monitorStreamUrl(examId));
+    const read = (e: Event) => JSON.parse((e as MessageEvent).data);
+
+    source.onopen = () => setIsLive(true);
+    source.onerror = () => setIsLive(false);
+    source.addEventListener('snapshot', e => setAttempts(read(e)));
+    // Submitted attempts leave the list; anything else is added or replaced in place
+    source.addEventListener('attempt', e => {
+      const attempt: LiveAttempt = read(e);
+      setAttempts(current => {
+        const others = (current ?? []).filter(a => a.attemptId !== attempt.attemptId);
+        if (attempt.submittedAt) return others;
+        const index = (current ?? []).findIndex(a => a.attemptId === attempt.attemptId);
+        return index < 0 ? [...others, attempt] : (current ?? []).map(a => (a.attemptId === attempt.attemptId ? attempt : a));
+      });
+    });
+    return () => source.close();
+  }, [examId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const broadcast = async () => {
+    setIsSending(true);
+    try {
+      await api.broadcast(examId, { message });
+      setMessage('');
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const extend = async (attempt: LiveAttempt) => {
+    const input = prompt(`Extra minutes for ${attempt.studentName}:`, '5');
+    if (input === null) return;
+    await api.extendAttempt(examId, attempt.attemptId, { minutes: Number(input) })
+      .catch(e => alert(errorMessage(e, 'Could not reach the server. Check your connection.')));
+  };
+
+  const forceSubmit = async (attempt: LiveAttempt) => {
+    if (!confirm(`Submit ${attempt.studentName}'s exam now? Their saved answers will be graded as they stand.`)) return;
+    await api.forceSubmit(examId, attempt.attemptId)
+      .catch(e => alert(errorMessage(e, 'Could not reach the server. Check your connection.')));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <Activity className="w-6 h-6" />
+            Live Monitor
+            <span className={cn(
+              "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
+              isLive ? "bg-emerald-100 text-emerald-700" : "bg-zinc-100 text-zinc-500"
+            )}>
+              {isLive ? 'Live' : 'Reconnecting'}
+            </span>
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <Card className="p-4">
+        <form
+          className="flex items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            broadcast();
+          }}
+        >
+          <Megaphone className="w-5 h-5 text-zinc-400 shrink-0" />
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={500}
+            placeholder="Message every student sitting this exam"
+            className="flex-1 px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:border-black"
+          />
+          <Button type="submit" variant="secondary" disabled={isSending || !message.trim()}>
+            {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Send
+          </Button>
+        </form>
+      </Card>
+
+      <Card className="p-4 space-y-2">
+        {!attempts && <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />}
+        {attempts?.length === 0 && <p className="text-sm text-zinc-500 text-center py-4">No attempts in progress.</p>}
+        {!!attempts?.length && (
+          <div className="grid grid-cols-[1fr_auto_auto_auto_auto_auto] gap-x-6 gap-y-2 items-center text-sm">
+            <div className="text-xs text-zinc-400 uppercase tracking-widest">Student</div>
+            <div className="text-xs text-zinc-400 uppercase tracking-widest">Question</div>
+            <div className="text-xs text-zinc-400 uppercase tracking-widest">Answered</div>
+            <div className="text-xs text-zinc-400 uppercase tracking-widest">Time Left</div>
+            <div className="text-xs text-zinc-400 uppercase tracking-widest">Violations</div>
+            <div />
+            {attempts.map(attempt => (
+              <React.Fragment key={attempt.attemptId}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span
+                    title={attempt.connected ? 'Connected' : 'Disconnected'}
+                    className={cn("w-2 h-2 rounded-full shrink-0", attempt.connected ? "bg-emerald-500" : "bg-zinc-300")}
+                  />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{attempt.studentName}</div>
+                    <div className="text-xs text-zinc-400">
+                      {attempt.studentClass} &middot; active {new Date(attempt.lastActivityAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                  </div>
+                </div>
+                <div className="font-mono">{attempt.currentQuestionIdx + 1}/{attempt.questionCount}</div>
+                <div className="font-mono">{attempt.answeredCount}/{attempt.questionCount}</div>
+                <div className={cn("font-mono", attempt.deadline - now < 5 * 60 * 1000 && "text-red-600")}>
+                  {attempt.onBreak ? <span className="text-sky-600">on break</span> : formatRemaining(attempt.deadline - now)}
+                </div>
+                <div className={cn("font-mono", attempt.terminated ? "text-red-600 font-bold" : attempt.violationCount > 0 && "text-amber-600")}>
+                  {attempt.violationCount}{attempt.terminated && ' · terminated'}
+                </div>
+                <div className="flex gap-1">
+                  <button type="button" title="Give extra time" onClick={() => extend(attempt)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                    <ClockPlus className="w-4 h-4" />
+                  </button>
+                  <button type="button" title="Submit now" onClick={() => forceSubmit(attempt)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                    <Send className="w-4 h-4" />
+                  </button>
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
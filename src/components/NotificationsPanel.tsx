@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Mail, Paperclip, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { ExaminerNotificationMode, NotificationKind, NotificationSettings, NotificationTemplate, OutboxMessage, OutboxStatus } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { cn } from '../lib/utils';
+import { Card, Button, Select } from './ui';
+
+const EXAMINER_MODES: { value: ExaminerNotificationMode; label: string }[] = [
+  { value: 'each', label: 'A report for every submission' },
+  { value: 'digest', label: 'One digest when the exam closes' },
+  { value: 'none', label: 'No result emails' }
+];
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  result: 'Submission report',
+  student_result: 'Student result',
+  digest: 'Closing digest',
+  key_revision: 'Answer key revision'
+};
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  pending: 'bg-amber-50 text-amber-700',
+  sent: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-600'
+};
+
+// Templates belong to the examiner and are shared by all their exams; edits apply to messages queued from then on
+const TemplateEditor = ({
+  template,
+  onSaved
+}: {
+  template: NotificationTemplate;
+  onSaved: (template: NotificationTemplate) => void;
+}) => {
+  const [draft, setDraft] = useState(template);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => setDraft(template), [template]);
+
+  const send = async (method: 'PUT' | 'DELETE') => {
+    setIsSaving(true);
+    try {
+      onSaved(await (method === 'PUT'
+        ? api.saveTemplate(template.kind, { subject: draft.subject, text: draft.text, html: draft.html })
+        : api.resetTemplate(template.kind)));
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = draft.subject !== template.subject || draft.text !== template.text || draft.html !== template.html;
+  const fieldClass = "w-full px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:border-black font-mono text-xs";
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">
+        Available: {template.variables.map(v => <code key={v} className="mr-2">{`{{${v}}}`}</code>)}
+      </p>
+      <input value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} maxLength={200} aria-label="Subject" className={fieldClass} />
+      <textarea value={draft.text} onChange={(e) => setDraft({ ...draft, text: e.target.value })} rows={10} aria-label="Plain text" className={fieldClass} />
+      <textarea value={draft.html} onChange={(e) => setDraft({ ...draft, html: e.target.value })} rows={10} aria-label="HTML" className={fieldClass} />
+      <div className="flex justify-end gap-2">
+        {template.customized && (
+          <Button variant="ghost" disabled={isSaving} onClick={() => confirm('Go back to the built-in template?') && send('DELETE')}>
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+        )}
+        <Button disabled={isSaving || !isDirty} onClick={() => send('PUT')}>
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Who gets emailed about this exam, the examiner's templates, and every message queued for it with its delivery state
+export const NotificationsPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [editingKind, setEditingKind] = useState<NotificationKind | null>(null);
+
+  const load = () => {
+    api.getNotifications(examId)
+      .then(data => {
+        setSettings(data.settings);
+        setOutbox(data.outbox);
+      })
+      .catch(() => {});
+  };
+
+  useEffect(() => {
+    setSettings(null);
+    load();
+  }, [examId]);
+
+  useEffect(() => {
+    api.listTemplates()
+      .catch(() => [])
+      .then(setTemplates);
+  }, []);
+
+  const saveSettings = async (next: NotificationSettings) => {
+    try {
+      const data = await api.saveNotificationSettings(examId, next);
+      setSettings(data.settings);
+      setOutbox(data.outbox);
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    }
+  };
+
+  const retry = async (message: OutboxMessage) => {
+    try {
+      const retried = await api.retryNotification(examId, message.id);
+      setOutbox(outbox.map(m => (m.id === message.id ? retried : m)));
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <Mail className="w-6 h-6" />
+            Notifications
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!settings ? <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" /> : (
+        <Card className="p-6 space-y-4">
+          <Select
+            label="Emails to you"
+            value={settings.examiner}
+            onChange={(examiner) => saveSettings({ ...settings, examiner })}
+            options={EXAMINER_MODES}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={settings.students} onChange={(e) => saveSettings({ ...settings, students: e.target.checked })} />
+            Email rostered students their own result when they submit
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={settings.attachReports} onChange={(e) => saveSettings({ ...settings, attachReports: e.target.checked })} />
+            Attach the PDF result sheet or class summary to your emails
+          </label>
+        </Card>
+      )}
+
+      <Card className="p-6 space-y-4 text-sm">
+        <h4 className="font-bold text-sm uppercase tracking-widest text-zinc-400">Templates</h4>
+        {templates.map(template => (
+          <div key={template.kind} className="space-y-3 pb-4 border-b border-zinc-100 last:border-0 last:pb-0">
+            <div className="flex items-center justify-between gap-4">
+              <p className="font-medium">
+                {KIND_LABELS[template.kind]}
+                {template.customized && <span className="ml-2 text-xs font-bold uppercase tracking-widest text-amber-600">Customized</span>}
+              </p>
+              <Button variant="ghost" onClick={() => setEditingKind(editingKind === template.kind ? null : template.kind)}>
+                {editingKind === template.kind ? 'Done' : 'Edit'}
+              </Button>
+            </div>
+            {editingKind === template.kind && (
+              <TemplateEditor template={template} onSaved={(saved) => setTemplates(templates.map(t => (t.kind === saved.kind ? saved : t)))} />
+            )}
+          </div>
+        ))}
+      </Card>
+
+      <Card className="p-6 space-y-4 text-sm">
+        <div className="flex items-center justify-between">
+          <h4 className="font-bold text-sm uppercase tracking-widest text-zinc-400">Outbox</h4>
+          <button type="button" title="Refresh" onClick={load} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        {outbox.length === 0 && <p className="text-zinc-500 text-center">No emails have been queued for this exam.</p>}
+        {outbox.map(message => (
+          <div key={message.id} className="flex items-start justify-between gap-4 pb-3 border-b border-zinc-100 last:border-0 last:pb-0">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium truncate">{message.subject}</p>
+              <p className="text-xs text-zinc-400">
+                {KIND_LABELS[message.kind]} &middot; {message.recipient} &middot; {new Date(message.sentAt ?? message.createdAt).toLocaleString()}
+              </p>
+              {message.attachments.length > 0 && (
+                <p className="text-xs text-zinc-500 flex items-center gap-1">
+                  <Paperclip className="w-3 h-3" />
+                  {message.attachments.join(', ')}
+                </p>
+              )}
+              {message.lastError && message.status !== 'sent' && (
+                <p className="text-xs text-red-500">
+                  {message.lastError} ({message.attempts} attempt(s){message.status === 'pending' && message.nextAttemptAt ? `, next try ${new Date(message.nextAttemptAt).toLocaleTimeString()}` : ''})
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={cn("px-2 py-1 rounded-lg text-xs font-bold uppercase tracking-widest", STATUS_STYLES[message.status])}>{message.status}</span>
+              {message.status === 'failed' && (
+                <button type="button" title="Retry" onClick={() => retry(message)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Answer, Question } from '../types';
+import { questionType } from '../lib/questions';
+
+// Matches the server's limit on a typed answer
+const MAX_ANSWER_LENGTH = 5000;
+
+const inputClass = "w-full px-6 py-5 rounded-[24px] border-2 border-zinc-100 text-lg focus:outline-none focus:border-black transition-all";
+
+// Typed answers for numeric, fill-in-the-blank and short-answer questions. Blank input clears the saved answer.
+export const OpenAnswerInput = ({
+  question,
+  answer,
+  onChange
+}: {
+  question: Question;
+  answer: Answer | undefined;
+  onChange: (answer: Answer | null) => void;
+}) => {
+  // Kept as text so partial numbers like "-" or "3." can be typed before they parse
+  const [text, setText] = useState(answer === undefined ? '' : String(answer));
+
+  const update = (value: string) => {
+    setText(value);
+    if (!value.trim()) return onChange(null);
+    if (questionType(question) !== 'numeric') return onChange(value);
+    const number = Number(value);
+    if (Number.isFinite(number)) onChange(number);
+  };
+
+  switch (questionType(question)) {
+    case 'numeric':
+      return (
+        <input
+          inputMode="decimal"
+          value={text}
+          onChange={(e) => update(e.target.value)}
+          placeholder="Enter a number"
+          className={inputClass}
+        />
+      );
+    case 'short_answer':
+      return (
+        <div className="space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => update(e.target.value)}
+            placeholder="Write your answer"
+            rows={6}
+            maxLength={MAX_ANSWER_LENGTH}
+            className={`${inputClass} resize-y`}
+          />
+          <p className="text-xs text-zinc-400">Your examiner marks this answer by hand.</p>
+        </div>
+      );
+    default:
+      return (
+        <input
+          value={text}
+          onChange={(e) => update(e.target.value)}
+          placeholder="Type your answer"
+          maxLength={MAX_ANSWER_LENGTH}
+          className={inputClass}
+        />
+      );
+  }
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { BankQuestion, Difficulty, ExamDraft, QuestionTags } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { DIFFICULTIES, QUESTION_TYPE_LABELS, formatAnswerKey, questionType } from '../lib/questions';
+import { Card, Button, Input, Select } from './ui';
+
+type DifficultyOption = Difficulty | '';
+
+const DIFFICULTY_OPTIONS: { value: DifficultyOption; label: string }[] = [
+  { value: '', label: 'Any difficulty' },
+  ...DIFFICULTIES.map(d => ({ value: d, label: d }))
+];
+
+// Tags the reviewed draft and copies every question into the bank
+export const SaveToBank = ({ draft }: { draft: ExamDraft }) => {
+  const [tags, setTags] = useState<{ subject: string; topic: string; difficulty: DifficultyOption }>({ subject: '', topic: '', difficulty: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await api.addBankQuestions({
+        questions: draft.questions,
+        solutionKey: draft.solutionKey,
+        partialCredit: draft.partialCredit,
+        tags: { ...tags, difficulty: tags.difficulty || null }
+      });
+      alert(`Saved ${saved.length} question(s) to your bank.`);
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="text-sm font-medium text-zinc-700">Save to Question Bank</div>
+      <div className="grid grid-cols-3 gap-4">
+        <Input label="Subject" value={tags.subject} onChange={(subject) => setTags(t => ({ ...t, subject }))} placeholder="e.g. Physics" />
+        <Input label="Topic" value={tags.topic} onChange={(topic) => setTags(t => ({ ...t, topic }))} placeholder="e.g. Optics" />
+        <Select label="Difficulty" value={tags.difficulty} onChange={(difficulty) => setTags(t => ({ ...t, difficulty }))} options={DIFFICULTY_OPTIONS} />
+      </div>
+      <Button variant="secondary" disabled={isSaving || draft.questions.length === 0} onClick={save}>
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Library className="w-4 h-4" />}
+        Save {draft.questions.length} Question(s) to Bank
+      </Button>
+    </Card>
+  );
+};
+
+export const QuestionBankPanel = ({
+  onAdd,
+  onClose
+}: {
+  onAdd?: (entry: BankQuestion) => void;
+  onClose: () => void;
+}) => {
+  const [filter, setFilter] = useState<{ subject: string; topic: string; difficulty: DifficultyOption }>({ subject: '', topic: '', difficulty: '' });
+  const [questions, setQuestions] = useState<BankQuestion[] | null>(null);
+
+  const { subject, topic, difficulty } = filter;
+
+  useEffect(() => {
+    setQuestions(null);
+    api.listBankQuestions({ subject, topic, difficulty })
+      .catch(() => [])
+      .then(setQuestions);
+  }, [subject, topic, difficulty]);
+
+  const remove = async (entry: BankQuestion) => {
+    if (!confirm('Delete this question from your bank? Exams already taken keep their copy.')) return;
+    try {
+      await api.deleteBankQuestion(entry.id);
+      setQuestions(current => (current ?? []).filter(q => q.id !== entry.id));
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    }
+  };
+
+  const tagLine = (tags: QuestionTags) => [tags.subject, tags.topic, tags.difficulty].filter(Boolean).join(' · ') || 'Untagged';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <Library className="w-6 h-6" />
+            Question Bank
+          </h3>
+          <p className="text-sm text-zinc-500">Reusable questions for blueprint exams and new drafts.</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <div className="grid sm:grid-cols-3 gap-4">
+          <Input label="Subject" value={filter.subject} onChange={(subject) => setFilter(f => ({ ...f, subject }))} />
+          <Input label="Topic" value={filter.topic} onChange={(topic) => setFilter(f => ({ ...f, topic }))} />
+          <Select label="Difficulty" value={filter.difficulty} onChange={(difficulty) => setFilter(f => ({ ...f, difficulty }))} options={DIFFICULTY_OPTIONS} />
+        </div>
+
+        {!questions ? (
+          <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-4">No questions match.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500">{questions.length} question(s)</div>
+            {questions.map(entry => (
+              <div key={entry.id} className="flex items-start gap-2 p-4 rounded-2xl border border-zinc-100 text-sm">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="font-medium">{entry.question.text}</p>
+                  <p className="text-xs text-zinc-500">
+                    {QUESTION_TYPE_LABELS[questionType(entry.question)]} &middot; {tagLine(entry)}
+                  </p>
+                  {entry.answerKey !== null && (
+                    <p className="text-xs text-zinc-500">Answer: {formatAnswerKey(entry.question, entry.answerKey)}</p>
+                  )}
+                </div>
+                {onAdd && (
+                  <button type="button" title="Add to draft" onClick={() => onAdd(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                )}
+                <button type="button" title="Delete" onClick={() => remove(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
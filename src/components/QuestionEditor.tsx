@@ -0,0 +1,361 @@
+import React from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Check, Plus, Trash2, X } from 'lucide-react';
+import { AnswerKey, ExamDraft, PartialCredit, Question, QuestionType } from '../types';
+import { cn } from '../lib/utils';
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  isChoiceQuestion,
+  isNumericKey,
+  isShortAnswerKey,
+  isSingleAnswerQuestion,
+  isTextKey,
+  questionType
+} from '../lib/questions';
+import { Card, Button } from './ui';
+
+const nextQuestionId = (questions: Question[]) => {
+  let n = questions.length + 1;
+  while (questions.some(q => q.id === `q${n}`)) n++;
+  return `q${n}`;
+};
+
+const keyInputClass = "px-3 py-2 rounded-lg border border-zinc-200 text-sm focus:outline-none focus:border-black transition-all";
+
+// Answer keys for questions students answer by typing rather than picking an option
+export const OpenAnswerKeyEditor = ({
+  q,
+  answerKey,
+  onChange
+}: {
+  q: Question;
+  answerKey: AnswerKey | undefined;
+  onChange: (key: AnswerKey | undefined) => void;
+}) => {
+  switch (questionType(q)) {
+    case 'numeric': {
+      const key = isNumericKey(answerKey) ? answerKey : undefined;
+      return (
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <input
+            type="number"
+            value={key?.value ?? ''}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : { value: parseFloat(e.target.value), tolerance: key?.tolerance ?? 0 })}
+            placeholder="Correct answer"
+            className={cn(keyInputClass, "w-40")}
+          />
+          ±
+          <input
+            type="number"
+            min={0}
+            disabled={!key}
+            value={key?.tolerance ?? 0}
+            onChange={(e) => key && onChange({ ...key, tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+            title="Answers within this distance of the correct one are accepted"
+            className={cn(keyInputClass, "w-24")}
+          />
+        </div>
+      );
+    }
+    case 'fill_blank': {
+      const key = isTextKey(answerKey) ? answerKey : { accepted: [], caseSensitive: false };
+      return (
+        <div className="space-y-2">
+          <textarea
+            value={key.accepted.join('\n')}
+            onChange={(e) => onChange({ ...key, accepted: e.target.value.split('\n') })}
+            placeholder="Accepted answers, one per line"
+            rows={2}
+            className={cn(keyInputClass, "w-full resize-y")}
+          />
+          <label className="flex items-center gap-2 text-xs text-zinc-500">
+            <input type="checkbox" checked={key.caseSensitive} onChange={(e) => onChange({ ...key, caseSensitive: e.target.checked })} />
+            Match capitalisation exactly
+          </label>
+        </div>
+      );
+    }
+    default:
+      return (
+        <div className="space-y-1">
+          <textarea
+            value={isShortAnswerKey(answerKey) ? answerKey.modelAnswer : ''}
+            onChange={(e) => onChange({ modelAnswer: e.target.value })}
+            placeholder="Model answer (optional)"
+            rows={3}
+            className={cn(keyInputClass, "w-full resize-y")}
+          />
+          <p className="text-xs text-zinc-500">Short answers are marked by hand from the grading queue once students submit.</p>
+        </div>
+      );
+  }
+};
+
+export const QuestionEditor = ({
+  draft,
+  onChange
+}: {
+  draft: ExamDraft;
+  onChange: (draft: ExamDraft) => void;
+}) => {
+  const { questions, solutionKey, flags } = draft;
+  const partialCredit = draft.partialCredit ?? {};
+
+  const withCredit = (questionId: string, credit: PartialCredit[string]): PartialCredit => {
+    const { [questionId]: _credit, ...rest } = partialCredit;
+    return Object.keys(credit).length ? { ...rest, [questionId]: credit } : rest;
+  };
+
+  const updateQuestion = (idx: number, patch: Partial<Question>) => {
+    onChange({ ...draft, questions: questions.map((q, i) => (i === idx ? ({ ...q, ...patch } as Question) : q)) });
+  };
+
+  const setKey = (questionId: string, key: AnswerKey | undefined) => {
+    const { [questionId]: _previous, ...rest } = solutionKey;
+    onChange({ ...draft, solutionKey: key === undefined ? rest : { ...rest, [questionId]: key } });
+  };
+
+  // Answers and partial credit do not carry over between types, so switching starts the key afresh
+  const setType = (idx: number, type: QuestionType) => {
+    const { id, text, marks, negativeMarking } = questions[idx];
+    const base = { id, text, marks, negativeMarking };
+    const previous = questions[idx];
+    const next: Question =
+      type === 'true_false' ? { ...base, type, options: [...TRUE_FALSE_OPTIONS] }
+      : type === 'single_choice' || type === 'multiple_choice'
+        ? { ...base, type, options: isChoiceQuestion(previous) && questionType(previous) !== 'true_false' ? previous.options : ['', ''] }
+        : { ...base, type };
+    const { [id]: _key, ...nextKey } = solutionKey;
+    if (type === 'fill_blank') nextKey[id] = { accepted: [], caseSensitive: false };
+    if (type === 'short_answer') nextKey[id] = { modelAnswer: '' };
+    onChange({ ...draft, questions: questions.map((q, i) => (i === idx ? next : q)), solutionKey: nextKey, partialCredit: withCredit(id, {}) });
+  };
+
+  const setCorrect = (q: Question, optionIdx: number) => {
+    if (questionType(q) === 'multiple_choice') {
+      const current = solutionKey[q.id];
+      const selected = Array.isArray(current) ? current : [];
+      const next = selected.includes(optionIdx) ? selected.filter(o => o !== optionIdx) : [...selected, optionIdx].sort((a, b) => a - b);
+      return setKey(q.id, next.length ? next : undefined);
+    }
+    // The correct answer earns full marks, so it cannot also carry partial credit
+    const { [optionIdx]: _dropped, ...credit } = partialCredit[q.id] ?? {};
+    onChange({ ...draft, solutionKey: { ...solutionKey, [q.id]: optionIdx }, partialCredit: withCredit(q.id, credit) });
+  };
+
+  const isKeyed = (q: Question, optionIdx: number) => {
+    const key = solutionKey[q.id];
+    return Array.isArray(key) ? key.includes(optionIdx) : key === optionIdx;
+  };
+
+  const setPartialCredit = (questionId: string, optionIdx: number, percent: string) => {
+    const fraction = Math.min(100, Math.max(0, parseFloat(percent) || 0)) / 100;
+    const { [optionIdx]: _previous, ...credit } = partialCredit[questionId] ?? {};
+    onChange({ ...draft, partialCredit: withCredit(questionId, fraction ? { ...credit, [optionIdx]: fraction } : credit) });
+  };
+
+  const setNegativeMarking = (idx: number, percent: string) => {
+    const { negativeMarking: _previous, ...question } = questions[idx];
+    const next = percent === '' ? question : { ...question, negativeMarking: Math.min(100, Math.max(0, parseFloat(percent) || 0)) / 100 };
+    onChange({ ...draft, questions: questions.map((q, i) => (i === idx ? next : q)) });
+  };
+
+  const removeOption = (qIdx: number, optIdx: number) => {
+    const q = questions[qIdx];
+    if (!isChoiceQuestion(q)) return;
+    const nextKey = { ...solutionKey };
+    const correct = solutionKey[q.id];
+    const shift = (o: number) => (o > optIdx ? o - 1 : o);
+    if (Array.isArray(correct)) {
+      const remaining = correct.filter(o => o !== optIdx).map(shift);
+      if (remaining.length) nextKey[q.id] = remaining;
+      else delete nextKey[q.id];
+    } else if (correct === optIdx) delete nextKey[q.id];
+    else if (typeof correct === 'number') nextKey[q.id] = shift(correct);
+
+    const nextCredit: PartialCredit[string] = {};
+    for (const [option, fraction] of Object.entries(partialCredit[q.id] ?? {})) {
+      const o = Number(option);
+      if (o !== optIdx) nextCredit[o > optIdx ? o - 1 : o] = fraction;
+    }
+
+    onChange({
+      ...draft,
+      questions: questions.map((item, i) => (i === qIdx ? { ...q, options: q.options.filter((_, o) => o !== optIdx) } : item)),
+      solutionKey: nextKey,
+      partialCredit: withCredit(q.id, nextCredit)
+    });
+  };
+
+  const moveQuestion = (idx: number, direction: -1 | 1) => {
+    const target = idx + direction;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange({ ...draft, questions: next });
+  };
+
+  const deleteQuestion = (idx: number) => {
+    const { id } = questions[idx];
+    const { [id]: _key, ...nextKey } = solutionKey;
+    const { [id]: _flags, ...nextFlags } = flags;
+    onChange({ questions: questions.filter((_, i) => i !== idx), solutionKey: nextKey, flags: nextFlags, partialCredit: withCredit(id, {}) });
+  };
+
+  const addQuestion = () => {
+    onChange({ ...draft, questions: [...questions, { id: nextQuestionId(questions), type: 'single_choice', text: '', options: ['', ''] }] });
+  };
+
+  const markReviewed = (questionId: string) => {
+    const { [questionId]: _flags, ...nextFlags } = flags;
+    onChange({ ...draft, flags: nextFlags });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((q, qIdx) => {
+        const issues = flags[q.id];
+        return (
+          <Card key={q.id} className={cn("p-6 space-y-4", issues && "border-amber-300")}>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold uppercase tracking-widest text-zinc-400">Question {qIdx + 1}</span>
+              <div className="flex items-center gap-1">
+                <button type="button" title="Move up" disabled={qIdx === 0} onClick={() => moveQuestion(qIdx, -1)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100 disabled:opacity-30">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button type="button" title="Move down" disabled={qIdx === questions.length - 1} onClick={() => moveQuestion(qIdx, 1)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100 disabled:opacity-30">
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button type="button" title="Delete question" onClick={() => deleteQuestion(qIdx)} className="p-2 rounded-lg text-red-400 hover:bg-red-50">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {issues && (
+              <div className="p-3 bg-amber-50 rounded-xl border border-amber-100 flex items-start justify-between gap-3">
+                <div className="flex gap-2 text-xs text-amber-800">
+                  <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                  <ul className="space-y-0.5">
+                    {issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                </div>
+                <button type="button" onClick={() => markReviewed(q.id)} className="text-xs font-bold text-amber-700 hover:text-amber-900 shrink-0">
+                  Mark reviewed
+                </button>
+              </div>
+            )}
+
+            <textarea
+              value={q.text}
+              onChange={(e) => updateQuestion(qIdx, { text: e.target.value })}
+              placeholder="Question text"
+              rows={2}
+              className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-black transition-all resize-y"
+            />
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-zinc-500">
+              <label className="flex items-center gap-2">
+                Type
+                <select
+                  value={questionType(q)}
+                  onChange={(e) => setType(qIdx, e.target.value as QuestionType)}
+                  className="px-2 py-1 rounded-lg border border-zinc-200 text-sm bg-white focus:outline-none focus:border-black"
+                >
+                  {QUESTION_TYPES.map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Marks
+                <input
+                  type="number"
+                  min={0}
+                  value={q.marks ?? 1}
+                  onChange={(e) => updateQuestion(qIdx, { marks: parseFloat(e.target.value) || 0 })}
+                  className="w-16 px-2 py-1 rounded-lg border border-zinc-200 text-sm focus:outline-none focus:border-black"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Wrong answer penalty
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={q.negativeMarking === undefined ? '' : Math.round(q.negativeMarking * 100)}
+                  onChange={(e) => setNegativeMarking(qIdx, e.target.value)}
+                  placeholder="Exam default"
+                  className="w-28 px-2 py-1 rounded-lg border border-zinc-200 text-sm focus:outline-none focus:border-black"
+                />
+                %
+              </label>
+            </div>
+
+            {isChoiceQuestion(q) ? (
+              <div className="space-y-2">
+                {questionType(q) === 'multiple_choice' && (
+                  <p className="text-xs text-zinc-500">Mark every correct option; students must select all of them.</p>
+                )}
+                {q.options.map((opt, optIdx) => (
+                  <div key={optIdx} className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      title="Mark as correct answer"
+                      onClick={() => setCorrect(q, optIdx)}
+                      className={cn(
+                        "w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold shrink-0 transition-colors",
+                        isKeyed(q, optIdx) ? "bg-emerald-500 text-white" : "bg-zinc-100 text-zinc-400 hover:bg-zinc-200"
+                      )}
+                    >
+                      {isKeyed(q, optIdx) ? <Check className="w-4 h-4" /> : String.fromCharCode(65 + optIdx)}
+                    </button>
+                    <input
+                      value={opt}
+                      readOnly={questionType(q) === 'true_false'}
+                      onChange={(e) => updateQuestion(qIdx, { options: q.options.map((o, i) => (i === optIdx ? e.target.value : o)) })}
+                      placeholder={`Option ${String.fromCharCode(65 + optIdx)}`}
+                      className="flex-1 px-3 py-2 rounded-lg border border-zinc-200 text-sm focus:outline-none focus:border-black transition-all read-only:bg-zinc-50"
+                    />
+                    {isSingleAnswerQuestion(q) && !isKeyed(q, optIdx) && (
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        title="Partial credit (% of marks)"
+                        value={partialCredit[q.id]?.[optIdx] ? Math.round(partialCredit[q.id][optIdx] * 100) : ''}
+                        onChange={(e) => setPartialCredit(q.id, optIdx, e.target.value)}
+                        placeholder="0%"
+                        className="w-16 px-2 py-2 rounded-lg border border-zinc-200 text-xs focus:outline-none focus:border-black"
+                      />
+                    )}
+                    {questionType(q) !== 'true_false' && (
+                      <button type="button" title="Remove option" disabled={q.options.length <= 2} onClick={() => removeOption(qIdx, optIdx)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100 disabled:opacity-30">
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {questionType(q) !== 'true_false' && (
+                  <button
+                    type="button"
+                    onClick={() => updateQuestion(qIdx, { options: [...q.options, ''] })}
+                    className="text-xs font-medium text-zinc-500 hover:text-black flex items-center gap-1 pl-10"
+                  >
+                    <Plus className="w-3 h-3" /> Add option
+                  </button>
+                )}
+              </div>
+            ) : (
+              <OpenAnswerKeyEditor q={q} answerKey={solutionKey[q.id]} onChange={(key) => setKey(q.id, key)} />
+            )}
+          </Card>
+        );
+      })}
+
+      <Button variant="secondary" className="w-full" onClick={addQuestion}>
+        <Plus className="w-4 h-4" />
+        Add Question
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, BarChart3, Check, Clock, Download, FileDown, Loader2, X } from 'lucide-react';
+import { ExamResult, ExamResultDetail } from '../types';
+import * as api from '../api/client';
+import { cn } from '../lib/utils';
+import { Card, Input, Select } from './ui';
+
+type SortKey = 'studentName' | 'studentClass' | 'score' | 'percentage' | 'timestamp';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'studentName', label: 'Student' },
+  { key: 'studentClass', label: 'Class' },
+  { key: 'score', label: 'Score' },
+  { key: 'percentage', label: '%' },
+  { key: 'timestamp', label: 'Submitted' }
+];
+
+const ALL_CLASSES = '__all__';
+
+export const ResultsPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [results, setResults] = useState<ExamResult[] | null>(null);
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'timestamp', desc: true });
+  const [selected, setSelected] = useState<ExamResultDetail | null>(null);
+
+  useEffect(() => {
+    setClassFilter(ALL_CLASSES);
+    setDateRange({ from: '', to: '' });
+  }, [examId]);
+
+  // The date range is applied by the server; class filtering and sorting happen here
+  const { from, to } = dateRange;
+
+  useEffect(() => {
+    setResults(null);
+    setSelected(null);
+    api.listResults(examId, { from, to })
+      .catch(() => [])
+      .then(setResults);
+  }, [examId, from, to]);
+
+  const filters = () => ({ from, to, class: classFilter === ALL_CLASSES ? undefined : classFilter });
+
+  const exportUrl = (format: 'csv' | 'xlsx', sheet: 'attempts' | 'responses' = 'attempts') =>
+    api.exportResultsUrl(examId, { ...filters(), format, sheet });
+
+  const reportUrl = () => api.classReportUrl(examId, filters());
+
+  const classes = useMemo(() => [...new Set((results ?? []).map(r => r.studentClass))].sort(), [results]);
+
+  const visible = useMemo(() => {
+    const rows = (results ?? []).filter(r => classFilter === ALL_CLASSES || r.studentClass === classFilter);
+    const direction = sort.desc ? -1 : 1;
+    return rows.sort((a, b) => {
+      const x = a[sort.key], y = b[sort.key];
+      return (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))) * direction;
+    });
+  }, [results, classFilter, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => ({ key, desc: current.key === key ? !current.desc : key !== 'studentName' && key !== 'studentClass' }));
+  };
+
+  const openResult = async (id: number) => {
+    const detail = await api.getResult(examId, id).catch(() => null);
+    if (detail) setSelected(detail);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <BarChart3 className="w-6 h-6" />
+            Results
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <div className="grid sm:grid-cols-3 gap-4">
+          <Select
+            label="Class"
+            value={classFilter}
+            onChange={setClassFilter}
+            options={[{ value: ALL_CLASSES, label: 'All classes' }, ...classes.map(c => ({ value: c, label: c }))]}
+          />
+          <Input label="From" type="date" value={dateRange.from} onChange={(from) => setDateRange(r => ({ ...r, from }))} />
+          <Input label="To" type="date" value={dateRange.to} onChange={(to) => setDateRange(r => ({ ...r, to }))} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {[
+            { label: 'Attempts CSV', href: exportUrl('csv') },
+            { label: 'Responses CSV', href: exportUrl('csv', 'responses') },
+            { label: 'Excel Workbook', href: exportUrl('xlsx') },
+            { label: 'Class Report PDF', href: reportUrl() }
+          ].map(link => (
+            <a
+              key={link.label}
+              href={link.href}
+              download
+              className="px-3 py-1.5 rounded-lg bg-zinc-100 text-xs font-medium text-zinc-900 hover:bg-zinc-200 flex items-center gap-1.5"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {link.label}
+            </a>
+          ))}
+        </div>
+
+        {!results ? (
+          <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-4">No submissions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-widest text-zinc-400 border-b border-zinc-100">
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className="py-2 pr-4 font-bold">
+                      <button type="button" onClick={() => toggleSort(col.key)} className="flex items-center gap-1 hover:text-black">
+                        {col.label}
+                        {sort.key === col.key && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-2 font-bold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(result => (
+                  <tr
+                    key={result.id}
+                    onClick={() => openResult(result.id)}
+                    className={cn(
+                      "border-b border-zinc-50 cursor-pointer hover:bg-zinc-50",
+                      selected?.id === result.id && "bg-zinc-50"
+                    )}
+                  >
+                    <td className="py-2 pr-4 font-medium">{result.studentName}</td>
+                    <td className="py-2 pr-4 text-zinc-500">{result.studentClass}</td>
+                    <td className="py-2 pr-4 font-mono">{result.score}/{result.totalMarks}</td>
+                    <td className="py-2 pr-4 font-mono">{result.percentage}%</td>
+                    <td className="py-2 pr-4 text-zinc-500 whitespace-nowrap">{new Date(result.timestamp).toLocaleString()}</td>
+                    <td className="py-2 space-x-1 whitespace-nowrap">
+                      <span className={cn(
+                        "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
+                        result.resultStatus === 'PASS' ? "bg-emerald-100 text-emerald-700" : "bg-zinc-100 text-zinc-600"
+                      )}>
+                        {result.resultStatus}
+                      </span>
+                      {result.grade && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest bg-black text-white">{result.grade}</span>
+                      )}
+                      {result.pendingReview > 0 && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest bg-blue-100 text-blue-700">To mark</span>
+                      )}
+                      {result.terminated && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest bg-red-100 text-red-700">Terminated</span>
+                      )}
+                      {result.late && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest bg-amber-100 text-amber-700">Late</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {selected && (
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <div className="font-medium">{selected.studentName} &middot; {selected.studentClass}</div>
+              <div className="text-xs text-zinc-500">
+                {selected.score}/{selected.totalMarks} ({selected.percentage}%){selected.grade && ` · Grade ${selected.grade}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <a
+                href={api.resultReportUrl(examId, selected.id)}
+                download
+                title="Result sheet PDF"
+                className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100"
+              >
+                <FileDown className="w-4 h-4" />
+              </a>
+              <button type="button" title="Close" onClick={() => setSelected(null)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {selected.responses.map((response, i) => (
+              <div key={response.questionId} className="p-4 rounded-2xl border border-zinc-100 space-y-1 text-sm">
+                <p className="font-medium flex items-start gap-2">
+                  {response.isCorrect === null ? <Clock className="w-4 h-4 text-blue-500 shrink-0" />
+                    : response.isCorrect ? <Check className="w-4 h-4 text-emerald-500 shrink-0" />
+                    : <X className="w-4 h-4 text-red-500 shrink-0" />}
+                  <span className="flex-1">{i + 1}. {response.text}</span>
+                  <span className="font-mono text-xs text-zinc-500 shrink-0">
+                    {response.isCorrect === null ? 'To mark' : `${response.marksAwarded}/${response.marks}`}
+                  </span>
+                </p>
+                <p className={cn(response.isCorrect === null ? "text-zinc-700" : response.isCorrect ? "text-emerald-600" : "text-red-500", "whitespace-pre-wrap")}>
+                  Answer: {response.answerText}
+                </p>
+                {response.isCorrect !== true && response.correctAnswerText && (
+                  <p className="text-zinc-500 whitespace-pre-wrap">
+                    {response.type === 'short_answer' ? 'Model answer' : 'Correct answer'}: {response.correctAnswerText}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Accessibility, Check, Copy, Download, Loader2, RefreshCw, Trash2, Upload, Users, X } from 'lucide-react';
+import { Accommodations, RosterEntry } from '../types';
+import * as api from '../api/client';
+import { errorMessage } from '../api/client';
+import { cn, getJoinLink } from '../lib/utils';
+import { Card, Button, Input } from './ui';
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const TIME_MULTIPLIERS = [1, 1.25, 1.5, 2];
+
+const describeAccommodations = ({ timeMultiplier, breakMinutes, proctoringExempt }: Accommodations) => [
+  timeMultiplier > 1 && `${timeMultiplier}× time`,
+  breakMinutes > 0 && `${breakMinutes} min breaks`,
+  proctoringExempt && 'focus exempt'
+].filter(Boolean).join(' · ');
+
+// Saved on the student, so it applies to every exam they are enrolled on from their next attempt
+const AccommodationsEditor = ({
+  entry,
+  onSaved
+}: {
+  entry: RosterEntry;
+  onSaved: (accommodations: Accommodations) => void;
+}) => {
+  const [draft, setDraft] = useState(entry.accommodations);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const student = await api.setAccommodations(entry.id, { accommodations: draft });
+      onSaved(student.accommodations);
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 px-3 pb-3 text-sm">
+      <label className="space-y-1">
+        <span className="block text-xs text-zinc-500">Time</span>
+        <select
+          value={draft.timeMultiplier}
+          onChange={(e) => setDraft({ ...draft, timeMultiplier: Number(e.target.value) })}
+          className="px-3 py-2 rounded-xl border border-zinc-200 bg-white focus:outline-none focus:border-black"
+        >
+          {TIME_MULTIPLIERS.map(m => <option key={m} value={m}>{m === 1 ? 'Standard' : `${m}×`}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="block text-xs text-zinc-500">Break minutes</span>
+        <input
+          type="number"
+          min={0}
+          max={120}
+          value={draft.breakMinutes}
+          onChange={(e) => setDraft({ ...draft, breakMinutes: Number(e.target.value) })}
+          className="w-24 px-3 py-2 rounded-xl border border-zinc-200 focus:outline-none focus:border-black"
+        />
+      </label>
+      <label className="flex items-center gap-2 py-2">
+        <input
+          type="checkbox"
+          checked={draft.proctoringExempt}
+          onChange={(e) => setDraft({ ...draft, proctoringExempt: e.target.checked })}
+        />
+        Exempt from fullscreen and focus checks
+      </label>
+      <Button variant="secondary" className="ml-auto" disabled={isSaving} onClick={save}>
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+};
+
+// Imports students onto one exam and hands out their personal access codes and links
+export const RosterPanel = ({
+  examId,
+  examTitle,
+  onClose
+}: {
+  examId: string;
+  examTitle: string;
+  onClose: () => void;
+}) => {
+  const [roster, setRoster] = useState<RosterEntry[] | null>(null);
+  const [csv, setCsv] = useState('');
+  const [studentClass, setStudentClass] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setRoster(null);
+    api.getExamRoster(examId)
+      .catch(() => [])
+      .then(setRoster);
+  }, [examId]);
+
+  const enrol = async (body: { csv: string } | { class: string }) => {
+    setIsSaving(true);
+    try {
+      setRoster(await api.enrollStudents(examId, body));
+      setCsv('');
+      setStudentClass('');
+    } catch (e) {
+      alert(errorMessage(e, 'Could not reach the server. Check your connection.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reissue = async (entry: RosterEntry) => {
+    if (entry.usedAt === null && !confirm(`Replace ${entry.name}'s access code? The old code will stop working.`)) return;
+    const updated = await api.reissueAccessCode(examId, entry.id).catch(() => null);
+    if (updated) setRoster(current => (current ?? []).map(e => (e.id === updated.id ? updated : e)));
+  };
+
+  const remove = async (entry: RosterEntry) => {
+    if (!confirm(`Remove ${entry.name} from this exam?`)) return;
+    const removed = await api.removeFromRoster(examId, entry.id).then(() => true, () => false);
+    if (removed) setRoster(current => (current ?? []).filter(e => e.id !== entry.id));
+  };
+
+  const copyLink = async (entry: RosterEntry) => {
+    await navigator.clipboard.writeText(getJoinLink(examId, entry.accessCode));
+    setCopiedId(entry.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  // One row per student, ready for a mail merge or printed slips
+  const downloadCodes = () => {
+    const lines = [
+      ['Student ID', 'Name', 'Class', 'Email', 'Access Code', 'Link'],
+      ...(roster ?? []).map(e => [e.studentNumber, e.name, e.studentClass, e.email ?? '', e.accessCode, getJoinLink(examId, e.accessCode)])
+    ];
+    const url = URL.createObjectURL(new Blob([lines.map(l => l.map(csvCell).join(',')).join('\n')], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${examId}-access-codes.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const saveAccommodations = (entry: RosterEntry, accommodations: Accommodations) => {
+    setRoster(current => (current ?? []).map(e => (e.id === entry.id ? { ...e, accommodations } : e)));
+    setEditingId(null);
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (file) setCsv(await file.text());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <Users className="w-6 h-6" />
+            Roster
+          </h3>
+          <p className="text-sm text-zinc-500">{examTitle} &middot; {examId}</p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <Card className="p-6 space-y-4">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-zinc-700">Import CSV</label>
+            <textarea
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              placeholder={'Student ID,Name,Class,Email\nS001,Ada Lovelace,12A,ada@school.edu'}
+              rows={5}
+              className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 text-xs font-mono resize-y focus:outline-none focus:border-black"
+            />
+            <input type="file" accept=".csv,text/csv" onChange={(e) => readFile(e.target.files?.[0])} className="text-xs text-zinc-500" />
+          </div>
+          <Button variant="secondary" className="w-full" disabled={isSaving || !csv.trim()} onClick={() => enrol({ csv })}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import and Add
+          </Button>
+          <div className="pt-4 border-t border-zinc-100 space-y-4">
+            <Input label="Add a Class You Have Imported" value={studentClass} onChange={setStudentClass} placeholder="e.g. 12A" />
+            <Button variant="secondary" className="w-full" disabled={isSaving || !studentClass.trim()} onClick={() => enrol({ class: studentClass })}>
+              Add Class
+            </Button>
+          </div>
+          <p className="text-xs text-zinc-500">
+            Once an exam has a roster, only students on it can join, each with their own one-time access code.
+          </p>
+        </Card>
+
+        <Card className="p-4 space-y-2 md:col-span-2">
+          {!roster && <Loader2 className="w-5 h-5 animate-spin mx-auto text-zinc-400" />}
+          {roster?.length === 0 && <p className="text-sm text-zinc-500 text-center py-4">Anyone with the exam code can join. Import a roster to restrict it.</p>}
+          {!!roster?.length && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-zinc-500">
+                {roster.length} student(s) &middot; {roster.filter(e => e.usedAt !== null).length} joined
+              </span>
+              <Button variant="ghost" className="text-xs" onClick={downloadCodes}>
+                <Download className="w-4 h-4" />
+                Download Codes
+              </Button>
+            </div>
+          )}
+          {roster?.map(entry => (
+            <div key={entry.id} className="rounded-xl border border-zinc-100">
+              <div className="flex items-center gap-2 p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{entry.name}</div>
+                  <div className="text-xs text-zinc-400">
+                    {entry.studentNumber} &middot; {entry.studentClass}
+                    {describeAccommodations(entry.accommodations) && (
+                      <span className="text-sky-600"> &middot; {describeAccommodations(entry.accommodations)}</span>
+                    )}
+                  </div>
+                </div>
+                <span className={cn(
+                  "px-2 py-0.5 rounded-full font-mono text-xs shrink-0",
+                  entry.usedAt === null ? "bg-zinc-100 text-zinc-700" : "bg-zinc-50 text-zinc-400 line-through"
+                )}>
+                  {entry.accessCode}
+                </span>
+                <button type="button" title="Copy personal link" disabled={entry.usedAt !== null} onClick={() => copyLink(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100 disabled:opacity-30">
+                  {copiedId === entry.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+                <button type="button" title={entry.usedAt === null ? 'Issue a new code' : 'Allow another attempt'} onClick={() => reissue(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  title="Accommodations"
+                  onClick={() => setEditingId(editingId === entry.id ? null : entry.id)}
+                  className={cn("p-2 rounded-lg hover:bg-zinc-100", editingId === entry.id ? "text-black" : "text-zinc-400")}
+                >
+                  <Accessibility className="w-4 h-4" />
+                </button>
+                <button type="button" title="Remove" onClick={() => remove(entry)} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {editingId === entry.id && (
+                <AccommodationsEditor entry={entry} onSaved={(accommodations) => saveAccommodations(entry, accommodations)} />
+              )}
+            </div>
+          ))}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { ScoringRules } from '../types';
+import { Input, Select } from './ui';
+
+const clampPercent = (value: string) => Math.min(100, Math.max(0, parseFloat(value) || 0));
+
+export const ScoringSettings = ({
+  rules,
+  onChange
+}: {
+  rules: ScoringRules;
+  onChange: (rules: ScoringRules) => void;
+}) => {
+  const update = (patch: Partial<ScoringRules>) => onChange({ ...rules, ...patch });
+
+  const updateBand = (idx: number, patch: Partial<ScoringRules['gradeBands'][number]>) => {
+    update({ gradeBands: rules.gradeBands.map((band, i) => (i === idx ? { ...band, ...patch } : band)) });
+  };
+
+  const addBand = () => {
+    const lowest = rules.gradeBands[rules.gradeBands.length - 1];
+    const grade = lowest ? String.fromCharCode(lowest.grade.charCodeAt(0) + 1) : 'A';
+    update({ gradeBands: [...rules.gradeBands, { grade, minPercentage: lowest ? Math.max(0, lowest.minPercentage - 10) : 80 }] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm font-medium text-zinc-700">Scoring</div>
+      <div className="grid grid-cols-3 gap-6">
+        <Input
+          label="Pass Mark (%)"
+          type="number"
+          value={rules.passPercentage}
+          onChange={(v) => update({ passPercentage: clampPercent(v) })}
+        />
+        <Input
+          label="Wrong Answer Penalty (%)"
+          type="number"
+          value={Math.round(rules.negativeMarking * 100)}
+          onChange={(v) => update({ negativeMarking: clampPercent(v) / 100 })}
+        />
+        <Select
+          label="Unanswered Questions"
+          value={rules.unanswered}
+          onChange={(unanswered) => update({ unanswered })}
+          options={[
+            { value: 'zero', label: 'Score zero' },
+            { value: 'penalize', label: 'Penalize as wrong' }
+          ]}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-zinc-500">
+          Grade bands (optional). The penalty is a share of each question's marks; questions can override it below.
+        </div>
+        {rules.gradeBands.map((band, idx) => (
+          <div key={idx} className="flex items-center gap-2 text-sm">
+            <input
+              value={band.grade}
+              onChange={(e) => updateBand(idx, { grade: e.target.value })}
+              placeholder="Grade"
+              className="w-20 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+            />
+            <span className="text-zinc-500">from</span>
+            <input
+              type="number"
+              value={band.minPercentage}
+              onChange={(e) => updateBand(idx, { minPercentage: clampPercent(e.target.value) })}
+              className="w-20 px-3 py-2 rounded-lg border border-zinc-200 focus:outline-none focus:border-black"
+            />
+            <span className="text-zinc-500">%</span>
+            <button type="button" title="Remove grade" onClick={() => update({ gradeBands: rules.gradeBands.filter((_, i) => i !== idx) })} className="p-2 rounded-lg text-zinc-400 hover:bg-zinc-100">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={addBand} className="text-xs font-medium text-zinc-500 hover:text-black flex items-center gap-1">
+          <Plus className="w-3 h-3" /> Add grade band
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+// --- Components ---
+
+export const Card = ({ children, className, onClick, ...props }: React.HTMLAttributes<HTMLDivElement>) => (
+  <div 
+    onClick={onClick}
+    className={cn(
+      "bg-white rounded-2xl border border-black/5 shadow-sm overflow-hidden", 
+      onClick && "cursor-pointer hover:border-zinc-400 transition-all",
+      className
+    )}
+    {...props}
+  >
+    {children}
+  </div>
+);
+
+export const Button = ({ 
+  children, 
+  onClick, 
+  variant = 'primary', 
+  className,
+  disabled,
+  type = 'button'
+}: { 
+  children: React.ReactNode; 
+  onClick?: () => void; 
+  variant?: 'primary' | 'secondary' | 'danger' | 'ghost';
+  className?: string;
+  disabled?: boolean;
+  type?: 'button' | 'submit';
+}) => {
+  const variants = {
+    primary: "bg-black text-white hover:bg-zinc-800",
+    secondary: "bg-zinc-100 text-zinc-900 hover:bg-zinc-200",
+    danger: "bg-red-500 text-white hover:bg-red-600",
+    ghost: "bg-transparent text-zinc-600 hover:bg-zinc-100"
+  };
+
+  return (
+    <button 
+      type={type}
+      disabled={disabled}
+      onClick={onClick}
+      className={cn(
+        "px-6 py-2.5 rounded-xl font-medium transition-all active:scale-95 disabled:opacity-50 disabled:active:scale-100 flex items-center justify-center gap-2",
+        variants[variant],
+        className
+      )}
+    >
+      {children}
+    </button>
+  );
+};
+
+export const Input = ({ 
+  label, 
+  value, 
+  onChange, 
+  placeholder, 
+  type = 'text',
+  required 
+}: { 
+  label: string; 
+  value: string | number; 
+  onChange: (val: string) => void; 
+  placeholder?: string;
+  type?: string;
+  required?: boolean;
+}) => (
+  <div className="space-y-1.5">
+    <label className="text-sm font-medium text-zinc-700">{label}</label>
+    <input 
+      type={type}
+      required={required}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-black transition-all"
+    />
+  </div>
+);
+
+export const FileUpload = ({ 
+  label, 
+  onFileSelect, 
+  accept = ".pdf",
+  fileName
+}: { 
+  label: string; 
+  onFileSelect: (file: File) => void;
+  accept?: string;
+  fileName?: string;
+}) => (
+  <div className="space-y-1.5">
+    <label className="text-sm font-medium text-zinc-700">{label}</label>
+    <div className="relative group">
+      <input 
+        type="file" 
+        accept={accept}
+        onChange={(e) => e.target.files?.[0] && onFileSelect(e.target.files[0])}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+      />
+      <div className={cn(
+        "flex items-center gap-3 px-4 py-3 rounded-xl border-2 border-dashed transition-all",
+        fileName ? "border-black bg-zinc-50" : "border-zinc-200 group-hover:border-zinc-400"
+      )}>
+        <Upload className={cn("w-5 h-5", fileName ? "text-black" : "text-zinc-400")} />
+        <span className={cn("text-sm", fileName ? "text-black font-medium" : "text-zinc-500")}>
+          {fileName || "Click or drag PDF to upload"}
+        </span>
+      </div>
+    </div>
+  </div>
+);
+
+export const Select = <T extends string>({ 
+  label, 
+  value, 
+  onChange, 
+  options 
+}: { 
+  label: string; 
+  value: T; 
+  onChange: (val: T) => void; 
+  options: { value: T; label: string }[];
+}) => (
+  <div className="space-y-1.5">
+    <label className="text-sm font-medium text-zinc-700">{label}</label>
+    <select 
+      value={value}
+      onChange={(e) => onChange(e.target.value as T)}
+      className="w-full px-4 py-2.5 rounded-xl border border-zinc-200 bg-white focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-black transition-all"
+    >
+      {options.map(opt => (
+        <option key={opt.value} value={opt.value}>{opt.label}</option>
+      ))}
+    </select>
+  </div>
+);
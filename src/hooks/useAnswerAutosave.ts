@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnswerUpdate } from '../types';
+import * as api from '../api/client';
+import { ApiError } from '../api/client';
+
+const DEBOUNCE_MS = 800;
+const RETRY_MS = 15 * 1000;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline';
+
+// Unsent changes live in localStorage so they survive a crash or a reload while offline
+const queueKey = (attemptId: string) => `secure-exam:pending-answers:${attemptId}`;
+
+export function readPendingAnswers(attemptId: string): AnswerUpdate {
+  try {
+    return JSON.parse(localStorage.getItem(queueKey(attemptId)) || '') as AnswerUpdate;
+  } catch {
+    return { answers: {} };
+  }
+}
+
+function writePendingAnswers(attemptId: string, update: AnswerUpdate) {
+  if (!Object.keys(update.answers).length && update.currentQuestionIdx === undefined) {
+    localStorage.removeItem(queueKey(attemptId));
+  } else {
+    localStorage.setItem(queueKey(attemptId), JSON.stringify(update));
+  }
+}
+
+export function clearPendingAnswers(attemptId: string) {
+  localStorage.removeItem(queueKey(attemptId));
+}
+
+export function useAnswerAutosave(attemptId: string | null) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const debounceRef = useRef<ReturnType<typeof setTimeout>>();
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+
+  const sendPending = useCallback(async (): Promise<boolean> => {
+    if (!attemptId) return true;
+    const sent = readPendingAnswers(attemptId);
+    if (!Object.keys(sent.answers).length && sent.currentQuestionIdx === undefined) return true;
+
+    setStatus('saving');
+    try {
+      // 4xx means the server will never accept this batch; retrying would only loop
+      const accepted = await api.saveAnswers(attemptId, sent).then(() => true, (e: unknown) => {
+        if (e instanceof ApiError && e.status < 500) return false;
+        throw e;
+      });
+
+      // Drop only what was sent; anything changed while the request was in flight stays queued
+      const latest = readPendingAnswers(attemptId);
+      for (const [questionId, value] of Object.entries(sent.answers)) {
+        // Compared as JSON since multiple-select answers are arrays read back from storage
+        if (JSON.stringify(latest.answers[questionId]) === JSON.stringify(value)) delete latest.answers[questionId];
+      }
+      if (latest.currentQuestionIdx === sent.currentQuestionIdx) delete latest.currentQuestionIdx;
+      writePendingAnswers(attemptId, latest);
+
+      setStatus(accepted ? 'saved' : 'idle');
+      return accepted;
+    } catch (e) {
+      console.error(e);
+      setStatus('offline');
+      return false;
+    }
+  }, [attemptId]);
+
+  // Serializes flushes so two overlapping requests can never reorder an answer change
+  const flush = useCallback(async (): Promise<boolean> => {
+    clearTimeout(debounceRef.current);
+    while (inFlightRef.current) await inFlightRef.current;
+    const request = sendPending();
+    inFlightRef.current = request;
+    try {
+      return await request;
+    } finally {
+      inFlightRef.current = null;
+    }
+  }, [sendPending]);
+
+  const queue = useCallback((update: Partial<AnswerUpdate>) => {
+    if (!attemptId) return;
+    const pending = readPendingAnswers(attemptId);
+    writePendingAnswers(attemptId, {
+      answers: { ...pending.answers, ...update.answers },
+      currentQuestionIdx: update.currentQuestionIdx ?? pending.currentQuestionIdx
+    });
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(flush, DEBOUNCE_MS);
+  }, [attemptId, flush]);
+
+  // Flush whatever is queued as soon as connectivity returns, and keep retrying while offline
+  useEffect(() => {
+    if (!attemptId) return;
+    const handleOnline = () => { flush(); };
+    window.addEventListener('online', handleOnline);
+    const retry = setInterval(handleOnline, RETRY_MS);
+    flush();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(retry);
+      clearTimeout(debounceRef.current);
+    };
+  }, [attemptId, flush]);
+
+  return { status, queue, flush };
+}
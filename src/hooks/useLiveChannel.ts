@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { Broadcast, SubmissionResult } from '../types';
+import { attemptStreamUrl } from '../api/client';
+
+export interface LiveChannelHandlers {
+  onMessage: (broadcast: Broadcast) => void;
+  onDeadline: (deadline: number) => void;
+  onSubmitted: (result: SubmissionResult) => void;
+}
+
+// Keeps the attempt's live channel open while the exam is on screen. EventSource reconnects by itself after a drop,
+// and the examiner's monitor shows the student as disconnected until it does.
+export function useLiveChannel(attemptId: string | null, active: boolean, handlers: LiveChannelHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!attemptId || !active) return;
+    const source = new EventSource(attemptStreamUrl(attemptId));
+    const read = (e: Event) => JSON.parse((e as MessageEvent).data);
+
+    source.addEventListener('message', e => handlersRef.current.onMessage(read(e)));
+    source.addEventListener('deadline', e => handlersRef.current.onDeadline(read(e).deadline));
+    source.addEventListener('submitted', e => {
+      source.close();
+      handlersRef.current.onSubmitted(read(e));
+    });
+    return () => source.close();
+  }, [attemptId, active]);
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { IntegrityEventInput, IntegrityEventType, ProctoringEvent, ProctoringPolicy } from '../types';
+import { DEFAULT_PROCTORING_POLICY } from '../lib/proctoring';
+import * as api from '../api/client';
+import { ApiError } from '../api/client';
+
+const DEVTOOLS_SIZE_THRESHOLD = 160;
+const DEVTOOLS_POLL_MS = 1000;
+const RETRY_MS = 15 * 1000;
+
+export interface ProctoringWarning {
+  event: ProctoringEvent;
+  count: number;
+  allowed: number;
+}
+
+export interface PendingAway {
+  event: ProctoringEvent;
+  countsAt: number;
+}
+
+const violationsKey = (attemptId: string) => `secure-exam:violations:${attemptId}`;
+
+// Events wait here until the server has logged them; the submission carries whatever is left over
+const eventsKey = (attemptId: string) => `secure-exam:pending-events:${attemptId}`;
+
+export function readPendingEvents(attemptId: string): IntegrityEventInput[] {
+  try {
+    return JSON.parse(localStorage.getItem(eventsKey(attemptId)) || '[]') as IntegrityEventInput[];
+  } catch {
+    return [];
+  }
+}
+
+export function queueIntegrityEvent(attemptId: string, type: IntegrityEventType) {
+  const event: IntegrityEventInput = { id: crypto.randomUUID(), type, occurredAt: Date.now() };
+  localStorage.setItem(eventsKey(attemptId), JSON.stringify([...readPendingEvents(attemptId), event]));
+}
+
+export function clearPendingEvents(attemptId: string) {
+  localStorage.removeItem(eventsKey(attemptId));
+}
+
+async function sendPendingEvents(attemptId: string) {
+  const sent = readPendingEvents(attemptId);
+  if (!sent.length) return;
+  try {
+    await api.recordEvents(attemptId, { events: sent });
+  } catch (e) {
+    // Server errors are retried; anything else means the batch will never be accepted
+    if (!(e instanceof ApiError) || e.status >= 500) throw e;
+  }
+  const sentIds = new Set(sent.map(e => e.id));
+  const remaining = readPendingEvents(attemptId).filter(e => !sentIds.has(e.id));
+  if (remaining.length) localStorage.setItem(eventsKey(attemptId), JSON.stringify(remaining));
+  else clearPendingEvents(attemptId);
+}
+
+export function useProctoring({
+  attemptId,
+  policy = DEFAULT_PROCTORING_POLICY,
+  active,
+  onTerminate
+}: {
+  attemptId: string | null;
+  policy?: ProctoringPolicy;
+  active: boolean;
+  onTerminate: () => void;
+}) {
+  const [violations, setViolations] = useState(0);
+  const [warning, setWarning] = useState<ProctoringWarning | null>(null);
+  const [pendingAway, setPendingAway] = useState<PendingAway | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
+
+  const countRef = useRef(0);
+  const onTerminateRef = useRef(onTerminate);
+  onTerminateRef.current = onTerminate;
+
+  // The count outlives a reload so refreshing the page cannot reset it
+  useEffect(() => {
+    countRef.current = attemptId ? Number(localStorage.getItem(violationsKey(attemptId)) || 0) : 0;
+    setViolations(countRef.current);
+    setWarning(null);
+  }, [attemptId]);
+
+  const flushEvents = useCallback(() => {
+    if (attemptId) sendPendingEvents(attemptId).catch(() => {});
+  }, [attemptId]);
+
+  // Delivers the log in the background, including anything left over from before a reload or a spell offline
+  useEffect(() => {
+    if (!attemptId) return;
+    let wentOffline = !navigator.onLine;
+    const handleOffline = () => { wentOffline = true; };
+    const handleOnline = () => {
+      if (wentOffline) queueIntegrityEvent(attemptId, 'reconnect');
+      wentOffline = false;
+      flushEvents();
+    };
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    const retry = setInterval(flushEvents, RETRY_MS);
+    flushEvents();
+
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+      clearInterval(retry);
+    };
+  }, [attemptId, flushEvents]);
+
+  const recordViolation = useCallback((event: ProctoringEvent) => {
+    if (!attemptId) return;
+    queueIntegrityEvent(attemptId, event);
+    const count = countRef.current + 1;
+    countRef.current = count;
+    localStorage.setItem(violationsKey(attemptId), String(count));
+    setViolations(count);
+
+    if (count > policy.maxViolations) {
+      setWarning(null);
+      onTerminateRef.current();
+    } else {
+      setWarning({ event, count, allowed: policy.maxViolations });
+      flushEvents();
+    }
+  }, [attemptId, policy.maxViolations, flushEvents]);
+
+  useEffect(() => {
+    if (!active) return;
+    const counts = (event: ProctoringEvent) => policy.events.includes(event);
+
+    // Blur, hidden and fullscreen exit often fire together for one action, so they share a single "away" episode
+    const awayReasons = new Set<ProctoringEvent>();
+    let awayTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const goAway = (event: ProctoringEvent) => {
+      if (!counts(event)) return;
+      const firstReason = awayReasons.size === 0;
+      awayReasons.add(event);
+      if (!firstReason) return;
+
+      if (policy.gracePeriodSeconds === 0) {
+        recordViolation(event);
+        return;
+      }
+      setPendingAway({ event, countsAt: Date.now() + policy.gracePeriodSeconds * 1000 });
+      awayTimer = setTimeout(() => {
+        awayTimer = undefined;
+        setPendingAway(null);
+        if (awayReasons.size > 0) recordViolation(event);
+      }, policy.gracePeriodSeconds * 1000);
+    };
+
+    const comeBack = (event: ProctoringEvent) => {
+      awayReasons.delete(event);
+      if (awayReasons.size === 0 && awayTimer) {
+        clearTimeout(awayTimer);
+        awayTimer = undefined;
+        setPendingAway(null);
+      }
+    };
+
+    const handleBlur = () => goAway('blur');
+    const handleFocus = () => comeBack('blur');
+    const handleVisibilityChange = () => (document.hidden ? goAway('hidden') : comeBack('hidden'));
+    const handleFullscreenChange = () => {
+      const fullscreen = !!document.fullscreenElement;
+      setIsFullscreen(fullscreen);
+      if (fullscreen) comeBack('fullscreen_exit');
+      else goAway('fullscreen_exit');
+    };
+
+    const handleClipboard = (e: ClipboardEvent) => {
+      if (!counts('copy_paste')) return;
+      e.preventDefault();
+      recordViolation('copy_paste');
+    };
+    const handleContextMenu = (e: MouseEvent) => {
+      if (!counts('right_click')) return;
+      e.preventDefault();
+      recordViolation('right_click');
+    };
+
+    // Devtools heuristics: the usual shortcuts, and a docked panel shrinking the viewport
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!counts('devtools')) return;
+      const key = e.key.toUpperCase();
+      const isShortcut = e.key === 'F12'
+        || ((e.ctrlKey || e.metaKey) && e.shiftKey && ['I', 'J', 'C'].includes(key))
+        || (e.metaKey && e.altKey && ['I', 'J', 'C'].includes(key));
+      if (isShortcut) {
+        e.preventDefault();
+        recordViolation('devtools');
+      }
+    };
+    let devtoolsOpen = false;
+    const devtoolsPoll = setInterval(() => {
+      if (!counts('devtools')) return;
+      const open = window.outerWidth - window.innerWidth > DEVTOOLS_SIZE_THRESHOLD
+        || window.outerHeight - window.innerHeight > DEVTOOLS_SIZE_THRESHOLD;
+      if (open && !devtoolsOpen) recordViolation('devtools');
+      devtoolsOpen = open;
+    }, DEVTOOLS_POLL_MS);
+
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    document.addEventListener('paste', handleClipboard);
+    document.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      clearTimeout(awayTimer);
+      clearInterval(devtoolsPoll);
+      setPendingAway(null);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+      document.removeEventListener('paste', handleClipboard);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [active, policy, recordViolation]);
+
+  const enterFullscreen = useCallback(() => {
+    document.documentElement.requestFullscreen().catch(() => {});
+  }, []);
+
+  return {
+    violations,
+    warning,
+    dismissWarning: () => setWarning(null),
+    pendingAway,
+    isFullscreen,
+    enterFullscreen,
+    requiresFullscreen: policy.events.includes('fullscreen_exit')
+  };
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Kept per device rather than per attempt, so a student sets them once
+const READING_SETTINGS_KEY = 'secure-exam:reading-settings';
+
+export const FONT_SCALES = [1, 1.25, 1.5, 1.75];
+
+interface ReadingSettings {
+  fontScale: number;
+  highContrast: boolean;
+}
+
+const readSettings = (): ReadingSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(READING_SETTINGS_KEY) ?? '{}');
+    return {
+      fontScale: FONT_SCALES.includes(saved.fontScale) ? saved.fontScale : 1,
+      highContrast: saved.highContrast === true
+    };
+  } catch {
+    return { fontScale: 1, highContrast: false };
+  }
+};
+
+// Larger text and a high-contrast theme for the exam page. Every size in the UI is in rem,
+// so scaling the root font size scales the whole page; both are undone when the exam leaves the screen.
+export function useReadingSettings(active: boolean) {
+  const [settings, setSettings] = useState(readSettings);
+
+  useEffect(() => {
+    localStorage.setItem(READING_SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    if (!active) return;
+    const root = document.documentElement;
+    root.style.fontSize = `${settings.fontScale * 100}%`;
+    root.classList.toggle('high-contrast', settings.highContrast);
+    return () => {
+      root.style.fontSize = '';
+      root.classList.remove('high-contrast');
+    };
+  }, [active, settings]);
+
+  const changeFontScale = useCallback((step: 1 | -1) => {
+    setSettings(prev => {
+      const idx = Math.min(FONT_SCALES.length - 1, Math.max(0, FONT_SCALES.indexOf(prev.fontScale) + step));
+      return { ...prev, fontScale: FONT_SCALES[idx] };
+    });
+  }, []);
+
+  const toggleHighContrast = useCallback(() => {
+    setSettings(prev => ({ ...prev, highContrast: !prev.highContrast }));
+  }, []);
+
+  return { ...settings, changeFontScale, toggleHighContrast };
+}
@@ -0,0 +1,23 @@
+import type { IntegrityEventType, ProctoringEvent, ProctoringPolicy } from '../types';
+
+export const PROCTORING_EVENTS: ProctoringEvent[] = ['blur', 'hidden', 'fullscreen_exit', 'copy_paste', 'right_click', 'devtools'];
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEvent, string> = {
+  blur: 'Leaving the exam window',
+  hidden: 'Switching tabs or minimizing',
+  fullscreen_exit: 'Exiting fullscreen',
+  copy_paste: 'Copying or pasting',
+  right_click: 'Right-clicking',
+  devtools: 'Opening developer tools'
+};
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  ...PROCTORING_EVENT_LABELS,
+  reconnect: 'Reconnecting to the exam'
+};
+
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  events: ['blur', 'hidden', 'fullscreen_exit'],
+  maxViolations: 3,
+  gracePeriodSeconds: 5
+};
@@ -0,0 +1,74 @@
+import type { Answer, AnswerKey, ChoiceQuestion, Difficulty, NumericKey, Question, QuestionType, ShortAnswerKey, TextKey } from '../types';
+
+export const QUESTION_TYPES: QuestionType[] = ['single_choice', 'multiple_choice', 'true_false', 'numeric', 'fill_blank', 'short_answer'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple select',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  fill_blank: 'Fill in the blank',
+  short_answer: 'Short answer (marked by hand)'
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const questionType = (q: Question): QuestionType => q.type ?? 'single_choice';
+
+export const isChoiceQuestion = (q: Question): q is ChoiceQuestion =>
+  questionType(q) === 'single_choice' || questionType(q) === 'multiple_choice' || questionType(q) === 'true_false';
+
+// Questions a grader can mark with a single option index, which is what partial credit and distractor analysis assume
+export const isSingleAnswerQuestion = (q: Question) => questionType(q) === 'single_choice' || questionType(q) === 'true_false';
+
+export const isNumericKey = (key: AnswerKey | undefined): key is NumericKey =>
+  typeof key === 'object' && key !== null && 'value' in key;
+
+export const isTextKey = (key: AnswerKey | undefined): key is TextKey =>
+  typeof key === 'object' && key !== null && 'accepted' in key;
+
+export const isShortAnswerKey = (key: AnswerKey | undefined): key is ShortAnswerKey =>
+  typeof key === 'object' && key !== null && 'modelAnswer' in key;
+
+// Typed answers are compared after trimming and collapsing runs of whitespace
+export const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const sameOptions = (a: number[], b: number[]) => a.length === b.length && a.every(option => b.includes(option));
+
+// null means the answer cannot be marked automatically and waits for an examiner
+export function isAnswerCorrect(q: Question, key: AnswerKey | undefined, answer: Answer): boolean | null {
+  switch (questionType(q)) {
+    case 'multiple_choice':
+      return Array.isArray(key) && Array.isArray(answer) && sameOptions(key, answer);
+    case 'numeric':
+      // A small epsilon keeps 0.1 + 0.2 style float error from failing an exact key
+      return isNumericKey(key) && typeof answer === 'number' && Math.abs(answer - key.value) <= key.tolerance + 1e-9;
+    case 'fill_blank': {
+      if (!isTextKey(key) || typeof answer !== 'string') return false;
+      const fold = (text: string) => (key.caseSensitive ? normalizeText(text) : normalizeText(text).toLowerCase());
+      return key.accepted.some(accepted => fold(accepted) === fold(answer));
+    }
+    case 'short_answer':
+      return null;
+    default:
+      // A corrected key may accept more than one option
+      return Array.isArray(key) ? typeof answer === 'number' && key.includes(answer) : typeof key === 'number' && answer === key;
+  }
+}
+
+export function formatAnswer(q: Question, answer: Answer | null | undefined): string {
+  if (answer === undefined || answer === null) return 'Not Answered';
+  if (!isChoiceQuestion(q)) return String(answer);
+  const indexes = Array.isArray(answer) ? answer : [answer];
+  return indexes.map(i => q.options[Number(i)] ?? '').join(', ');
+}
+
+export function formatAnswerKey(q: Question, key: AnswerKey | undefined): string {
+  if (key === undefined) return '';
+  if (isNumericKey(key)) return key.tolerance ? `${key.value} ± ${key.tolerance}` : String(key.value);
+  if (isTextKey(key)) return key.accepted.join(' / ');
+  if (isShortAnswerKey(key)) return key.modelAnswer;
+  return formatAnswer(q, key);
+}
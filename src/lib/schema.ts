@@ -0,0 +1,144 @@
+// Runtime checks for the JSON the client and server exchange. A schema is declared with the type it checks, so a change
+// to src/types.ts that its schema does not follow fails the type-check.
+
+export class SchemaError extends Error {
+  constructor(message: string, readonly details: string[]) {
+    super(message);
+  }
+}
+
+type Issues = [path: string, problem: string][];
+
+export interface Schema<T> {
+  readonly type?: T; // carries T for inference; never set
+  readonly isOptional?: boolean;
+  // Records every problem found under `path` and reports whether the value passed
+  check(value: unknown, path: string, issues: Issues): value is T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { isOptional: true } ? K : never }[keyof S];
+export type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const child = (path: string, key: string | number) => (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+function fail(issues: Issues, path: string, problem: string): false {
+  issues.push([path, problem]);
+  return false;
+}
+
+export function string({ min = 0, max = Infinity }: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    check: (value, path, issues): value is string => {
+      if (typeof value !== 'string') return fail(issues, path, 'must be text');
+      if (value.trim().length < min) return fail(issues, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+      if (value.length > max) return fail(issues, path, `must be at most ${max} characters`);
+      return true;
+    },
+  };
+}
+
+export function number({ integer = false, min = -Infinity, max = Infinity }: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check: (value, path, issues): value is number => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(issues, path, 'must be a number');
+      if (integer && !Number.isInteger(value)) return fail(issues, path, 'must be a whole number');
+      if (value < min) return fail(issues, path, max === Infinity ? `must be at least ${min}` : `must be between ${min} and ${max}`);
+      if (value > max) return fail(issues, path, min === -Infinity ? `must be at most ${max}` : `must be between ${min} and ${max}`);
+      return true;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check: (value, path, issues): value is boolean => typeof value === 'boolean' || fail(issues, path, 'must be true or false'),
+  };
+}
+
+export function oneOf<const T extends string | number | boolean>(values: readonly T[]): Schema<T> {
+  return {
+    check: (value, path, issues): value is T =>
+      values.includes(value as T) || fail(issues, path, `must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`),
+  };
+}
+
+// Anything at all; for fields whose rules live in the server's own parsers, and for payloads the server never reads
+export function unknown(): Schema<unknown> {
+  return { check: (_value, _path, _issues): _value is unknown => true };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    isOptional: true,
+    check: (value, path, issues): value is T | undefined => value === undefined || schema.check(value, path, issues),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, path, issues): value is T | null => value === null || schema.check(value, path, issues),
+  };
+}
+
+export function array<T>(item: Schema<T>, { max = Infinity }: { max?: number } = {}): Schema<T[]> {
+  return {
+    check: (value, path, issues): value is T[] => {
+      if (!Array.isArray(value)) return fail(issues, path, 'must be a list');
+      if (value.length > max) return fail(issues, path, `can have at most ${max} entries`);
+      // Every entry is checked so the caller hears about all of them at once
+      return value.map((entry, i) => item.check(entry, child(path, i), issues)).every(Boolean);
+    },
+  };
+}
+
+// Keys the shape does not mention are allowed through untouched
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    check: (value, path, issues): value is ObjectOf<S> => {
+      if (!isPlainObject(value)) return fail(issues, path, 'must be an object');
+      return Object.entries(shape).map(([key, schema]) => schema.check(value[key], child(path, key), issues)).every(Boolean);
+    },
+  };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check: (value, path, issues): value is Record<string, T> => {
+      if (!isPlainObject(value)) return fail(issues, path, 'must be an object');
+      return Object.entries(value).map(([key, v]) => entry.check(v, child(path, key), issues)).every(Boolean);
+    },
+  };
+}
+
+// Passes if any option does. The options' own complaints would mostly be noise, so one problem names what was expected.
+export function union<T extends Schema<unknown>[]>(description: string, ...options: T): Schema<Infer<T[number]>> {
+  return {
+    check: (value, path, issues): value is Infer<T[number]> =>
+      options.some(option => option.check(value, path, [])) || fail(issues, path, `must be ${description}`),
+  };
+}
+
+// Checks against whichever schema `choose` picks for the value, so a tagged shape reports its problems in full
+export function pick<T>(choose: (value: Record<string, unknown>) => Schema<T>): Schema<T> {
+  return {
+    check: (value, path, issues): value is T =>
+      isPlainObject(value) ? choose(value).check(value, path, issues) : fail(issues, path, 'must be an object'),
+  };
+}
+
+// Returns the value as its schema's type, or throws a SchemaError listing every problem as "<path> <problem>"
+export function parse<T>(schema: Schema<T>, value: unknown, subject: string): T {
+  const issues: Issues = [];
+  if (schema.check(value, '', issues)) return value;
+  throw new SchemaError(`The ${subject} is not valid`, issues.map(([path, problem]) => `${path || `The ${subject}`} ${problem}`));
+}
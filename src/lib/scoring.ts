@@ -0,0 +1,9 @@
+import type { ScoringRules } from '../types';
+
+// Matches how exams were marked before scoring became configurable: one mark each, no penalties, 40% to pass
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  negativeMarking: 0,
+  unanswered: 'zero',
+  passPercentage: 40,
+  gradeBands: []
+};
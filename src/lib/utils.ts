@@ -4,3 +4,28 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes survive being read aloud or copied by hand.
+export const EXAM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// Bytes at or above the last whole multiple of the alphabet are redrawn, so every character is equally likely
+export function generateExamCode(length = 6) {
+  const limit = 256 - (256 % EXAM_CODE_ALPHABET.length);
+  let code = '';
+  while (code.length < length) {
+    for (const b of crypto.getRandomValues(new Uint8Array(length))) {
+      if (b < limit && code.length < length) code += EXAM_CODE_ALPHABET[b % EXAM_CODE_ALPHABET.length];
+    }
+  }
+  return code;
+}
+
+export function normalizeExamCode(code: string) {
+  return code.trim().replace(/\s+/g, '').toUpperCase();
+}
+
+// Rostered students get their own link, which fills in their access code
+export function getJoinLink(examId: string, accessCode?: string) {
+  const link = `${window.location.origin}/?exam=${encodeURIComponent(examId)}`;
+  return accessCode ? `${link}&access=${encodeURIComponent(accessCode)}` : link;
+}
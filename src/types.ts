@@ -1,26 +1,436 @@
-export interface Question {
+export type QuestionType = 'single_choice' | 'multiple_choice' | 'true_false' | 'numeric' | 'fill_blank' | 'short_answer';
+
+interface QuestionBase {
   id: string;
   text: string;
+  marks?: number; // defaults to 1
+  negativeMarking?: number; // overrides the exam's fraction deducted for a wrong answer
+}
+
+export interface ChoiceQuestion extends QuestionBase {
+  type?: 'single_choice' | 'multiple_choice' | 'true_false'; // missing on exams saved before question types, meaning single_choice
   options: string[];
 }
 
+export interface OpenQuestion extends QuestionBase {
+  type: 'numeric' | 'fill_blank' | 'short_answer';
+}
+
+export type Question = ChoiceQuestion | OpenQuestion;
+
+export type ExamStatus = 'draft' | 'published' | 'archived';
+
+// Where an exam is in its life. Published exams are scheduled, open or closed depending on their window.
+export type ExamLifecycle = 'draft' | 'scheduled' | 'open' | 'closed' | 'archived';
+
+// When students may see the correct answers: never, once the exam window closes, or right after submitting
+export type AnswerReleasePolicy = 'never' | 'after_close' | 'immediate';
+
+export type ProctoringEvent = 'blur' | 'hidden' | 'fullscreen_exit' | 'copy_paste' | 'right_click' | 'devtools';
+
+export interface ProctoringPolicy {
+  events: ProctoringEvent[]; // which behaviours count as violations
+  maxViolations: number; // warnings allowed before the attempt is terminated
+  gracePeriodSeconds: number; // time to return to the exam before leaving it counts
+}
+
+// Everything the server logs about an attempt's integrity: policy violations plus connection context
+export type IntegrityEventType = ProctoringEvent | 'reconnect';
+
+export interface IntegrityEventInput {
+  id: string; // client-generated so a retried batch is not logged twice
+  type: IntegrityEventType;
+  occurredAt: number;
+}
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  occurredAt: number;
+  violation: boolean; // counted against the exam's proctoring policy
+}
+
+export type SuspicionLevel = 'low' | 'medium' | 'high';
+
+export interface IntegritySummary {
+  attemptId: string;
+  studentName: string;
+  studentClass: string;
+  startedAt: number;
+  submittedAt: number | null;
+  terminated: boolean;
+  violationCount: number;
+  suspicionScore: number; // 0-100
+  suspicionLevel: SuspicionLevel;
+}
+
+export interface IntegrityReport extends IntegritySummary {
+  events: IntegrityEvent[];
+}
+
+// One attempt as the examiner's live monitor shows it
+export interface LiveAttempt extends IntegritySummary {
+  connected: boolean; // the student's page has its live channel open
+  currentQuestionIdx: number; // in the student's own question order
+  answeredCount: number;
+  questionCount: number;
+  deadline: number;
+  lastActivityAt: number;
+  onBreak: boolean;
+}
+
+// A message from the examiner to everyone sitting the exam
+export interface Broadcast {
+  message: string;
+  sentAt: number;
+}
+
+export interface GradeBand {
+  grade: string;
+  minPercentage: number;
+}
+
+// Whether each attempt gets its own question order and option order, drawn from a seed stored on the attempt
+export interface ShufflePolicy {
+  questions: boolean;
+  options: boolean; // true/false options always keep their order
+}
+
+export interface ScoringRules {
+  negativeMarking: number; // fraction of a question's marks deducted for a wrong answer
+  unanswered: 'zero' | 'penalize'; // whether a skipped question is marked like a wrong one
+  passPercentage: number;
+  gradeBands: GradeBand[]; // highest band first; empty means pass/fail only
+}
+
 export interface Exam {
   id: string;
   title: string;
-  questions: Question[];
+  questions: Question[]; // empty for blueprint and shuffled exams until an attempt lays out the student's paper
+  questionCount?: number; // blueprint and shuffled exams only: how many questions each attempt gets
   durationMinutes: number;
+  answerRelease?: AnswerReleasePolicy;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  rosterRequired?: boolean; // students join with a per-student access code instead of typing a name and class
+  proctoring?: ProctoringPolicy;
+  scoring?: ScoringRules;
+}
+
+export interface NumericKey {
+  value: number;
+  tolerance: number; // absolute; answers within value ± tolerance are correct
+}
+
+export interface TextKey {
+  accepted: string[]; // any of these, compared ignoring surrounding and repeated whitespace
+  caseSensitive: boolean;
 }
 
+// Short answers are marked by hand; the model answer only guides the examiner
+export interface ShortAnswerKey {
+  modelAnswer: string;
+}
+
+// Option index for single choice and true/false (several, once a key correction accepts more than one),
+// option indexes for multiple choice
+export type AnswerKey = number | number[] | NumericKey | TextKey | ShortAnswerKey;
+
 export interface SolutionKey {
-  [questionId: string]: number; // index of correct option
+  [questionId: string]: AnswerKey;
+}
+
+// Option index, option indexes, a number or typed text, matching the question's type
+export type Answer = number | number[] | string;
+
+export interface Responses {
+  [questionId: string]: Answer;
+}
+
+// Pending autosave changes; null clears a previously saved answer
+export interface AnswerUpdate {
+  answers: { [questionId: string]: Answer | null };
+  currentQuestionIdx?: number;
+}
+
+// Review notes attached to questions that need an examiner's attention before publishing
+export interface ReviewFlags {
+  [questionId: string]: string[];
+}
+
+// Fraction of a question's marks earned by choosing a nearly-right option. Part of the answer key, so examiner-only.
+export interface PartialCredit {
+  [questionId: string]: { [optionIdx: number]: number };
+}
+
+export interface ExamDraft {
+  questions: Question[];
+  solutionKey: SolutionKey;
+  flags: ReviewFlags;
+  partialCredit?: PartialCredit;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionTags {
+  subject: string;
+  topic: string;
+  difficulty: Difficulty | null;
+}
+
+// A reusable question with its own answer key, owned by one examiner
+export interface BankQuestion extends QuestionTags {
+  id: string; // also the question's id wherever it is drawn
+  question: Question;
+  answerKey: AnswerKey | null;
+  partialCredit: PartialCredit[string];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Adjustments for one student, kept on their roster record and copied onto each attempt they start
+export interface Accommodations {
+  timeMultiplier: number; // 1 is standard time; 1.5 gives half as long again
+  breakMinutes: number; // total time the student may pause the clock for, across any number of breaks
+  proctoringExempt: boolean; // leaving fullscreen or the window is still logged but never counts as a violation
+}
+
+// One real student from an examiner's imported roster
+export interface Student {
+  id: number;
+  studentNumber: string; // the school's own id, unique per examiner
+  name: string;
+  studentClass: string;
+  email: string | null;
+  accommodations: Accommodations;
+}
+
+// A student enrolled on one exam, with the code they join it with
+export interface RosterEntry extends Student {
+  accessCode: string;
+  usedAt: number | null; // codes are one-time; set when an attempt is started with it
+}
+
+// Draws `count` questions matching every tag given; empty tags match anything
+export interface BlueprintSection {
+  subject?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+  count: number;
+}
+
+// An exam assembled per attempt from the question bank instead of a fixed question list
+export interface ExamBlueprint {
+  sections: BlueprintSection[];
+}
+
+// The full exam as its owner sees it, including the answer key
+export interface ExaminerExam extends Exam, ExamDraft {
+  status: ExamStatus;
+  lifecycle: ExamLifecycle;
+  blueprint: ExamBlueprint | null;
+  shuffle: ShufflePolicy;
+  joinCutoffMinutes: number | null; // students cannot start this long after the exam opens
+  maxAttempts: number | null; // per student name and class; null is unlimited
+}
+
+export interface ExamSummary {
+  id: string;
+  title: string;
+  status: ExamStatus;
+  lifecycle: ExamLifecycle;
+  opensAt: string | null;
+  closesAt: string | null;
+  durationMinutes: number;
+  questionCount: number;
+}
+
+// A student's sitting of an exam. Timing is owned by the server; clients only display it.
+export interface AttemptSession {
+  attemptId: string;
+  exam: Exam;
+  studentName: string;
+  studentClass: string;
+  startedAt: number;
+  deadline: number;
+  serverNow: number;
+  status: 'active' | 'submitted';
+  responses: Responses;
+  currentQuestionIdx: number;
+  accommodations: Accommodations;
+  breakStartedAt: number | null; // the clock is stopped while this is set
+  breakRemainingMs: number;
+}
+
+export type ResultStatus = 'PASS' | 'FAIL';
+
+// The student's result screen, as returned on submission
+export interface SubmissionResult {
+  score: number;
+  totalMarks: number;
+  terminated: boolean;
+  resultStatus?: ResultStatus;
+  pendingReview?: number;
+  late?: boolean;
+  solutionKey?: SolutionKey; // only once the examiner's release policy allows it
+  answersAvailableAt?: string | null;
 }
 
 export interface ExamResult {
+  id: number;
+  attemptId: string | null;
+  studentId: number | null; // the roster record, when the student joined with an access code
   studentName: string;
   studentClass: string;
-  responses: { [questionId: string]: number };
   score: number;
   totalMarks: number;
-  timestamp: string;
+  percentage: number;
+  resultStatus: ResultStatus;
+  grade: string | null;
+  pendingReview: number; // answers still waiting for an examiner's mark
   terminated: boolean;
+  late: boolean;
+  timestamp: string;
+}
+
+export interface QuestionResponse {
+  questionId: string;
+  type: QuestionType;
+  text: string;
+  answer: Answer | null;
+  answerText: string;
+  correctAnswerText: string;
+  isCorrect: boolean | null; // null while a short answer awaits marking
+  marks: number;
+  marksAwarded: number;
+}
+
+export interface ExamResultDetail extends ExamResult {
+  responses: QuestionResponse[];
+}
+
+// A question as it can be corrected after publishing: its key as set originally and as currently applied
+export interface RevisableQuestion {
+  question: Question;
+  originalKey: AnswerKey | null;
+  solutionKey: AnswerKey | null;
+  voided: boolean;
+}
+
+// One stored result before and after a regrade
+export interface ScoreChange {
+  resultId: number;
+  studentName: string;
+  studentClass: string;
+  previousScore: number;
+  newScore: number;
+  previousTotalMarks: number;
+  newTotalMarks: number;
+  previousStatus: ResultStatus | null;
+  newStatus: ResultStatus | null;
+}
+
+// An answer-key correction and the regrade it caused; only results whose score or standing moved are listed
+export interface KeyRevision {
+  id: number;
+  questionId: string;
+  previousKey: AnswerKey | null;
+  newKey: AnswerKey | null;
+  previouslyVoided: boolean;
+  voided: boolean;
+  reason: string;
+  revisedAt: number;
+  regradedCount: number;
+  changes: ScoreChange[];
+}
+
+// result: the examiner's per-submission report; student_result: a student's own score; digest: every result once the
+// exam closes; key_revision: the regrade report after an answer-key correction
+export type NotificationKind = 'result' | 'student_result' | 'digest' | 'key_revision';
+
+// A report for each submission, one digest when the exam closes, or no result emails at all
+export type ExaminerNotificationMode = 'each' | 'digest' | 'none';
+
+export interface NotificationSettings {
+  examiner: ExaminerNotificationMode;
+  students: boolean; // email roster students who have an address their own result
+  attachReports: boolean; // attach the PDF result sheet or class summary to the examiner's emails
+}
+
+export interface NotificationTemplate {
+  kind: NotificationKind;
+  subject: string;
+  text: string;
+  html: string;
+  variables: string[]; // the {{placeholders}} this kind of message can use
+  customized: boolean; // false while the built-in template is in use
+}
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxMessage {
+  id: number;
+  kind: NotificationKind;
+  recipient: string;
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  createdAt: number;
+  sentAt: number | null;
+  attachments: string[]; // file names
+}
+
+// A printable PDF: one student's result sheet, or the class summary
+export type ReportKind = 'result_sheet' | 'class_summary';
+
+// Kept for every report the server issues, so a printed copy can be checked by its record code
+export interface ReportRecord {
+  code: string;
+  kind: ReportKind;
+  examId: string;
+  examTitle: string;
+  description: string; // who and what the report covers, in one line
+  fingerprint: string; // SHA-256 over the report's contents; the first 16 characters are printed on each page
+  issuedAt: number;
+}
+
+// A short answer waiting for an examiner, as listed in the grading queue
+export interface PendingGrade {
+  resultId: number;
+  studentName: string;
+  studentClass: string;
+  questionId: string;
+  questionText: string;
+  answer: string;
+  modelAnswer: string;
+  marks: number;
+}
+
+export interface ItemAnalysis {
+  questionId: string;
+  type: QuestionType;
+  text: string;
+  options: string[]; // empty for questions without options
+  correctOption: number | null; // single-answer choice questions only
+  correctOptions: number[]; // every keyed option, including each one of a multiple-select key
+  difficulty: number; // p-value: share of students who answered correctly
+  discrimination: number | null; // upper minus lower 27% group p-values; null with too few attempts
+  optionCounts: number[]; // how many students chose each option; a multiple-choice answer counts towards each option picked
+  omitted: number;
+  flags: string[];
+}
+
+export interface ExamAnalysis {
+  attemptCount: number;
+  meanScore: number;
+  totalMarks: number;
+  kr20: number | null; // reliability; null when it cannot be computed
+  items: ItemAnalysis[];
+}
+
+export interface Examiner {
+  id: number;
+  name: string;
+  email: string;
 }